@@ -0,0 +1,16 @@
+// Languages candidates can answer coding questions in. Only some of them
+// can be executed by the sandbox (see services/codeExecutionService.js).
+export const CODE_LANGUAGES = [
+  'javascript',
+  'typescript',
+  'python',
+  'java',
+  'go',
+  'csharp',
+  'cpp',
+  'ruby',
+  'php',
+  'sql'
+];
+
+export default CODE_LANGUAGES;
@@ -0,0 +1,12 @@
+// Kinds of interview question. The type decides which input the candidate
+// gets and how the answer is graded; multiple-choice answers are graded
+// against the correct options without calling an evaluation provider.
+export const QUESTION_TYPES = [
+  'verbal',
+  'coding',
+  'multiple-choice',
+  'free-text',
+  'system-design'
+];
+
+export default QUESTION_TYPES;
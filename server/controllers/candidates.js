@@ -0,0 +1,227 @@
+import Candidate, { CANDIDATE_STAGES } from '../models/Candidate.js';
+import Interview from '../models/Interview.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+import { saveResume, getResumeFile, deleteResume, ResumeError } from '../services/resumeService.js';
+
+// Fields an admin can set on a candidate. The resume is only set by
+// uploading one.
+const EDITABLE_FIELDS = ['name', 'email', 'phone', 'stage', 'notes'];
+
+const pickEditable = (body) => Object.fromEntries(
+  Object.entries(body).filter(([key]) => EDITABLE_FIELDS.includes(key))
+);
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isDuplicateEmail = (error) => error.code === 11000;
+
+// @desc    Get candidates, optionally filtered by ?stage= and searched by
+//          name or email with ?search=
+// @route   GET /api/v1/candidates
+// @access  Private (Admin only)
+export const getCandidates = asyncHandler(async (req, res, next) => {
+  const { stage, search } = req.query;
+  const query = {};
+
+  if (stage) {
+    query.stage = stage;
+  }
+  if (search) {
+    const pattern = new RegExp(escapeRegExp(String(search).trim()), 'i');
+    query.$or = [{ name: pattern }, { email: pattern }];
+  }
+
+  const candidates = await Candidate.find(query).sort('-updatedAt');
+
+  // Number of interviews per candidate, for the pipeline list
+  const interviewCounts = await Interview.aggregate([
+    { $match: { candidate: { $in: candidates.map(candidate => candidate._id) } } },
+    { $group: { _id: '$candidate', count: { $sum: 1 } } }
+  ]);
+  const countById = new Map(interviewCounts.map(({ _id, count }) => [_id.toString(), count]));
+
+  // Candidates per stage across the whole pipeline, ignoring the filters
+  const stageCounts = await Candidate.aggregate([{ $group: { _id: '$stage', count: { $sum: 1 } } }]);
+
+  res.status(200).json({
+    success: true,
+    count: candidates.length,
+    stages: Object.fromEntries(CANDIDATE_STAGES.map(name => [
+      name,
+      (stageCounts.find(({ _id }) => _id === name) || { count: 0 }).count
+    ])),
+    data: candidates.map(candidate => ({
+      ...candidate.toObject(),
+      interviewCount: countById.get(candidate._id.toString()) || 0
+    }))
+  });
+});
+
+// @desc    Get single candidate with their interviews
+// @route   GET /api/v1/candidates/:id
+// @access  Private (Admin only)
+export const getCandidate = asyncHandler(async (req, res, next) => {
+  const candidate = await Candidate.findById(req.params.id);
+
+  if (!candidate) {
+    return next(new ErrorResponse(`Candidate not found with id of ${req.params.id}`, 404));
+  }
+
+  const interviews = await Interview.find({ candidate: candidate._id })
+    .populate('role', 'name')
+    .populate('techStack', 'name')
+    .sort('-startsAt');
+
+  res.status(200).json({
+    success: true,
+    data: {
+      ...candidate.toObject(),
+      interviews
+    }
+  });
+});
+
+// @desc    Add a candidate to the pipeline
+// @route   POST /api/v1/candidates
+// @access  Private (Admin only)
+export const createCandidate = asyncHandler(async (req, res, next) => {
+  try {
+    const candidate = await Candidate.create({
+      ...pickEditable(req.body),
+      createdBy: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: candidate
+    });
+  } catch (error) {
+    if (isDuplicateEmail(error)) {
+      return next(new ErrorResponse('A candidate with this email already exists', 400));
+    }
+    throw error;
+  }
+});
+
+// @desc    Update a candidate, e.g. move them to another stage
+// @route   PUT /api/v1/candidates/:id
+// @access  Private (Admin only)
+export const updateCandidate = asyncHandler(async (req, res, next) => {
+  const candidate = await Candidate.findById(req.params.id);
+
+  if (!candidate) {
+    return next(new ErrorResponse(`Candidate not found with id of ${req.params.id}`, 404));
+  }
+
+  const updates = pickEditable(req.body);
+  // Invitations go to the account's email, so a new address gets its own
+  // account the next time the candidate is scheduled. Interviews already
+  // scheduled keep the old one.
+  if (updates.email && updates.email.trim().toLowerCase() !== candidate.email) {
+    candidate.user = null;
+  }
+  candidate.set(updates);
+
+  try {
+    await candidate.save();
+  } catch (error) {
+    if (isDuplicateEmail(error)) {
+      return next(new ErrorResponse('A candidate with this email already exists', 400));
+    }
+    throw error;
+  }
+
+  res.status(200).json({
+    success: true,
+    data: candidate
+  });
+});
+
+// @desc    Delete a candidate who has no interviews
+// @route   DELETE /api/v1/candidates/:id
+// @access  Private (Admin only)
+export const deleteCandidate = asyncHandler(async (req, res, next) => {
+  const candidate = await Candidate.findById(req.params.id);
+
+  if (!candidate) {
+    return next(new ErrorResponse(`Candidate not found with id of ${req.params.id}`, 404));
+  }
+
+  // Interviews keep their candidate; move the candidate to rejected instead
+  if (await Interview.exists({ candidate: candidate._id })) {
+    return next(new ErrorResponse('Candidates with interviews cannot be deleted. Move them to rejected instead.', 400));
+  }
+
+  await deleteResume(candidate);
+  await candidate.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
+
+// @desc    Upload a candidate's resume (PDF, DOCX or TXT) in the "resume"
+//          field, replacing any earlier one; its text and skills are
+//          extracted straight away
+// @route   POST /api/v1/candidates/:id/resume
+// @access  Private (Admin only)
+export const uploadResume = asyncHandler(async (req, res, next) => {
+  const candidate = await Candidate.findById(req.params.id);
+
+  if (!candidate) {
+    return next(new ErrorResponse(`Candidate not found with id of ${req.params.id}`, 404));
+  }
+
+  if (!req.files || !req.files.resume) {
+    return next(new ErrorResponse('Please upload a file with the field name "resume"', 400));
+  }
+
+  try {
+    await saveResume(candidate, req.files.resume);
+  } catch (error) {
+    if (error instanceof ResumeError) {
+      return next(new ErrorResponse(error.message, error.statusCode));
+    }
+    throw error;
+  }
+
+  res.status(200).json({
+    success: true,
+    data: candidate
+  });
+});
+
+// @desc    Download a candidate's resume
+// @route   GET /api/v1/candidates/:id/resume
+// @access  Private (Admin only)
+export const downloadResume = asyncHandler(async (req, res, next) => {
+  const candidate = await Candidate.findById(req.params.id);
+
+  if (!candidate) {
+    return next(new ErrorResponse(`Candidate not found with id of ${req.params.id}`, 404));
+  }
+
+  const resume = getResumeFile(candidate);
+  if (!resume) {
+    return next(new ErrorResponse('This candidate has no resume', 404));
+  }
+
+  res.type(resume.contentType);
+  res.download(resume.filePath, resume.fileName, (error) => {
+    if (error && !res.headersSent) {
+      next(new ErrorResponse('The resume file could not be found', 404));
+    }
+  });
+});
+
+export default {
+  getCandidates,
+  getCandidate,
+  createCandidate,
+  updateCandidate,
+  deleteCandidate,
+  uploadResume,
+  downloadResume
+};
@@ -0,0 +1,63 @@
+import Question from '../models/Question.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+import { runCode as runInSandbox, runTestCases, SUPPORTED_LANGUAGES } from '../services/codeExecutionService.js';
+
+// @desc    Run code in the sandbox, against a question's visible test cases
+//          when a question is given, otherwise once with the given stdin
+// @route   POST /api/v1/code/run
+// @access  Private
+export const runCode = asyncHandler(async (req, res, next) => {
+  const { code, language, question: questionId, input } = req.body;
+
+  if (!code || !code.trim()) {
+    return next(new ErrorResponse('Please provide code to run', 400));
+  }
+
+  if (!SUPPORTED_LANGUAGES.includes(language)) {
+    return next(new ErrorResponse(`Unsupported language "${language}". Supported languages: ${SUPPORTED_LANGUAGES.join(', ')}`, 400));
+  }
+
+  if (!questionId) {
+    const result = await runInSandbox({ code, language, input: input || '' });
+    return res.status(200).json({
+      success: true,
+      data: result
+    });
+  }
+
+  const question = await Question.findById(questionId).select('testCases');
+
+  if (!question) {
+    return next(new ErrorResponse(`Question not found with id of ${questionId}`, 404));
+  }
+
+  // Hidden test cases only run when the answer is submitted
+  const visibleTestCases = question.testCases.filter(testCase => !testCase.hidden);
+
+  if (visibleTestCases.length === 0) {
+    return next(new ErrorResponse('This question has no visible test cases', 400));
+  }
+
+  const testResults = await runTestCases({ code, language, testCases: visibleTestCases });
+
+  res.status(200).json({
+    success: true,
+    data: testResults
+  });
+});
+
+// @desc    List languages the sandbox can run
+// @route   GET /api/v1/code/languages
+// @access  Private
+export const getLanguages = (req, res) => {
+  res.status(200).json({
+    success: true,
+    data: SUPPORTED_LANGUAGES
+  });
+};
+
+export default {
+  runCode,
+  getLanguages
+};
@@ -1,10 +1,36 @@
 import ErrorResponse from '../utils/errorResponse.js';
-import { sendInterviewInvitation } from '../services/emailService.js';
+import { sendInvitationEmail } from '../services/interviewEmailService.js';
+import { sendInterviewResults } from '../services/emailService.js';
+import { retryEmail, OutboxError } from '../services/outboxService.js';
+import { getEmailTransportName } from '../services/emailTransportService.js';
+import {
+  resolveEmailTemplate,
+  renderEmailTemplate,
+  SAMPLE_TEMPLATE_DATA
+} from '../services/emailTemplateService.js';
+import {
+  EMAIL_TEMPLATE_TYPES,
+  COMMON_TEMPLATE_VARIABLES,
+  TEMPLATE_VARIABLES
+} from '../services/emailTemplates.js';
+import { checkJoinWindow } from '../services/joinWindowService.js';
+import {
+  revokeInvitations,
+  findInvitation,
+  redeemInvitation,
+  getLatestInvitation,
+  InvitationError
+} from '../services/invitationService.js';
 import Interview from '../models/Interview.js';
-import Candidate from '../models/Candidate.js';
-import Role from '../models/Role.js';
-import TechStack from '../models/TechStack.js';
-import User from '../models/User.js';
+import Answer from '../models/Answer.js';
+import OutboxEmail from '../models/OutboxEmail.js';
+import EmailTemplate from '../models/EmailTemplate.js';
+
+const getCompanyName = (req) => (req.user && req.user.company) || 'SkillSpark';
+
+// Templates an admin edits are their company's, or the shared ones when
+// they have no company
+const getTemplateCompany = (req) => (req.user && req.user.company) || '';
 
 /**
  * Send interview invitation email to candidate
@@ -21,9 +47,7 @@ const sendInterviewInvitationEmail = async (req, res, next) => {
     console.log('Finding interview in database...');
     const interview = await Interview.findById(interviewId)
       .populate('candidate')
-      .populate('role')
-      .populate('techStack')
-      .populate('techStacks');
+      .populate('role');
     
     console.log('Interview found:', interview ? 'Yes' : 'No');
     
@@ -31,105 +55,74 @@ const sendInterviewInvitationEmail = async (req, res, next) => {
       return next(new ErrorResponse(`Interview not found with id of ${interviewId}`, 404));
     }
     
-    // Get candidate email
-    const candidateEmail = interview.candidate.email || interview.candidate;
-    
-    // Get candidate name (if available)
-    let candidateName = '';
-    if (typeof interview.candidate === 'object' && interview.candidate.name) {
-      candidateName = interview.candidate.name;
-    } else if (typeof candidateEmail === 'string') {
-      // Extract name from email (before @)
-      candidateName = candidateEmail.split('@')[0];
-    }
-    
-    // Get role name
-    let roleName = 'the position';
-    if (interview.role) {
-      if (typeof interview.role === 'object' && interview.role.name) {
-        roleName = interview.role.name;
-      } else if (typeof interview.role === 'string') {
-        // Try to fetch role name
-        try {
-          const role = await Role.findById(interview.role);
-          if (role) {
-            roleName = role.name;
-          }
-        } catch (err) {
-          console.error('Error fetching role:', err);
-        }
-      }
-    }
-    
-    // Get tech stacks
-    let techStackNames = [];
-    
-    // Check for multiple tech stacks first
-    if (interview.techStacks && Array.isArray(interview.techStacks) && interview.techStacks.length > 0) {
-      techStackNames = interview.techStacks.map(stack => {
-        if (typeof stack === 'object' && stack.name) {
-          return stack.name;
-        }
-        return '';
-      }).filter(name => name !== '');
-    } 
-    // Fallback to single tech stack
-    else if (interview.techStack) {
-      if (typeof interview.techStack === 'object' && interview.techStack.name) {
-        techStackNames.push(interview.techStack.name);
-      } else if (typeof interview.techStack === 'string') {
-        // Try to fetch tech stack name
-        try {
-          const stack = await TechStack.findById(interview.techStack);
-          if (stack) {
-            techStackNames.push(stack.name);
-          }
-        } catch (err) {
-          console.error('Error fetching tech stack:', err);
-        }
-      }
-    }
-    
-    // Format date and time
-    const interviewDate = new Date(interview.scheduledDate);
-    const formattedDate = interviewDate.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-    
-    const formattedTime = interview.scheduledTime;
-    
-    // Generate interview link with token
-    // This link will only work during the scheduled time window
-    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-    const interviewLink = `${baseUrl}/interview/${interviewId}?token=${interview._id}`;
-    
-    // Send email
-    const emailResult = await sendInterviewInvitation({
-      to: candidateEmail,
-      candidateName,
-      companyName: req.user ? req.user.company || 'SkillSpark' : 'SkillSpark',
-      role: roleName,
-      date: formattedDate,
-      time: formattedTime,
-      duration: interview.duration || 60,
-      interviewLink
+    // Email a fresh single-use link with a calendar invitation. Links sent
+    // earlier stop working.
+    const { email, invitation } = await sendInvitationEmail(interview, {
+      companyName: getCompanyName(req),
+      createdBy: req.user && req.user.id
     });
     
     res.status(200).json({
       success: true,
-      data: emailResult
+      data: email,
+      invitation
     });
   } catch (error) {
     console.error('Error sending interview invitation:', error);
+    if (error instanceof InvitationError) {
+      return next(new ErrorResponse(error.message, error.statusCode));
+    }
+    next(error);
+  }
+};
+
+/**
+ * Get the latest invitation link sent for an interview (never the token itself)
+ * @route GET /api/v1/email/invitation/:id
+ * @access Private (Admin only)
+ */
+const getInvitation = async (req, res, next) => {
+  try {
+    const invitation = await getLatestInvitation(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: invitation
+    });
+  } catch (error) {
+    console.error('Error fetching interview invitation:', error);
+    next(error);
+  }
+};
+
+/**
+ * Revoke the unused invitation links of an interview
+ * @route DELETE /api/v1/email/invitation/:id
+ * @access Private (Admin only)
+ */
+const revokeInvitation = async (req, res, next) => {
+  try {
+    const interview = await Interview.findById(req.params.id);
+
+    if (!interview) {
+      return next(new ErrorResponse(`Interview not found with id of ${req.params.id}`, 404));
+    }
+
+    const revoked = await revokeInvitations(interview._id);
+
+    res.status(200).json({
+      success: true,
+      data: { revoked }
+    });
+  } catch (error) {
+    console.error('Error revoking interview invitation:', error);
     next(error);
   }
 };
 
 /**
- * Verify if an interview token is valid for joining
+ * Verify an invitation token and, during the join window, exchange it for a
+ * short-lived session token the candidate can take the interview with
  * @route GET /api/v1/email/verify-token/:id
  * @access Public
  */
@@ -145,63 +138,57 @@ const verifyInterviewToken = async (req, res, next) => {
       return next(new ErrorResponse(`Interview not found with id of ${interviewId}`, 404));
     }
     
-    // Verify token matches interview id
-    if (token !== interview._id.toString()) {
-      return next(new ErrorResponse('Invalid interview token', 401));
+    // Verify the token belongs to this interview and can still be used
+    let invitation;
+    try {
+      invitation = await findInvitation(interview, token);
+    } catch (invitationError) {
+      if (!(invitationError instanceof InvitationError)) throw invitationError;
+      return res.status(invitationError.statusCode).json({
+        success: false,
+        message: invitationError.message
+      });
     }
     
-    // Check if interview is scheduled for now or within the next 10 minutes
+    // Check the interview's join window, the same rule starting an interview uses
     const now = new Date();
-    const scheduledDateTime = new Date(`${interview.scheduledDate}T${interview.scheduledTime}`);
-    
-    // Calculate time window (scheduled time to scheduled time + 10 minutes)
-    const timeWindowEnd = new Date(scheduledDateTime);
-    timeWindowEnd.setMinutes(timeWindowEnd.getMinutes() + 10);
-    
-    // Calculate a buffer time (5 minutes before scheduled time)
-    const bufferTime = new Date(scheduledDateTime);
-    bufferTime.setMinutes(bufferTime.getMinutes() - 5);
-    
-    // Check if current time is within the allowed window (between scheduled time and end time)
-    // Strictly enforce that candidates cannot join before the scheduled time
-    const isWithinTimeWindow = now >= scheduledDateTime && now <= timeWindowEnd;
+    const joinWindow = checkJoinWindow(interview, now);
     
-    // Check if candidate is trying to join too early
-    const isTooEarly = now < scheduledDateTime;
-    
-    if (!isWithinTimeWindow) {
-      let message = 'Interview is not currently active';
-      let statusCode = 403;
-      
-      if (isTooEarly) {
-        // Calculate minutes until interview starts
-        const minutesUntilStart = Math.ceil((scheduledDateTime.getTime() - now.getTime()) / (1000 * 60));
-        message = `Interview has not started yet. Please join at the scheduled time in ${minutesUntilStart} minute(s).`;
-        statusCode = 403; // Forbidden - not allowed to join yet
-      } else if (now > timeWindowEnd) {
-        message = 'Interview time window has expired. The link is only valid for 10 minutes after the scheduled start time. Please contact the recruiter.';
-        statusCode = 410; // Gone - resource no longer available
-      }
-      
-      return res.status(statusCode).json({
+    if (!joinWindow.open) {
+      return res.status(joinWindow.statusCode).json({
         success: false,
-        message,
-        scheduledTime: scheduledDateTime,
+        message: joinWindow.message,
+        startsAt: joinWindow.startsAt,
         currentTime: now,
-        timeWindowEnd,
-        isTooEarly,
-        isExpired: now > timeWindowEnd
+        timeWindowStart: joinWindow.opensAt,
+        timeWindowEnd: joinWindow.closesAt,
+        isTooEarly: joinWindow.isTooEarly,
+        isExpired: joinWindow.isExpired
       });
     }
     
-    // If we reach here, the token is valid and the time is right
+    // If we reach here, the token is valid and the time is right. The
+    // invitation is used up in exchange for the session.
+    let session;
+    try {
+      session = await redeemInvitation(invitation, interview);
+    } catch (invitationError) {
+      if (!(invitationError instanceof InvitationError)) throw invitationError;
+      return res.status(invitationError.statusCode).json({
+        success: false,
+        message: invitationError.message
+      });
+    }
+
     res.status(200).json({
       success: true,
       message: 'Interview token is valid',
+      token: session.token,
+      expiresAt: session.expiresAt,
       interview: {
         id: interview._id,
-        scheduledDate: interview.scheduledDate,
-        scheduledTime: interview.scheduledTime,
+        startsAt: joinWindow.startsAt,
+        candidateTimezone: interview.candidateTimezone,
         duration: interview.duration
       }
     });
@@ -211,7 +198,236 @@ const verifyInterviewToken = async (req, res, next) => {
   }
 };
 
+/**
+ * Email a candidate the results of their completed interview
+ * @route POST /api/v1/email/results/:id
+ * @access Private (Admin only)
+ */
+const sendInterviewResultsEmail = async (req, res, next) => {
+  try {
+    const interview = await Interview.findById(req.params.id)
+      .populate('candidate')
+      .populate('role');
+
+    if (!interview) {
+      return next(new ErrorResponse(`Interview not found with id of ${req.params.id}`, 404));
+    }
+
+    // Interviews that ran out of time were taken too, just not finished
+    if (!['completed', 'expired'].includes(interview.status)) {
+      return next(new ErrorResponse('Results can only be sent for completed or expired interviews', 400));
+    }
+
+    // Answers whose evaluation failed have no score
+    const answers = await Answer.find({ interview: interview._id });
+    const scores = answers
+      .filter(answer => answer.evaluationStatus === 'completed' && typeof answer.score === 'number')
+      .map(answer => answer.score);
+    const score = scores.length > 0
+      ? Math.round(scores.reduce((sum, value) => sum + value, 0) / scores.length * 10) / 10
+      : undefined;
+
+    const email = await sendInterviewResults({
+      to: interview.candidate.email,
+      candidateName: interview.candidate.name,
+      companyName: getCompanyName(req),
+      role: (interview.role && interview.role.name) || 'the position',
+      score,
+      answeredCount: answers.length,
+      message: req.body && req.body.message,
+      interview: interview._id
+    });
+
+    res.status(200).json({
+      success: true,
+      data: email
+    });
+  } catch (error) {
+    console.error('Error sending interview results:', error);
+    next(error);
+  }
+};
+
+/**
+ * List sent and pending emails, newest first
+ * @route GET /api/v1/email/outbox
+ * @access Private (Admin only)
+ */
+const getOutbox = async (req, res, next) => {
+  try {
+    const query = {};
+    if (req.query.status) {
+      query.status = req.query.status;
+    }
+    if (req.query.interview) {
+      query.interview = req.query.interview;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+
+    const [emails, total] = await Promise.all([
+      OutboxEmail.find(query)
+        .select('-html')
+        .sort('-createdAt')
+        .skip((page - 1) * limit)
+        .limit(limit),
+      OutboxEmail.countDocuments(query)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: emails.length,
+      total,
+      transport: getEmailTransportName(),
+      data: emails
+    });
+  } catch (error) {
+    console.error('Error fetching email outbox:', error);
+    next(error);
+  }
+};
+
+/**
+ * Try a failed email again
+ * @route POST /api/v1/email/outbox/:id/retry
+ * @access Private (Admin only)
+ */
+const retryOutboxEmail = async (req, res, next) => {
+  try {
+    const email = await retryEmail(req.params.id);
+
+    if (!email) {
+      return next(new ErrorResponse(`Email not found with id of ${req.params.id}`, 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: email
+    });
+  } catch (error) {
+    console.error('Error retrying email:', error);
+    if (error instanceof OutboxError) {
+      return next(new ErrorResponse(error.message, error.statusCode));
+    }
+    next(error);
+  }
+};
+
+/**
+ * Get the template of every email type as the admin's company uses it
+ * @route GET /api/v1/email/templates
+ * @access Private (Admin only)
+ */
+const getEmailTemplates = async (req, res, next) => {
+  try {
+    const company = getTemplateCompany(req);
+    const templates = await Promise.all(EMAIL_TEMPLATE_TYPES.map(async type => ({
+      ...await resolveEmailTemplate(type, company),
+      variables: [...COMMON_TEMPLATE_VARIABLES, ...TEMPLATE_VARIABLES[type]]
+    })));
+
+    res.status(200).json({
+      success: true,
+      company,
+      data: templates
+    });
+  } catch (error) {
+    console.error('Error fetching email templates:', error);
+    next(error);
+  }
+};
+
+/**
+ * Save the admin's company's version of an email template
+ * @route PUT /api/v1/email/templates/:type
+ * @access Private (Admin only)
+ */
+const updateEmailTemplate = async (req, res, next) => {
+  try {
+    const { type } = req.params;
+    if (!EMAIL_TEMPLATE_TYPES.includes(type)) {
+      return next(new ErrorResponse(`Unknown email type "${type}"`, 404));
+    }
+
+    const company = getTemplateCompany(req);
+    const template = await EmailTemplate.findOneAndUpdate(
+      { type, company },
+      {
+        subject: req.body.subject,
+        html: req.body.html,
+        brandColor: req.body.brandColor || undefined,
+        updatedBy: req.user.id,
+        updatedAt: new Date()
+      },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Error saving email template:', error);
+    next(error);
+  }
+};
+
+/**
+ * Go back to the built-in (or shared) template for an email type
+ * @route DELETE /api/v1/email/templates/:type
+ * @access Private (Admin only)
+ */
+const resetEmailTemplate = async (req, res, next) => {
+  try {
+    await EmailTemplate.deleteOne({ type: req.params.type, company: getTemplateCompany(req) });
+
+    res.status(200).json({
+      success: true,
+      data: {}
+    });
+  } catch (error) {
+    console.error('Error resetting email template:', error);
+    next(error);
+  }
+};
+
+/**
+ * Render a template, saved or not, with sample values
+ * @route POST /api/v1/email/templates/:type/preview
+ * @access Private (Admin only)
+ */
+const previewEmailTemplate = async (req, res, next) => {
+  try {
+    const { type } = req.params;
+    if (!EMAIL_TEMPLATE_TYPES.includes(type)) {
+      return next(new ErrorResponse(`Unknown email type "${type}"`, 404));
+    }
+
+    const template = req.body && req.body.html
+      ? req.body
+      : await resolveEmailTemplate(type, getTemplateCompany(req));
+
+    res.status(200).json({
+      success: true,
+      data: renderEmailTemplate(template, { ...SAMPLE_TEMPLATE_DATA, companyName: getCompanyName(req) })
+    });
+  } catch (error) {
+    console.error('Error previewing email template:', error);
+    next(error);
+  }
+};
+
 export {
   sendInterviewInvitationEmail as sendInterviewInvitation,
-  verifyInterviewToken
+  getInvitation,
+  revokeInvitation,
+  verifyInterviewToken,
+  sendInterviewResultsEmail as sendInterviewResults,
+  getOutbox,
+  retryOutboxEmail,
+  getEmailTemplates,
+  updateEmailTemplate,
+  resetEmailTemplate,
+  previewEmailTemplate
 };
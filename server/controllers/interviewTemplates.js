@@ -0,0 +1,101 @@
+import InterviewTemplate from '../models/InterviewTemplate.js';
+import Interview from '../models/Interview.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+
+// @desc    Get all interview templates, optionally for one role
+// @route   GET /api/v1/interview-templates
+// @access  Private
+export const getInterviewTemplates = asyncHandler(async (req, res, next) => {
+  const query = req.query.role ? { role: req.query.role } : {};
+  const templates = await InterviewTemplate.find(query)
+    .populate('role', 'name')
+    .populate('sections.techStack', 'name')
+    .sort('name');
+
+  res.status(200).json({
+    success: true,
+    count: templates.length,
+    data: templates
+  });
+});
+
+// @desc    Get single interview template
+// @route   GET /api/v1/interview-templates/:id
+// @access  Private
+export const getInterviewTemplate = asyncHandler(async (req, res, next) => {
+  const template = await InterviewTemplate.findById(req.params.id)
+    .populate('role', 'name')
+    .populate('sections.techStack', 'name')
+    .populate('mandatoryQuestions', 'text difficulty techStack');
+
+  if (!template) {
+    return next(new ErrorResponse(`Interview template not found with id of ${req.params.id}`, 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    data: template
+  });
+});
+
+// @desc    Create new interview template
+// @route   POST /api/v1/interview-templates
+// @access  Private (Admin only)
+export const createInterviewTemplate = asyncHandler(async (req, res, next) => {
+  const template = await InterviewTemplate.create(req.body);
+
+  res.status(201).json({
+    success: true,
+    data: template
+  });
+});
+
+// @desc    Update interview template
+// @route   PUT /api/v1/interview-templates/:id
+// @access  Private (Admin only)
+export const updateInterviewTemplate = asyncHandler(async (req, res, next) => {
+  const template = await InterviewTemplate.findById(req.params.id);
+
+  if (!template) {
+    return next(new ErrorResponse(`Interview template not found with id of ${req.params.id}`, 404));
+  }
+
+  // Saved rather than updated in place so the difficulty mix check runs.
+  // Interviews already created keep the questions they were given.
+  template.set(req.body);
+  await template.save();
+
+  res.status(200).json({
+    success: true,
+    data: template
+  });
+});
+
+// @desc    Delete interview template
+// @route   DELETE /api/v1/interview-templates/:id
+// @access  Private (Admin only)
+export const deleteInterviewTemplate = asyncHandler(async (req, res, next) => {
+  const template = await InterviewTemplate.findById(req.params.id);
+
+  if (!template) {
+    return next(new ErrorResponse(`Interview template not found with id of ${req.params.id}`, 404));
+  }
+
+  // Interviews created from it keep their question set
+  await Interview.updateMany({ template: template._id }, { template: null });
+  await template.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
+
+export default {
+  getInterviewTemplates,
+  getInterviewTemplate,
+  createInterviewTemplate,
+  updateInterviewTemplate,
+  deleteInterviewTemplate
+};
@@ -0,0 +1,105 @@
+import fs from 'fs/promises';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+import {
+  previewQuestionImport,
+  importQuestions,
+  exportQuestions,
+  QuestionImportError
+} from '../services/questionImportService.js';
+
+// The file comes as a multipart upload in the "file" field, or as JSON
+// { content, fileName or format }. `techStack` is used for questions that
+// name no tech stack.
+const readImportInput = async (req) => {
+  const file = req.files && req.files.file;
+  let content = req.body.content;
+  if (file) {
+    // Uploads are written to temporary files unless the server keeps them in memory
+    content = file.tempFilePath ? await fs.readFile(file.tempFilePath, 'utf8') : file.data.toString('utf8');
+  }
+
+  return {
+    content,
+    fileName: file ? file.name : req.body.fileName,
+    format: req.body.format || undefined,
+    defaultTechStack: req.body.techStack || undefined
+  };
+};
+
+const toErrorResponse = (error) => {
+  if (error instanceof QuestionImportError) {
+    return new ErrorResponse(error.message, error.statusCode);
+  }
+  throw error;
+};
+
+// @desc    Check a CSV, JSON or Markdown question file without saving it.
+//          Returns every row as valid, invalid (with its errors) or duplicate.
+// @route   POST /api/v1/questions/import/preview
+// @access  Private (Admin only)
+export const previewImport = asyncHandler(async (req, res, next) => {
+  let preview;
+  try {
+    preview = await previewQuestionImport(await readImportInput(req));
+  } catch (error) {
+    return next(toErrorResponse(error));
+  }
+
+  res.status(200).json({
+    success: true,
+    data: preview
+  });
+});
+
+// @desc    Import the questions of a file, skipping duplicates. Nothing is
+//          saved while any row is invalid.
+// @route   POST /api/v1/questions/import
+// @access  Private (Admin only)
+export const importQuestionFile = asyncHandler(async (req, res, next) => {
+  let result;
+  try {
+    result = await importQuestions({ ...(await readImportInput(req)), author: req.user._id });
+  } catch (error) {
+    return next(toErrorResponse(error));
+  }
+
+  if (result.summary.invalid > 0) {
+    return next(new ErrorResponse(
+      `${result.summary.invalid} of the questions have errors. Preview the file to see them.`,
+      400
+    ));
+  }
+
+  res.status(201).json({
+    success: true,
+    data: result
+  });
+});
+
+// @desc    Download the question bank of a tech stack with ?techStack= in
+//          ?format=json (default), csv or markdown
+// @route   GET /api/v1/questions/export
+// @access  Private (Admin only)
+export const exportQuestionFile = asyncHandler(async (req, res, next) => {
+  if (!req.query.techStack) {
+    return next(new ErrorResponse('Please choose a tech stack to export', 400));
+  }
+
+  let file;
+  try {
+    file = await exportQuestions(req.query.techStack, req.query.format || undefined);
+  } catch (error) {
+    return next(toErrorResponse(error));
+  }
+
+  res.set('Content-Type', `${file.contentType}; charset=utf-8`);
+  res.set('Content-Disposition', `attachment; filename="${file.fileName}"`);
+  res.status(200).send(file.content);
+});
+
+export default {
+  previewImport,
+  importQuestionFile,
+  exportQuestionFile
+};
@@ -0,0 +1,34 @@
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+import { generateQuestionDrafts, QuestionGenerationError } from '../services/questionGenerationService.js';
+import { InvalidEvaluationError } from '../services/evaluationService.js';
+
+// @desc    Draft new questions for a tech stack with the evaluation provider.
+//          Nothing is saved; each draft says which existing question it
+//          resembles, if any, and the admin saves the ones to keep.
+// @route   POST /api/v1/questions/generate
+// @access  Private (Admin only)
+export const generateQuestions = asyncHandler(async (req, res, next) => {
+  const { techStack, count, difficultyMix, type, topics, provider } = req.body;
+
+  let result;
+  try {
+    result = await generateQuestionDrafts({ techStack, count, difficultyMix, type, topics, provider });
+  } catch (error) {
+    if (error instanceof QuestionGenerationError) {
+      return next(new ErrorResponse(error.message, error.statusCode));
+    }
+    console.error('Question generation error:', error.message);
+    const statusCode = error instanceof InvalidEvaluationError ? 422 : 502;
+    return next(new ErrorResponse(`Question generation failed: ${error.message}`, statusCode));
+  }
+
+  res.status(200).json({
+    success: true,
+    data: result
+  });
+});
+
+export default {
+  generateQuestions
+};
@@ -1,4 +1,5 @@
 import Role from '../models/Role.js';
+import InterviewTemplate from '../models/InterviewTemplate.js';
 import ErrorResponse from '../utils/errorResponse.js';
 import asyncHandler from '../middleware/async.js';
 
@@ -74,6 +75,8 @@ export const deleteRole = asyncHandler(async (req, res, next) => {
     return next(new ErrorResponse(`Role not found with id of ${req.params.id}`, 404));
   }
 
+  // Templates only make sense for their role
+  await InterviewTemplate.deleteMany({ role: role._id });
   await role.deleteOne();
 
   res.status(200).json({
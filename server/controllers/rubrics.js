@@ -0,0 +1,108 @@
+import Rubric from '../models/Rubric.js';
+import Role from '../models/Role.js';
+import TechStack from '../models/TechStack.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+import { DEFAULT_RUBRIC } from '../services/rubricService.js';
+
+// @desc    Get all rubrics
+// @route   GET /api/v1/rubrics
+// @access  Private
+export const getRubrics = asyncHandler(async (req, res, next) => {
+  const rubrics = await Rubric.find().sort('name');
+
+  res.status(200).json({
+    success: true,
+    count: rubrics.length,
+    data: rubrics
+  });
+});
+
+// @desc    Get the rubric used when none is configured
+// @route   GET /api/v1/rubrics/default
+// @access  Private
+export const getDefaultRubric = asyncHandler(async (req, res, next) => {
+  res.status(200).json({
+    success: true,
+    data: DEFAULT_RUBRIC
+  });
+});
+
+// @desc    Get single rubric
+// @route   GET /api/v1/rubrics/:id
+// @access  Private
+export const getRubric = asyncHandler(async (req, res, next) => {
+  const rubric = await Rubric.findById(req.params.id);
+
+  if (!rubric) {
+    return next(new ErrorResponse(`Rubric not found with id of ${req.params.id}`, 404));
+  }
+
+  res.status(200).json({
+    success: true,
+    data: rubric
+  });
+});
+
+// @desc    Create new rubric
+// @route   POST /api/v1/rubrics
+// @access  Private (Admin only)
+export const createRubric = asyncHandler(async (req, res, next) => {
+  const rubric = await Rubric.create(req.body);
+
+  res.status(201).json({
+    success: true,
+    data: rubric
+  });
+});
+
+// @desc    Update rubric
+// @route   PUT /api/v1/rubrics/:id
+// @access  Private (Admin only)
+export const updateRubric = asyncHandler(async (req, res, next) => {
+  let rubric = await Rubric.findById(req.params.id);
+
+  if (!rubric) {
+    return next(new ErrorResponse(`Rubric not found with id of ${req.params.id}`, 404));
+  }
+
+  rubric = await Rubric.findByIdAndUpdate(req.params.id, req.body, {
+    new: true,
+    runValidators: true
+  });
+
+  res.status(200).json({
+    success: true,
+    data: rubric
+  });
+});
+
+// @desc    Delete rubric
+// @route   DELETE /api/v1/rubrics/:id
+// @access  Private (Admin only)
+export const deleteRubric = asyncHandler(async (req, res, next) => {
+  const rubric = await Rubric.findById(req.params.id);
+
+  if (!rubric) {
+    return next(new ErrorResponse(`Rubric not found with id of ${req.params.id}`, 404));
+  }
+
+  // Roles and tech stacks using this rubric fall back to the next one in line
+  await Role.updateMany({ rubric: rubric._id }, { rubric: null });
+  await TechStack.updateMany({ rubric: rubric._id }, { rubric: null });
+  await rubric.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
+
+export default {
+  getRubrics,
+  getDefaultRubric,
+  getRubric,
+  createRubric,
+  updateRubric,
+  deleteRubric
+};
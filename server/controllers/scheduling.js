@@ -0,0 +1,218 @@
+import AvailabilityWindow from '../models/AvailabilityWindow.js';
+import Interview from '../models/Interview.js';
+import ErrorResponse from '../utils/errorResponse.js';
+import asyncHandler from '../middleware/async.js';
+import { isValidTimeZone } from '../utils/timezone.js';
+import {
+  createAvailabilityWindow,
+  getFreeSlots,
+  bookSlot,
+  SchedulingError,
+  SLOT_INTERVAL_MINUTES
+} from '../services/schedulingService.js';
+import { sendInvitationEmail, sendSchedulingEmail } from '../services/interviewEmailService.js';
+import { findInvitation, useInvitation, InvitationError } from '../services/invitationService.js';
+
+// The public scheduling page shows these messages to the candidate
+const sendCandidateError = (res, error) => {
+  if (!(error instanceof InvitationError) && !(error instanceof SchedulingError)) throw error;
+  return res.status(error.statusCode).json({
+    success: false,
+    message: error.message
+  });
+};
+
+// @desc    Get the current admin's upcoming availability windows
+// @route   GET /api/v1/scheduling/availability
+// @access  Private (Admin only)
+export const getAvailability = asyncHandler(async (req, res, next) => {
+  const windows = await AvailabilityWindow.find({
+    interviewer: req.user._id,
+    endsAt: { $gt: new Date() }
+  }).sort('startsAt');
+
+  res.status(200).json({
+    success: true,
+    count: windows.length,
+    data: windows
+  });
+});
+
+// @desc    Publish an availability window for the current admin
+// @route   POST /api/v1/scheduling/availability
+// @access  Private (Admin only)
+export const createAvailability = asyncHandler(async (req, res, next) => {
+  const { startsAt, endsAt, timezone } = req.body;
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return next(new ErrorResponse('Please provide when the window starts and ends', 400));
+  }
+  if (end <= start) {
+    return next(new ErrorResponse('A window must end after it starts', 400));
+  }
+  if (end <= new Date()) {
+    return next(new ErrorResponse('A window must end in the future', 400));
+  }
+  if (timezone && !isValidTimeZone(timezone)) {
+    return next(new ErrorResponse(`${timezone} is not a valid IANA time zone`, 400));
+  }
+
+  try {
+    const window = await createAvailabilityWindow({
+      interviewer: req.user._id,
+      startsAt: start,
+      endsAt: end,
+      timezone
+    });
+
+    res.status(201).json({
+      success: true,
+      data: window
+    });
+  } catch (error) {
+    if (error instanceof SchedulingError) {
+      return next(new ErrorResponse(error.message, error.statusCode));
+    }
+    throw error;
+  }
+});
+
+// @desc    Remove one of the current admin's availability windows. Interviews
+//          already booked in it stay scheduled.
+// @route   DELETE /api/v1/scheduling/availability/:id
+// @access  Private (Admin only)
+export const deleteAvailability = asyncHandler(async (req, res, next) => {
+  const window = await AvailabilityWindow.findOne({ _id: req.params.id, interviewer: req.user._id });
+
+  if (!window) {
+    return next(new ErrorResponse(`Availability window not found with id of ${req.params.id}`, 404));
+  }
+
+  await window.deleteOne();
+
+  res.status(200).json({
+    success: true,
+    data: {}
+  });
+});
+
+// @desc    Email the candidate a link to pick a time for the interview
+// @route   POST /api/v1/scheduling/:interviewId/send-link
+// @access  Private (Admin only)
+export const sendSchedulingLink = asyncHandler(async (req, res, next) => {
+  const interview = await Interview.findById(req.params.interviewId);
+
+  if (!interview) {
+    return next(new ErrorResponse(`Interview not found with id of ${req.params.interviewId}`, 404));
+  }
+  if (interview.status !== 'awaiting-slot') {
+    return next(new ErrorResponse('Only interviews waiting for the candidate to pick a time can be sent a scheduling link', 400));
+  }
+
+  try {
+    const { email, invitation } = await sendSchedulingEmail(interview, {
+      companyName: req.user.company || 'SkillSpark',
+      createdBy: req.user.id
+    });
+
+    res.status(200).json({
+      success: true,
+      data: email,
+      invitation
+    });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return next(new ErrorResponse(error.message, error.statusCode));
+    }
+    throw error;
+  }
+});
+
+// @desc    List the slots the candidate can pick from
+// @route   GET /api/v1/scheduling/:interviewId/slots?token=
+// @access  Public (scheduling link)
+export const getSlots = asyncHandler(async (req, res, next) => {
+  const interview = await Interview.findById(req.params.interviewId).populate('role', 'name');
+
+  if (!interview) {
+    return next(new ErrorResponse(`Interview not found with id of ${req.params.interviewId}`, 404));
+  }
+
+  try {
+    await findInvitation(interview, req.query.token, { purpose: 'schedule' });
+    if (interview.status !== 'awaiting-slot') {
+      throw new SchedulingError('This interview has already been scheduled', 409);
+    }
+  } catch (error) {
+    return sendCandidateError(res, error);
+  }
+
+  const slots = await getFreeSlots(interview);
+
+  res.status(200).json({
+    success: true,
+    data: {
+      interview: {
+        id: interview._id,
+        role: interview.role && interview.role.name,
+        duration: interview.duration,
+        candidateTimezone: interview.candidateTimezone
+      },
+      slotIntervalMinutes: SLOT_INTERVAL_MINUTES,
+      slots
+    }
+  });
+});
+
+// @desc    Book a slot. The scheduling link is used up and the candidate is
+//          emailed the invitation with their join link.
+// @route   POST /api/v1/scheduling/:interviewId/book
+// @access  Public (scheduling link)
+export const bookInterviewSlot = asyncHandler(async (req, res, next) => {
+  const { token, startsAt, candidateTimezone } = req.body;
+  const interview = await Interview.findById(req.params.interviewId).populate('createdBy');
+
+  if (!interview) {
+    return next(new ErrorResponse(`Interview not found with id of ${req.params.interviewId}`, 404));
+  }
+  if (candidateTimezone && !isValidTimeZone(candidateTimezone)) {
+    return res.status(400).json({
+      success: false,
+      message: `${candidateTimezone} is not a valid IANA time zone`
+    });
+  }
+
+  try {
+    const invitation = await findInvitation(interview, token, { purpose: 'schedule' });
+    if (candidateTimezone) {
+      interview.candidateTimezone = candidateTimezone;
+    }
+    await bookSlot(interview, startsAt, { beforeSave: () => useInvitation(invitation) });
+  } catch (error) {
+    return sendCandidateError(res, error);
+  }
+
+  // The booking stands even if the email fails; the admin can resend it
+  let invitation = null;
+  try {
+    ({ invitation } = await sendInvitationEmail(interview, {
+      companyName: (interview.createdBy && interview.createdBy.company) || 'SkillSpark',
+      createdBy: interview.createdBy && interview.createdBy._id
+    }));
+  } catch (error) {
+    console.error('Error sending invitation after booking:', error);
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {
+      id: interview._id,
+      startsAt: interview.startsAt,
+      duration: interview.duration,
+      candidateTimezone: interview.candidateTimezone,
+      invitationSent: !!invitation
+    }
+  });
+});
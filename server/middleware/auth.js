@@ -1,8 +1,11 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
+import { INTERVIEW_SESSION_AUDIENCE } from '../services/invitationService.js';
 
-// Protect routes
-export const protect = async (req, res, next) => {
+// Require a logged-in user. Join sessions from invitation links are only
+// accepted when allowInterviewSession is set, and then leave the id of their
+// interview in req.interviewSession for the route to check.
+const authenticate = ({ allowInterviewSession }) => async (req, res, next) => {
   let token;
 
   if (
@@ -25,6 +28,16 @@ export const protect = async (req, res, next) => {
     // Verify token
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
 
+    if (decoded.aud === INTERVIEW_SESSION_AUDIENCE) {
+      if (!allowInterviewSession) {
+        return res.status(403).json({
+          success: false,
+          error: 'Your interview link only gives access to the interview'
+        });
+      }
+      req.interviewSession = decoded.interview;
+    }
+
     req.user = await User.findById(decoded.id);
     next();
   } catch (err) {
@@ -35,6 +48,36 @@ export const protect = async (req, res, next) => {
   }
 };
 
+// Protect routes
+export const protect = authenticate({ allowInterviewSession: false });
+
+// Protect routes a candidate uses during an interview, which also accept
+// the join session of an invitation link
+export const protectInterviewSession = authenticate({ allowInterviewSession: true });
+
+// Whether a request may act on an interview: any request made with a normal
+// login, but a join session only for its own interview
+export const isSessionInterview = (req, interviewId) =>
+  !req.interviewSession || req.interviewSession === String(interviewId);
+
+// Attach the user when a valid token is sent, without requiring one
+export const identify = async (req, res, next) => {
+  if (
+    req.headers.authorization &&
+    req.headers.authorization.startsWith('Bearer')
+  ) {
+    try {
+      const decoded = jwt.verify(req.headers.authorization.split(' ')[1], process.env.JWT_SECRET);
+      req.user = await User.findById(decoded.id);
+      req.interviewSession = decoded.aud === INTERVIEW_SESSION_AUDIENCE ? decoded.interview : undefined;
+    } catch (err) {
+      // Treat an invalid token like no token on public routes
+    }
+  }
+
+  next();
+};
+
 // Grant access to specific roles
 export const authorize = (...roles) => {
   return (req, res, next) => {
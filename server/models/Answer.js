@@ -11,12 +11,29 @@ const AnswerSchema = new mongoose.Schema({
     ref: 'Question',
     required: [true, 'Please specify a question']
   },
+  // The version of the question that was asked; set by the server when the
+  // answer is saved, so later edits to the question leave the answer as is
+  questionVersion: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'QuestionVersion'
+  },
   audioUrl: {
     type: String
   },
   transcript: {
     type: String
   },
+  // Each word of the transcript with its start and end in seconds into the
+  // recording, when a speech-to-text provider wrote the transcript
+  transcriptWords: [{
+    _id: false,
+    word: String,
+    start: Number,
+    end: Number
+  }],
+  transcriptionProvider: {
+    type: String
+  },
   code: {
     type: String
   },
@@ -24,6 +41,25 @@ const AnswerSchema = new mongoose.Schema({
     type: String,
     default: 'javascript'
   },
+  // Written answer to a free-text or system design question
+  textAnswer: {
+    type: String
+  },
+  // Ids of the options picked for a multiple-choice question
+  selectedOptions: [{
+    type: mongoose.Schema.Types.ObjectId
+  }],
+  // Follow-up question generated from this answer, if any
+  followUpQuestion: {
+    type: String
+  },
+  // Set on answers to a follow-up question: the answer it follows up on.
+  // Follow-up answers share their parent's question.
+  parentAnswer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Answer',
+    default: null
+  },
   score: {
     type: Number,
     min: 0,
@@ -32,32 +68,65 @@ const AnswerSchema = new mongoose.Schema({
   feedback: {
     type: String
   },
+  codeEvaluation: {
+    type: String
+  },
+  // Result of running the code against the question's test cases
+  testResults: {
+    language: String,
+    passed: Number,
+    total: Number,
+    results: [{
+      _id: false,
+      index: Number,
+      hidden: Boolean,
+      input: String,
+      expectedOutput: String,
+      actualOutput: String,
+      stderr: String,
+      passed: Boolean,
+      error: String,
+      durationMs: Number
+    }],
+    executedAt: Date
+  },
+  // Whether score/feedback/criteria came from a valid evaluation.
+  // 'queued' and 'running' follow the answer's EvaluationJob; 'pending'
+  // answers were never queued. 'failed' answers have no score and must be
+  // excluded from averages.
+  evaluationStatus: {
+    type: String,
+    enum: ['pending', 'queued', 'running', 'completed', 'failed'],
+    default: 'pending'
+  },
+  evaluationError: {
+    type: String
+  },
+  evaluationProvider: {
+    type: String
+  },
+  // Score out of 10 per rubric criterion key
   criteria: {
-    technicalAccuracy: {
+    type: Map,
+    of: {
       type: Number,
       min: 0,
-      max: 10,
-      default: 0
-    },
-    completeness: {
-      type: Number,
-      min: 0,
-      max: 10,
-      default: 0
-    },
-    clarity: {
-      type: Number,
-      min: 0,
-      max: 10,
-      default: 0
-    },
-    examples: {
-      type: Number,
-      min: 0,
-      max: 10,
-      default: 0
+      max: 10
     }
   },
+  // Rubric the answer was graded with, copied at evaluation time so later
+  // edits to the rubric do not change how existing answers are reported
+  rubric: {
+    name: {
+      type: String
+    },
+    criteria: [{
+      _id: false,
+      key: String,
+      label: String,
+      weight: Number
+    }]
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+
+// A reviewer's note on part of a recorded answer, anchored to a time range
+// of the recording. Only admins see them; candidates never do.
+const AnswerCommentSchema = new mongoose.Schema({
+  answer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Answer',
+    required: true
+  },
+  interview: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Interview',
+    required: true
+  },
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Seconds into the recording
+  start: {
+    type: Number,
+    required: [true, 'Please specify where the comment starts'],
+    min: [0, 'A comment cannot start before the recording']
+  },
+  end: {
+    type: Number,
+    required: [true, 'Please specify where the comment ends'],
+    validate: {
+      validator: function (value) { return value >= this.start; },
+      message: 'A comment cannot end before it starts'
+    }
+  },
+  text: {
+    type: String,
+    required: [true, 'Please write a comment'],
+    trim: true,
+    maxlength: [2000, 'Comments can be at most 2000 characters']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+AnswerCommentSchema.index({ interview: 1, answer: 1, start: 1 });
+
+const AnswerComment = mongoose.model('AnswerComment', AnswerCommentSchema);
+
+export default AnswerComment;
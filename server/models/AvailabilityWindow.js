@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+import { isValidTimeZone } from '../utils/timezone.js';
+
+// A stretch of time an interviewer is free for interviews. Candidates asked
+// to pick a slot choose from the free parts of these windows.
+const AvailabilityWindowSchema = new mongoose.Schema({
+  interviewer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Please specify an interviewer']
+  },
+  startsAt: {
+    type: Date,
+    required: [true, 'Please specify when the window starts']
+  },
+  endsAt: {
+    type: Date,
+    required: [true, 'Please specify when the window ends'],
+    validate: {
+      validator: function (endsAt) {
+        return !this.startsAt || endsAt > this.startsAt;
+      },
+      message: 'A window must end after it starts'
+    }
+  },
+  // Time zone the interviewer entered the window in
+  timezone: {
+    type: String,
+    default: 'UTC',
+    validate: {
+      validator: isValidTimeZone,
+      message: props => `${props.value} is not a valid IANA time zone`
+    }
+  },
+  // Held while a candidate books a slot in this window, so two bookings
+  // cannot take the same time
+  lockedUntil: {
+    type: Date,
+    default: null,
+    select: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+AvailabilityWindowSchema.index({ interviewer: 1, startsAt: 1 });
+
+const AvailabilityWindow = mongoose.model('AvailabilityWindow', AvailabilityWindowSchema);
+
+export default AvailabilityWindow;
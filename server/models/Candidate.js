@@ -1,5 +1,10 @@
 import mongoose from 'mongoose';
 
+// Where a candidate is in the hiring pipeline
+export const CANDIDATE_STAGES = ['applied', 'screening', 'interviewed', 'offer', 'rejected'];
+
+// A person in the hiring pipeline. Interviews belong to a candidate; the
+// linked user account is only what invitation links sign them in with.
 const CandidateSchema = new mongoose.Schema({
   name: {
     type: String,
@@ -10,6 +15,8 @@ const CandidateSchema = new mongoose.Schema({
     type: String,
     required: [true, 'Please add an email'],
     unique: true,
+    lowercase: true,
+    trim: true,
     match: [
       /^\w+([\.-]?\w+)*@\w+([\.-]?\w+)*(\.\w{2,3})+$/,
       'Please add a valid email'
@@ -19,19 +26,70 @@ const CandidateSchema = new mongoose.Schema({
     type: String,
     trim: true
   },
+  // Stored file name of the uploaded resume; never set from a request
   resume: {
     type: String
   },
+  // Name the resume was uploaded with, for downloads
+  resumeFileName: {
+    type: String
+  },
+  // Text extracted from the resume, used to generate resume-specific
+  // questions. Only loaded when asked for.
+  resumeText: {
+    type: String,
+    select: false
+  },
+  // Tech stacks the resume mentions, most mentioned first
+  resumeSkills: [{
+    _id: false,
+    techStack: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'TechStack'
+    },
+    name: String,
+    mentions: Number
+  }],
+  resumeUploadedAt: {
+    type: Date
+  },
+  stage: {
+    type: String,
+    enum: CANDIDATE_STAGES,
+    default: 'applied'
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  // Account the candidate takes interviews with, created when they are first
+  // scheduled
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
   createdAt: {
     type: Date,
     default: Date.now
   },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  },
   createdBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   }
 });
 
+CandidateSchema.index({ stage: 1, createdAt: -1 });
+
+CandidateSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
 const Candidate = mongoose.model('Candidate', CandidateSchema);
 
 export default Candidate;
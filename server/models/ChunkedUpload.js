@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+
+// A recording uploaded in parts. The parts are kept apart until the last
+// one has arrived and are then joined into one file in the uploads
+// directory, so a long recording survives a dropped connection: the client
+// asks which parts arrived and sends the rest.
+const ChunkedUploadSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  fileName: {
+    type: String,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  // Bytes of the whole file
+  size: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  // Bytes of every part but the last, which has what is left
+  chunkSize: {
+    type: Number,
+    required: true
+  },
+  totalChunks: {
+    type: Number,
+    required: true
+  },
+  // Indexes of the parts stored so far
+  receivedChunks: {
+    type: [Number],
+    default: []
+  },
+  // Set once the parts have been joined
+  fileUrl: {
+    type: String
+  },
+  completedAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+ChunkedUploadSchema.index({ completedAt: 1, createdAt: 1 });
+
+const ChunkedUpload = mongoose.model('ChunkedUpload', ChunkedUploadSchema);
+
+export default ChunkedUpload;
@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import { EMAIL_TEMPLATE_TYPES } from '../services/emailTemplates.js';
+
+// A company's own version of one of the built-in email templates
+const EmailTemplateSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: EMAIL_TEMPLATE_TYPES,
+    required: [true, 'Please specify the email type']
+  },
+  // Company the template is used for; empty for every company without its own
+  company: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  subject: {
+    type: String,
+    required: [true, 'Please add a subject'],
+    trim: true
+  },
+  html: {
+    type: String,
+    required: [true, 'Please add the email body']
+  },
+  // Color of headings and buttons, e.g. #4f46e5
+  brandColor: {
+    type: String,
+    trim: true,
+    match: [/^#[0-9a-fA-F]{6}$/, 'Please use a hex color such as #4f46e5']
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+EmailTemplateSchema.index({ type: 1, company: 1 }, { unique: true });
+
+const EmailTemplate = mongoose.model('EmailTemplate', EmailTemplateSchema);
+
+export default EmailTemplate;
@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+
+// The evaluation of an answer by the evaluation provider, run in the
+// background so nobody waits on the provider and a closed browser loses
+// nothing. An answer has one job, queued again whenever it is re-evaluated.
+const EvaluationJobSchema = new mongoose.Schema({
+  answer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Answer',
+    required: true,
+    unique: true
+  },
+  interview: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Interview'
+  },
+  // queued: waiting for a (first or next) attempt, running: an attempt is
+  // running, completed: the answer has its evaluation, failed: gave up
+  // after maxAttempts
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued'
+  },
+  // Raised each time the job is queued; an attempt started before then
+  // does not write its result
+  revision: {
+    type: Number,
+    default: 0
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastAttemptAt: {
+    type: Date
+  },
+  lastError: {
+    type: String
+  },
+  // Admin who asked for the answer to be evaluated again
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  completedAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+EvaluationJobSchema.index({ status: 1, nextAttemptAt: 1 });
+EvaluationJobSchema.index({ interview: 1 });
+
+const EvaluationJob = mongoose.model('EvaluationJob', EvaluationJobSchema);
+
+export default EvaluationJob;
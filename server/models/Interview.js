@@ -1,9 +1,22 @@
 import mongoose from 'mongoose';
+import { isValidTimeZone, formatInTimeZone } from '../utils/timezone.js';
+import { DEFAULT_JOIN_EARLY_MINUTES, DEFAULT_JOIN_LATE_MINUTES } from '../services/joinWindowService.js';
+
+const timeZoneField = {
+  type: String,
+  default: 'UTC',
+  validate: {
+    validator: isValidTimeZone,
+    message: props => `${props.value} is not a valid IANA time zone`
+  }
+};
 
 const InterviewSchema = new mongoose.Schema({
+  // Candidate in the hiring pipeline the interview is for; they take it
+  // with their linked account
   candidate: {
     type: mongoose.Schema.Types.ObjectId,
-    ref: 'User',
+    ref: 'Candidate',
     required: [true, 'Please specify a candidate']
   },
   role: {
@@ -19,11 +32,93 @@ const InterviewSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'TechStack'
   },
+  // Template the question set was drawn from
+  template: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'InterviewTemplate',
+    default: null
+  },
+  // Questions in the order they are asked. Fixed when the interview is
+  // created from a template or with resume questions; appended one at a
+  // time in adaptive mode. Empty for other interviews.
+  questions: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Question'
+  }],
+  // standard: every question of the tech stacks, or the template's set
+  // adaptive: the server picks each question's difficulty from the scores so far
+  mode: {
+    type: String,
+    enum: ['standard', 'adaptive'],
+    default: 'standard'
+  },
+  // Number of questions asked in adaptive mode
+  questionCount: {
+    type: Number,
+    min: [1, 'An adaptive interview needs at least one question'],
+    default: 10
+  },
+  // awaiting-slot: the candidate has been asked to pick the start time,
+  // no-show: the join window closed without the candidate starting,
+  // abandoned: the candidate left the interview before finishing it,
+  // expired: the interview's duration ran out before it was finished.
+  // Changes follow INTERVIEW_TRANSITIONS (see interviewSessionService).
   status: {
     type: String,
-    enum: ['scheduled', 'in-progress', 'completed', 'cancelled'],
+    enum: ['awaiting-slot', 'scheduled', 'in-progress', 'completed', 'cancelled', 'no-show', 'abandoned', 'expired'],
     default: 'scheduled'
   },
+  // When the candidate started the interview, and when its duration runs out
+  startedAt: {
+    type: Date
+  },
+  endsAt: {
+    type: Date
+  },
+  // When the interview was completed, abandoned or expired
+  endedAt: {
+    type: Date
+  },
+  // Seconds the candidate has for each question once it is shown
+  questionTimeLimit: {
+    type: Number,
+    min: [10, 'Give candidates at least 10 seconds per question'],
+    default: 120
+  },
+  // Language the candidate answers in, as an ISO 639-1 code, passed to the
+  // speech-to-text provider; null uses TRANSCRIPTION_LANGUAGE
+  transcriptionLanguage: {
+    type: String,
+    default: null,
+    validate: {
+      validator: value => value === null || /^[a-z]{2}$/.test(value),
+      message: props => `${props.value} is not a two-letter ISO 639-1 language code`
+    }
+  },
+  // Questions shown so far, in the order they were shown. Follow-up
+  // questions have an entry of their own next to the question they follow
+  // up on. Only the server writes these.
+  progress: [{
+    _id: false,
+    question: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Question'
+    },
+    followUp: {
+      type: Boolean,
+      default: false
+    },
+    // open: shown and not answered yet, answered: an answer was saved in
+    // time, skipped: the candidate moved on, timed-out: the time ran out
+    outcome: {
+      type: String,
+      enum: ['open', 'answered', 'skipped', 'timed-out'],
+      default: 'open'
+    },
+    startedAt: Date,
+    deadline: Date,
+    submittedAt: Date
+  }],
   createdAt: {
     type: Date,
     default: Date.now
@@ -31,13 +126,50 @@ const InterviewSchema = new mongoose.Schema({
   completedAt: {
     type: Date
   },
-  scheduledDate: {
+  // Start of the interview as a UTC instant; set when the candidate books a
+  // slot for interviews awaiting one
+  startsAt: {
     type: Date,
-    required: [true, 'Please specify a scheduled date']
+    required: [function () { return this.status !== 'awaiting-slot'; }, 'Please specify a start time']
+  },
+  // Time zones the candidate and the interviewer read times in
+  candidateTimezone: timeZoneField,
+  interviewerTimezone: timeZoneField,
+  // Minutes before and after startsAt during which the candidate can join
+  joinWindow: {
+    earlyMinutes: {
+      type: Number,
+      min: [0, 'The join window cannot open after the start time'],
+      default: DEFAULT_JOIN_EARLY_MINUTES
+    },
+    lateMinutes: {
+      type: Number,
+      min: [0, 'The join window cannot close before the start time'],
+      default: DEFAULT_JOIN_LATE_MINUTES
+    }
+  },
+  // Reminders already sent, as minutes before the start (see reminderService)
+  remindersSent: {
+    type: [Number],
+    default: []
+  },
+  // When the interview was flagged as a no-show
+  noShowAt: {
+    type: Date
+  },
+  // SEQUENCE of the calendar invitation; raised each time an update or
+  // cancellation is sent so calendar clients replace the earlier event
+  calendarSequence: {
+    type: Number,
+    default: 0
+  },
+  // Legacy copies of startsAt kept for older clients: the same instant, and
+  // the clock time (HH:mm) in the interviewer's time zone
+  scheduledDate: {
+    type: Date
   },
   scheduledTime: {
-    type: String,
-    required: [true, 'Please specify a scheduled time']
+    type: String
   },
   duration: {
     type: Number,
@@ -50,6 +182,24 @@ const InterviewSchema = new mongoose.Schema({
   }
 });
 
+// Older clients send scheduledDate only; keep the legacy fields in step with startsAt
+InterviewSchema.pre('validate', function (next) {
+  if (this.scheduledDate && (!this.startsAt || (this.isModified('scheduledDate') && !this.isModified('startsAt')))) {
+    this.startsAt = this.scheduledDate;
+  }
+  if (this.startsAt) {
+    this.scheduledDate = this.startsAt;
+    if (isValidTimeZone(this.interviewerTimezone)) {
+      this.scheduledTime = formatInTimeZone(this.startsAt, this.interviewerTimezone, {
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      });
+    }
+  }
+  next();
+});
+
 const Interview = mongoose.model('Interview', InterviewSchema);
 
 export default Interview; 
\ No newline at end of file
@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+
+// How many questions to draw from one tech stack
+const SectionSchema = new mongoose.Schema({
+  techStack: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'TechStack',
+    required: [true, 'Please specify a tech stack for each section']
+  },
+  questionCount: {
+    type: Number,
+    required: [true, 'Please specify how many questions each section has'],
+    min: [1, 'A section needs at least one question']
+  }
+}, { _id: false });
+
+const InterviewTemplateSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Please add a template name'],
+    trim: true
+  },
+  description: {
+    type: String
+  },
+  role: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Role',
+    required: [true, 'Please specify a role']
+  },
+  sections: {
+    type: [SectionSchema],
+    validate: [
+      {
+        validator: sections => sections.length > 0,
+        message: 'A template needs at least one section'
+      },
+      {
+        validator: sections => new Set(sections.map(s => s.techStack.toString())).size === sections.length,
+        message: 'Each tech stack can only have one section'
+      }
+    ]
+  },
+  // Share of each difficulty within every section, in percent
+  difficultyMix: {
+    easy: { type: Number, min: 0, max: 100, default: 30 },
+    medium: { type: Number, min: 0, max: 100, default: 50 },
+    hard: { type: Number, min: 0, max: 100, default: 20 }
+  },
+  // Always asked; they count towards their tech stack's section
+  mandatoryQuestions: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Question'
+  }],
+  // sections: mandatory questions first, then each section easy to hard
+  // difficulty: every question easy to hard
+  // random: shuffled once when the interview is created
+  ordering: {
+    type: String,
+    enum: ['sections', 'difficulty', 'random'],
+    default: 'sections'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+InterviewTemplateSchema.pre('validate', function (next) {
+  const { easy, medium, hard } = this.difficultyMix;
+  if (easy + medium + hard !== 100) {
+    this.invalidate('difficultyMix', 'The difficulty mix must add up to 100%');
+  }
+  next();
+});
+
+InterviewTemplateSchema.index({ role: 1, name: 1 }, { unique: true });
+
+const InterviewTemplate = mongoose.model('InterviewTemplate', InterviewTemplateSchema);
+
+export default InterviewTemplate;
@@ -0,0 +1,72 @@
+import mongoose from 'mongoose';
+
+// join: signs the candidate in to take the interview, schedule: lets the
+// candidate pick the interview's start from the interviewer's free slots
+export const INVITATION_PURPOSES = ['join', 'schedule'];
+
+// A link that lets a candidate join one interview without a password. Only
+// a hash of the token is stored; the token itself is only in the email.
+const InvitationTokenSchema = new mongoose.Schema({
+  interview: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Interview',
+    required: [true, 'Please specify an interview']
+  },
+  purpose: {
+    type: String,
+    enum: INVITATION_PURPOSES,
+    default: 'join'
+  },
+  // Candidate email the invitation was sent to. The link stops working if
+  // the interview is moved to a different candidate.
+  email: {
+    type: String,
+    required: [true, 'Please add an email'],
+    lowercase: true,
+    trim: true
+  },
+  // SHA-256 of the token, hex encoded
+  tokenHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  // Set when the candidate joins (or books a slot) with the link; it cannot be used again
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+InvitationTokenSchema.index({ tokenHash: 1 }, { unique: true });
+InvitationTokenSchema.index({ interview: 1, createdAt: -1 });
+
+// active, used, revoked or expired
+InvitationTokenSchema.virtual('status').get(function () {
+  if (this.revokedAt) return 'revoked';
+  if (this.usedAt) return 'used';
+  if (this.expiresAt <= new Date()) return 'expired';
+  return 'active';
+});
+
+InvitationTokenSchema.set('toJSON', { virtuals: true });
+
+const InvitationToken = mongoose.model('InvitationToken', InvitationTokenSchema);
+
+export default InvitationToken;
@@ -0,0 +1,111 @@
+import mongoose from 'mongoose';
+import { EMAIL_TEMPLATE_TYPES } from '../services/emailTemplates.js';
+
+const AttachmentSchema = new mongoose.Schema({
+  filename: {
+    type: String,
+    required: true
+  },
+  contentType: {
+    type: String
+  },
+  content: {
+    type: Buffer,
+    required: true
+  }
+}, { _id: false });
+
+// Every email the app sends, kept with its delivery status so failed
+// deliveries can be retried and admins can see what went out
+const OutboxEmailSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: EMAIL_TEMPLATE_TYPES,
+    required: [true, 'Please specify the email type']
+  },
+  to: {
+    type: [String],
+    validate: [to => to.length > 0, 'Please add a recipient']
+  },
+  from: {
+    type: String,
+    required: true
+  },
+  replyTo: {
+    type: String
+  },
+  subject: {
+    type: String,
+    required: true
+  },
+  html: {
+    type: String,
+    required: function () { return !this.sensitive; }
+  },
+  // Kept out of list queries; calendar files are small but add up
+  attachments: {
+    type: [AttachmentSchema],
+    select: false
+  },
+  // Emails carrying a single-use link keep their body and attachments only
+  // in sealedBody, encrypted, and only until they are sent or given up on
+  sensitive: {
+    type: Boolean,
+    default: false
+  },
+  sealedBody: {
+    type: Buffer,
+    select: false
+  },
+  interview: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Interview'
+  },
+  // queued: waiting for a (first or next) attempt, sending: an attempt is
+  // running, sent: accepted by the transport, failed: gave up after maxAttempts
+  status: {
+    type: String,
+    enum: ['queued', 'sending', 'sent', 'failed'],
+    default: 'queued'
+  },
+  // Transport of the last attempt
+  transport: {
+    type: String
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastAttemptAt: {
+    type: Date
+  },
+  lastError: {
+    type: String
+  },
+  // Id the transport gave the message
+  providerMessageId: {
+    type: String
+  },
+  sentAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+OutboxEmailSchema.index({ status: 1, nextAttemptAt: 1 });
+OutboxEmailSchema.index({ createdAt: -1 });
+
+const OutboxEmail = mongoose.model('OutboxEmail', OutboxEmailSchema);
+
+export default OutboxEmail;
@@ -1,4 +1,6 @@
 import mongoose from 'mongoose';
+import { CODE_LANGUAGES } from '../config/codeLanguages.js';
+import { QUESTION_TYPES } from '../config/questionTypes.js';
 
 const QuestionSchema = new mongoose.Schema({
   techStack: {
@@ -16,12 +18,132 @@ const QuestionSchema = new mongoose.Schema({
     required: [true, 'Please specify difficulty level'],
     enum: ['easy', 'medium', 'hard']
   },
+  type: {
+    type: String,
+    enum: QUESTION_TYPES,
+    default: 'verbal'
+  },
+  // Multiple-choice options. Correct flags are only shown to admins; more
+  // than one correct option lets the candidate select several.
+  options: {
+    type: [{
+      text: {
+        type: String,
+        required: [true, 'Please add text for each option'],
+        trim: true
+      },
+      correct: {
+        type: Boolean,
+        default: false
+      }
+    }],
+    validate: {
+      validator: function (options) {
+        // Only checked when the document knows its type (not on partial updates)
+        if (this.type !== 'multiple-choice') {
+          return true;
+        }
+        return options.length >= 2 && options.some(option => option.correct);
+      },
+      message: 'Multiple-choice questions need at least two options and one correct option'
+    }
+  },
+  // Points a good answer is expected to cover; given to the evaluator and
+  // never shown to candidates
+  keyPoints: [{
+    type: String,
+    trim: true
+  }],
+  // Reference answer given to the evaluator; never shown to candidates
+  modelAnswer: {
+    type: String,
+    trim: true
+  },
+  // Free labels for finding questions, e.g. "closures" or "warm-up"
+  tags: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  // Subjects the question covers; the evaluator is told them
+  topics: [{
+    type: String,
+    trim: true
+  }],
+  // Language the code editor opens in; candidates may pick any of
+  // `languages` (or the tech stack's languages when this is empty)
+  referenceLanguage: {
+    type: String,
+    enum: CODE_LANGUAGES,
+    default: 'javascript'
+  },
+  languages: [{
+    type: String,
+    enum: CODE_LANGUAGES
+  }],
+  // Starter code shown in the editor, keyed by language
+  starterCode: {
+    type: Map,
+    of: String
+  },
+  // Each test feeds `input` on stdin and expects `expectedOutput` on stdout.
+  // Hidden tests are only shown to admins.
+  testCases: [{
+    _id: false,
+    input: {
+      type: String,
+      default: ''
+    },
+    expectedOutput: {
+      type: String,
+      required: [true, 'Please add the expected output for each test case']
+    },
+    hidden: {
+      type: Boolean,
+      default: false
+    }
+  }],
+  // Set on questions generated from one candidate's resume. They are only
+  // asked in that candidate's interviews and stay out of the shared bank.
+  candidate: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Candidate',
+    default: null
+  },
+  // Current version. Every change to the content is stored as a new
+  // QuestionVersion, and answers reference the version they answered.
+  version: {
+    type: Number,
+    default: 1
+  },
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Deleted questions are kept for the reports of answers to them, but are
+  // no longer offered for new interviews
+  deletedAt: {
+    type: Date,
+    default: null
+  },
   createdAt: {
     type: Date,
     default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
   }
 });
 
+QuestionSchema.index({ techStack: 1, deletedAt: 1 });
+QuestionSchema.index({ tags: 1 });
+
+QuestionSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
 const Question = mongoose.model('Question', QuestionSchema);
 
 export default Question; 
\ No newline at end of file
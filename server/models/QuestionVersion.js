@@ -0,0 +1,81 @@
+import mongoose from 'mongoose';
+
+// A question as it was at one version. Versions are written once and never
+// changed, so an answer always shows the question exactly as it was asked,
+// however the question is edited later.
+const QuestionVersionSchema = new mongoose.Schema({
+  question: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Question',
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  techStack: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'TechStack'
+  },
+  text: {
+    type: String,
+    required: true
+  },
+  difficulty: {
+    type: String
+  },
+  type: {
+    type: String
+  },
+  // Option ids are kept, so selected options of old answers still match
+  options: [{
+    text: String,
+    correct: Boolean
+  }],
+  keyPoints: [String],
+  modelAnswer: {
+    type: String
+  },
+  tags: [String],
+  topics: [String],
+  referenceLanguage: {
+    type: String
+  },
+  languages: [String],
+  starterCode: {
+    type: Map,
+    of: String
+  },
+  testCases: [{
+    _id: false,
+    input: String,
+    expectedOutput: String,
+    hidden: Boolean
+  }],
+  // Who made the change that produced this version
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+QuestionVersionSchema.index({ question: 1, version: 1 }, { unique: true });
+
+QuestionVersionSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Question versions cannot be changed'));
+  }
+  next();
+});
+
+QuestionVersionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], function(next) {
+  next(new Error('Question versions cannot be changed'));
+});
+
+const QuestionVersion = mongoose.model('QuestionVersion', QuestionVersionSchema);
+
+export default QuestionVersion;
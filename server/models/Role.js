@@ -15,6 +15,25 @@ const RoleSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'TechStack'
   }],
+  // Evaluation provider used for answers in this role's interviews.
+  // Leave empty to use the deployment default (EVALUATION_PROVIDER).
+  evaluationProvider: {
+    type: String,
+    enum: ['cohere', 'openai', 'local', 'rule-based'],
+    default: null
+  },
+  // Scoring rubric for this role's interviews. A tech stack's own rubric
+  // takes precedence; leave both empty to use the default rubric.
+  rubric: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Rubric',
+    default: null
+  },
+  // Ask an AI-generated follow-up question after weak answers
+  followUpQuestions: {
+    type: Boolean,
+    default: false
+  },
   createdAt: {
     type: Date,
     default: Date.now
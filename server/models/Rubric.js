@@ -0,0 +1,59 @@
+import mongoose from 'mongoose';
+
+const CriterionSchema = new mongoose.Schema({
+  // Key the evaluator reports the score under, e.g. "securityAwareness"
+  key: {
+    type: String,
+    required: [true, 'Please add a criterion key'],
+    trim: true,
+    match: [/^[A-Za-z][A-Za-z0-9_]*$/, 'Criterion keys may only contain letters, numbers and underscores']
+  },
+  label: {
+    type: String,
+    required: [true, 'Please add a criterion label'],
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  // Relative weight; weights do not have to add up to 100
+  weight: {
+    type: Number,
+    required: [true, 'Please add a criterion weight'],
+    min: [1, 'Criterion weight must be at least 1']
+  }
+}, { _id: false });
+
+const RubricSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Please add a rubric name'],
+    unique: true,
+    trim: true
+  },
+  description: {
+    type: String
+  },
+  criteria: {
+    type: [CriterionSchema],
+    validate: [
+      {
+        validator: criteria => criteria.length > 0,
+        message: 'A rubric needs at least one criterion'
+      },
+      {
+        validator: criteria => new Set(criteria.map(c => c.key)).size === criteria.length,
+        message: 'Criterion keys must be unique within a rubric'
+      }
+    ]
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const Rubric = mongoose.model('Rubric', RubricSchema);
+
+export default Rubric;
@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { CODE_LANGUAGES } from '../config/codeLanguages.js';
 
 const TechStackSchema = new mongoose.Schema({
   name: {
@@ -11,6 +12,18 @@ const TechStackSchema = new mongoose.Schema({
     type: String,
     required: [true, 'Please add a description']
   },
+  // Languages offered in the code editor for this stack's questions;
+  // empty means every language
+  languages: [{
+    type: String,
+    enum: CODE_LANGUAGES
+  }],
+  // Scoring rubric for questions in this tech stack; overrides the role's
+  rubric: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Rubric',
+    default: null
+  },
   createdAt: {
     type: Date,
     default: Date.now
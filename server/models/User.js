@@ -27,6 +27,11 @@ const UserSchema = new mongoose.Schema({
     enum: ['user', 'admin'],
     default: 'user'
   },
+  // Company an admin hires for; picks the email templates and branding
+  company: {
+    type: String,
+    trim: true
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -1,14 +1,13 @@
 import express from 'express';
-import { transcribeAudio, evaluateAnswer } from '../controllers/ai.js';
-import { protect } from '../middleware/auth.js';
+import { transcribeAudio, evaluateAnswer, generateFollowUpQuestion, getEvaluationProviders } from '../controllers/ai.js';
+import { protect, protectInterviewSession, authorize } from '../middleware/auth.js';
 
 const router = express.Router();
 
-// Protect all routes
-router.use(protect);
-
-// AI Routes
-router.post('/transcribe', transcribeAudio);
-router.post('/evaluate', evaluateAnswer);
+// AI Routes; candidates use transcription and follow-ups during the interview
+router.post('/transcribe', protectInterviewSession, transcribeAudio);
+router.post('/evaluate', protect, authorize('admin'), evaluateAnswer);
+router.post('/follow-up', protectInterviewSession, generateFollowUpQuestion);
+router.get('/providers', protect, getEvaluationProviders);
 
 export default router; 
\ No newline at end of file
@@ -1,14 +1,172 @@
 import express from 'express';
 import Answer from '../models/Answer.js';
 import Interview from '../models/Interview.js';
-import { protect, authorize } from '../middleware/auth.js';
+import AnswerComment from '../models/AnswerComment.js';
+import { protect, protectInterviewSession, authorize, isSessionInterview } from '../middleware/auth.js';
+import { runTestCases, redactHiddenResults, SUPPORTED_LANGUAGES, CodeExecutionError } from '../services/codeExecutionService.js';
+import { gradeMultipleChoiceAnswer } from '../services/evaluationService.js';
+import { getCurrentVersion, loadAskedQuestion } from '../services/questionVersionService.js';
+import { refreshSession, checkAnswerWindow, recordAnswer } from '../services/interviewSessionService.js';
+import { queueEvaluation, cancelEvaluation, getEvaluationStatuses } from '../services/evaluationQueueService.js';
+import { isInterviewCandidate, findCandidateIdsForUser } from '../services/candidateService.js';
 
 const router = express.Router();
 
+// Answers are evaluated by the server. Only admins may send a score of
+// their own, which counts as the answer's evaluation.
+const EVALUATION_FIELDS = ['score', 'feedback', 'criteria', 'rubric', 'codeEvaluation', 'evaluationStatus', 'evaluationError', 'evaluationProvider'];
+const withoutEvaluation = (data, user) => {
+  if (user.role === 'admin') {
+    return data;
+  }
+  const rest = { ...data };
+  EVALUATION_FIELDS.forEach(field => delete rest[field]);
+  return rest;
+};
+
+// Fields whose change calls for the answer to be evaluated again
+const EVALUATED_FIELDS = ['transcript', 'code', 'codeLanguage', 'textAnswer'];
+
+// Derive evaluationStatus for answers submitted without one, so a score
+// is never stored without saying where it came from. Answers left pending
+// are queued for evaluation once saved.
+const withEvaluationStatus = (data) => {
+  if (data.evaluationStatus) {
+    return data;
+  }
+  return {
+    ...data,
+    evaluationStatus: typeof data.score === 'number' ? 'completed' : 'pending'
+  };
+};
+
+// The question version an answer was given is recorded by the server: the
+// version current when the answer is first saved. Answers saved again keep
+// the version they already have.
+const withQuestionVersion = async (data, existing) => {
+  const rest = { ...data };
+  delete rest.questionVersion;
+  if (existing && existing.questionVersion) {
+    return { ...rest, questionVersion: existing.questionVersion };
+  }
+  const version = await getCurrentVersion(rest.question);
+  return version ? { ...rest, questionVersion: version._id } : rest;
+};
+
+// Run submitted code against the test cases of the question as it was
+// asked. Returns undefined when there is no code, the question has no test
+// cases or the sandbox cannot run the answer's language or is missing; the
+// answer is saved either way.
+const runQuestionTests = async (asked, code, codeLanguage) => {
+  if (!code || !code.trim()) {
+    return undefined;
+  }
+
+  const question = await loadAskedQuestion(asked, 'testCases referenceLanguage');
+  if (!question || !question.testCases || question.testCases.length === 0) {
+    return undefined;
+  }
+
+  const language = codeLanguage || question.referenceLanguage;
+  if (!SUPPORTED_LANGUAGES.includes(language)) {
+    return undefined;
+  }
+
+  try {
+    return await runTestCases({ code, language, testCases: question.testCases });
+  } catch (error) {
+    if (error instanceof CodeExecutionError) {
+      console.error('Test cases not run:', error.message);
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+// Test results are computed on the server only; never trust ones sent in.
+// The question's test cases do not apply to code written for a follow-up.
+const withTestResults = async (data) => {
+  const rest = { ...data };
+  delete rest.testResults;
+  if (rest.parentAnswer) {
+    return rest;
+  }
+  const testResults = await runQuestionTests(rest, rest.code, rest.codeLanguage);
+  return testResults ? { ...rest, testResults } : rest;
+};
+
+// Grade a multiple-choice answer from the correct options of the question
+// as it was asked. Returns undefined for other question types.
+const gradeQuestionOptions = async (asked, interviewId, selectedOptions) => {
+  const question = await loadAskedQuestion(asked, 'type options');
+  if (!question || question.type !== 'multiple-choice') {
+    return undefined;
+  }
+
+  const { evaluation, provider, rubric } = await gradeMultipleChoiceAnswer(
+    question,
+    selectedOptions || [],
+    { interviewId }
+  );
+  return {
+    score: evaluation.score,
+    feedback: evaluation.feedback,
+    criteria: evaluation.criteria,
+    rubric,
+    evaluationStatus: 'completed',
+    evaluationProvider: provider
+  };
+};
+
+// Follow-up answers must answer a follow-up question asked about an answer
+// to the same question in the same interview. Returns an error message.
+const checkParentAnswer = async (data) => {
+  if (!data.parentAnswer) {
+    return null;
+  }
+  const parent = await Answer.findById(data.parentAnswer).select('interview question followUpQuestion');
+  if (!parent || !parent.followUpQuestion
+    || parent.interview.toString() !== String(data.interview)
+    || parent.question.toString() !== String(data.question)) {
+    return 'The parent answer has no follow-up question for this interview and question';
+  }
+  return null;
+};
+
+// Candidates save answers only while the question's time is running. Admins
+// are not held to the session. Returns the question's progress entry.
+const checkSession = async (interview, data, user) => {
+  if (user.role === 'admin') {
+    return null;
+  }
+  await refreshSession(interview);
+  return checkAnswerWindow(interview, data);
+};
+
+// Multiple-choice grades are computed on the server; never trust ones sent in
+const withAutoGrade = async (data) => {
+  const grade = await gradeQuestionOptions(data, data.interview, data.selectedOptions);
+  return grade ? { ...data, ...grade } : data;
+};
+
+// Grades of an answer, which only admins see
+const GRADE_FIELDS = ['score', 'feedback', 'criteria', 'codeEvaluation'];
+
+// Candidates see neither their grades nor the details of hidden test cases,
+// only whether those passed
+const toAnswerResponse = (answer, user) => {
+  if (user.role === 'admin') {
+    return answer;
+  }
+  const data = answer.toObject({ flattenMaps: true });
+  GRADE_FIELDS.forEach(field => delete data[field]);
+  return data.testResults ? { ...data, testResults: redactHiddenResults(data.testResults) } : data;
+};
+
 // @desc    Get answers with interview filter
 // @route   GET /api/v1/answers
 // @access  Private
-router.get('/', protect, async (req, res) => {
+router.get('/', protectInterviewSession, async (req, res) => {
   try {
     let query = {};
     
@@ -27,16 +185,19 @@ router.get('/', protect, async (req, res) => {
       }
       
       // Make sure user is owner or admin
-      const candidateId = interview.candidate._id || interview.candidate;
-      if (candidateId.toString() !== req.user.id && req.user.role !== 'admin') {
+      if ((req.user.role !== 'admin' && !(await isInterviewCandidate(interview, req.user))) || !isSessionInterview(req, interview._id)) {
         return res.status(403).json({
           success: false,
           error: 'Not authorized to access these answers'
         });
       }
     } else if (req.user.role !== 'admin') {
-      // If no interview filter and not admin, only show answers related to user's interviews
-      const userInterviews = await Interview.find({ candidate: req.user.id });
+      // If no interview filter and not admin, only show answers related to
+      // user's interviews, or to the interview of the link they joined with
+      const candidates = { $in: await findCandidateIdsForUser(req.user) };
+      const userInterviews = await Interview.find(req.interviewSession
+        ? { candidate: candidates, _id: req.interviewSession }
+        : { candidate: candidates });
       const userInterviewIds = userInterviews.map(interview => interview._id);
       
       query.interview = { $in: userInterviewIds };
@@ -44,12 +205,68 @@ router.get('/', protect, async (req, res) => {
     
     const answers = await Answer.find(query)
       .populate('interview', 'candidate techStack status')
-      .populate('question', 'text difficulty');
+      .populate('question', 'text difficulty')
+      .populate('questionVersion', 'version text difficulty type');
 
     res.status(200).json({
       success: true,
       count: answers.length,
-      data: answers
+      data: answers.map(answer => toAnswerResponse(answer, req.user))
+    });
+  } catch (err) {
+    res.status(400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Get how far the evaluation of each answer of an interview has got
+// @route   GET /api/v1/answers/evaluation-status?interview=:interviewId
+// @access  Private
+router.get('/evaluation-status', protectInterviewSession, async (req, res) => {
+  try {
+    const interview = await Interview.findById(req.query.interview);
+    if (!interview) {
+      return res.status(404).json({
+        success: false,
+        error: 'Interview not found'
+      });
+    }
+
+    if ((req.user.role !== 'admin' && !(await isInterviewCandidate(interview, req.user))) || !isSessionInterview(req, interview._id)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to access these answers'
+      });
+    }
+
+    const statuses = await getEvaluationStatuses(interview._id);
+    res.status(200).json({
+      success: true,
+      data: req.user.role === 'admin' ? statuses : statuses.map(({ score, ...status }) => status)
+    });
+  } catch (err) {
+    res.status(400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Get reviewer comments on the answers of an interview
+// @route   GET /api/v1/answers/comments?interview=:interviewId
+// @access  Private (Admin only)
+router.get('/comments', protect, authorize('admin'), async (req, res) => {
+  try {
+    const comments = await AnswerComment.find({ interview: req.query.interview })
+      .populate('author', 'name')
+      .sort({ start: 1, createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: comments.length,
+      data: comments
     });
   } catch (err) {
     res.status(400).json({
@@ -62,11 +279,12 @@ router.get('/', protect, async (req, res) => {
 // @desc    Get single answer
 // @route   GET /api/v1/answers/:id
 // @access  Private
-router.get('/:id', protect, async (req, res) => {
+router.get('/:id', protectInterviewSession, async (req, res) => {
   try {
     const answer = await Answer.findById(req.params.id)
       .populate('interview', 'candidate techStack status')
-      .populate('question', 'text difficulty');
+      .populate('question', 'text difficulty')
+      .populate('questionVersion', 'version text difficulty type');
 
     if (!answer) {
       return res.status(404).json({
@@ -79,8 +297,7 @@ router.get('/:id', protect, async (req, res) => {
     const interview = await Interview.findById(answer.interview);
 
     // Make sure user is owner or admin
-    const candidateId = interview.candidate._id || interview.candidate;
-    if (candidateId.toString() !== req.user.id && req.user.role !== 'admin') {
+    if ((req.user.role !== 'admin' && !(await isInterviewCandidate(interview, req.user))) || !isSessionInterview(req, interview._id)) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to access this answer'
@@ -89,7 +306,7 @@ router.get('/:id', protect, async (req, res) => {
 
     res.status(200).json({
       success: true,
-      data: answer
+      data: toAnswerResponse(answer, req.user)
     });
   } catch (err) {
     res.status(400).json({
@@ -102,7 +319,7 @@ router.get('/:id', protect, async (req, res) => {
 // @desc    Create new answer
 // @route   POST /api/v1/answers
 // @access  Private
-router.post('/', protect, async (req, res) => {
+router.post('/', protectInterviewSession, async (req, res) => {
   try {
     // Check if the interview exists and user is authorized
     const interview = await Interview.findById(req.body.interview);
@@ -115,14 +332,24 @@ router.post('/', protect, async (req, res) => {
     }
     
     // Make sure user is owner or admin
-    const candidateId = interview.candidate._id || interview.candidate;
-    if (candidateId.toString() !== req.user.id && req.user.role !== 'admin') {
+    if ((req.user.role !== 'admin' && !(await isInterviewCandidate(interview, req.user))) || !isSessionInterview(req, interview._id)) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to create answers for this interview'
       });
     }
     
+    // Follow-up questions are generated by the server, never sent in
+    delete req.body.followUpQuestion;
+    const parentAnswerError = await checkParentAnswer(req.body);
+    if (parentAnswerError) {
+      return res.status(400).json({
+        success: false,
+        error: parentAnswerError
+      });
+    }
+    const progressEntry = await checkSession(interview, req.body, req.user);
+    
     // Log the incoming data including criteria if present
     console.log('Creating new answer with data:', {
       interview: req.body.interview,
@@ -135,23 +362,31 @@ router.post('/', protect, async (req, res) => {
       criteriaData: req.body.criteria
     });
     
-    const answer = await Answer.create(req.body);
+    const answer = await Answer.create(withEvaluationStatus(await withAutoGrade(
+      await withTestResults(await withQuestionVersion(withoutEvaluation(req.body, req.user)))
+    )));
+    await recordAnswer(interview, progressEntry);
+    if (answer.evaluationStatus === 'pending') {
+      await queueEvaluation(answer);
+      answer.evaluationStatus = 'queued';
+    }
     
     // Log the created answer to check if criteria was saved
     console.log('New answer created:', {
       id: answer._id,
       hasScore: answer.score !== undefined,
       hasCriteria: !!answer.criteria,
-      criteria: answer.criteria
+      criteria: answer.criteria,
+      testsPassed: answer.testResults ? `${answer.testResults.passed}/${answer.testResults.total}` : 'n/a'
     });
 
     res.status(201).json({
       success: true,
-      data: answer
+      data: toAnswerResponse(answer, req.user)
     });
   } catch (err) {
     console.error('Error creating answer:', err);
-    res.status(400).json({
+    res.status(err.statusCode || 400).json({
       success: false,
       error: err.message
     });
@@ -161,7 +396,7 @@ router.post('/', protect, async (req, res) => {
 // @desc    Update answer
 // @route   PUT /api/v1/answers/:id
 // @access  Private
-router.put('/:id', protect, async (req, res) => {
+router.put('/:id', protectInterviewSession, async (req, res) => {
   try {
     let answer = await Answer.findById(req.params.id);
 
@@ -174,12 +409,14 @@ router.put('/:id', protect, async (req, res) => {
 
     // Get the interview to check authorization
     const interview = await Interview.findById(answer.interview);
+    let progressEntry = null;
+    let needsEvaluation = false;
 
     // For regular users, only allow updating if they are the interview candidate
     // For admins, only allow updating score and feedback
     if (req.user.role === 'admin') {
       // Only allow admin to update score, feedback, and criteria
-      const allowedUpdates = ['score', 'feedback', 'criteria'];
+      const allowedUpdates = ['score', 'feedback', 'criteria', 'evaluationStatus'];
       
       Object.keys(req.body).forEach(key => {
         if (!allowedUpdates.includes(key)) {
@@ -187,21 +424,65 @@ router.put('/:id', protect, async (req, res) => {
         }
       });
 
+      // A manually entered score counts as a completed evaluation and
+      // replaces any evaluation still to come
+      if (typeof req.body.score === 'number' && !req.body.evaluationStatus) {
+        req.body.evaluationStatus = 'completed';
+      }
+      if (typeof req.body.score === 'number') {
+        await cancelEvaluation(answer._id);
+      }
+
       // Log what we're about to update if criteria is present
       if (req.body.criteria) {
         console.log('About to update answer with criteria:', JSON.stringify(req.body.criteria));
       }
     } else {
-      const candidateId = interview.candidate._id || interview.candidate;
-      if (candidateId.toString() === req.user.id) {
-        // Allow candidate to update audioUrl, transcript, and code
-        const allowedUpdates = ['audioUrl', 'transcript', 'code', 'codeLanguage'];
+      if (await isInterviewCandidate(interview, req.user) && isSessionInterview(req, interview._id)) {
+        // Allow candidate to update audioUrl, transcript, code and written or selected answers
+        const allowedUpdates = ['audioUrl', 'transcript', 'transcriptWords', 'transcriptionProvider', 'code', 'codeLanguage', 'textAnswer', 'selectedOptions'];
         
         Object.keys(req.body).forEach(key => {
           if (!allowedUpdates.includes(key)) {
             delete req.body[key];
           }
         });
+        // Word timings only belong to the transcript they came with
+        if (req.body.transcript !== undefined && req.body.transcriptWords === undefined) {
+          req.body.transcriptWords = [];
+          req.body.transcriptionProvider = null;
+        }
+        // A recording still uploading when the question closed can be
+        // attached later, as long as the answer was saved in time and has
+        // no recording yet (or already has this one, when a retry repeats it)
+        const attachesRecording = Object.keys(req.body).length === 1 && req.body.audioUrl
+          && (!answer.audioUrl || answer.audioUrl === req.body.audioUrl);
+        if (!attachesRecording) {
+          progressEntry = await checkSession(interview, answer, req.user);
+        }
+
+        // Changed code has to be run against the test cases again
+        if (!answer.parentAnswer && (req.body.code !== undefined || req.body.codeLanguage !== undefined)) {
+          const testResults = await runQuestionTests(
+            answer,
+            req.body.code !== undefined ? req.body.code : answer.code,
+            req.body.codeLanguage || answer.codeLanguage
+          );
+          if (testResults) {
+            req.body.testResults = testResults;
+          }
+        }
+
+        // Changed options are graded again
+        if (req.body.selectedOptions !== undefined) {
+          const grade = await gradeQuestionOptions(answer, answer.interview, req.body.selectedOptions);
+          if (grade) {
+            Object.assign(req.body, grade);
+          }
+        }
+
+        // Anything else the candidate changes is evaluated again
+        needsEvaluation = !req.body.evaluationStatus && EVALUATED_FIELDS.some(key => req.body[key] !== undefined);
       } else {
         return res.status(403).json({
           success: false,
@@ -230,6 +511,12 @@ router.put('/:id', protect, async (req, res) => {
       await answer.save();
     }
 
+    await recordAnswer(interview, progressEntry);
+    if (needsEvaluation) {
+      await queueEvaluation(answer);
+      answer.evaluationStatus = 'queued';
+    }
+
     // Log the updated answer to check if criteria was saved
     console.log('Updated answer:', {
       id: answer._id,
@@ -239,7 +526,102 @@ router.put('/:id', protect, async (req, res) => {
 
     res.status(200).json({
       success: true,
-      data: answer
+      data: toAnswerResponse(answer, req.user)
+    });
+  } catch (err) {
+    res.status(err.statusCode || 400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Evaluate an answer again
+// @route   POST /api/v1/answers/:id/evaluate
+// @access  Private (Admin only)
+router.post('/:id/evaluate', protect, authorize('admin'), async (req, res) => {
+  try {
+    const answer = await Answer.findById(req.params.id);
+
+    if (!answer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Answer not found'
+      });
+    }
+
+    const job = await queueEvaluation(answer, { requestedBy: req.user });
+
+    res.status(202).json({
+      success: true,
+      data: {
+        answer: answer._id,
+        status: 'queued',
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts
+      }
+    });
+  } catch (err) {
+    res.status(err.statusCode || 400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Comment on part of an answer's recording
+// @route   POST /api/v1/answers/:id/comments
+// @access  Private (Admin only)
+router.post('/:id/comments', protect, authorize('admin'), async (req, res) => {
+  try {
+    const answer = await Answer.findById(req.params.id);
+
+    if (!answer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Answer not found'
+      });
+    }
+
+    const comment = await AnswerComment.create({
+      answer: answer._id,
+      interview: answer.interview,
+      author: req.user.id,
+      start: req.body.start,
+      end: req.body.end,
+      text: req.body.text
+    });
+    await comment.populate('author', 'name');
+
+    res.status(201).json({
+      success: true,
+      data: comment
+    });
+  } catch (err) {
+    res.status(400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Delete a comment on an answer
+// @route   DELETE /api/v1/answers/:id/comments/:commentId
+// @access  Private (Admin only)
+router.delete('/:id/comments/:commentId', protect, authorize('admin'), async (req, res) => {
+  try {
+    const comment = await AnswerComment.findOneAndDelete({ _id: req.params.commentId, answer: req.params.id });
+
+    if (!comment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Comment not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {}
     });
   } catch (err) {
     res.status(400).json({
@@ -264,6 +646,7 @@ router.delete('/:id', protect, authorize('admin'), async (req, res) => {
     }
 
     await answer.deleteOne();
+    await AnswerComment.deleteMany({ answer: answer._id });
 
     res.status(200).json({
       success: true,
@@ -315,25 +698,49 @@ router.get('/debug/:id', protect, authorize('admin'), async (req, res) => {
 // @desc    Batch upload answers
 // @route   POST /api/v1/answers/batch
 // @access  Private
-router.post('/batch', protect, async (req, res) => {
+router.post('/batch', protectInterviewSession, async (req, res) => {
   try {
     const answers = req.body; // array of answers
     if (!Array.isArray(answers)) {
       return res.status(400).json({ success: false, error: 'Request body must be an array of answers' });
     }
     const results = [];
-    for (const ans of answers) {
-      // Upsert by interview+question
+    for (const submitted of answers) {
+      const ans = withoutEvaluation(submitted, req.user);
+      const interview = await Interview.findById(ans.interview);
+      if (!interview) {
+        return res.status(404).json({ success: false, error: 'Interview not found' });
+      }
+      if ((req.user.role !== 'admin' && !(await isInterviewCandidate(interview, req.user))) || !isSessionInterview(req, interview._id)) {
+        return res.status(403).json({ success: false, error: 'Not authorized to create answers for this interview' });
+      }
+
+      delete ans.followUpQuestion;
+      const parentAnswerError = await checkParentAnswer(ans);
+      if (parentAnswerError) {
+        return res.status(400).json({ success: false, error: parentAnswerError });
+      }
+      const progressEntry = await checkSession(interview, ans, req.user);
+
+      // Upsert by interview+question, keeping follow-up answers apart from
+      // the answer they follow up on
+      const filter = { interview: ans.interview, question: ans.question, parentAnswer: ans.parentAnswer || null };
+      const existing = await Answer.findOne(filter).select('questionVersion');
       let answer = await Answer.findOneAndUpdate(
-        { interview: ans.interview, question: ans.question },
-        ans,
+        filter,
+        withEvaluationStatus(await withAutoGrade(await withTestResults(await withQuestionVersion(ans, existing)))),
         { upsert: true, new: true, setDefaultsOnInsert: true }
       );
+      await recordAnswer(interview, progressEntry);
+      if (answer.evaluationStatus === 'pending') {
+        await queueEvaluation(answer);
+        answer.evaluationStatus = 'queued';
+      }
       results.push(answer);
     }
-    res.status(201).json({ success: true, data: results });
+    res.status(201).json({ success: true, data: results.map(answer => toAnswerResponse(answer, req.user)) });
   } catch (err) {
-    res.status(400).json({ success: false, error: err.message });
+    res.status(err.statusCode || 400).json({ success: false, error: err.message });
   }
 });
 
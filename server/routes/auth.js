@@ -1,6 +1,6 @@
 import express from 'express';
 import User from '../models/User.js';
-import { protect } from '../middleware/auth.js';
+import { protectInterviewSession } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -75,7 +75,7 @@ router.post('/login', async (req, res) => {
 // @desc    Get current logged in user
 // @route   GET /api/v1/auth/me
 // @access  Private
-router.get('/me', protect, async (req, res) => {
+router.get('/me', protectInterviewSession, async (req, res) => {
   try {
     const user = await User.findById(req.user.id);
 
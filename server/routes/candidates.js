@@ -0,0 +1,30 @@
+import express from 'express';
+import {
+  getCandidates,
+  getCandidate,
+  createCandidate,
+  updateCandidate,
+  deleteCandidate,
+  uploadResume,
+  downloadResume
+} from '../controllers/candidates.js';
+import { protect, authorize } from '../middleware/auth.js';
+
+const router = express.Router();
+
+router.use(protect, authorize('admin'));
+
+router.route('/')
+  .get(getCandidates)
+  .post(createCandidate);
+
+router.route('/:id')
+  .get(getCandidate)
+  .put(updateCandidate)
+  .delete(deleteCandidate);
+
+router.route('/:id/resume')
+  .get(downloadResume)
+  .post(uploadResume);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { runCode, getLanguages } from '../controllers/code.js';
+import { protectInterviewSession } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Protect all routes; candidates run their code during the interview
+router.use(protectInterviewSession);
+
+// Code execution routes
+router.post('/run', runCode);
+router.get('/languages', getLanguages);
+
+export default router;
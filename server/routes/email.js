@@ -1,11 +1,39 @@
 import express from 'express';
-import { sendInterviewInvitation, verifyInterviewToken } from '../controllers/email.js';
-import { protect } from '../middleware/auth.js';
+import {
+  sendInterviewInvitation,
+  getInvitation,
+  revokeInvitation,
+  verifyInterviewToken,
+  sendInterviewResults,
+  getOutbox,
+  retryOutboxEmail,
+  getEmailTemplates,
+  updateEmailTemplate,
+  resetEmailTemplate,
+  previewEmailTemplate
+} from '../controllers/email.js';
+import { protect, authorize } from '../middleware/auth.js';
 
 const router = express.Router();
 
 // Protected routes (require authentication)
-router.post('/send-invitation/:id', protect, sendInterviewInvitation);
+// Sending an invitation issues a link that signs the candidate in
+router.post('/send-invitation/:id', protect, authorize('admin'), sendInterviewInvitation);
+router.route('/invitation/:id')
+  .get(protect, authorize('admin'), getInvitation)
+  .delete(protect, authorize('admin'), revokeInvitation);
+router.post('/results/:id', protect, authorize('admin'), sendInterviewResults);
+
+// Delivery status of every email sent
+router.get('/outbox', protect, authorize('admin'), getOutbox);
+router.post('/outbox/:id/retry', protect, authorize('admin'), retryOutboxEmail);
+
+// Company email templates
+router.get('/templates', protect, authorize('admin'), getEmailTemplates);
+router.route('/templates/:type')
+  .put(protect, authorize('admin'), updateEmailTemplate)
+  .delete(protect, authorize('admin'), resetEmailTemplate);
+router.post('/templates/:type/preview', protect, authorize('admin'), previewEmailTemplate);
 
 // Public routes
 router.get('/verify-token/:id', verifyInterviewToken);
@@ -0,0 +1,24 @@
+import express from 'express';
+import {
+  getInterviewTemplates,
+  getInterviewTemplate,
+  createInterviewTemplate,
+  updateInterviewTemplate,
+  deleteInterviewTemplate
+} from '../controllers/interviewTemplates.js';
+import { protect, authorize } from '../middleware/auth.js';
+
+const router = express.Router();
+
+router.use(protect);
+
+router.route('/')
+  .get(getInterviewTemplates)
+  .post(authorize('admin'), createInterviewTemplate);
+
+router.route('/:id')
+  .get(getInterviewTemplate)
+  .put(authorize('admin'), updateInterviewTemplate)
+  .delete(authorize('admin'), deleteInterviewTemplate);
+
+export default router;
@@ -1,23 +1,64 @@
 import express from 'express';
 import Interview from '../models/Interview.js';
-import { protect, authorize } from '../middleware/auth.js';
+import InterviewTemplate from '../models/InterviewTemplate.js';
+import Candidate from '../models/Candidate.js';
+import User from '../models/User.js';
+import { protect, protectInterviewSession, authorize, isSessionInterview } from '../middleware/auth.js';
+import { selectQuestionsForTemplate, selectQuestionsForStacks } from '../services/questionSelectionService.js';
+import { selectNextQuestion } from '../services/adaptiveDifficultyService.js';
+import {
+  INTERVIEW_TRANSITIONS,
+  assertTransition,
+  refreshSession,
+  toSessionState,
+  startSession,
+  startQuestion,
+  skipQuestion,
+  completeSession,
+  abandonSession,
+  findProgressEntry
+} from '../services/interviewSessionService.js';
+import {
+  getCandidateAccount,
+  findCandidateForUser,
+  isInterviewCandidate,
+  findCandidateIdsForUser,
+  advanceCandidate,
+  CANDIDATE_ROLE
+} from '../services/candidateService.js';
+import { getLatestInvitation, revokeInvitations } from '../services/invitationService.js';
+import { createResumeQuestions } from '../services/resumeService.js';
+import Question from '../models/Question.js';
+import {
+  buildCandidateCalendar,
+  sendInvitationEmail,
+  sendCancellationEmail
+} from '../services/interviewEmailService.js';
+import toQuestionResponse from '../utils/questionResponse.js';
 
 const router = express.Router();
 
 // @desc    Get all interviews (admin gets all, user gets only their own)
 // @route   GET /api/v1/interviews
 // @access  Private
-router.get('/', protect, async (req, res) => {
+router.get('/', protectInterviewSession, async (req, res) => {
   try {
     let query = {};
     
-    // If user is not admin, only show their interviews
+    // If user is not admin, only show their interviews, and only the
+    // interview of the link they joined with
     if (req.user.role !== 'admin') {
-      query.candidate = req.user.id;
+      query.candidate = { $in: await findCandidateIdsForUser(req.user) };
+      if (req.interviewSession) {
+        query._id = req.interviewSession;
+      }
+    } else if (req.query.candidate) {
+      // All interviews of one candidate in the pipeline
+      query.candidate = req.query.candidate;
     }
     
     const interviews = await Interview.find(query)
-      .populate('candidate', 'name email')
+      .populate('candidate', 'name email stage user')
       .populate('techStack', 'name description')
       .populate('createdBy', 'name email');
 
@@ -37,10 +78,10 @@ router.get('/', protect, async (req, res) => {
 // @desc    Get single interview
 // @route   GET /api/v1/interviews/:id
 // @access  Private
-router.get('/:id', protect, async (req, res) => {
+router.get('/:id', protectInterviewSession, async (req, res) => {
   try {
     const interview = await Interview.findById(req.params.id)
-      .populate('candidate', 'name email')
+      .populate('candidate', 'name email stage user')
       .populate('techStack', 'name description')
       .populate('createdBy', 'name email');
 
@@ -52,9 +93,7 @@ router.get('/:id', protect, async (req, res) => {
     }
 
     // Make sure user is owner or admin
-    // Handle both populated and non-populated candidate field
-    const candidateId = interview.candidate._id || interview.candidate;
-    if (candidateId.toString() !== req.user.id && req.user.role !== 'admin') {
+    if ((req.user.role !== 'admin' && !(await isInterviewCandidate(interview, req.user))) || !isSessionInterview(req, interview._id)) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to access this interview'
@@ -83,14 +122,128 @@ router.post('/', protect, authorize('admin'), async (req, res) => {
     
     // Only admins can schedule interviews for any candidate
     console.log('[INTERVIEW CREATE] req.body:', req.body);
-    const interview = await Interview.create(req.body);
+
+    // Questions are always drawn by the server, never taken from the request,
+    // and the session only starts when the candidate starts it
+    delete req.body.questions;
+    ['progress', 'startedAt', 'endsAt', 'endedAt', 'completedAt'].forEach(key => delete req.body[key]);
+    if (req.body.candidate && !(await Candidate.exists({ _id: req.body.candidate }))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Candidate not found'
+      });
+    }
+    if (req.body.status && !['scheduled', 'awaiting-slot'].includes(req.body.status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'New interviews are scheduled or waiting for the candidate to pick a slot'
+      });
+    }
+    const resumeQuestionCount = Number(req.body.resumeQuestionCount) || 0;
+    delete req.body.resumeQuestionCount;
+
+    if (req.body.template && req.body.mode === 'adaptive') {
+      return res.status(400).json({
+        success: false,
+        error: 'Adaptive interviews pick their own questions and cannot use a template'
+      });
+    }
+    if (resumeQuestionCount > 0 && req.body.mode === 'adaptive') {
+      return res.status(400).json({
+        success: false,
+        error: 'Adaptive interviews pick their own questions and cannot add resume questions'
+      });
+    }
+
+    if (req.body.template) {
+      const template = await InterviewTemplate.findById(req.body.template);
+      if (!template) {
+        return res.status(404).json({
+          success: false,
+          error: 'Interview template not found'
+        });
+      }
+      if (req.body.role && template.role.toString() !== req.body.role.toString()) {
+        return res.status(400).json({
+          success: false,
+          error: 'The interview template belongs to a different role'
+        });
+      }
+
+      const { questions, techStacks } = await selectQuestionsForTemplate(template);
+      req.body.role = template.role;
+      req.body.questions = questions;
+      req.body.techStacks = techStacks;
+      req.body.techStack = techStacks[0];
+    }
+
+    // Interviews belong to a candidate in the pipeline, who takes them with
+    // their account. Scheduling by account, as older clients do, adds the
+    // person to the pipeline.
+    if (req.body.candidate) {
+      let candidate = await Candidate.findById(req.body.candidate);
+      if (!candidate) {
+        const user = await User.findById(req.body.candidate);
+        if (user && user.role !== CANDIDATE_ROLE) {
+          return res.status(400).json({
+            success: false,
+            error: 'Interviews can only be scheduled for candidate accounts'
+          });
+        }
+        candidate = user && await findCandidateForUser(user, { createdBy: req.user.id });
+      }
+      if (!candidate) {
+        return res.status(404).json({
+          success: false,
+          error: 'Candidate not found'
+        });
+      }
+      await getCandidateAccount(candidate);
+      req.body.candidate = candidate._id;
+    }
+
+    // Questions about the candidate's resume are asked after the others.
+    // Without a template that fixes the set to every question of the tech
+    // stacks, as it is when the interview is created.
+    let resumeQuestions = [];
+    if (resumeQuestionCount > 0) {
+      const candidate = await Candidate.findById(req.body.candidate).select('+resumeText');
+      if (!candidate) {
+        return res.status(400).json({
+          success: false,
+          error: 'Resume questions need a candidate from the pipeline'
+        });
+      }
+      const techStacks = req.body.techStacks && req.body.techStacks.length > 0
+        ? req.body.techStacks
+        : [req.body.techStack].filter(Boolean);
+
+      resumeQuestions = await createResumeQuestions(candidate, {
+        techStacks,
+        count: resumeQuestionCount,
+        roleId: req.body.role
+      });
+      req.body.questions = [
+        ...(req.body.template ? req.body.questions : await selectQuestionsForStacks(techStacks)),
+        ...resumeQuestions.map(question => question._id)
+      ];
+    }
+
+    let interview;
+    try {
+      interview = await Interview.create(req.body);
+    } catch (err) {
+      await Question.deleteMany({ _id: { $in: resumeQuestions.map(question => question._id) } });
+      throw err;
+    }
+    await advanceCandidate(interview.candidate, 'screening');
 
     res.status(201).json({
       success: true,
       data: interview
     });
   } catch (err) {
-    res.status(400).json({
+    res.status(err.statusCode || 400).json({
       success: false,
       error: err.message
     });
@@ -112,38 +265,101 @@ router.put('/:id', protect, async (req, res) => {
     }
 
     // Make sure user is owner or admin
-    // Handle both populated and non-populated candidate field
-    const candidateId = interview.candidate._id || interview.candidate;
-    if (candidateId.toString() !== req.user.id && req.user.role !== 'admin') {
+    if (req.user.role !== 'admin' && !(await isInterviewCandidate(interview, req.user))) {
       return res.status(403).json({
         success: false,
         error: 'Not authorized to update this interview'
       });
     }
 
-    // Allow candidates to only update status
+    // The question set is fixed when the interview is created
+    delete req.body.template;
+    delete req.body.questions;
+    delete req.body.mode;
+    delete req.body.questionCount;
+
+    // Candidates change the status only through the session routes, and
+    // admins cannot start an interview or set when it ran
     if (req.user.role !== 'admin') {
-      // Only allow candidate to update status
-      const allowedUpdates = ['status'];
-      
-      Object.keys(req.body).forEach(key => {
-        if (!allowedUpdates.includes(key)) {
-          delete req.body[key];
-        }
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to update this interview'
+      });
+    }
+    ['progress', 'startedAt', 'endsAt', 'endedAt', 'completedAt'].forEach(key => delete req.body[key]);
+    await refreshSession(interview);
+    if (req.body.status && req.body.status !== interview.status) {
+      if (['in-progress', 'expired'].includes(req.body.status)) {
+        return res.status(400).json({
+          success: false,
+          error: `Only the ${req.body.status === 'in-progress' ? 'candidate' : 'server'} can make an interview ${req.body.status}`
+        });
+      }
+      assertTransition(interview, req.body.status);
+    }
+    // The time limits of an interview in progress are already running
+    if (interview.status !== 'scheduled' && interview.status !== 'awaiting-slot'
+      && (req.body.duration !== undefined || req.body.questionTimeLimit !== undefined)) {
+      return res.status(400).json({
+        success: false,
+        error: `The duration of an interview that is ${interview.status} cannot be changed`
       });
     }
 
-    interview = await Interview.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
-      runValidators: true
-    });
+    const previous = {
+      startsAt: interview.startsAt && interview.startsAt.getTime(),
+      duration: interview.duration,
+      status: interview.status
+    };
+
+    // Saved rather than updated in place so the legacy schedule fields
+    // follow a new start time
+    const { status } = req.body;
+    delete req.body.status;
+    interview.set(req.body);
+    // Reminders are due again for a new start time
+    if (interview.isModified('startsAt')) {
+      interview.remindersSent = [];
+    }
+    // Ending an interview in progress closes its session like the candidate would
+    if (status === 'completed' && previous.status !== 'completed') {
+      await completeSession(interview);
+    } else if (status === 'abandoned' && previous.status !== 'abandoned') {
+      await abandonSession(interview);
+    } else {
+      if (status) {
+        interview.status = status;
+      }
+      await interview.save();
+    }
+
+    // Keep the candidate's calendar in step. A failed email does not undo
+    // the update.
+    const companyName = req.user.company || 'SkillSpark';
+    try {
+      if (interview.status === 'cancelled' && previous.status === 'awaiting-slot') {
+        // Nothing was booked, so there is no calendar event to cancel
+        await revokeInvitations(interview._id, { purpose: 'schedule' });
+      } else if (interview.status === 'cancelled' && previous.status !== 'cancelled') {
+        await sendCancellationEmail(interview, { companyName });
+      } else if (
+        interview.status === 'scheduled' &&
+        (interview.startsAt.getTime() !== previous.startsAt || interview.duration !== previous.duration) &&
+        await getLatestInvitation(interview._id)
+      ) {
+        // Only candidates who were already invited get the update
+        await sendInvitationEmail(interview, { companyName, createdBy: req.user.id, method: 'update' });
+      }
+    } catch (emailError) {
+      console.error('Error sending interview update email:', emailError);
+    }
 
     res.status(200).json({
       success: true,
       data: interview
     });
   } catch (err) {
-    res.status(400).json({
+    res.status(err.statusCode || 400).json({
       success: false,
       error: err.message
     });
@@ -178,40 +394,268 @@ router.delete('/:id', protect, authorize('admin'), async (req, res) => {
   }
 });
 
-// @desc    Start interview (candidate only, only during scheduled window)
-// @route   POST /api/v1/interviews/:id/start
-// @access  Private (Candidate only)
-router.post('/:id/start', protect, async (req, res) => {
+// @desc    Move an interview to a new start time and email the candidate a
+//          new invitation link, e.g. after a no-show
+// @route   POST /api/v1/interviews/:id/reschedule
+// @access  Private (Admin only)
+router.post('/:id/reschedule', protect, authorize('admin'), async (req, res) => {
   try {
-    console.log('POST /:id/start called with id:', req.params.id, 'typeof:', typeof req.params.id);
-
     const interview = await Interview.findById(req.params.id);
-    console.log('Interview.findById result:', interview);
+
     if (!interview) {
-      return res.status(404).json({ success: false, error: 'Interview not found' });
+      return res.status(404).json({
+        success: false,
+        error: 'Interview not found'
+      });
     }
-    // Only candidate can start their own interview
-    const candidateId = interview.candidate._id || interview.candidate;
-    if (candidateId.toString() !== req.user.id) {
-      return res.status(403).json({ success: false, error: 'Not authorized' });
+
+    if (interview.status !== 'scheduled' && !(INTERVIEW_TRANSITIONS[interview.status] || []).includes('scheduled')) {
+      return res.status(400).json({
+        success: false,
+        error: `An interview that is ${interview.status} cannot be rescheduled`
+      });
     }
-    // Combine scheduledDate and scheduledTime
-    const scheduledStart = new Date(`${interview.scheduledDate}T${interview.scheduledTime}`);
-    const now = new Date();
-    const scheduledEnd = new Date(scheduledStart.getTime() + (interview.duration || 30) * 60000);
-    if (now < scheduledStart) {
-      return res.status(403).json({ success: false, error: 'Interview has not started yet.' });
+
+    const startsAt = new Date(req.body.startsAt);
+    if (Number.isNaN(startsAt.getTime()) || startsAt <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Please pick a start time in the future'
+      });
     }
-    if (now > scheduledEnd) {
-      return res.status(403).json({ success: false, error: 'Interview window has passed.' });
+
+    interview.set({
+      startsAt,
+      status: 'scheduled',
+      remindersSent: [],
+      noShowAt: undefined
+    });
+    await interview.save();
+
+    // The interview is moved even if the email fails; it can be re-sent
+    let invitation = null;
+    try {
+      ({ invitation } = await sendInvitationEmail(interview, {
+        companyName: req.user.company || 'SkillSpark',
+        createdBy: req.user.id,
+        method: 'update'
+      }));
+    } catch (emailError) {
+      console.error('Error sending rescheduled interview invitation:', emailError);
     }
-    // Only allow if interview is scheduled (not already started/completed)
-    if (interview.status !== 'scheduled') {
-      return res.status(400).json({ success: false, error: 'Interview cannot be started in current state.' });
+
+    res.status(200).json({
+      success: true,
+      data: interview,
+      invitation
+    });
+  } catch (err) {
+    res.status(400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Download the interview as an iCalendar file
+// @route   GET /api/v1/interviews/:id/calendar
+// @access  Private
+router.get('/:id/calendar', protectInterviewSession, async (req, res) => {
+  try {
+    const interview = await Interview.findById(req.params.id)
+      .populate('candidate')
+      .populate('role');
+
+    if (!interview) {
+      return res.status(404).json({
+        success: false,
+        error: 'Interview not found'
+      });
     }
-    interview.status = 'in-progress';
-    await interview.save();
-    res.status(200).json({ success: true, data: interview });
+
+    // Make sure user is owner or admin
+    if ((req.user.role !== 'admin' && !(await isInterviewCandidate(interview, req.user))) || !isSessionInterview(req, interview._id)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Not authorized to access this interview'
+      });
+    }
+
+    if (!interview.startsAt) {
+      return res.status(400).json({
+        success: false,
+        error: 'The candidate has not picked a time for this interview yet'
+      });
+    }
+
+    // The single-use link is only ever emailed, so the file links to the
+    // interview page, which asks the candidate to log in
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    const calendar = buildCandidateCalendar(interview, {
+      method: interview.status === 'cancelled' ? 'cancel' : 'request',
+      joinLink: interview.status === 'cancelled' ? undefined : `${baseUrl}/interview/${interview._id}`,
+      companyName: req.user.company || 'SkillSpark'
+    });
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="interview-${interview._id}.ics"`);
+    res.status(200).send(calendar);
+  } catch (err) {
+    res.status(400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// Load an interview for its session routes, brought up to date. Only the
+// candidate may change the session; admins may look at it.
+const loadSession = async (req, res, { candidateOnly = true } = {}) => {
+  const interview = await Interview.findById(req.params.id);
+  if (!interview) {
+    res.status(404).json({ success: false, error: 'Interview not found' });
+    return null;
+  }
+
+  const isAllowed = (!candidateOnly && req.user.role === 'admin') || await isInterviewCandidate(interview, req.user);
+  if (!isAllowed || !isSessionInterview(req, interview._id)) {
+    res.status(403).json({ success: false, error: 'Not authorized' });
+    return null;
+  }
+  return refreshSession(interview);
+};
+
+// @desc    Start interview (candidate only, only during scheduled window).
+//          The interview's duration starts counting.
+// @route   POST /api/v1/interviews/:id/start
+// @access  Private (Candidate only)
+router.post('/:id/start', protectInterviewSession, async (req, res) => {
+  try {
+    const interview = await loadSession(req, res);
+    if (!interview) return;
+
+    const started = await startSession(interview);
+    res.status(200).json({ success: true, data: started, session: toSessionState(started) });
+  } catch (err) {
+    res.status(err.statusCode || 400).json({ success: false, error: err.message });
+  }
+});
+
+// @desc    Get the interview session: status, time left, and every question
+//          shown so far with its outcome. Used to resume after a reload.
+// @route   GET /api/v1/interviews/:id/session
+// @access  Private
+router.get('/:id/session', protectInterviewSession, async (req, res) => {
+  try {
+    const interview = await loadSession(req, res, { candidateOnly: false });
+    if (!interview) return;
+
+    res.status(200).json({ success: true, data: toSessionState(interview) });
+  } catch (err) {
+    res.status(err.statusCode || 400).json({ success: false, error: err.message });
+  }
+});
+
+// @desc    Show a question and start its clock. Pass { followUp: true } for
+//          the question's follow-up question.
+// @route   POST /api/v1/interviews/:id/session/questions/:questionId/start
+// @access  Private (Candidate only)
+router.post('/:id/session/questions/:questionId/start', protectInterviewSession, async (req, res) => {
+  try {
+    const interview = await loadSession(req, res);
+    if (!interview) return;
+
+    await startQuestion(interview, req.params.questionId, { followUp: !!req.body.followUp });
+    res.status(200).json({ success: true, data: toSessionState(interview) });
+  } catch (err) {
+    res.status(err.statusCode || 400).json({ success: false, error: err.message });
+  }
+});
+
+// @desc    Move past a question without answering it
+// @route   POST /api/v1/interviews/:id/session/questions/:questionId/skip
+// @access  Private (Candidate only)
+router.post('/:id/session/questions/:questionId/skip', protectInterviewSession, async (req, res) => {
+  try {
+    const interview = await loadSession(req, res);
+    if (!interview) return;
+
+    await skipQuestion(interview, req.params.questionId, { followUp: !!req.body.followUp });
+    res.status(200).json({ success: true, data: toSessionState(interview) });
+  } catch (err) {
+    res.status(err.statusCode || 400).json({ success: false, error: err.message });
+  }
+});
+
+// @desc    Finish the interview
+// @route   POST /api/v1/interviews/:id/complete
+// @access  Private (Candidate only)
+router.post('/:id/complete', protectInterviewSession, async (req, res) => {
+  try {
+    const interview = await loadSession(req, res);
+    if (!interview) return;
+
+    await completeSession(interview);
+    res.status(200).json({ success: true, data: interview, session: toSessionState(interview) });
+  } catch (err) {
+    res.status(err.statusCode || 400).json({ success: false, error: err.message });
+  }
+});
+
+// @desc    Leave the interview without finishing it
+// @route   POST /api/v1/interviews/:id/abandon
+// @access  Private (Candidate only)
+router.post('/:id/abandon', protectInterviewSession, async (req, res) => {
+  try {
+    const interview = await loadSession(req, res);
+    if (!interview) return;
+
+    await abandonSession(interview);
+    res.status(200).json({ success: true, data: interview, session: toSessionState(interview) });
+  } catch (err) {
+    res.status(err.statusCode || 400).json({ success: false, error: err.message });
+  }
+});
+
+// @desc    Get the next question of an adaptive interview, picked from the
+//          scores so far. Pass { skip: true } to move past an unanswered
+//          question; questions skipped or timed out in the session are moved
+//          past too. While a recent answer is still being evaluated it returns
+//          { pending: true } to ask again; { ignorePending: true } picks from
+//          the scores already in. Closes the open question, so only the
+//          candidate may ask.
+// @route   POST /api/v1/interviews/:id/next-question
+// @access  Private (Candidate only)
+router.post('/:id/next-question', protectInterviewSession, async (req, res) => {
+  try {
+    const interview = await loadSession(req, res);
+    if (!interview) return;
+
+    if (interview.mode !== 'adaptive') {
+      return res.status(400).json({ success: false, error: 'Only adaptive interviews pick questions one at a time' });
+    }
+    if (interview.status !== 'in-progress') {
+      return res.status(400).json({ success: false, error: `Interview is ${interview.status}` });
+    }
+
+    const lastAsked = interview.questions[interview.questions.length - 1];
+    const lastEntry = lastAsked && findProgressEntry(interview, lastAsked);
+    const { done, pending, question, difficulty, position, total } = await selectNextQuestion(interview, {
+      skip: req.body.skip === true || (!!lastEntry && ['skipped', 'timed-out'].includes(lastEntry.outcome)),
+      ignorePending: req.body.ignorePending === true
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        done,
+        pending: !!pending,
+        question: question ? toQuestionResponse(question, req.user) : null,
+        difficulty: difficulty || null,
+        position,
+        total
+      }
+    });
   } catch (err) {
     res.status(400).json({ success: false, error: err.message });
   }
@@ -1,13 +1,26 @@
 import express from 'express';
 import Question from '../models/Question.js';
-import { protect, authorize } from '../middleware/auth.js';
+import Candidate from '../models/Candidate.js';
+import { protect, authorize, identify } from '../middleware/auth.js';
+import toQuestionResponse from '../utils/questionResponse.js';
+import {
+  createQuestion,
+  updateQuestion,
+  deleteQuestion,
+  restoreQuestion,
+  listVersions,
+  QuestionVersionError
+} from '../services/questionVersionService.js';
+import { previewImport, importQuestionFile, exportQuestionFile } from '../controllers/questionFiles.js';
+import { generateQuestions } from '../controllers/questionGeneration.js';
 
 const router = express.Router();
 
-// @desc    Get all questions with optional tech stack filter
+// @desc    Get all questions with optional tech stack and tag filters.
+//          Admins list deleted questions with ?deleted=true.
 // @route   GET /api/v1/questions
 // @access  Public
-router.get('/', async (req, res) => {
+router.get('/', identify, async (req, res) => {
   try {
     let query = {};
     
@@ -15,6 +28,25 @@ router.get('/', async (req, res) => {
     if (req.query.techStack) {
       query.techStack = req.query.techStack;
     }
+
+    if (req.query.tag) {
+      query.tags = String(req.query.tag).toLowerCase();
+    }
+
+    query.deletedAt = req.user && req.user.role === 'admin' && req.query.deleted === 'true'
+      ? { $ne: null }
+      : null;
+
+    // Questions generated from a candidate's resume are not part of the
+    // bank: admins see them with ?candidate=, candidates see their own
+    if (req.user && req.user.role === 'admin' && req.query.candidate) {
+      query.candidate = req.query.candidate;
+    } else {
+      const ownProfiles = req.user && req.user.role !== 'admin'
+        ? await Candidate.find({ user: req.user._id }).distinct('_id')
+        : [];
+      query.candidate = { $in: [null, ...ownProfiles] };
+    }
     
     const questions = await Question.find(query)
       .populate('techStack', 'name description');
@@ -22,7 +54,7 @@ router.get('/', async (req, res) => {
     res.status(200).json({
       success: true,
       count: questions.length,
-      data: questions
+      data: questions.map(question => toQuestionResponse(question, req.user))
     });
   } catch (err) {
     res.status(400).json({
@@ -32,10 +64,17 @@ router.get('/', async (req, res) => {
   }
 });
 
-// @desc    Get single question
+// Bulk import, export and generation; registered before /:id so the paths are not read as ids
+router.post('/import/preview', protect, authorize('admin'), previewImport);
+router.post('/import', protect, authorize('admin'), importQuestionFile);
+router.get('/export', protect, authorize('admin'), exportQuestionFile);
+router.post('/generate', protect, authorize('admin'), generateQuestions);
+
+// @desc    Get single question. Deleted questions are still returned for
+//          the interviews and reports that use them.
 // @route   GET /api/v1/questions/:id
 // @access  Public
-router.get('/:id', async (req, res) => {
+router.get('/:id', identify, async (req, res) => {
   try {
     const question = await Question.findById(req.params.id)
       .populate('techStack', 'name description');
@@ -49,7 +88,7 @@ router.get('/:id', async (req, res) => {
 
     res.status(200).json({
       success: true,
-      data: question
+      data: toQuestionResponse(question, req.user)
     });
   } catch (err) {
     res.status(400).json({
@@ -64,7 +103,7 @@ router.get('/:id', async (req, res) => {
 // @access  Private (Admin only)
 router.post('/', protect, authorize('admin'), async (req, res) => {
   try {
-    const question = await Question.create(req.body);
+    const question = await createQuestion(req.body, req.user);
 
     res.status(201).json({
       success: true,
@@ -78,7 +117,8 @@ router.post('/', protect, authorize('admin'), async (req, res) => {
   }
 });
 
-// @desc    Update question
+// @desc    Update question. Changes make a new version; answers keep the
+//          version they were given.
 // @route   PUT /api/v1/questions/:id
 // @access  Private (Admin only)
 router.put('/:id', protect, authorize('admin'), async (req, res) => {
@@ -92,10 +132,7 @@ router.put('/:id', protect, authorize('admin'), async (req, res) => {
       });
     }
 
-    question = await Question.findByIdAndUpdate(req.params.id, req.body, {
-      new: true,
-      runValidators: true
-    });
+    question = await updateQuestion(question, req.body, req.user);
 
     res.status(200).json({
       success: true,
@@ -109,7 +146,8 @@ router.put('/:id', protect, authorize('admin'), async (req, res) => {
   }
 });
 
-// @desc    Delete question
+// @desc    Delete question. It is kept for the reports of answers to it
+//          and can be restored.
 // @route   DELETE /api/v1/questions/:id
 // @access  Private (Admin only)
 router.delete('/:id', protect, authorize('admin'), async (req, res) => {
@@ -123,7 +161,7 @@ router.delete('/:id', protect, authorize('admin'), async (req, res) => {
       });
     }
 
-    await question.deleteOne();
+    await deleteQuestion(question);
 
     res.status(200).json({
       success: true,
@@ -137,4 +175,61 @@ router.delete('/:id', protect, authorize('admin'), async (req, res) => {
   }
 });
 
+// @desc    Restore a deleted question
+// @route   POST /api/v1/questions/:id/restore
+// @access  Private (Admin only)
+router.post('/:id/restore', protect, authorize('admin'), async (req, res) => {
+  try {
+    let question = await Question.findById(req.params.id);
+
+    if (!question) {
+      return res.status(404).json({
+        success: false,
+        error: 'Question not found'
+      });
+    }
+
+    question = await restoreQuestion(question);
+
+    res.status(200).json({
+      success: true,
+      data: question
+    });
+  } catch (err) {
+    res.status(err instanceof QuestionVersionError ? err.statusCode : 400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Get the versions of a question, newest first
+// @route   GET /api/v1/questions/:id/versions
+// @access  Private (Admin only)
+router.get('/:id/versions', protect, authorize('admin'), async (req, res) => {
+  try {
+    const question = await Question.findById(req.params.id);
+
+    if (!question) {
+      return res.status(404).json({
+        success: false,
+        error: 'Question not found'
+      });
+    }
+
+    const versions = await listVersions(question);
+
+    res.status(200).json({
+      success: true,
+      count: versions.length,
+      data: versions.map(version => version.toObject({ flattenMaps: true }))
+    });
+  } catch (err) {
+    res.status(400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,27 @@
+import express from 'express';
+import {
+  getRubrics,
+  getDefaultRubric,
+  getRubric,
+  createRubric,
+  updateRubric,
+  deleteRubric
+} from '../controllers/rubrics.js';
+import { protect, authorize } from '../middleware/auth.js';
+
+const router = express.Router();
+
+router.use(protect);
+
+router.route('/')
+  .get(getRubrics)
+  .post(authorize('admin'), createRubric);
+
+router.get('/default', getDefaultRubric);
+
+router.route('/:id')
+  .get(getRubric)
+  .put(authorize('admin'), updateRubric)
+  .delete(authorize('admin'), deleteRubric);
+
+export default router;
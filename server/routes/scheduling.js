@@ -0,0 +1,26 @@
+import express from 'express';
+import {
+  getAvailability,
+  createAvailability,
+  deleteAvailability,
+  sendSchedulingLink,
+  getSlots,
+  bookInterviewSlot
+} from '../controllers/scheduling.js';
+import { protect, authorize } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Interviewer availability
+router.route('/availability')
+  .get(protect, authorize('admin'), getAvailability)
+  .post(protect, authorize('admin'), createAvailability);
+router.delete('/availability/:id', protect, authorize('admin'), deleteAvailability);
+
+router.post('/:interviewId/send-link', protect, authorize('admin'), sendSchedulingLink);
+
+// Public routes, authorized by the scheduling link's token
+router.get('/:interviewId/slots', getSlots);
+router.post('/:interviewId/book', bookInterviewSlot);
+
+export default router;
@@ -2,7 +2,13 @@ import express from 'express';
 import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
-import { protect } from '../middleware/auth.js';
+import { protectInterviewSession } from '../middleware/auth.js';
+import {
+  createUpload,
+  findUpload,
+  storeChunk,
+  completeUpload
+} from '../services/chunkedUploadService.js';
 
 // ES Module fix for __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -13,7 +19,7 @@ const router = express.Router();
 // @desc    Upload audio file
 // @route   POST /api/v1/uploads
 // @access  Private
-router.post('/', protect, async (req, res) => {
+router.post('/', protectInterviewSession, async (req, res) => {
   try {
     console.log('Upload request received');
     console.log('Headers:', JSON.stringify(req.headers, null, 2));
@@ -101,4 +107,112 @@ router.post('/', protect, async (req, res) => {
   }
 });
 
+const toChunkedUpload = (upload) => ({
+  id: upload._id,
+  fileName: upload.fileName,
+  mimeType: upload.mimeType,
+  size: upload.size,
+  chunkSize: upload.chunkSize,
+  totalChunks: upload.totalChunks,
+  receivedChunks: [...upload.receivedChunks].sort((a, b) => a - b),
+  fileUrl: upload.fileUrl,
+  completedAt: upload.completedAt
+});
+
+// @desc    Start a resumable upload of a recording
+// @route   POST /api/v1/uploads/chunked
+// @access  Private
+router.post('/chunked', protectInterviewSession, async (req, res) => {
+  try {
+    const upload = await createUpload({
+      user: req.user,
+      fileName: req.body.fileName,
+      mimeType: req.body.mimeType,
+      size: req.body.size
+    });
+
+    res.status(201).json({
+      success: true,
+      data: toChunkedUpload(upload)
+    });
+  } catch (err) {
+    console.error('Error starting chunked upload:', err);
+    res.status(err.statusCode || 400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Get a resumable upload with the parts received so far
+// @route   GET /api/v1/uploads/chunked/:id
+// @access  Private
+router.get('/chunked/:id', protectInterviewSession, async (req, res) => {
+  try {
+    const upload = await findUpload(req.params.id, req.user);
+
+    res.status(200).json({
+      success: true,
+      data: toChunkedUpload(upload)
+    });
+  } catch (err) {
+    res.status(err.statusCode || 400).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Upload one part of a recording
+// @route   PUT /api/v1/uploads/chunked/:id/chunks/:index
+// @access  Private
+router.put('/chunked/:id/chunks/:index', protectInterviewSession, async (req, res) => {
+  try {
+    if (!req.files || !req.files.chunk) {
+      return res.status(400).json({
+        success: false,
+        error: 'Please upload the part with the field name "chunk"'
+      });
+    }
+
+    const upload = await findUpload(req.params.id, req.user);
+    const updated = await storeChunk(upload, Number(req.params.index), req.files.chunk);
+
+    res.status(200).json({
+      success: true,
+      data: toChunkedUpload(updated)
+    });
+  } catch (err) {
+    console.error('Error storing upload part:', err);
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
+// @desc    Join the parts of a recording into one file
+// @route   POST /api/v1/uploads/chunked/:id/complete
+// @access  Private
+router.post('/chunked/:id/complete', protectInterviewSession, async (req, res) => {
+  try {
+    const upload = await findUpload(req.params.id, req.user);
+    const completed = await completeUpload(upload);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...toChunkedUpload(completed),
+        fileName: path.basename(completed.fileUrl)
+      }
+    });
+  } catch (err) {
+    console.error('Error completing chunked upload:', err);
+    res.status(err.statusCode || 500).json({
+      success: false,
+      error: err.message
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,74 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+
+import Interview from '../models/Interview.js';
+import Candidate from '../models/Candidate.js';
+import User from '../models/User.js';
+import { findCandidateForUser } from '../services/candidateService.js';
+
+/**
+ * Point existing interviews at their candidate in the pipeline. Interviews
+ * used to reference the candidate's account in `candidate`, with the
+ * pipeline entry, when there was one, in `candidateProfile`. Interviews from
+ * before the pipeline get their account's candidate, who is added to the
+ * pipeline if needed. Running it again leaves migrated interviews alone.
+ */
+
+// Load env vars
+dotenv.config();
+
+/**
+ * Migrate every interview that still references an account
+ * @returns {Promise<{ migrated: number, skipped: number }>}
+ */
+const migrateInterviewCandidates = async () => {
+  // The schema no longer has candidateProfile, so read the raw documents
+  const interviews = Interview.collection.find({}, { projection: { candidate: 1, candidateProfile: 1 } });
+
+  let migrated = 0;
+  let skipped = 0;
+  for await (const interview of interviews) {
+    let candidateId = interview.candidateProfile;
+
+    if (!candidateId) {
+      if (interview.candidate && await Candidate.exists({ _id: interview.candidate })) {
+        continue;
+      }
+      const user = interview.candidate && await User.findById(interview.candidate);
+      if (!user) {
+        console.warn(`Skipped interview ${interview._id}: its candidate account ${interview.candidate} no longer exists`);
+        skipped++;
+        continue;
+      }
+      candidateId = (await findCandidateForUser(user))._id;
+    }
+
+    await Interview.collection.updateOne(
+      { _id: interview._id },
+      { $set: { candidate: candidateId }, $unset: { candidateProfile: '' } }
+    );
+    migrated++;
+  }
+
+  return { migrated, skipped };
+};
+
+// Check if script is run directly
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  console.log('Migrating interview candidates...');
+  mongoose.connect(process.env.MONGO_URI)
+    .then(() => migrateInterviewCandidates())
+    .then(({ migrated, skipped }) => {
+      console.log(`Migrated ${migrated} interviews, skipped ${skipped}`);
+      return mongoose.disconnect();
+    })
+    .catch(err => {
+      console.error('Error migrating interview candidates:', err);
+      mongoose.disconnect();
+      process.exit(1);
+    });
+}
+
+// Export for use in other files
+export { migrateInterviewCandidates };
@@ -66,6 +66,17 @@ import uploadRoutes from './routes/uploads.js';
 import aiRoutes from './routes/ai.js';
 import roleRoutes from './routes/roles.js';
 import emailRoutes from './routes/email.js';
+import rubricRoutes from './routes/rubrics.js';
+import codeRoutes from './routes/code.js';
+import interviewTemplateRoutes from './routes/interviewTemplates.js';
+import schedulingRoutes from './routes/scheduling.js';
+import candidateRoutes from './routes/candidates.js';
+import { scheduleJob } from './services/jobScheduler.js';
+import { processOutbox, OUTBOX_POLL_SECONDS } from './services/outboxService.js';
+import { sendDueReminders, flagNoShows } from './services/reminderService.js';
+import { expireSessions } from './services/interviewSessionService.js';
+import { removeUnfinishedUploads } from './services/chunkedUploadService.js';
+import { processEvaluations, EVALUATION_JOB_NAME, EVALUATION_POLL_SECONDS } from './services/evaluationQueueService.js';
 
 const app = express();
 
@@ -104,6 +115,11 @@ app.use('/api/v1/uploads', uploadRoutes);
 app.use('/api/v1/ai', aiRoutes);
 app.use('/api/v1/roles', roleRoutes);
 app.use('/api/v1/email', emailRoutes);
+app.use('/api/v1/rubrics', rubricRoutes);
+app.use('/api/v1/code', codeRoutes);
+app.use('/api/v1/interview-templates', interviewTemplateRoutes);
+app.use('/api/v1/scheduling', schedulingRoutes);
+app.use('/api/v1/candidates', candidateRoutes);
 
 // Basic route
 app.get('/', (req, res) => {
@@ -114,6 +130,16 @@ const PORT = process.env.PORT || 5000;
 
 app.listen(PORT, () => {
   console.log(`Server running in development mode on port ${PORT}`);
+
+  // Background jobs: retry failed emails, remind candidates, flag no-shows,
+  // expire interviews whose time ran out, clear unfinished uploads and
+  // evaluate answers
+  scheduleJob({ name: 'email-outbox', intervalSeconds: OUTBOX_POLL_SECONDS, run: processOutbox });
+  scheduleJob({ name: 'interview-reminders', intervalSeconds: 60, run: sendDueReminders });
+  scheduleJob({ name: 'no-shows', intervalSeconds: 60, run: flagNoShows });
+  scheduleJob({ name: 'interview-sessions', intervalSeconds: 60, run: expireSessions });
+  scheduleJob({ name: 'unfinished-uploads', intervalSeconds: 60 * 60, run: removeUnfinishedUploads });
+  scheduleJob({ name: EVALUATION_JOB_NAME, intervalSeconds: EVALUATION_POLL_SECONDS, run: processEvaluations });
 });
 
 // Handle unhandled promise rejections
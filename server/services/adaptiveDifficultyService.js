@@ -0,0 +1,149 @@
+import Question from '../models/Question.js';
+import Answer from '../models/Answer.js';
+
+/**
+ * Picks questions one at a time for adaptive interviews. The difficulty of
+ * the next question follows the candidate's recent scores: strong answers
+ * move up a level, weak answers move down. Answers are evaluated in the
+ * background, so while a recent one is still being evaluated no question is
+ * picked and the caller is told to ask again. Questions are appended to the
+ * interview's question list as they are served, which doubles as the
+ * difficulty trajectory shown in the report.
+ */
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+export const ADAPTIVE_START_DIFFICULTY = 'medium';
+
+// Number of most recent scored answers averaged into the running score
+export const ADAPTIVE_SCORE_WINDOW = 2;
+
+// Running score (out of 10) at or above which the next question is harder
+export const ADAPTIVE_STEP_UP_SCORE = 7;
+
+// Running score below which the next question is easier
+export const ADAPTIVE_STEP_DOWN_SCORE = 4;
+
+/**
+ * Decide the difficulty of the next question
+ * @param {string|null} currentDifficulty - Difficulty of the last question asked, if any
+ * @param {Array<number>} scores - Scores of the answers so far, oldest first
+ * @returns {string} - easy, medium or hard
+ */
+export const nextDifficulty = (currentDifficulty, scores) => {
+  if (!currentDifficulty) {
+    return ADAPTIVE_START_DIFFICULTY;
+  }
+
+  const recent = scores.slice(-ADAPTIVE_SCORE_WINDOW);
+  if (recent.length === 0) {
+    return currentDifficulty;
+  }
+
+  const runningScore = recent.reduce((sum, score) => sum + score, 0) / recent.length;
+  const level = DIFFICULTIES.indexOf(currentDifficulty);
+  if (runningScore >= ADAPTIVE_STEP_UP_SCORE) {
+    return DIFFICULTIES[Math.min(level + 1, DIFFICULTIES.length - 1)];
+  }
+  if (runningScore < ADAPTIVE_STEP_DOWN_SCORE) {
+    return DIFFICULTIES[Math.max(level - 1, 0)];
+  }
+  return currentDifficulty;
+};
+
+// Difficulties ordered by distance from the wanted one, the wanted one first
+const byDistanceFrom = (difficulty) => {
+  const level = DIFFICULTIES.indexOf(difficulty);
+  return [...DIFFICULTIES].sort((a, b) => Math.abs(DIFFICULTIES.indexOf(a) - level) - Math.abs(DIFFICULTIES.indexOf(b) - level));
+};
+
+/**
+ * Find the question an adaptive interview should show next. A question that
+ * was served but not answered yet is returned again, unless `skip` is set.
+ * While one of the answers the difficulty depends on is still being
+ * evaluated, `pending` is returned instead of a question, unless
+ * `ignorePending` is set; the difficulty then follows the scores already in.
+ * @param {Object} interview - Interview document in adaptive mode
+ * @param {Object} [options]
+ * @param {boolean} [options.skip] - Move past an unanswered question
+ * @param {boolean} [options.ignorePending] - Pick without waiting for evaluations still running
+ * @returns {Promise<{ done: boolean, pending?: boolean, question?: Object, difficulty?: string, position: number, total: number }>}
+ */
+export const selectNextQuestion = async (interview, { skip = false, ignorePending = false } = {}) => {
+  const asked = interview.questions.map(id => id.toString());
+  const total = interview.questionCount;
+
+  // Answers can be saved more than once per question; the latest one counts.
+  // Answers to follow-up questions do not move the difficulty.
+  const answers = await Answer.find({ interview: interview._id, parentAnswer: null })
+    .sort('createdAt')
+    .select('question score evaluationStatus');
+  const latestAnswers = new Map(answers.map(answer => [answer.question.toString(), answer]));
+
+  const lastAsked = asked[asked.length - 1];
+  if (lastAsked && !latestAnswers.has(lastAsked) && !skip) {
+    const question = await Question.findById(lastAsked);
+    if (question) {
+      return { done: false, question, difficulty: question.difficulty, position: asked.length, total };
+    }
+  }
+
+  if (asked.length >= total) {
+    return { done: true, position: asked.length, total };
+  }
+
+  // The difficulty depends on the latest answers; wait for their scores
+  const isEvaluating = asked
+    .map(id => latestAnswers.get(id))
+    .filter(Boolean)
+    .slice(-ADAPTIVE_SCORE_WINDOW)
+    .some(answer => ['queued', 'running'].includes(answer.evaluationStatus));
+  if (isEvaluating && !ignorePending) {
+    return { done: false, pending: true, position: asked.length, total };
+  }
+
+  const askedQuestions = await Question.find({ _id: { $in: asked } }).select('difficulty techStack');
+  const askedById = new Map(askedQuestions.map(question => [question._id.toString(), question]));
+
+  // Failed evaluations have no score and do not move the difficulty
+  const scores = asked
+    .map(id => latestAnswers.get(id))
+    .filter(answer => answer && answer.evaluationStatus !== 'failed' && typeof answer.score === 'number')
+    .map(answer => answer.score);
+  const currentDifficulty = lastAsked ? askedById.get(lastAsked)?.difficulty || null : null;
+  const difficulty = nextDifficulty(currentDifficulty, scores);
+
+  const techStacks = interview.techStacks && interview.techStacks.length > 0
+    ? interview.techStacks
+    : [interview.techStack];
+  const pool = await Question.find({ techStack: { $in: techStacks }, _id: { $nin: asked }, candidate: null, deletedAt: null });
+
+  // Spread the questions across tech stacks: prefer the least asked stack
+  const askedPerStack = new Map();
+  for (const question of askedQuestions) {
+    const stackId = question.techStack.toString();
+    askedPerStack.set(stackId, (askedPerStack.get(stackId) || 0) + 1);
+  }
+
+  for (const candidateDifficulty of byDistanceFrom(difficulty)) {
+    const candidates = pool.filter(question => question.difficulty === candidateDifficulty);
+    if (candidates.length === 0) continue;
+
+    const fewestAsked = Math.min(...candidates.map(question => askedPerStack.get(question.techStack.toString()) || 0));
+    const leastAsked = candidates.filter(question => (askedPerStack.get(question.techStack.toString()) || 0) === fewestAsked);
+    const question = leastAsked[Math.floor(Math.random() * leastAsked.length)];
+
+    interview.questions.push(question._id);
+    await interview.save();
+
+    return { done: false, question, difficulty: question.difficulty, position: asked.length + 1, total };
+  }
+
+  // The question bank ran out before the question count was reached
+  return { done: true, position: asked.length, total };
+};
+
+export default {
+  nextDifficulty,
+  selectNextQuestion
+};
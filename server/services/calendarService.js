@@ -0,0 +1,114 @@
+/**
+ * Builds RFC 5545 iCalendar files for interviews, so invitations land in the
+ * candidate's calendar. Every file for one interview shares a UID; updates
+ * carry a higher SEQUENCE so calendar clients replace the earlier event
+ * instead of adding a second one.
+ */
+
+const PRODUCT_ID = '-//SkillSpark//Interviews//EN';
+
+// Minutes before the start the calendar reminds the candidate
+const REMINDER_MINUTES = 15;
+
+// request: first invitation, update: changed time or details, cancel: called off.
+// iTIP has no UPDATE method; an update is a REQUEST with a higher SEQUENCE.
+export const CALENDAR_METHODS = ['request', 'update', 'cancel'];
+
+// 20250429T143000Z
+const formatUtc = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Escape TEXT values (RFC 5545 section 3.3.11)
+const escapeText = (value) => String(value)
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Quote parameter values such as CN that may contain separators
+const quoteParam = (value) => `"${String(value).replace(/"/g, "'")}"`;
+
+// Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+const foldLine = (line) => {
+  const folded = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75
+    const limit = folded.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      folded.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  folded.push(current);
+  return folded.join('\r\n ');
+};
+
+/**
+ * Build the iCalendar file for an interview
+ * @param {Object} interview - Interview document
+ * @param {Object} options
+ * @param {string} [options.method] - request, update or cancel
+ * @param {string} options.summary - Event title
+ * @param {string} [options.description] - Event description
+ * @param {string} [options.joinLink] - Link to join the interview
+ * @param {{ name: string, email: string }} options.organizer - Who sends the invitation
+ * @param {{ name?: string, email: string }} options.attendee - The candidate
+ * @returns {string} - iCalendar text with CRLF line endings
+ */
+export const buildInterviewCalendar = (interview, {
+  method = 'request',
+  summary,
+  description = '',
+  joinLink,
+  organizer,
+  attendee
+}) => {
+  if (!CALENDAR_METHODS.includes(method)) {
+    throw new Error(`Unknown calendar method: ${method}`);
+  }
+
+  const startsAt = new Date(interview.startsAt || interview.scheduledDate);
+  const endsAt = new Date(startsAt.getTime() + (interview.duration || 30) * 60 * 1000);
+  const cancelled = method === 'cancel';
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${PRODUCT_ID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${cancelled ? 'CANCEL' : 'REQUEST'}`,
+    'BEGIN:VEVENT',
+    `UID:interview-${interview._id}@skillspark`,
+    `SEQUENCE:${interview.calendarSequence || 0}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(startsAt)}`,
+    `DTEND:${formatUtc(endsAt)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(joinLink ? `${description}\n\nJoin: ${joinLink}` : description)}`,
+    ...(joinLink ? [`LOCATION:${escapeText(joinLink)}`, `URL:${joinLink}`] : []),
+    `ORGANIZER;CN=${quoteParam(organizer.name)}:mailto:${organizer.email}`,
+    `ATTENDEE;CN=${quoteParam(attendee.name || attendee.email)};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${attendee.email}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    ...(cancelled ? [] : [
+      'BEGIN:VALARM',
+      `TRIGGER:-PT${REMINDER_MINUTES}M`,
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(`${summary} starts in ${REMINDER_MINUTES} minutes`)}`,
+      'END:VALARM'
+    ]),
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export default {
+  buildInterviewCalendar,
+  CALENDAR_METHODS
+};
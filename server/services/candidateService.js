@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import Candidate, { CANDIDATE_STAGES } from '../models/Candidate.js';
+import User from '../models/User.js';
+
+/**
+ * Candidates in the hiring pipeline and the accounts they take interviews
+ * with. Candidates never choose a password: invitation links sign them in,
+ * so their account is created with a random one when they are first
+ * scheduled.
+ */
+
+// Stages the pipeline moves through by itself; offer and rejected are
+// only ever set by an admin
+const AUTOMATIC_STAGES = ['applied', 'screening', 'interviewed'];
+
+// Role of the accounts candidates take interviews with
+export const CANDIDATE_ROLE = 'user';
+
+/**
+ * Error raised when a candidate cannot be given an account to interview with
+ */
+export class CandidateError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'CandidateError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Get the account a candidate takes interviews with, creating it if needed.
+ * An existing candidate account with the candidate's email is linked rather
+ * than duplicated. Accounts with any other role are never linked, since
+ * invitation links sign in to this account.
+ * @param {Object} candidate - Candidate document
+ * @returns {Promise<Object>} - User document
+ * @throws {CandidateError} When the email belongs to an account that is not a candidate's
+ */
+export const getCandidateAccount = async (candidate) => {
+  let user = candidate.user && await User.findById(candidate.user._id || candidate.user);
+
+  if (!user) {
+    user = await User.findOne({ email: candidate.email });
+  }
+  if (user && user.role !== CANDIDATE_ROLE) {
+    throw new CandidateError(`${candidate.email} belongs to a staff account, which cannot take interviews. Use a different email for the candidate.`, 409);
+  }
+  if (!user) {
+    user = await User.create({
+      name: candidate.name,
+      email: candidate.email,
+      password: crypto.randomBytes(24).toString('base64url'),
+      role: CANDIDATE_ROLE
+    });
+  }
+
+  if (!candidate.user || candidate.user.toString() !== user._id.toString()) {
+    candidate.user = user._id;
+    await candidate.save();
+  }
+
+  return user;
+};
+
+/**
+ * Find the candidate an account belongs to, adding them to the pipeline if
+ * they are not in it yet. For interviews scheduled by account rather than
+ * by candidate, and for interviews from before the pipeline.
+ * @param {Object} user - User document
+ * @param {Object} [options]
+ * @param {string} [options.createdBy] - Admin scheduling the interview
+ * @returns {Promise<Object>} - Candidate document
+ */
+export const findCandidateForUser = async (user, { createdBy } = {}) => {
+  const candidate = await Candidate.findOne({ $or: [{ user: user._id }, { email: user.email.toLowerCase() }] });
+
+  if (candidate) {
+    if (!candidate.user) {
+      candidate.user = user._id;
+      await candidate.save();
+    }
+    return candidate;
+  }
+
+  return Candidate.create({ name: user.name, email: user.email, user: user._id, createdBy });
+};
+
+/**
+ * Whether a user takes an interview: the interview's candidate signs in
+ * with their account
+ * @param {Object} interview - Interview document, candidate populated or not
+ * @param {Object} user - Signed-in user
+ * @returns {Promise<boolean>}
+ */
+export const isInterviewCandidate = async (interview, user) => {
+  if (!interview.candidate || !user) return false;
+  return !!(await Candidate.exists({ _id: interview.candidate._id || interview.candidate, user: user._id }));
+};
+
+/**
+ * Ids of the candidates whose interviews a user takes
+ * @param {Object} user - Signed-in user
+ * @returns {Promise<Array>} - Candidate ids
+ */
+export const findCandidateIdsForUser = (user) => Candidate.find({ user: user._id }).distinct('_id');
+
+/**
+ * Move a candidate forward to a stage, unless they are already at or past
+ * it or an admin has made an offer or rejected them
+ * @param {string} candidateId - Candidate id
+ * @param {string} stage - screening or interviewed
+ * @returns {Promise<boolean>} - Whether the stage changed
+ */
+export const advanceCandidate = async (candidateId, stage) => {
+  if (!candidateId || !AUTOMATIC_STAGES.includes(stage)) return false;
+
+  const earlierStages = AUTOMATIC_STAGES.slice(0, AUTOMATIC_STAGES.indexOf(stage));
+  const result = await Candidate.updateOne(
+    { _id: candidateId, stage: { $in: earlierStages } },
+    { stage, updatedAt: new Date() }
+  );
+  return result.modifiedCount > 0;
+};
+
+export default {
+  CANDIDATE_STAGES,
+  CANDIDATE_ROLE,
+  CandidateError,
+  getCandidateAccount,
+  findCandidateForUser,
+  isInterviewCandidate,
+  findCandidateIdsForUser,
+  advanceCandidate
+};
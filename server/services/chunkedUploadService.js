@@ -0,0 +1,239 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { fileURLToPath } from 'url';
+import ChunkedUpload from '../models/ChunkedUpload.js';
+
+/**
+ * Resumable uploads of audio recordings. A recording is announced with its
+ * size, sent in parts of UPLOAD_CHUNK_SIZE bytes in any order and as often
+ * as needed, and joined once every part is there. Each part stays well
+ * under the request size limit, so recordings may be far larger than a
+ * single upload allows.
+ */
+
+// ES Module fix for __dirname
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Parts wait outside the public uploads directory until they are joined
+const CHUNK_DIR = path.join(__dirname, '../tmp/chunks');
+const UPLOAD_DIR = path.join(__dirname, '../uploads');
+
+// Bytes per part; below the 10MB limit of a single request
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export const AUDIO_UPLOAD_MAX_MB = Number(process.env.AUDIO_UPLOAD_MAX_MB) || 200;
+
+// Hours an unfinished upload is kept before its parts are removed
+export const UNFINISHED_UPLOAD_HOURS = 24;
+
+// Audio types accepted, and the extension the joined file is stored with.
+// The client's file name is never used: recordings are served from the
+// public uploads directory, where e.g. an .html file would run as a page.
+const AUDIO_EXTENSIONS = {
+  'audio/webm': '.webm',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/wave': '.wav'
+};
+
+// The type without parameters, e.g. audio/webm for audio/webm;codecs=opus
+const baseMimeType = (mimeType) => String(mimeType || '').split(';')[0].trim().toLowerCase();
+
+/**
+ * Error raised when an upload or one of its parts cannot be accepted
+ */
+export class ChunkedUploadError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'ChunkedUploadError';
+    this.statusCode = statusCode;
+  }
+}
+
+const chunkPath = (upload, index) => path.join(CHUNK_DIR, upload._id.toString(), `${index}.part`);
+
+/**
+ * Bytes a part must have
+ * @param {Object} upload - ChunkedUpload document
+ * @param {number} index
+ * @returns {number}
+ */
+const expectedChunkSize = (upload, index) => (index === upload.totalChunks - 1
+  ? upload.size - upload.chunkSize * (upload.totalChunks - 1)
+  : upload.chunkSize);
+
+/**
+ * Announce a recording to be uploaded in parts
+ * @param {Object} input
+ * @param {Object} input.user - User uploading it
+ * @param {string} input.fileName
+ * @param {string} input.mimeType - One of AUDIO_EXTENSIONS
+ * @param {number} input.size - Bytes of the whole recording
+ * @returns {Promise<Object>} - The ChunkedUpload document
+ * @throws {ChunkedUploadError} When the recording cannot be accepted
+ */
+export const createUpload = async ({ user, fileName, mimeType, size }) => {
+  if (!AUDIO_EXTENSIONS[baseMimeType(mimeType)]) {
+    throw new ChunkedUploadError(`Only ${Object.keys(AUDIO_EXTENSIONS).join(', ')} recordings are allowed. Received: ${mimeType}`, 400);
+  }
+  const bytes = Number(size);
+  if (!Number.isInteger(bytes) || bytes < 1) {
+    throw new ChunkedUploadError('Please give the size of the recording in bytes', 400);
+  }
+  if (bytes > AUDIO_UPLOAD_MAX_MB * 1024 * 1024) {
+    throw new ChunkedUploadError(`Recordings can be at most ${AUDIO_UPLOAD_MAX_MB}MB`, 413);
+  }
+
+  return ChunkedUpload.create({
+    user: user._id,
+    fileName: path.basename(fileName || 'recording.webm'),
+    mimeType,
+    size: bytes,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    totalChunks: Math.ceil(bytes / UPLOAD_CHUNK_SIZE)
+  });
+};
+
+/**
+ * Find an upload of a user
+ * @param {string} id
+ * @param {Object} user
+ * @returns {Promise<Object>} - The ChunkedUpload document
+ * @throws {ChunkedUploadError} When there is no such upload for the user
+ */
+export const findUpload = async (id, user) => {
+  const upload = await ChunkedUpload.findById(id).catch(() => null);
+  if (!upload || upload.user.toString() !== user._id.toString()) {
+    throw new ChunkedUploadError('Upload not found', 404);
+  }
+  return upload;
+};
+
+/**
+ * Store one part. Sending a part again replaces it, so a part whose
+ * response was lost can simply be sent again.
+ * @param {Object} upload - ChunkedUpload document
+ * @param {number} index - Part number, from 0
+ * @param {Object} file - Uploaded file from express-fileupload
+ * @returns {Promise<Object>} - The updated ChunkedUpload document
+ * @throws {ChunkedUploadError} When the part does not fit the upload
+ */
+export const storeChunk = async (upload, index, file) => {
+  if (upload.completedAt) {
+    throw new ChunkedUploadError('This upload is already complete', 409);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+    throw new ChunkedUploadError(`Parts are numbered from 0 to ${upload.totalChunks - 1}`, 400);
+  }
+  if (file.size !== expectedChunkSize(upload, index)) {
+    throw new ChunkedUploadError(`Part ${index} should have ${expectedChunkSize(upload, index)} bytes, not ${file.size}`, 400);
+  }
+
+  await fs.mkdir(path.dirname(chunkPath(upload, index)), { recursive: true });
+  await file.mv(chunkPath(upload, index));
+
+  // Parts of one upload may arrive at the same time
+  const updated = await ChunkedUpload.findByIdAndUpdate(
+    upload._id,
+    { $addToSet: { receivedChunks: index } },
+    { new: true }
+  );
+  return updated;
+};
+
+/**
+ * Join the parts into one file in the uploads directory. Completing an
+ * upload again returns the file it already has.
+ * @param {Object} upload - ChunkedUpload document
+ * @returns {Promise<Object>} - The completed ChunkedUpload document
+ * @throws {ChunkedUploadError} When parts are missing
+ */
+export const completeUpload = async (upload) => {
+  if (upload.completedAt) {
+    return upload;
+  }
+  const missing = [...Array(upload.totalChunks).keys()].filter(index => !upload.receivedChunks.includes(index));
+  if (missing.length > 0) {
+    throw new ChunkedUploadError(`Some parts have not arrived yet: ${missing.join(', ')}`, 409);
+  }
+
+  const extension = AUDIO_EXTENSIONS[baseMimeType(upload.mimeType)];
+  if (!extension) {
+    throw new ChunkedUploadError(`Only audio recordings can be stored. Received: ${upload.mimeType}`, 400);
+  }
+
+  await fs.mkdir(UPLOAD_DIR, { recursive: true });
+  const fileName = `${Date.now()}-${Math.round(Math.random() * 1E9)}${extension}`;
+  const target = path.join(UPLOAD_DIR, fileName);
+  const output = createWriteStream(target);
+  try {
+    for (let index = 0; index < upload.totalChunks; index++) {
+      await pipeline(createReadStream(chunkPath(upload, index)), output, { end: false });
+    }
+    output.end();
+    await new Promise((resolve, reject) => {
+      output.on('finish', resolve);
+      output.on('error', reject);
+    });
+  } catch (err) {
+    output.destroy();
+    await fs.rm(target, { force: true });
+    throw err;
+  }
+
+  const { size } = await fs.stat(target);
+  if (size !== upload.size) {
+    await fs.rm(target, { force: true });
+    throw new ChunkedUploadError(`The joined recording has ${size} bytes instead of ${upload.size}`, 422);
+  }
+
+  // Only the first of two concurrent completions keeps its file
+  const completed = await ChunkedUpload.findOneAndUpdate(
+    { _id: upload._id, completedAt: null },
+    { $set: { fileUrl: `/uploads/${fileName}`, completedAt: new Date() } },
+    { new: true }
+  );
+  if (!completed) {
+    await fs.rm(target, { force: true });
+    return ChunkedUpload.findById(upload._id);
+  }
+
+  await fs.rm(path.join(CHUNK_DIR, upload._id.toString()), { recursive: true, force: true });
+  return completed;
+};
+
+/**
+ * Remove uploads that were never completed, with their parts
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<number>} - Number of uploads removed
+ */
+export const removeUnfinishedUploads = async (now = new Date()) => {
+  const unfinished = await ChunkedUpload.find({
+    completedAt: null,
+    createdAt: { $lt: new Date(now.getTime() - UNFINISHED_UPLOAD_HOURS * 60 * 60 * 1000) }
+  }).select('_id');
+
+  for (const upload of unfinished) {
+    await fs.rm(path.join(CHUNK_DIR, upload._id.toString()), { recursive: true, force: true });
+    await ChunkedUpload.deleteOne({ _id: upload._id, completedAt: null });
+  }
+  return unfinished.length;
+};
+
+export default {
+  UPLOAD_CHUNK_SIZE,
+  AUDIO_UPLOAD_MAX_MB,
+  UNFINISHED_UPLOAD_HOURS,
+  ChunkedUploadError,
+  createUpload,
+  findUpload,
+  storeChunk,
+  completeUpload,
+  removeUnfinishedUploads
+};
@@ -0,0 +1,323 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Runs candidate code in a throwaway sandbox. Every program runs under
+ * bubblewrap (bwrap) in its own user, PID, network, IPC and mount
+ * namespaces as an unprivileged user with no capabilities: it has no
+ * network, cannot see server processes and sees only read-only system
+ * directories and its own read-only program directory. prlimit caps CPU
+ * time, written file size, the number of processes and, for Python, memory.
+ * The server adds a wall-clock timeout and a cap on captured output. Code is
+ * never run without bwrap.
+ */
+
+export const SUPPORTED_LANGUAGES = ['javascript', 'typescript', 'python'];
+
+const TIMEOUT_MS = Number(process.env.CODE_EXECUTION_TIMEOUT_MS) || 5000;
+const MEMORY_LIMIT_MB = Number(process.env.CODE_EXECUTION_MEMORY_MB) || 128;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const MAX_CONCURRENT_RUNS = Number(process.env.CODE_EXECUTION_CONCURRENCY) || 2;
+const MAX_PROCESSES = Number(process.env.CODE_EXECUTION_MAX_PROCESSES) || 32;
+const PYTHON_BINARY = process.env.PYTHON_BINARY || 'python3';
+const SANDBOX_BINARY = process.env.CODE_EXECUTION_SANDBOX_BINARY || 'bwrap';
+
+// Where the program directory is mounted inside the sandbox
+const SANDBOX_DIR = '/sandbox';
+// System directories the sandbox can read, for interpreters and their libraries
+const SYSTEM_DIRS = ['/usr', '/bin', '/lib', '/lib64', '/etc/alternatives'];
+// The user candidate code runs as inside the sandbox (nobody)
+const SANDBOX_UID = '65534';
+
+/**
+ * Error raised when candidate code cannot be run at all
+ */
+export class CodeExecutionError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'CodeExecutionError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Simple semaphore so a burst of submissions cannot fork-bomb the server
+let activeRuns = 0;
+const waitingRuns = [];
+
+const acquireSlot = () => new Promise(resolve => {
+  if (activeRuns < MAX_CONCURRENT_RUNS) {
+    activeRuns++;
+    resolve();
+  } else {
+    waitingRuns.push(resolve);
+  }
+});
+
+const releaseSlot = () => {
+  const next = waitingRuns.shift();
+  if (next) {
+    next();
+  } else {
+    activeRuns--;
+  }
+};
+
+/**
+ * Transpile TypeScript to CommonJS JavaScript. TypeScript is a runtime
+ * dependency of the server but only loaded once TypeScript code is run.
+ * @param {string} code - TypeScript source
+ * @returns {Promise<string>} - JavaScript source
+ */
+const transpileTypeScript = async (code) => {
+  const { default: ts } = await import('typescript');
+  const result = ts.transpileModule(code, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020
+    }
+  });
+  return result.outputText;
+};
+
+/**
+ * Write the program into the program directory and work out how to run it
+ * inside the sandbox
+ * @param {string} dir - Program directory, mounted at SANDBOX_DIR
+ * @param {string} code - Source code
+ * @param {string} language - One of SUPPORTED_LANGUAGES
+ * @returns {Promise<{ command: string, args: string[], limits: string[], binds: string[] }>}
+ *   limits are prlimit options; binds are extra paths the sandbox needs to read
+ */
+const prepareProgram = async (dir, code, language) => {
+  const limits = [
+    `--cpu=${Math.ceil(TIMEOUT_MS / 1000)}`,
+    `--fsize=${1024 * 1024}`,
+    `--nproc=${MAX_PROCESSES}`
+  ];
+
+  if (language === 'python') {
+    await fs.writeFile(path.join(dir, 'main.py'), code);
+    return {
+      command: PYTHON_BINARY,
+      args: ['-I', `${SANDBOX_DIR}/main.py`],
+      limits: [...limits, `--as=${MEMORY_LIMIT_MB * 1024 * 1024}`],
+      binds: []
+    };
+  }
+
+  // V8 reserves far more address space than it uses, so Node's memory is
+  // limited by its heap size rather than --as
+  const source = language === 'typescript' ? await transpileTypeScript(code) : code;
+  await fs.writeFile(path.join(dir, 'main.cjs'), source);
+  return {
+    command: process.execPath,
+    args: [
+      '--experimental-permission',
+      `--allow-fs-read=${SANDBOX_DIR}/`,
+      `--max-old-space-size=${MEMORY_LIMIT_MB}`,
+      '--no-warnings',
+      `${SANDBOX_DIR}/main.cjs`
+    ],
+    limits,
+    binds: [process.execPath]
+  };
+};
+
+/**
+ * Arguments for bwrap to run a prepared program in the sandbox
+ * @param {string} dir - Program directory
+ * @param {{ command: string, args: string[], limits: string[], binds: string[] }} program
+ * @returns {string[]}
+ */
+const sandboxArgs = (dir, { command, args, limits, binds }) => [
+  '--unshare-all',
+  '--uid', SANDBOX_UID,
+  '--gid', SANDBOX_UID,
+  '--cap-drop', 'ALL',
+  '--die-with-parent',
+  '--new-session',
+  '--clearenv',
+  '--setenv', 'PATH', '/usr/local/bin:/usr/bin:/bin',
+  '--setenv', 'HOME', SANDBOX_DIR,
+  '--setenv', 'LANG', 'C.UTF-8',
+  ...SYSTEM_DIRS.flatMap(systemDir => ['--ro-bind-try', systemDir, systemDir]),
+  ...binds.flatMap(bind => ['--ro-bind', bind, bind]),
+  '--proc', '/proc',
+  '--dev', '/dev',
+  '--ro-bind', dir, SANDBOX_DIR,
+  '--chdir', SANDBOX_DIR,
+  '--',
+  'prlimit', ...limits, command, ...args
+];
+
+/**
+ * Run a program once with the given stdin
+ * @param {Object} options
+ * @param {string} options.code - Source code
+ * @param {string} options.language - One of SUPPORTED_LANGUAGES
+ * @param {string} [options.input] - Text written to stdin
+ * @returns {Promise<{ stdout: string, stderr: string, exitCode: number|null, timedOut: boolean, outputLimitExceeded: boolean, durationMs: number }>}
+ */
+export const runCode = async ({ code, language, input = '' }) => {
+  if (!SUPPORTED_LANGUAGES.includes(language)) {
+    throw new Error(`Unsupported language "${language}". Supported languages: ${SUPPORTED_LANGUAGES.join(', ')}`);
+  }
+
+  await acquireSlot();
+  let dir;
+
+  try {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skillspark-run-'));
+    const program = await prepareProgram(dir, code, language);
+
+    return await new Promise((resolve, reject) => {
+      const startedAt = Date.now();
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let outputLimitExceeded = false;
+
+      const child = spawn(SANDBOX_BINARY, sandboxArgs(dir, program), {
+        cwd: dir,
+        env: { PATH: process.env.PATH },
+        // Own process group, so the whole group can be killed on timeout
+        detached: true,
+        stdio: ['pipe', 'pipe', 'pipe']
+      });
+
+      const kill = () => {
+        try {
+          process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // Already exited
+        }
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, TIMEOUT_MS);
+
+      const collect = (stream, append) => {
+        stream.on('data', chunk => {
+          append(chunk.toString());
+          if (stdout.length + stderr.length > MAX_OUTPUT_BYTES) {
+            outputLimitExceeded = true;
+            kill();
+          }
+        });
+      };
+      collect(child.stdout, text => { stdout += text; });
+      collect(child.stderr, text => { stderr += text; });
+
+      // Only raised when the sandbox itself cannot be started
+      child.on('error', err => {
+        clearTimeout(timer);
+        reject(err.code === 'ENOENT'
+          ? new CodeExecutionError(`Code cannot be run: the sandbox (${SANDBOX_BINARY}) is not installed on the server`, 503)
+          : err);
+      });
+
+      child.on('close', exitCode => {
+        clearTimeout(timer);
+        resolve({
+          stdout: stdout.slice(0, MAX_OUTPUT_BYTES),
+          stderr: stderr.slice(0, MAX_OUTPUT_BYTES),
+          exitCode,
+          timedOut,
+          outputLimitExceeded,
+          durationMs: Date.now() - startedAt
+        });
+      });
+
+      // The program may exit without reading stdin
+      child.stdin.on('error', () => {});
+      child.stdin.end(input);
+    });
+  } finally {
+    // The slot is released even when the directory could not be made or removed
+    releaseSlot();
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+};
+
+// Compare outputs ignoring trailing whitespace on each line and at the end
+const normalizeOutput = (output) =>
+  output.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trimEnd();
+
+/**
+ * Run code against a question's test cases. Each test case feeds `input`
+ * on stdin and passes when stdout matches `expectedOutput`.
+ * @param {Object} options
+ * @param {string} options.code - Source code
+ * @param {string} options.language - One of SUPPORTED_LANGUAGES
+ * @param {Array<{ input: string, expectedOutput: string, hidden: boolean }>} options.testCases
+ * @returns {Promise<Object>} - Test results in the shape stored on Answer
+ */
+export const runTestCases = async ({ code, language, testCases }) => {
+  const results = [];
+
+  for (const [index, testCase] of testCases.entries()) {
+    const run = await runCode({ code, language, input: testCase.input || '' });
+
+    let error;
+    if (run.timedOut) {
+      error = `Timed out after ${TIMEOUT_MS}ms`;
+    } else if (run.outputLimitExceeded) {
+      error = 'Output limit exceeded';
+    } else if (run.exitCode !== 0) {
+      error = `Exited with code ${run.exitCode}`;
+    }
+
+    results.push({
+      index,
+      hidden: !!testCase.hidden,
+      input: testCase.input || '',
+      expectedOutput: testCase.expectedOutput,
+      actualOutput: run.stdout,
+      stderr: run.stderr,
+      passed: !error && normalizeOutput(run.stdout) === normalizeOutput(testCase.expectedOutput),
+      error,
+      durationMs: run.durationMs
+    });
+  }
+
+  return {
+    language,
+    passed: results.filter(result => result.passed).length,
+    total: results.length,
+    results,
+    executedAt: new Date()
+  };
+};
+
+/**
+ * Remove the details of hidden test cases before results are shown to a
+ * candidate, keeping only whether each one passed
+ * @param {Object} testResults - Result of runTestCases
+ * @returns {Object}
+ */
+export const redactHiddenResults = (testResults) => {
+  if (!testResults || !Array.isArray(testResults.results)) {
+    return testResults;
+  }
+
+  return {
+    ...testResults,
+    results: testResults.results.map(({ index, hidden, passed, error, durationMs, ...details }) => (
+      hidden ? { index, hidden, passed, durationMs } : { index, hidden, passed, error, durationMs, ...details }
+    ))
+  };
+};
+
+export default {
+  SUPPORTED_LANGUAGES,
+  CodeExecutionError,
+  runCode,
+  runTestCases,
+  redactHiddenResults
+};
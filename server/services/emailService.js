@@ -1,35 +1,56 @@
-import { Resend } from 'resend';
+import { renderEmail } from './emailTemplateService.js';
+import { getFromAddress } from './emailTransportService.js';
+import { queueEmail } from './outboxService.js';
 
-// Initialize Resend with API key (if available)
-let resend;
-try {
-  if (!process.env.RESEND_API_KEY) {
-    console.warn('RESEND_API_KEY is not set in environment variables. Email functionality will be limited.');
-    // Create a mock resend instance for development
-    resend = {
-      emails: {
-        send: async (options) => {
-          console.log('MOCK EMAIL SENT:', options);
-          return { id: 'mock-email-id', message: 'Mock email sent successfully' };
-        }
-      }
-    };
-  } else {
-    resend = new Resend(process.env.RESEND_API_KEY);
-    console.log('Resend initialized with API key');
-  }
-} catch (error) {
-  console.error('Error initializing Resend:', error);
-  // Fallback to mock implementation
-  resend = {
-    emails: {
-      send: async (options) => {
-        console.log('FALLBACK MOCK EMAIL SENT:', options);
-        return { id: 'mock-email-id', message: 'Mock email sent successfully' };
-      }
-    }
-  };
-}
+const REPLY_TO_ADDRESS = process.env.RESEND_DOMAIN || 'noreply@skillspark.ai';
+
+/**
+ * Address candidates reply to, also the organizer of calendar invitations
+ * @returns {string}
+ */
+const getReplyToAddress = () => REPLY_TO_ADDRESS;
+
+// Attach an iCalendar file so mail clients offer to add it to the calendar
+const calendarAttachment = (calendar, method) => ({
+  filename: 'interview.ics',
+  content: Buffer.from(calendar, 'utf-8'),
+  contentType: `text/calendar; charset=utf-8; method=${method}`
+});
+
+/**
+ * Render an email with the company's template and send it through the outbox
+ * @param {Object} options
+ * @param {string} options.type - One of EMAIL_TEMPLATE_TYPES
+ * @param {string} options.to - Recipient email address
+ * @param {string} options.companyName - Company name, also picks the template
+ * @param {Object} options.data - Template values
+ * @param {Object} [options.calendar] - iCalendar file to attach
+ * @param {string} [options.interview] - Interview the email is about
+ * @param {boolean} [options.sensitive] - The email carries a single-use link
+ * @returns {Promise<Object>} - The outbox email
+ */
+const sendTemplatedEmail = async ({ type, to, companyName, data, calendar, interview, sensitive = false }) => {
+  const { subject, html } = await renderEmail(type, companyName, {
+    ...data,
+    candidateName: data.candidateName || 'Candidate',
+    companyName
+  });
+
+  const email = await queueEmail({
+    type,
+    to: [to],
+    from: getFromAddress(),
+    replyTo: getReplyToAddress(),
+    subject,
+    html,
+    attachments: calendar ? [calendar] : [],
+    interview,
+    sensitive
+  });
+
+  console.log(`Email "${subject}" to ${to}: ${email.status}`);
+  return email;
+};
 
 /**
  * Send an interview invitation email to a candidate
@@ -39,82 +60,138 @@ try {
  * @param {string} options.companyName - Company name
  * @param {string} options.role - Job role
  * @param {string} options.date - Formatted interview date
- * @param {string} options.time - Formatted interview time
+ * @param {string} options.time - Formatted interview time, with its time zone
  * @param {number} options.duration - Interview duration in minutes
+ * @param {number} options.joinEarlyMinutes - Minutes before the start the link opens
+ * @param {number} options.joinLateMinutes - Minutes after the start the link closes
  * @param {string} options.interviewLink - Link to join the interview
- * @returns {Promise<Object>} - Response from email service
+ * @param {boolean} [options.updated] - The interview was rescheduled or changed
+ * @param {string} [options.calendar] - iCalendar file to attach
+ * @param {string} [options.interview] - Interview id
+ * @returns {Promise<Object>} - The outbox email
  */
 const sendInterviewInvitation = async (options) => {
-  console.log('Email service: sendInterviewInvitation called with options:', JSON.stringify(options, null, 2));
-  
-  const {
+  const { to, companyName, updated = false, calendar, interview, ...data } = options;
+
+  return sendTemplatedEmail({
+    type: updated ? 'reschedule' : 'invitation',
+    to,
+    companyName,
+    data,
+    calendar: calendar && calendarAttachment(calendar, 'REQUEST'),
+    interview,
+    sensitive: true
+  });
+};
+
+/**
+ * Remind a candidate of an upcoming interview
+ * @param {Object} options - Email options
+ * @param {string} options.to - Recipient email address
+ * @param {string} options.candidateName - Candidate's name
+ * @param {string} options.companyName - Company name
+ * @param {string} options.role - Job role
+ * @param {string} options.date - Formatted interview date
+ * @param {string} options.time - Formatted interview time, with its time zone
+ * @param {number} options.duration - Interview duration in minutes
+ * @param {string} options.startsIn - How long until the start, e.g. "24 hours"
+ * @param {string} [options.interviewLink] - Link to join the interview
+ * @param {string} [options.interview] - Interview id
+ * @returns {Promise<Object>} - The outbox email
+ */
+const sendInterviewReminder = async (options) => {
+  const { to, companyName, interview, ...data } = options;
+  return sendTemplatedEmail({ type: 'reminder', to, companyName, data, interview });
+};
+
+/**
+ * Tell a candidate their interview was cancelled
+ * @param {Object} options - Email options
+ * @param {string} options.to - Recipient email address
+ * @param {string} options.candidateName - Candidate's name
+ * @param {string} options.companyName - Company name
+ * @param {string} options.role - Job role
+ * @param {string} options.date - Formatted interview date
+ * @param {string} options.time - Formatted interview time, with its time zone
+ * @param {string} [options.calendar] - iCalendar cancellation to attach
+ * @param {string} [options.interview] - Interview id
+ * @returns {Promise<Object>} - The outbox email
+ */
+const sendInterviewCancellation = async (options) => {
+  const { to, companyName, calendar, interview, ...data } = options;
+
+  return sendTemplatedEmail({
+    type: 'cancellation',
     to,
-    candidateName,
     companyName,
-    role,
-    date,
-    time,
-    duration,
-    interviewLink
-  } = options;
-  try {
-    // Use Resend's default domain for sending
-    const fromEmail = 'onboarding@resend.dev';
-    // Use the RESEND_DOMAIN value as the reply-to address
-    const replyToEmail = process.env.RESEND_DOMAIN || 'noreply@skillspark.ai';
-    console.log('Using from email:', fromEmail);
-    console.log('Using reply-to email:', replyToEmail);
-    
-    const result = await resend.emails.send({
-      from: fromEmail,
-      to: [to],
-      reply_to: replyToEmail,
-      subject: `Interview Invitation: ${role} Position at ${companyName}`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 5px;">
-          <div style="text-align: center; margin-bottom: 20px;">
-            <h1 style="color: #4f46e5;">Interview Invitation</h1>
-          </div>
-          
-          <p>Hello ${candidateName || 'Candidate'},</p>
-          
-          <p>You have been invited to an interview for the <strong>${role}</strong> position at <strong>${companyName}</strong>.</p>
-          
-          <div style="background-color: #f9fafb; padding: 15px; border-radius: 5px; margin: 20px 0;">
-            <h3 style="margin-top: 0; color: #4f46e5;">Interview Details</h3>
-            <p><strong>Date:</strong> ${date}</p>
-            <p><strong>Time:</strong> ${time}</p>
-            <p><strong>Duration:</strong> ${duration} minutes</p>
-          </div>
-          
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${interviewLink}" style="background-color: #4f46e5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold;">Join Interview</a>
-          </div>
-          
-          <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0; font-size: 14px; color: #6b7280;">
-            <p><strong>Important Notes:</strong></p>
-            <ul>
-              <li>The interview link will only be active at the scheduled time.</li>
-              <li>You can join the interview up to 30 minutes after the scheduled start time.</li>
-              <li>Please ensure you have a stable internet connection and a quiet environment.</li>
-              <li>Have your camera and microphone ready for the interview.</li>
-            </ul>
-          </div>
-          
-          <p style="margin-top: 30px;">Good luck!</p>
-          <p>The ${companyName} Hiring Team</p>
-        </div>
-      `
-    });
-    
-    console.log('Email sent successfully:', result);
-    return result;
-  } catch (error) {
-    console.error('Failed to send email:', error);
-    throw error;
-  }
+    data,
+    calendar: calendar && calendarAttachment(calendar, 'CANCEL'),
+    interview
+  });
+};
+
+/**
+ * Send a candidate the results of their interview
+ * @param {Object} options - Email options
+ * @param {string} options.to - Recipient email address
+ * @param {string} options.candidateName - Candidate's name
+ * @param {string} options.companyName - Company name
+ * @param {string} options.role - Job role
+ * @param {number} [options.score] - Average score out of 10
+ * @param {number} options.answeredCount - Number of questions answered
+ * @param {string} [options.message] - Note from the hiring team
+ * @param {string} [options.interview] - Interview id
+ * @returns {Promise<Object>} - The outbox email
+ */
+const sendInterviewResults = async (options) => {
+  const { to, companyName, interview, ...data } = options;
+  return sendTemplatedEmail({ type: 'results', to, companyName, data, interview });
+};
+
+/**
+ * Tell the admin who scheduled an interview that the candidate did not join
+ * @param {Object} options - Email options
+ * @param {string} options.to - Admin email address
+ * @param {string} options.adminName - Admin's name
+ * @param {string} options.candidateName - Candidate's name
+ * @param {string} options.candidateEmail - Candidate's email address
+ * @param {string} options.companyName - Company name
+ * @param {string} options.role - Job role
+ * @param {string} options.date - Formatted interview date
+ * @param {string} options.time - Formatted interview time, with its time zone
+ * @param {string} options.interviewUrl - Page the admin can reschedule from
+ * @param {string} [options.interview] - Interview id
+ * @returns {Promise<Object>} - The outbox email
+ */
+const sendNoShowNotification = async (options) => {
+  const { to, companyName, interview, ...data } = options;
+  return sendTemplatedEmail({ type: 'no-show', to, companyName, data, interview });
+};
+
+/**
+ * Ask a candidate to pick a time for their interview
+ * @param {Object} options - Email options
+ * @param {string} options.to - Recipient email address
+ * @param {string} options.candidateName - Candidate's name
+ * @param {string} options.companyName - Company name
+ * @param {string} options.role - Job role
+ * @param {number} options.duration - Interview duration in minutes
+ * @param {string} options.schedulingLink - Link to the page listing free slots
+ * @param {string} [options.expiresAt] - Formatted date the link stops working
+ * @param {string} [options.interview] - Interview id
+ * @returns {Promise<Object>} - The outbox email
+ */
+const sendSlotInvitation = async (options) => {
+  const { to, companyName, interview, ...data } = options;
+  return sendTemplatedEmail({ type: 'slot-invitation', to, companyName, data, interview, sensitive: true });
 };
 
 export {
-  sendInterviewInvitation
+  sendInterviewInvitation,
+  sendInterviewReminder,
+  sendInterviewCancellation,
+  sendInterviewResults,
+  sendNoShowNotification,
+  sendSlotInvitation,
+  getReplyToAddress
 };
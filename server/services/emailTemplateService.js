@@ -0,0 +1,82 @@
+import EmailTemplate from '../models/EmailTemplate.js';
+import renderTemplate from '../utils/renderTemplate.js';
+import { DEFAULT_EMAIL_TEMPLATES, DEFAULT_BRAND_COLOR } from './emailTemplates.js';
+
+// Values used to preview templates in the editor
+export const SAMPLE_TEMPLATE_DATA = {
+  candidateName: 'Alex Morgan',
+  role: 'Frontend Developer',
+  date: 'Tuesday, April 29, 2025',
+  time: '2:30 PM CEST (Europe/Berlin)',
+  duration: 45,
+  joinEarlyMinutes: 5,
+  joinLateMinutes: 30,
+  startsIn: '24 hours',
+  interviewLink: 'https://example.com/join/sample',
+  score: 7.5,
+  answeredCount: 8,
+  message: 'We will be in touch about next steps within a week.',
+  adminName: 'Sam Lee',
+  candidateEmail: 'alex.morgan@example.com',
+  interviewUrl: 'https://example.com/interview-details/sample',
+  schedulingLink: 'https://example.com/schedule/sample',
+  expiresAt: 'Friday, April 25, 2025'
+};
+
+/**
+ * Find the template an email of a type uses for a company: the company's
+ * own, otherwise the one shared by all companies, otherwise the built-in one
+ * @param {string} type - One of EMAIL_TEMPLATE_TYPES
+ * @param {string} [company] - Company name
+ * @returns {Promise<{ type: string, company: string, subject: string, html: string,
+ *   brandColor?: string, isDefault: boolean }>}
+ */
+export const resolveEmailTemplate = async (type, company = '') => {
+  const overrides = await EmailTemplate.find({ type, company: { $in: [company, ''] } });
+  const override = overrides.find(template => template.company === company)
+    || overrides.find(template => template.company === '');
+
+  if (override) {
+    return {
+      type,
+      company: override.company,
+      subject: override.subject,
+      html: override.html,
+      brandColor: override.brandColor,
+      isDefault: false
+    };
+  }
+
+  return { type, company: '', ...DEFAULT_EMAIL_TEMPLATES[type], isDefault: true };
+};
+
+/**
+ * Fill in a template's subject and body
+ * @param {{ subject: string, html: string, brandColor?: string }} template
+ * @param {Object} data - Template values
+ * @returns {{ subject: string, html: string }}
+ */
+export const renderEmailTemplate = (template, data) => {
+  const values = { brandColor: template.brandColor || DEFAULT_BRAND_COLOR, ...data };
+  return {
+    subject: renderTemplate(template.subject, values, { escape: false }),
+    html: renderTemplate(template.html, values)
+  };
+};
+
+/**
+ * Render an email of a type with the template the company uses
+ * @param {string} type - One of EMAIL_TEMPLATE_TYPES
+ * @param {string} company - Company name
+ * @param {Object} data - Template values
+ * @returns {Promise<{ subject: string, html: string }>}
+ */
+export const renderEmail = async (type, company, data) =>
+  renderEmailTemplate(await resolveEmailTemplate(type, company), data);
+
+export default {
+  SAMPLE_TEMPLATE_DATA,
+  resolveEmailTemplate,
+  renderEmailTemplate,
+  renderEmail
+};
@@ -0,0 +1,151 @@
+/**
+ * Built-in email templates. Admins can override any of them per company
+ * (EmailTemplate documents); these are used when there is no override.
+ * Templates use the syntax of utils/renderTemplate.js.
+ */
+
+// invitation: first link to the interview, reschedule: new time and link,
+// reminder: shortly before the start, cancellation: interview called off,
+// results: scores after the interview, no-show: tells the admin who
+// scheduled the interview that the candidate did not join, slot-invitation:
+// asks the candidate to pick a time for their interview
+export const EMAIL_TEMPLATE_TYPES = ['invitation', 'reschedule', 'reminder', 'cancellation', 'results', 'no-show', 'slot-invitation'];
+
+// Values every template can use, besides the ones listed per type
+export const COMMON_TEMPLATE_VARIABLES = ['candidateName', 'companyName', 'brandColor', 'role'];
+
+export const TEMPLATE_VARIABLES = {
+  invitation: ['date', 'time', 'duration', 'joinEarlyMinutes', 'joinLateMinutes', 'interviewLink'],
+  reschedule: ['date', 'time', 'duration', 'joinEarlyMinutes', 'joinLateMinutes', 'interviewLink'],
+  reminder: ['date', 'time', 'duration', 'startsIn', 'interviewLink'],
+  cancellation: ['date', 'time'],
+  results: ['score', 'answeredCount', 'message'],
+  'no-show': ['adminName', 'candidateEmail', 'date', 'time', 'interviewUrl'],
+  'slot-invitation': ['duration', 'schedulingLink', 'expiresAt']
+};
+
+export const DEFAULT_BRAND_COLOR = '#4f46e5';
+
+// Wrap a template body in the shared header and signature
+const layout = (title, body, recipient = '{{candidateName}}') => `
+<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 5px;">
+  <div style="text-align: center; margin-bottom: 20px;">
+    <h1 style="color: {{brandColor}};">${title}</h1>
+  </div>
+
+  <p>Hello ${recipient},</p>
+${body}
+  <p>The {{companyName}} Hiring Team</p>
+</div>
+`;
+
+const detailsBlock = `
+  <div style="background-color: #f9fafb; padding: 15px; border-radius: 5px; margin: 20px 0;">
+    <h3 style="margin-top: 0; color: {{brandColor}};">Interview Details</h3>
+    <p><strong>Date:</strong> {{date}}</p>
+    <p><strong>Time:</strong> {{time}}</p>
+    {{#duration}}<p><strong>Duration:</strong> {{duration}} minutes</p>{{/duration}}
+  </div>
+`;
+
+const joinButton = `
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{interviewLink}}" style="background-color: {{brandColor}}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold;">Join Interview</a>
+  </div>
+`;
+
+const joinNotes = `
+  <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0; font-size: 14px; color: #6b7280;">
+    <p><strong>Important Notes:</strong></p>
+    <ul>
+      <li>The interview link opens {{joinEarlyMinutes}} minutes before the scheduled time.</li>
+      <li>The link is personal and works once. Please do not forward it.</li>
+      <li>You can join the interview up to {{joinLateMinutes}} minutes after the scheduled start time.</li>
+      <li>Please ensure you have a stable internet connection and a quiet environment.</li>
+      <li>Have your camera and microphone ready for the interview.</li>
+    </ul>
+  </div>
+
+  <p style="margin-top: 30px;">Good luck!</p>
+`;
+
+export const DEFAULT_EMAIL_TEMPLATES = {
+  invitation: {
+    subject: 'Interview Invitation: {{role}} Position at {{companyName}}',
+    html: layout('Interview Invitation', `
+  <p>You have been invited to an interview for the <strong>{{role}}</strong> position at <strong>{{companyName}}</strong>.</p>
+${detailsBlock}${joinButton}${joinNotes}`)
+  },
+  reschedule: {
+    subject: 'Updated Interview Invitation: {{role}} Position at {{companyName}}',
+    html: layout('Interview Updated', `
+  <p>Your interview for the <strong>{{role}}</strong> position at <strong>{{companyName}}</strong> has been updated. Please use the new details and link below; the previous link no longer works.</p>
+${detailsBlock}${joinButton}${joinNotes}`)
+  },
+  reminder: {
+    subject: 'Reminder: {{role}} Interview at {{companyName}} starts in {{startsIn}}',
+    html: layout('Interview Reminder', `
+  <p>This is a reminder that your interview for the <strong>{{role}}</strong> position at <strong>{{companyName}}</strong> starts in {{startsIn}}.</p>
+${detailsBlock}{{#interviewLink}}${joinButton}{{/interviewLink}}{{^interviewLink}}
+  <p>Please join with the link from your invitation email.</p>
+{{/interviewLink}}
+  <p style="margin-top: 30px;">Good luck!</p>
+`)
+  },
+  cancellation: {
+    subject: 'Interview Cancelled: {{role}} Position at {{companyName}}',
+    html: layout('Interview Cancelled', `
+  <p>Your interview for the <strong>{{role}}</strong> position at <strong>{{companyName}}</strong> on {{date}} at {{time}} has been cancelled. The interview link no longer works.</p>
+
+  <p>If you have questions, simply reply to this email.</p>
+`)
+  },
+  results: {
+    subject: 'Your Interview Results: {{role}} Position at {{companyName}}',
+    html: layout('Interview Results', `
+  <p>Thank you for interviewing for the <strong>{{role}}</strong> position at <strong>{{companyName}}</strong>.</p>
+
+  <div style="background-color: #f9fafb; padding: 15px; border-radius: 5px; margin: 20px 0;">
+    <h3 style="margin-top: 0; color: {{brandColor}};">Your Results</h3>
+    {{#score}}<p><strong>Overall score:</strong> {{score}} / 10</p>{{/score}}
+    <p><strong>Questions answered:</strong> {{answeredCount}}</p>
+  </div>
+  {{#message}}
+  <p>{{message}}</p>
+  {{/message}}
+
+  <p>If you have questions, simply reply to this email.</p>
+`)
+  },
+  'no-show': {
+    subject: 'Missed Interview: {{candidateName}} for {{role}}',
+    html: layout('Missed Interview', `
+  <p><strong>{{candidateName}}</strong> ({{candidateEmail}}) did not join their interview for the <strong>{{role}}</strong> position before the join window closed.</p>
+${detailsBlock}
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{interviewUrl}}" style="background-color: {{brandColor}}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold;">Reschedule Interview</a>
+  </div>
+`, '{{adminName}}')
+  },
+  'slot-invitation': {
+    subject: 'Pick Your Interview Time: {{role}} Position at {{companyName}}',
+    html: layout('Pick Your Interview Time', `
+  <p>You have been invited to an interview for the <strong>{{role}}</strong> position at <strong>{{companyName}}</strong>. Please choose a time that suits you.</p>
+  {{#duration}}<p>The interview takes about {{duration}} minutes.</p>{{/duration}}
+
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{schedulingLink}}" style="background-color: {{brandColor}}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold;">Pick a Time</a>
+  </div>
+
+  <p>Once you have picked a time, we will send you the invitation with your interview link.{{#expiresAt}} Please pick a time before {{expiresAt}}.{{/expiresAt}}</p>
+`)
+  }
+};
+
+export default {
+  EMAIL_TEMPLATE_TYPES,
+  COMMON_TEMPLATE_VARIABLES,
+  TEMPLATE_VARIABLES,
+  DEFAULT_BRAND_COLOR,
+  DEFAULT_EMAIL_TEMPLATES
+};
@@ -0,0 +1,73 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import createResendTransport from './emailTransports/resend.js';
+import createSmtpTransport from './emailTransports/smtp.js';
+import createFileTransport from './emailTransports/file.js';
+
+const serverDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Factories for every supported email transport. Transports are created
+// lazily so a deployment only needs settings for the one it uses.
+const transportFactories = {
+  resend: () => createResendTransport({
+    apiKey: process.env.RESEND_API_KEY
+  }),
+  smtp: () => createSmtpTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 1025,
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD
+  }),
+  file: () => {
+    // The files hold every email as sent, single-use links included
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The file email transport is only for development and tests; set EMAIL_TRANSPORT to resend or smtp');
+    }
+    return createFileTransport({
+      directory: process.env.EMAIL_FILE_DIR || path.join(serverDir, 'tmp', 'emails')
+    });
+  }
+};
+
+export const EMAIL_TRANSPORTS = Object.keys(transportFactories);
+
+const transportCache = new Map();
+
+/**
+ * Name of the configured transport: EMAIL_TRANSPORT, otherwise Resend when
+ * an API key is set and the file transport when it is not
+ * @returns {string}
+ */
+export const getEmailTransportName = () =>
+  process.env.EMAIL_TRANSPORT || (process.env.RESEND_API_KEY ? 'resend' : 'file');
+
+/**
+ * Get a transport instance by name
+ * @param {string} [name] - One of EMAIL_TRANSPORTS, defaults to the configured one
+ * @returns {{ name: string, send: Function }}
+ */
+export const getEmailTransport = (name = getEmailTransportName()) => {
+  if (!transportFactories[name]) {
+    throw new Error(`Unknown email transport "${name}". Available transports: ${EMAIL_TRANSPORTS.join(', ')}`);
+  }
+
+  if (!transportCache.has(name)) {
+    transportCache.set(name, transportFactories[name]());
+  }
+
+  return transportCache.get(name);
+};
+
+/**
+ * Address emails are sent from
+ * @returns {string}
+ */
+export const getFromAddress = () => process.env.EMAIL_FROM || 'SkillSpark <onboarding@resend.dev>';
+
+export default {
+  EMAIL_TRANSPORTS,
+  getEmailTransportName,
+  getEmailTransport,
+  getFromAddress
+};
@@ -0,0 +1,33 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Create a transport that writes each email to a JSON file instead of
+ * sending it. Meant for development and tests, where the files can be
+ * read back to check what would have been sent.
+ * @param {Object} options
+ * @param {string} options.directory - Directory the files are written to
+ */
+const createFileTransport = ({ directory }) => ({
+  name: 'file',
+  send: async (message) => {
+    const id = randomUUID();
+    await fs.mkdir(directory, { recursive: true });
+
+    const file = path.join(directory, `${Date.now()}-${id}.json`);
+    await fs.writeFile(file, JSON.stringify({
+      ...message,
+      attachments: message.attachments.map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: Buffer.from(attachment.content).toString('base64')
+      }))
+    }, null, 2));
+
+    console.log(`Email "${message.subject}" to ${message.to.join(', ')} written to ${file}`);
+    return { id };
+  }
+});
+
+export default createFileTransport;
@@ -0,0 +1,44 @@
+import { Resend } from 'resend';
+
+/**
+ * Create a transport that sends through the Resend API
+ * @param {Object} options
+ * @param {string} options.apiKey - Resend API key
+ */
+const createResendTransport = ({ apiKey }) => {
+  if (!apiKey) {
+    throw new Error('Resend API key is not configured. Please set RESEND_API_KEY in your environment variables.');
+  }
+
+  const resend = new Resend(apiKey);
+
+  return {
+    name: 'resend',
+    send: async (message) => {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: message.to,
+        reply_to: message.replyTo,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        attachments: message.attachments.length > 0
+          ? message.attachments.map(({ filename, content, contentType }) => ({
+            filename,
+            content: Buffer.from(content).toString('base64'),
+            contentType
+          }))
+          : undefined
+      });
+
+      // Resend reports failures in the response rather than throwing
+      if (error) {
+        throw new Error(`Resend rejected the email: ${error.message}`);
+      }
+
+      return { id: data.id };
+    }
+  };
+};
+
+export default createResendTransport;
@@ -0,0 +1,43 @@
+import nodemailer from 'nodemailer';
+
+/**
+ * Create a transport that sends through an SMTP server, e.g. a mail
+ * provider's relay or a local test server such as Mailpit
+ * @param {Object} options
+ * @param {string} options.host - SMTP host
+ * @param {number} options.port - SMTP port
+ * @param {boolean} [options.secure] - Use TLS from the start (port 465) instead of STARTTLS
+ * @param {string} [options.user] - Username, when the server requires authentication
+ * @param {string} [options.password] - Password
+ */
+const createSmtpTransport = ({ host, port, secure = false, user, password }) => {
+  if (!host) {
+    throw new Error('SMTP host is not configured. Please set SMTP_HOST in your environment variables.');
+  }
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass: password } : undefined
+  });
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const info = await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        attachments: message.attachments
+      });
+
+      return { id: info.messageId };
+    }
+  };
+};
+
+export default createSmtpTransport;
@@ -0,0 +1,258 @@
+import Answer from '../models/Answer.js';
+import Question from '../models/Question.js';
+import EvaluationJob from '../models/EvaluationJob.js';
+import { evaluate } from './evaluationService.js';
+import { loadAskedQuestion } from './questionVersionService.js';
+import { runJob } from './jobScheduler.js';
+
+/**
+ * Answers are evaluated by a worker in the API process instead of by the
+ * browser. Saving an answer queues a job for it and wakes the worker; a
+ * failed attempt is retried with a growing delay until
+ * EVALUATION_JOB_MAX_ATTEMPTS is reached. The answer's evaluationStatus follows
+ * its job, so reports can show how far each evaluation has got.
+ */
+
+export const EVALUATION_JOB_NAME = 'answer-evaluations';
+
+const MAX_ATTEMPTS = Number(process.env.EVALUATION_JOB_MAX_ATTEMPTS) || 3;
+
+// Seconds between checks for evaluations due for another attempt
+export const EVALUATION_POLL_SECONDS = Number(process.env.EVALUATION_POLL_SECONDS) || 15;
+
+// Retries wait 30 seconds, then 1, 2, 4, ... minutes, at most 15
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+// An attempt still running after this long was interrupted, e.g. by a
+// restart, and is tried again
+const RUNNING_TIMEOUT_MS = 10 * 60 * 1000;
+
+const retryDelay = (attempts) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+/**
+ * Error raised when an answer cannot be evaluated at all; it is not retried
+ */
+export class EvaluationJobError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'EvaluationJobError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Queue an answer for evaluation, replacing any evaluation still waiting
+ * or running for it
+ * @param {Object|string} answerOrId - Answer document or id
+ * @param {Object} [options]
+ * @param {Object} [options.requestedBy] - Admin asking for a re-evaluation
+ * @returns {Promise<Object>} - The EvaluationJob document
+ */
+export const queueEvaluation = async (answerOrId, { requestedBy } = {}) => {
+  const answer = answerOrId instanceof Answer
+    ? answerOrId
+    : await Answer.findById(answerOrId).select('interview');
+  if (!answer) {
+    throw new EvaluationJobError('Answer not found', 404);
+  }
+
+  const job = await EvaluationJob.findOneAndUpdate(
+    { answer: answer._id },
+    {
+      $set: {
+        interview: answer.interview,
+        status: 'queued',
+        attempts: 0,
+        maxAttempts: MAX_ATTEMPTS,
+        nextAttemptAt: new Date(),
+        requestedBy: requestedBy ? requestedBy._id : undefined
+      },
+      $unset: { lastError: 1, completedAt: 1 },
+      $inc: { revision: 1 }
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  await Answer.updateOne({ _id: answer._id }, { $set: { evaluationStatus: 'queued' }, $unset: { evaluationError: 1 } });
+
+  // Outside the API server, e.g. in scripts, the worker is not scheduled
+  // and the job waits for it
+  runJob(EVALUATION_JOB_NAME).catch(() => {});
+  return job;
+};
+
+/**
+ * Drop the evaluation waiting or running for an answer, e.g. when an admin
+ * scores it by hand
+ * @param {string} answerId
+ * @returns {Promise<void>}
+ */
+export const cancelEvaluation = async (answerId) => {
+  await EvaluationJob.deleteOne({ answer: answerId, status: { $in: ['queued', 'running'] } });
+};
+
+/**
+ * Gather what the evaluator needs about an answer
+ * @param {Object} answer - Answer document
+ * @returns {Promise<Object>} - evaluate() input
+ * @throws {EvaluationJobError} When the answer has nothing to evaluate
+ */
+const toEvaluationInput = async (answer) => {
+  const hasContent = (answer.transcript && answer.transcript.trim())
+    || (answer.code && answer.code.trim())
+    || (answer.textAnswer && answer.textAnswer.trim())
+    || answer.selectedOptions.length > 0;
+  if (!hasContent) {
+    throw new EvaluationJobError('The answer is empty', 422);
+  }
+
+  const [asked, question, parent] = await Promise.all([
+    loadAskedQuestion(answer, 'text'),
+    Question.findById(answer.question).select('techStack').populate('techStack', 'name'),
+    answer.parentAnswer ? Answer.findById(answer.parentAnswer).select('followUpQuestion') : null
+  ]);
+  const questionText = answer.parentAnswer ? parent && parent.followUpQuestion : asked && asked.text;
+  if (!questionText) {
+    throw new EvaluationJobError('The question of the answer no longer exists', 422);
+  }
+
+  return {
+    question: questionText,
+    transcript: answer.transcript,
+    techStack: question && question.techStack ? question.techStack.name : undefined,
+    code: answer.code,
+    codeLanguage: answer.codeLanguage,
+    textAnswer: answer.textAnswer,
+    selectedOptions: answer.selectedOptions.map(id => id.toString())
+  };
+};
+
+/**
+ * Make one attempt at a claimed job
+ * @param {Object} job - EvaluationJob document, status running
+ * @returns {Promise<void>}
+ */
+const runEvaluation = async (job) => {
+  const answer = await Answer.findById(job.answer);
+  if (!answer) {
+    await EvaluationJob.deleteOne({ _id: job._id });
+    return;
+  }
+  await Answer.updateOne({ _id: answer._id }, { $set: { evaluationStatus: 'running' } });
+
+  // Results are only written while the job has not been queued again or
+  // dropped in the meantime
+  const current = { _id: job._id, revision: job.revision, status: 'running' };
+
+  try {
+    const { evaluation, provider, rubric } = await evaluate(
+      await toEvaluationInput(answer),
+      { questionId: answer.question, interviewId: answer.interview, followUp: !!answer.parentAnswer }
+    );
+
+    const finished = await EvaluationJob.findOneAndUpdate(
+      current,
+      { $set: { status: 'completed', completedAt: new Date() }, $unset: { lastError: 1 } }
+    );
+    if (!finished) return;
+
+    await Answer.updateOne({ _id: answer._id }, {
+      $set: {
+        score: evaluation.score,
+        feedback: evaluation.feedback,
+        criteria: evaluation.criteria,
+        codeEvaluation: evaluation.codeEvaluation,
+        rubric,
+        evaluationStatus: 'completed',
+        evaluationProvider: provider
+      },
+      $unset: { evaluationError: 1 }
+    });
+  } catch (error) {
+    console.error(`Failed to evaluate answer ${answer._id} (attempt ${job.attempts} of ${job.maxAttempts}):`, error.message);
+    const gaveUp = error instanceof EvaluationJobError || job.attempts >= job.maxAttempts;
+
+    const updated = await EvaluationJob.findOneAndUpdate(current, {
+      $set: {
+        status: gaveUp ? 'failed' : 'queued',
+        lastError: error.message,
+        nextAttemptAt: gaveUp ? job.nextAttemptAt : new Date(Date.now() + retryDelay(job.attempts))
+      }
+    });
+    if (!updated) return;
+
+    // Failed answers have no score, so they are left out of averages
+    await Answer.updateOne({ _id: answer._id }, gaveUp
+      ? {
+        $set: { evaluationStatus: 'failed', evaluationError: error.message },
+        $unset: { score: 1, feedback: 1, criteria: 1, codeEvaluation: 1, rubric: 1 }
+      }
+      : { $set: { evaluationStatus: 'queued', evaluationError: error.message } });
+  }
+};
+
+/**
+ * Evaluate every answer that is due, one at a time, including ones whose
+ * attempt was interrupted. Jobs queued while this runs are picked up too.
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<number>} - Number of attempts made
+ */
+export const processEvaluations = async (now = new Date()) => {
+  await EvaluationJob.updateMany(
+    { status: 'running', lastAttemptAt: { $lt: new Date(now.getTime() - RUNNING_TIMEOUT_MS) } },
+    { $set: { status: 'queued' } }
+  );
+
+  let attempted = 0;
+  for (;;) {
+    // Claim the job so two workers never evaluate it at once
+    const job = await EvaluationJob.findOneAndUpdate(
+      { status: 'queued', nextAttemptAt: { $lte: new Date() } },
+      { $set: { status: 'running', lastAttemptAt: new Date() }, $inc: { attempts: 1 } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+    if (!job) break;
+
+    await runEvaluation(job);
+    attempted++;
+  }
+
+  return attempted;
+};
+
+/**
+ * How far the evaluation of each answer of an interview has got
+ * @param {string} interviewId
+ * @returns {Promise<Array<Object>>} - { answer, status, attempts, maxAttempts,
+ *   nextAttemptAt, error, score } per answer
+ */
+export const getEvaluationStatuses = async (interviewId) => {
+  const [answers, jobs] = await Promise.all([
+    Answer.find({ interview: interviewId }).select('evaluationStatus evaluationError score'),
+    EvaluationJob.find({ interview: interviewId })
+  ]);
+  const jobsByAnswer = new Map(jobs.map(job => [job.answer.toString(), job]));
+
+  return answers.map(answer => {
+    const job = jobsByAnswer.get(answer._id.toString());
+    return {
+      answer: answer._id,
+      status: answer.evaluationStatus,
+      attempts: job ? job.attempts : 0,
+      maxAttempts: job ? job.maxAttempts : MAX_ATTEMPTS,
+      nextAttemptAt: job && job.status === 'queued' ? job.nextAttemptAt : undefined,
+      error: answer.evaluationError,
+      score: answer.score
+    };
+  });
+};
+
+export default {
+  EVALUATION_JOB_NAME,
+  EVALUATION_POLL_SECONDS,
+  EvaluationJobError,
+  queueEvaluation,
+  cancelEvaluation,
+  processEvaluations,
+  getEvaluationStatuses
+};
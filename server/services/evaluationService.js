@@ -0,0 +1,248 @@
+import createCohereEvaluator from './evaluators/cohere.js';
+import createOpenAIEvaluator from './evaluators/openai.js';
+import createRuleBasedEvaluator from './evaluators/ruleBased.js';
+import { gradeMultipleChoice } from './evaluators/multipleChoice.js';
+import { buildEvaluationSchema, InvalidEvaluationError } from './evaluators/llm.js';
+import { resolveRubric, calculateWeightedScore } from './rubricService.js';
+import { getCurrentVersion } from './questionVersionService.js';
+import Interview from '../models/Interview.js';
+import Role from '../models/Role.js';
+
+// Factories for every supported evaluation provider. Clients are created
+// lazily so a deployment only needs credentials for the providers it uses.
+const providerFactories = {
+  cohere: () => createCohereEvaluator({
+    apiKey: process.env.COHERE_API_KEY,
+    model: process.env.COHERE_MODEL || 'command',
+    embeddingModel: process.env.COHERE_EMBEDDING_MODEL || 'embed-english-v3.0'
+  }),
+  openai: () => createOpenAIEvaluator({
+    name: 'openai',
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_EVALUATION_MODEL || 'gpt-4o-mini',
+    embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
+  }),
+  local: () => createOpenAIEvaluator({
+    name: 'local',
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    model: process.env.LOCAL_LLM_MODEL || 'llama3',
+    // Local servers only embed when an embedding model is configured
+    embeddingModel: process.env.LOCAL_LLM_EMBEDDING_MODEL
+  }),
+  'rule-based': () => createRuleBasedEvaluator()
+};
+
+export const EVALUATION_PROVIDERS = Object.keys(providerFactories);
+
+export const DEFAULT_EVALUATION_PROVIDER = 'cohere';
+
+// Reported as the provider of multiple-choice grades
+export const AUTO_GRADED_PROVIDER = 'auto-graded';
+
+// Answers scoring below this get a follow-up question, when the role asks for them
+export const FOLLOW_UP_SCORE_THRESHOLD = Number(process.env.FOLLOW_UP_SCORE_THRESHOLD) || 7;
+
+const evaluatorCache = new Map();
+
+/**
+ * Get an evaluator instance by provider name
+ * @param {string} name - One of EVALUATION_PROVIDERS
+ * @returns {{ name: string, evaluate: Function }}
+ */
+export const getEvaluator = (name) => {
+  if (!providerFactories[name]) {
+    throw new Error(`Unknown evaluation provider "${name}". Available providers: ${EVALUATION_PROVIDERS.join(', ')}`);
+  }
+
+  if (!evaluatorCache.has(name)) {
+    evaluatorCache.set(name, providerFactories[name]());
+  }
+
+  return evaluatorCache.get(name);
+};
+
+/**
+ * Work out which provider should evaluate an answer.
+ * Order of precedence: explicit provider, the interview's role setting,
+ * the role passed in directly, EVALUATION_PROVIDER, then the default.
+ * @param {Object} options
+ * @param {string} [options.provider] - Explicitly requested provider
+ * @param {string} [options.interviewId] - Interview the answer belongs to
+ * @param {string} [options.roleId] - Role to read the provider setting from
+ * @returns {Promise<string>} - Provider name
+ */
+export const resolveProviderName = async ({ provider, interviewId, roleId } = {}) => {
+  if (provider) {
+    return provider;
+  }
+
+  let resolvedRoleId = roleId;
+  if (interviewId) {
+    const interview = await Interview.findById(interviewId).select('role');
+    if (interview && interview.role) {
+      resolvedRoleId = interview.role;
+    }
+  }
+
+  if (resolvedRoleId) {
+    const role = await Role.findById(resolvedRoleId).select('evaluationProvider');
+    if (role && role.evaluationProvider) {
+      return role.evaluationProvider;
+    }
+  }
+
+  return process.env.EVALUATION_PROVIDER || DEFAULT_EVALUATION_PROVIDER;
+};
+
+/**
+ * Grade a multiple-choice answer against the question's correct options
+ * @param {Object} question - Question document with options
+ * @param {Array<string>} selectedOptions - Ids of the options picked
+ * @param {Object} [options] - resolveRubric options
+ * @returns {Promise<{ evaluation: Object, provider: string, rubric: Object }>}
+ */
+export const gradeMultipleChoiceAnswer = async (question, selectedOptions, options = {}) => {
+  const rubric = await resolveRubric({ ...options, questionId: question._id });
+  const evaluation = gradeMultipleChoice({ options: question.options, selectedOptions, rubric });
+
+  return { evaluation, provider: AUTO_GRADED_PROVIDER, rubric };
+};
+
+/**
+ * Evaluate an answer with the provider and rubric selected for it.
+ * Multiple-choice answers are graded without a provider; for other
+ * question types the evaluator is told the type, the expected key points,
+ * topics and model answer of the question version being answered. Answers
+ * to a follow-up question are told the original question instead.
+ * @param {Object} input - Question, transcript, techStack, code, codeLanguage, textAnswer, selectedOptions
+ * @param {Object} [options] - resolveProviderName and resolveRubric options,
+ *   plus `followUp` when the answer is to a follow-up question
+ * @returns {Promise<{ evaluation: Object, provider: string, rubric: Object }>}
+ * @throws {InvalidEvaluationError} When the provider output fails validation
+ */
+export const evaluate = async (input, options = {}) => {
+  const question = options.questionId
+    ? await getCurrentVersion(options.questionId)
+    : null;
+
+  if (question && question.type === 'multiple-choice' && !options.followUp) {
+    return gradeMultipleChoiceAnswer(question, input.selectedOptions, options);
+  }
+
+  const providerName = await resolveProviderName(options);
+  const evaluator = getEvaluator(providerName);
+  const rubric = await resolveRubric(options);
+
+  console.log(`Evaluating answer using provider: ${evaluator.name}, rubric: ${rubric.name}`);
+  const evaluation = await evaluator.evaluate({
+    ...input,
+    questionType: question ? question.type : undefined,
+    keyPoints: question && !options.followUp ? question.keyPoints : undefined,
+    modelAnswer: question && !options.followUp ? question.modelAnswer : undefined,
+    topics: question && !options.followUp ? question.topics : undefined,
+    parentQuestion: question && options.followUp ? question.text : undefined,
+    rubric
+  });
+
+  // LLM providers validate their own output; this also guards the others
+  const result = buildEvaluationSchema(rubric).safeParse(evaluation);
+  if (!result.success) {
+    throw new InvalidEvaluationError(`${evaluator.name} returned an invalid evaluation: ${result.error.message}`, 1);
+  }
+
+  // The overall score always follows the rubric weights, whatever the
+  // provider reported
+  const score = calculateWeightedScore(result.data.criteria, rubric);
+
+  return { evaluation: { ...result.data, score }, provider: evaluator.name, rubric };
+};
+
+/**
+ * Generate one follow-up question probing an evaluated answer, with the
+ * provider selected for the answer's interview
+ * @param {Object} input - Question, transcript, techStack, code, codeLanguage, textAnswer, feedback
+ * @param {Object} [options] - resolveProviderName options
+ * @returns {Promise<{ followUpQuestion: string, provider: string }>}
+ * @throws {InvalidEvaluationError} When the provider output fails validation
+ */
+export const generateFollowUp = async (input, options = {}) => {
+  const providerName = await resolveProviderName(options);
+  const evaluator = getEvaluator(providerName);
+
+  console.log(`Generating follow-up question using provider: ${evaluator.name}`);
+  const followUpQuestion = await evaluator.generateFollowUp(input);
+
+  return { followUpQuestion, provider: evaluator.name };
+};
+
+/**
+ * Generate interview questions about a candidate's resume, with the
+ * provider selected for the interview's role
+ * @param {Object} input - resumeText, techStacks (names) and count
+ * @param {Object} [options] - resolveProviderName options
+ * @returns {Promise<{ questions: Array<{ text: string, difficulty: string, techStack: string }>, provider: string }>}
+ * @throws {InvalidEvaluationError} When the provider output fails validation
+ */
+export const generateResumeQuestions = async (input, options = {}) => {
+  const providerName = await resolveProviderName(options);
+  const evaluator = getEvaluator(providerName);
+
+  console.log(`Generating resume questions using provider: ${evaluator.name}`);
+  const questions = await evaluator.generateResumeQuestions(input);
+
+  return { questions, provider: evaluator.name };
+};
+
+/**
+ * Generate new questions for a tech stack's question bank
+ * @param {Object} input - techStack (name), counts per difficulty, type,
+ *   topics and existingQuestions
+ * @param {Object} [options] - resolveProviderName options
+ * @returns {Promise<{ questions: Array<{ text: string, difficulty: string, keyPoints: Array<string> }>, provider: string }>}
+ * @throws {InvalidEvaluationError} When the provider output fails validation
+ */
+export const generateQuestions = async (input, options = {}) => {
+  const providerName = await resolveProviderName(options);
+  const evaluator = getEvaluator(providerName);
+
+  console.log(`Generating ${input.techStack} questions using provider: ${evaluator.name}`);
+  const questions = await evaluator.generateQuestions(input);
+
+  return { questions, provider: evaluator.name };
+};
+
+/**
+ * Embed texts with the selected provider, when it offers embeddings
+ * @param {Array<string>} texts - Texts to embed
+ * @param {Object} [options] - resolveProviderName options
+ * @returns {Promise<{ embeddings: Array<Array<number>>, provider: string } | null>} -
+ *   null when the provider has no embeddings
+ */
+export const embedTexts = async (texts, options = {}) => {
+  const providerName = await resolveProviderName(options);
+  const evaluator = getEvaluator(providerName);
+  if (!evaluator.embed) {
+    return null;
+  }
+
+  const embeddings = await evaluator.embed(texts);
+  return { embeddings, provider: evaluator.name };
+};
+
+export { InvalidEvaluationError };
+
+export default {
+  EVALUATION_PROVIDERS,
+  DEFAULT_EVALUATION_PROVIDER,
+  AUTO_GRADED_PROVIDER,
+  FOLLOW_UP_SCORE_THRESHOLD,
+  getEvaluator,
+  resolveProviderName,
+  gradeMultipleChoiceAnswer,
+  evaluate,
+  generateFollowUp,
+  generateResumeQuestions,
+  generateQuestions,
+  embedTexts
+};
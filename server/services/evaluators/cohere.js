@@ -0,0 +1,50 @@
+import { CohereClient } from 'cohere-ai';
+import { createLLMEvaluator } from './llm.js';
+
+/**
+ * Create an evaluator backed by Cohere's generate endpoint
+ * @param {Object} options
+ * @param {string} options.apiKey - Cohere API key
+ * @param {string} [options.model] - Cohere model name
+ * @param {string} [options.embeddingModel] - Cohere embed model, used to find similar questions
+ */
+const createCohereEvaluator = ({ apiKey, model = 'command', embeddingModel = 'embed-english-v3.0' }) => {
+  if (!apiKey) {
+    throw new Error('Cohere API key is not configured. Please set COHERE_API_KEY in your environment variables.');
+  }
+
+  const cohere = new CohereClient({ token: apiKey });
+
+  const complete = async (prompt, { maxTokens = 800 } = {}) => {
+    const cohereResponse = await cohere.generate({
+      prompt,
+      model,
+      temperature: 0.3,
+      maxTokens,
+    });
+
+    if (!cohereResponse.generations || cohereResponse.generations.length === 0) {
+      throw new Error('No generations returned from Cohere API');
+    }
+
+    return cohereResponse.generations[0].text;
+  };
+
+  const embed = async (texts) => {
+    const embeddings = [];
+    // The embed endpoint takes at most 96 texts per call
+    for (let start = 0; start < texts.length; start += 96) {
+      const response = await cohere.embed({
+        texts: texts.slice(start, start + 96),
+        model: embeddingModel,
+        inputType: 'clustering'
+      });
+      embeddings.push(...response.embeddings);
+    }
+    return embeddings;
+  };
+
+  return createLLMEvaluator('cohere', complete, { embed });
+};
+
+export default createCohereEvaluator;
@@ -0,0 +1,441 @@
+/**
+ * Shared helpers for evaluators backed by a large language model.
+ * Each LLM provider only has to supply a `complete(prompt)` function that
+ * returns the raw generated text; prompt construction and response parsing
+ * live here so every provider grades answers the same way.
+ */
+import { z } from 'zod';
+
+/**
+ * List the rubric criteria with their weights as percentages
+ * @param {Object} rubric - Rubric snapshot
+ * @returns {string}
+ */
+const describeCriteria = (rubric) => {
+  const totalWeight = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+
+  return rubric.criteria
+    .map((criterion, index) => {
+      const percentage = Math.round((criterion.weight / totalWeight) * 100);
+      const description = criterion.description ? ` - ${criterion.description}` : '';
+      return `${index + 1}. ${criterion.label} (${percentage}%)${description}`;
+    })
+    .join('\n    ');
+};
+
+// Extra instructions for question types that are not graded like a
+// spoken answer
+const QUESTION_TYPE_GUIDANCE = {
+  coding: 'This is a coding question: the code submission carries most of the weight, the explanation supports it.',
+  'free-text': 'This is a written answer: judge the content, not spelling or formatting.',
+  'system-design': 'This is a system design question: judge the architecture, the trade-offs discussed, scalability, reliability and data modelling rather than implementation details.'
+};
+
+/**
+ * Build the evaluation prompt sent to the LLM
+ * @param {Object} input - Evaluation input
+ * @param {string} input.question - Question text
+ * @param {string} [input.transcript] - Candidate's verbal answer
+ * @param {string} [input.techStack] - Tech stack name
+ * @param {string} [input.code] - Code submission
+ * @param {string} [input.codeLanguage] - Language of the code submission
+ * @param {string} [input.textAnswer] - Written answer
+ * @param {string} [input.questionType] - One of QUESTION_TYPES
+ * @param {Array<string>} [input.keyPoints] - Points a complete answer should cover
+ * @param {string} [input.modelAnswer] - Answer the question's author wrote, for reference
+ * @param {Array<string>} [input.topics] - Topics the question is about
+ * @param {string} [input.parentQuestion] - Question a follow-up question follows up on
+ * @param {Object} input.rubric - Rubric snapshot to grade against
+ * @returns {string} - Prompt text
+ */
+export const buildEvaluationPrompt = ({ question, transcript, techStack, code, codeLanguage, textAnswer, questionType, keyPoints, modelAnswer, topics, parentQuestion, rubric }) => `
+    As an expert interviewer in ${techStack || 'technology'}, evaluate the following answer to this technical question. You must be extremely strict and fair in your evaluation.
+    ${QUESTION_TYPE_GUIDANCE[questionType] || ''}
+    ${parentQuestion ? `This is a follow-up to the earlier question: ${parentQuestion}` : ''}
+    
+    Question: ${question}
+    ${topics && topics.length > 0 ? `Topics: ${topics.join(', ')}` : ''}
+    ${keyPoints && keyPoints.length > 0 ? `
+    A complete answer is expected to cover these key points:
+    ${keyPoints.map(point => `- ${point}`).join('\n    ')}
+    ` : ''}
+    ${modelAnswer ? `
+    A model answer, for reference only. The candidate does not need to match its wording or structure; other correct answers deserve the same credit:
+    ${modelAnswer}
+    ` : ''}
+    ${transcript ? `Answer transcript: ${transcript}` : 'No verbal answer was provided.'}
+    ${textAnswer ? `
+    Written answer:
+    ${textAnswer}
+    ` : ''}
+    ${code ? `
+    Code submission (${codeLanguage || 'language not specified'}):
+    \`\`\`${codeLanguage || ''}
+    ${code}
+    \`\`\`
+    ` : ''}
+    
+    CRITICAL EVALUATION INSTRUCTIONS:
+    1. RELEVANCE CHECK (MOST IMPORTANT): First, determine if the answer is relevant to the question. 
+       - If the answer is completely irrelevant, just a greeting, or merely states the candidate's name without addressing the technical question, you MUST assign a score of 1/10 for ALL criteria (${rubric.criteria.map(criterion => criterion.key).join(', ')}) and an overall score of 1/10.
+       - Feedback should clearly state that the answer is irrelevant to the technical question asked.
+    
+    2. COMPLETENESS CHECK: For relevant answers, assess whether the answer covers the key concepts required. Missing important concepts should significantly reduce the score.
+    
+    3. TECHNICAL ACCURACY: For relevant answers, verify that the technical information provided is correct. Inaccurate information should result in a lower score.
+    
+    4. LENGTH CHECK: Very short answers (less than 50 words) that don't adequately address the question should receive a low score (1-2).
+    
+    5. CODE EVALUATION: If code was submitted, you MUST evaluate it as part of your feedback with these criteria:
+       - Is the code correct? Does it solve the problem or implement the concept correctly?
+       - Is the code relevant to the question asked?
+       - Is the code well-structured and following best practices?
+       - Include a section in your feedback that starts with "Code Assessment:" followed by your evaluation of the code.
+    
+    Evaluate this answer based on:
+    ${describeCriteria(rubric)}
+    
+    STRICT SCORING GUIDELINES:
+    1: Completely irrelevant or just a greeting
+    2-3: Poor answer with major gaps or errors
+    4-5: Basic answer with significant gaps
+    6-7: Good answer with minor gaps
+    8-10: Excellent, comprehensive answer
+    
+    Provide your evaluation in JSON format with the following structure:
+    {
+      "score": (a number between 1-10),
+      "feedback": (detailed feedback including why the score was given and areas for improvement),
+      "codeEvaluation": (if code was submitted, provide a specific evaluation of the code starting with "Code Assessment:"; otherwise, omit this field),
+      "criteria": {
+        ${rubric.criteria.map(criterion => `"${criterion.key}": (score out of 10)`).join(',\n        ')}
+      }
+    }
+    `;
+
+/**
+ * Build the prompt asking the LLM for one follow-up question that probes
+ * the weakest part of an answer
+ * @param {Object} input
+ * @param {string} input.question - Question text
+ * @param {string} [input.transcript] - Candidate's verbal answer
+ * @param {string} [input.techStack] - Tech stack name
+ * @param {string} [input.code] - Code submission
+ * @param {string} [input.codeLanguage] - Language of the code submission
+ * @param {string} [input.textAnswer] - Written answer
+ * @param {string} [input.feedback] - Evaluation feedback on the answer
+ * @returns {string} - Prompt text
+ */
+export const buildFollowUpPrompt = ({ question, transcript, techStack, code, codeLanguage, textAnswer, feedback }) => `
+    You are an expert interviewer in ${techStack || 'technology'}. The candidate has just answered the question below.
+    Ask ONE follow-up question that probes the weakest or vaguest part of their answer, the way a real interviewer would.
+    Refer to something the candidate actually said (for example "You mentioned the virtual DOM - how does reconciliation decide...").
+    Do not reveal the correct answer, do not repeat the original question and do not ask more than one thing.
+    
+    Question: ${question}
+    ${transcript ? `Answer transcript: ${transcript}` : ''}
+    ${textAnswer ? `
+    Written answer:
+    ${textAnswer}
+    ` : ''}
+    ${code ? `
+    Code submission (${codeLanguage || 'language not specified'}):
+    \`\`\`${codeLanguage || ''}
+    ${code}
+    \`\`\`
+    ` : ''}
+    ${feedback ? `Evaluator feedback on the answer: ${feedback}` : ''}
+    
+    Respond with ONLY a JSON object of the form:
+    {
+      "followUpQuestion": (the follow-up question, a single sentence ending with a question mark)
+    }
+    `;
+
+// A follow-up is one question, short enough to read out in an interview
+export const followUpSchema = z.object({
+  followUpQuestion: z.string().trim().min(10).max(500)
+});
+
+/**
+ * Build the prompt asking the LLM for interview questions about the
+ * experience a candidate's resume describes
+ * @param {Object} input
+ * @param {string} input.resumeText - Text extracted from the resume
+ * @param {Array<string>} input.techStacks - Tech stack names the questions may be about
+ * @param {number} input.count - Number of questions wanted
+ * @returns {string} - Prompt text
+ */
+export const buildResumeQuestionsPrompt = ({ resumeText, techStacks, count }) => `
+    You are an expert technical interviewer preparing for an interview with the candidate whose resume is below.
+    Write ${count} interview questions about the projects, responsibilities and technologies the resume describes.
+    Each question must refer to something specific in the resume (for example "Your resume says you migrated the billing service to Node.js - how did you...").
+    Each question must be about one of these tech stacks: ${techStacks.join(', ')}.
+    Ask one thing per question, mix the difficulties and do not ask about personal details.
+    
+    Resume:
+    ${resumeText}
+    
+    Respond with ONLY a JSON object of the form:
+    {
+      "questions": [
+        {
+          "text": (the question),
+          "difficulty": ("easy", "medium" or "hard"),
+          "techStack": (one of: ${techStacks.map(name => `"${name}"`).join(', ')})
+        }
+      ]
+    }
+    `;
+
+/**
+ * Build the schema generated resume questions must match
+ * @param {Array<string>} techStacks - Tech stack names the questions may be about
+ * @param {number} count - Number of questions wanted
+ * @returns {import('zod').ZodType}
+ */
+export const buildResumeQuestionsSchema = (techStacks, count) => z.object({
+  questions: z.array(z.object({
+    text: z.string().trim().min(10).max(1000),
+    difficulty: z.enum(['easy', 'medium', 'hard']),
+    techStack: z.enum(techStacks)
+  })).min(1).max(count)
+});
+
+// How each type of generated question is answered by the candidate
+const GENERATED_QUESTION_GUIDANCE = {
+  verbal: 'Candidates answer out loud, so the questions must not need code or diagrams to answer.',
+  'free-text': 'Candidates answer in writing, in a few paragraphs.',
+  'system-design': 'These are system design questions: ask the candidate to design a system or component in which this technology plays a central role.'
+};
+
+/**
+ * Build the prompt asking the LLM for new questions for a tech stack's
+ * question bank
+ * @param {Object} input
+ * @param {string} input.techStack - Tech stack name
+ * @param {{ easy: number, medium: number, hard: number }} input.counts - Questions wanted per difficulty
+ * @param {string} input.type - 'verbal', 'free-text' or 'system-design'
+ * @param {Array<string>} [input.topics] - Topics the questions should cover
+ * @param {Array<string>} [input.existingQuestions] - Questions already in the bank
+ * @returns {string} - Prompt text
+ */
+export const buildQuestionsPrompt = ({ techStack, counts, type, topics, existingQuestions }) => `
+    You are an expert technical interviewer writing questions for a ${techStack} interview question bank.
+    Write exactly ${counts.easy} easy, ${counts.medium} medium and ${counts.hard} hard questions.
+    ${GENERATED_QUESTION_GUIDANCE[type]}
+    ${topics && topics.length > 0 ? `Cover these topics: ${topics.join(', ')}.` : `Cover a broad range of ${techStack} topics.`}
+    Ask one thing per question. Easy questions check fundamentals, medium questions check practical use and hard questions check in-depth understanding and trade-offs.
+    For each question, list the key points a complete answer should cover.
+    ${existingQuestions && existingQuestions.length > 0 ? `
+    The bank already has these questions. Do not repeat them or ask the same thing in other words:
+    ${existingQuestions.map(question => `- ${question}`).join('\n    ')}
+    ` : ''}
+    
+    Respond with ONLY a JSON object of the form:
+    {
+      "questions": [
+        {
+          "text": (the question),
+          "difficulty": ("easy", "medium" or "hard"),
+          "keyPoints": [(2 to 6 short key points)]
+        }
+      ]
+    }
+    `;
+
+/**
+ * Build the schema generated questions must match
+ * @param {number} count - Number of questions wanted
+ * @returns {import('zod').ZodType}
+ */
+export const buildQuestionsSchema = (count) => z.object({
+  questions: z.array(z.object({
+    text: z.string().trim().min(10).max(1000),
+    difficulty: z.enum(['easy', 'medium', 'hard']),
+    keyPoints: z.array(z.string().trim().min(1).max(300)).max(10).default([])
+  })).min(1).max(count)
+});
+
+// Evaluation output the rest of the app relies on. Anything that does not
+// match is rejected rather than patched up with made-up scores.
+const criterionScore = z.number().min(0).max(10);
+
+/**
+ * Build the schema an evaluation must match for the given rubric: a score
+ * for every rubric criterion and nothing else
+ * @param {Object} rubric - Rubric snapshot
+ * @returns {import('zod').ZodType}
+ */
+export const buildEvaluationSchema = (rubric) => z.object({
+  score: z.number().min(0).max(10),
+  feedback: z.string().trim().min(1),
+  codeEvaluation: z.string().optional(),
+  criteria: z.object(
+    Object.fromEntries(rubric.criteria.map(criterion => [criterion.key, criterionScore]))
+  ).strip()
+});
+
+/**
+ * Error thrown when a provider keeps returning output that does not match
+ * the evaluation schema after all retries
+ */
+export class InvalidEvaluationError extends Error {
+  constructor(message, attempts) {
+    super(message);
+    this.name = 'InvalidEvaluationError';
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Extract the JSON object from raw LLM output, tolerating markdown fences
+ * and text around the object
+ * @param {string} generatedText - Raw LLM output
+ * @returns {Object} - Parsed JSON value
+ */
+const extractJson = (generatedText) => {
+  const text = generatedText.replace(/```(?:json)?/gi, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('Response does not contain a JSON object');
+  }
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (jsonError) {
+    throw new Error(`Response is not valid JSON: ${jsonError.message}`);
+  }
+};
+
+/**
+ * Turn the raw text generated by an LLM into a validated evaluation object
+ * @param {string} generatedText - Raw LLM output
+ * @param {import('zod').ZodType} schema - Schema from buildEvaluationSchema
+ * @returns {{ success: true, data: Object } | { success: false, errors: string[] }}
+ */
+export const parseEvaluationText = (generatedText, schema) => {
+  let json;
+  try {
+    json = extractJson(generatedText);
+  } catch (err) {
+    return { success: false, errors: [err.message] };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    };
+  }
+
+  return { success: true, data: result.data };
+};
+
+/**
+ * Build the follow-up prompt asking the LLM to fix an invalid response
+ * @param {string} prompt - Original prompt
+ * @param {string} previousOutput - The invalid output
+ * @param {string[]} errors - Validation errors
+ * @param {string} [correctionHint] - What a valid response must have, added to the request to respond again
+ * @returns {string}
+ */
+const buildCorrectionPrompt = (prompt, previousOutput, errors, correctionHint) => `${prompt}
+
+    Your previous response could not be used:
+    ${previousOutput}
+
+    It had the following problems:
+    ${errors.map(error => `- ${error}`).join('\n    ')}
+
+    Respond again with ONLY the JSON object described above${correctionHint ? `, ${correctionHint}` : ''}.
+    `;
+
+/**
+ * Create an evaluator from a text completion function. Responses are
+ * validated against the rubric's evaluation schema and the LLM is re-prompted with the
+ * validation errors until it produces a valid one or attempts run out.
+ * Follow-up, resume and question bank questions are generated and validated
+ * the same way.
+ * @param {string} name - Provider name reported as the evaluation method
+ * @param {Function} complete - async (prompt, { maxTokens }) => generated text;
+ *   maxTokens is only passed when the default length may be too short
+ * @param {Object} [options]
+ * @param {number} [options.maxAttempts] - Total attempts including the first
+ * @param {Function} [options.embed] - async (texts) => one embedding vector per text,
+ *   for providers that offer embeddings
+ * @returns {{ name: string, evaluate: Function, generateFollowUp: Function, generateResumeQuestions: Function, generateQuestions: Function, embed?: Function }}
+ */
+export const createLLMEvaluator = (name, complete, { maxAttempts = Number(process.env.EVALUATION_MAX_ATTEMPTS) || 3, embed } = {}) => {
+  /**
+   * Prompt the LLM until its response matches the schema, re-prompting with
+   * the validation errors
+   * @param {string} prompt
+   * @param {import('zod').ZodType} schema
+   * @param {Object} options
+   * @param {string} options.invalidResult - How an invalid response is described in logs and errors, e.g. "an invalid evaluation"
+   * @param {string} [options.correctionHint] - What a valid response must have
+   * @param {number} [options.maxTokens] - Passed on to complete
+   * @returns {Promise<Object>} - The validated response
+   * @throws {InvalidEvaluationError} When no attempt returns a valid response
+   */
+  const completeValidated = async (prompt, schema, { invalidResult, correctionHint, maxTokens }) => {
+    let currentPrompt = prompt;
+    let errors = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const generatedText = (await complete(currentPrompt, maxTokens ? { maxTokens } : undefined)) || '';
+      console.log(`${name} attempt ${attempt}: generated text length:`, generatedText.length);
+
+      const result = parseEvaluationText(generatedText, schema);
+      if (result.success) {
+        return result.data;
+      }
+
+      errors = result.errors;
+      console.warn(`${name} attempt ${attempt} returned ${invalidResult}:`, errors);
+      currentPrompt = buildCorrectionPrompt(prompt, generatedText, errors, correctionHint);
+    }
+
+    throw new InvalidEvaluationError(
+      `${name} returned ${invalidResult} after ${maxAttempts} attempts: ${errors.join('; ')}`,
+      maxAttempts
+    );
+  };
+
+  return {
+    name,
+    ...(embed ? { embed } : {}),
+    evaluate: (input) => completeValidated(buildEvaluationPrompt(input), buildEvaluationSchema(input.rubric), {
+      invalidResult: 'an invalid evaluation',
+      correctionHint: 'with a numeric "score" between 0 and 10, a non-empty "feedback" string and numeric scores between 0 and 10 for every key in "criteria"'
+    }),
+    generateFollowUp: async (input) => {
+      const { followUpQuestion } = await completeValidated(buildFollowUpPrompt(input), followUpSchema, {
+        invalidResult: 'an invalid follow-up question'
+      });
+      return followUpQuestion;
+    },
+    generateResumeQuestions: async (input) => {
+      const { questions } = await completeValidated(
+        buildResumeQuestionsPrompt(input),
+        buildResumeQuestionsSchema(input.techStacks, input.count),
+        { invalidResult: 'invalid resume questions', correctionHint: `with at most ${input.count} questions` }
+      );
+      return questions;
+    },
+    generateQuestions: async (input) => {
+      const count = input.counts.easy + input.counts.medium + input.counts.hard;
+      const { questions } = await completeValidated(buildQuestionsPrompt(input), buildQuestionsSchema(count), {
+        invalidResult: 'invalid questions',
+        correctionHint: `with at most ${count} questions`,
+        // Longer than an evaluation: every question comes with its key points
+        maxTokens: 300 + count * 150
+      });
+      return questions;
+    }
+  };
+};
@@ -0,0 +1,43 @@
+// Deterministic grading for multiple-choice questions. The correct options
+// are stored on the question, so no evaluation provider is needed.
+
+/**
+ * Grade the selected options against the correct ones. A single-answer
+ * question scores 10 or 0; with several correct options each correct pick
+ * earns its share and each wrong pick takes one share away.
+ * @param {Object} input
+ * @param {Array<{ _id: Object, text: string, correct: boolean }>} input.options - Question options
+ * @param {Array<string>} [input.selectedOptions] - Ids of the options the candidate picked
+ * @param {Object} input.rubric - Rubric snapshot
+ * @returns {{ score: number, feedback: string, criteria: Object }}
+ */
+export const gradeMultipleChoice = ({ options, selectedOptions = [], rubric }) => {
+  const selected = new Set(selectedOptions.map(id => id.toString()));
+  const correctOptions = options.filter(option => option.correct);
+
+  const correctPicks = correctOptions.filter(option => selected.has(option._id.toString())).length;
+  const wrongPicks = options.filter(option => !option.correct && selected.has(option._id.toString())).length;
+
+  const share = 10 / correctOptions.length;
+  const score = Math.max(0, Math.round((correctPicks - wrongPicks) * share * 10) / 10);
+
+  // Feedback is visible to candidates, so it never names the correct options
+  let feedback;
+  if (selected.size === 0) {
+    feedback = 'No option was selected.';
+  } else if (correctPicks === correctOptions.length && wrongPicks === 0) {
+    feedback = 'Correct.';
+  } else {
+    feedback = `${correctPicks} of ${correctOptions.length} correct option${correctOptions.length === 1 ? '' : 's'} selected`
+      + `${wrongPicks > 0 ? `, plus ${wrongPicks} incorrect` : ''}.`;
+  }
+
+  return {
+    score,
+    feedback,
+    // There is only right or wrong, so every criterion gets the same score
+    criteria: Object.fromEntries(rubric.criteria.map(criterion => [criterion.key, score]))
+  };
+};
+
+export default gradeMultipleChoice;
@@ -0,0 +1,53 @@
+import OpenAI from 'openai';
+import { createLLMEvaluator } from './llm.js';
+
+/**
+ * Create an evaluator backed by an OpenAI-compatible chat completions API.
+ * Used both for OpenAI itself and for local servers exposing the same API
+ * (Ollama, llama.cpp server, vLLM...) by pointing `baseURL` at them.
+ * @param {Object} options
+ * @param {string} options.name - Provider name reported as the evaluation method
+ * @param {string} [options.apiKey] - API key (local servers usually ignore it)
+ * @param {string} [options.baseURL] - API base URL, defaults to OpenAI
+ * @param {string} options.model - Model name
+ * @param {string} [options.embeddingModel] - Embedding model, used to find
+ *   similar questions; without one the provider offers no embeddings
+ */
+const createOpenAIEvaluator = ({ name, apiKey, baseURL, model, embeddingModel }) => {
+  if (!apiKey && !baseURL) {
+    throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY in your environment variables.');
+  }
+
+  const client = new OpenAI({
+    // The SDK refuses to start without a key, even for local endpoints
+    apiKey: apiKey || 'not-needed',
+    baseURL
+  });
+
+  const complete = async (prompt, { maxTokens = 800 } = {}) => {
+    const completion = await client.chat.completions.create({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.3,
+      max_tokens: maxTokens,
+    });
+
+    if (!completion.choices || completion.choices.length === 0) {
+      throw new Error(`No choices returned from ${name} API`);
+    }
+
+    return completion.choices[0].message?.content;
+  };
+
+  const embed = async (texts) => {
+    const response = await client.embeddings.create({ model: embeddingModel, input: texts });
+    // Results carry their input index and are not guaranteed to be in order
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  };
+
+  return createLLMEvaluator(name, complete, { embed: embeddingModel ? embed : undefined });
+};
+
+export default createOpenAIEvaluator;
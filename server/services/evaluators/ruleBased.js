@@ -0,0 +1,259 @@
+// Deterministic keyword/length based evaluation. Needs no network access, so it
+// is usable offline and in tests, and as a last resort when no LLM is configured.
+const createFallbackEvaluation = (question, transcript, techStack, code) => {
+  // Extract question-specific keywords from the question
+  const questionLower = question.toLowerCase();
+  let questionKeywords = [];
+  
+  // Add question-specific keywords based on the question content
+  if (questionLower.includes('react')) {
+    questionKeywords = ['component', 'jsx', 'virtual dom', 'state', 'props', 'hooks', 'lifecycle', 'render'];
+  } else if (questionLower.includes('node')) {
+    questionKeywords = ['event loop', 'callback', 'async', 'express', 'middleware', 'server'];
+  } else if (questionLower.includes('python')) {
+    questionKeywords = ['list', 'tuple', 'dictionary', 'class', 'function', 'django', 'flask'];
+  } else if (questionLower.includes('java')) {
+    questionKeywords = ['class', 'interface', 'inheritance', 'polymorphism', 'spring'];
+  }
+  
+  // General technical terms
+  const generalKeywords = [
+    'algorithm', 'performance', 'optimization', 'design', 'pattern',
+    'architecture', 'framework', 'library', 'function', 'method'
+  ];
+  
+  // Tech stack specific terms
+  const techStackKeywords = techStack ? [
+    ...(techStack.toLowerCase().includes('react') ? 
+      ['component', 'jsx', 'virtual dom', 'state', 'props', 'hooks'] : []),
+    ...(techStack.toLowerCase().includes('node') ? 
+      ['event loop', 'callback', 'async', 'express', 'middleware'] : []),
+    ...(techStack.toLowerCase().includes('python') ? 
+      ['list', 'tuple', 'dictionary', 'class', 'function', 'django', 'flask'] : []),
+    ...(techStack.toLowerCase().includes('java') ? 
+      ['class', 'interface', 'inheritance', 'polymorphism', 'spring'] : [])
+  ] : [];
+  
+  // Combine all keywords, prioritizing question-specific ones
+  const keywords = [...questionKeywords, ...techStackKeywords, ...generalKeywords];
+  
+  // Count keywords in transcript and code
+  const normalizedTranscript = transcript ? transcript.toLowerCase() : '';
+  const normalizedCode = code ? code.toLowerCase() : '';
+  
+  // Check if the answer is just a greeting or very short
+  const isJustGreeting = normalizedTranscript.match(/^\s*(hi|hello|hey|greetings|my name is)\b.*?$/i);
+  const wordCount = normalizedTranscript.split(/\s+/).filter(w => w.length > 0).length;
+  const isVeryShort = wordCount < 20;
+  const isTesting = normalizedTranscript.toLowerCase().includes('testing') || normalizedTranscript.toLowerCase().includes('test');
+  
+  // If it's just a greeting, testing message, or very short, give a score of 1
+  if (isJustGreeting || isVeryShort || isTesting) {
+    return {
+      score: 1,
+      feedback: `This answer is ${isJustGreeting ? 'just a greeting' : isTesting ? 'just a test message' : 'too short'} and does not address the technical question. A complete answer should explain the technical concepts in detail. Irrelevant answers receive a score of 1/10.`,
+      criteria: {
+        technicalAccuracy: 1,
+        completeness: 1,
+        clarity: 1,
+        examples: 1
+      }
+    };
+  }
+  
+  // Count question-specific keywords (these are most important)
+  const questionKeywordCount = questionKeywords.filter(keyword => 
+    normalizedTranscript.includes(keyword.toLowerCase()) || 
+    normalizedCode.includes(keyword.toLowerCase())
+  ).length;
+  
+  // Count all keywords
+  const transcriptKeywordCount = keywords.filter(keyword => 
+    normalizedTranscript.includes(keyword.toLowerCase())
+  ).length;
+  
+  const codeKeywordCount = keywords.filter(keyword => 
+    normalizedCode.includes(keyword.toLowerCase())
+  ).length;
+  
+  const totalKeywordCount = transcriptKeywordCount + codeKeywordCount;
+  
+  // Calculate relevance score - heavily weighted by question-specific keywords
+  const relevanceScore = questionKeywords.length > 0 ? 
+    Math.min(10, (questionKeywordCount / questionKeywords.length) * 10) : 5;
+  
+  // Calculate keyword score - based on total keywords
+  const keywordScore = Math.min(10, (totalKeywordCount / 8) * 10);
+  
+  // Calculate length scores
+  const transcriptLength = transcript ? transcript.length : 0;
+  const codeLength = code ? code.length : 0;
+  
+  const transcriptLengthScore = Math.min(10, (transcriptLength / 500) * 10);
+  const codeLengthScore = Math.min(10, (codeLength / 200) * 10);
+  
+  // Weight the length scores based on what was provided
+  let lengthScore;
+  if (transcript && code) {
+    lengthScore = (transcriptLengthScore * 0.6) + (codeLengthScore * 0.4);
+  } else if (transcript) {
+    lengthScore = transcriptLengthScore;
+  } else if (code) {
+    lengthScore = codeLengthScore;
+  } else {
+    lengthScore = 0;
+  }
+  
+  // Calculate final score with weights - relevance is most important
+  const score = Math.round((relevanceScore * 0.5 + keywordScore * 0.3 + lengthScore * 0.2) * 10) / 10;
+  
+  // Generate appropriate feedback
+  let feedback = 'This evaluation was generated using a fallback system. ';
+  
+  if (relevanceScore < 5) {
+    feedback += 'The answer does not seem to directly address the question asked. ';
+  }
+  
+  if (transcript && code) {
+    feedback += `Your verbal answer contains ${transcriptKeywordCount} relevant technical terms and is ${transcriptLength} characters long. `;
+    feedback += `Your code submission contains ${codeKeywordCount} relevant technical terms and is ${codeLength} characters long.`;
+  } else if (transcript) {
+    feedback += `Your verbal answer contains ${transcriptKeywordCount} relevant technical terms and is ${transcriptLength} characters long.`;
+  } else if (code) {
+    feedback += `Your code submission contains ${codeKeywordCount} relevant technical terms and is ${codeLength} characters long.`;
+  }
+  
+  return {
+    score: Math.min(10, score),
+    feedback,
+    criteria: {
+      technicalAccuracy: Math.round(relevanceScore * 10) / 10,
+      completeness: Math.round(keywordScore * 10) / 10,
+      clarity: transcript ? Math.min(wordCount / 10, 10) : 3, // Clarity based on word count
+      examples: (normalizedTranscript.includes('example') || normalizedCode.length > 50) ? 7 : 3
+    }
+  };
+};
+
+/**
+ * Map the fallback scores onto a rubric. Criteria the fallback knows about
+ * keep their own score; custom criteria get the overall score.
+ * @param {Object} evaluation - Result of createFallbackEvaluation
+ * @param {Object} rubric - Rubric snapshot
+ * @returns {Object} - Evaluation with one score per rubric criterion
+ */
+const applyRubric = (evaluation, rubric) => ({
+  ...evaluation,
+  criteria: Object.fromEntries(rubric.criteria.map(criterion => [
+    criterion.key,
+    evaluation.criteria[criterion.key] ?? evaluation.score
+  ]))
+});
+
+// Concepts a follow-up can ask the candidate to expand on, most specific first
+const FOLLOW_UP_TOPICS = [
+  'virtual dom', 'reconciliation', 'hooks', 'state', 'props', 'event loop', 'callback', 'promise',
+  'middleware', 'closure', 'garbage collection', 'index', 'transaction', 'cache', 'thread',
+  'inheritance', 'polymorphism', 'interface', 'algorithm', 'performance', 'architecture'
+];
+
+/**
+ * Build a follow-up question about the first known concept the answer
+ * mentions, or ask for a worked example when it mentions none
+ * @param {string} answerText - Transcript and written answer
+ * @param {string} [code] - Code submission
+ * @returns {string}
+ */
+const createFallbackFollowUp = (answerText, code) => {
+  const normalized = `${answerText} ${code || ''}`.toLowerCase();
+  const topic = FOLLOW_UP_TOPICS.find(candidate => normalized.includes(candidate));
+
+  return topic
+    ? `You mentioned ${topic}. Can you explain in more detail how it works and when it matters, using a concrete example?`
+    : 'Can you walk through a concrete example that illustrates your answer, step by step?';
+};
+
+// Resume questions asked about each tech stack the resume mentions, in turn
+const RESUME_QUESTION_TEMPLATES = [
+  { difficulty: 'medium', text: (stack) => `Walk through a project where you used ${stack}: what did you build, and what was the hardest problem you solved?` },
+  { difficulty: 'easy', text: (stack) => `Explain a core concept of ${stack} you relied on in your previous work, as you would to a new team member.` },
+  { difficulty: 'hard', text: (stack) => `What trade-offs did you weigh when using ${stack} in your past projects, and what would you do differently today?` }
+];
+
+/**
+ * Build resume questions from templates, going round the tech stacks so
+ * each gets a question before any gets a second
+ * @param {Array<string>} techStacks - Tech stack names, most relevant first
+ * @param {number} count - Number of questions wanted
+ * @returns {Array<{ text: string, difficulty: string, techStack: string }>}
+ */
+const createFallbackResumeQuestions = (techStacks, count) => {
+  const total = Math.min(count, techStacks.length * RESUME_QUESTION_TEMPLATES.length);
+
+  return Array.from({ length: total }, (_, index) => {
+    const techStack = techStacks[index % techStacks.length];
+    const template = RESUME_QUESTION_TEMPLATES[Math.floor(index / techStacks.length)];
+    return { text: template.text(techStack), difficulty: template.difficulty, techStack };
+  });
+};
+
+// Each template takes the subject of the question, e.g. "hooks in React"
+const QUESTION_TEMPLATES = {
+  easy: [
+    (subject) => `Give an overview of ${subject}: what problem does it solve?`,
+    (subject) => `Explain the basics of ${subject} as you would to a new team member.`
+  ],
+  medium: [
+    (subject) => `Describe a situation where you would use ${subject}, and how you would go about it.`,
+    (subject) => `What are common mistakes when working with ${subject}, and how do you avoid them?`
+  ],
+  hard: [
+    (subject) => `What trade-offs come with ${subject}, and when would you choose a different approach?`,
+    (subject) => `How would you diagnose and fix a performance problem related to ${subject} in a large application?`
+  ]
+};
+
+/**
+ * Build question bank questions from templates, going round the topics (or
+ * the tech stack itself when there are none)
+ * @param {Object} input
+ * @param {string} input.techStack - Tech stack name
+ * @param {{ easy: number, medium: number, hard: number }} input.counts - Questions wanted per difficulty
+ * @param {Array<string>} [input.topics] - Topics to cover
+ * @returns {Array<{ text: string, difficulty: string, keyPoints: Array<string> }>}
+ */
+const createFallbackQuestions = ({ techStack, counts, topics }) => {
+  const subjects = topics && topics.length > 0
+    ? topics.map(topic => `${topic} in ${techStack}`)
+    : [techStack];
+
+  return Object.entries(QUESTION_TEMPLATES).flatMap(([difficulty, templates]) => {
+    const total = Math.min(counts[difficulty], subjects.length * templates.length);
+    return Array.from({ length: total }, (_, index) => ({
+      text: templates[Math.floor(index / subjects.length)](subjects[index % subjects.length]),
+      difficulty,
+      keyPoints: []
+    }));
+  });
+};
+
+/**
+ * Create the rule-based evaluator
+ * @returns {{ name: string, evaluate: Function, generateFollowUp: Function, generateResumeQuestions: Function, generateQuestions: Function }}
+ */
+const createRuleBasedEvaluator = () => ({
+  name: 'rule-based',
+  // Written answers are scored like a transcript
+  evaluate: async ({ question, transcript, textAnswer, techStack, code, rubric }) =>
+    applyRubric(
+      createFallbackEvaluation(question, [transcript, textAnswer].filter(Boolean).join('\n'), techStack, code),
+      rubric
+    ),
+  generateFollowUp: async ({ transcript, textAnswer, code }) =>
+    createFallbackFollowUp([transcript, textAnswer].filter(Boolean).join('\n'), code),
+  generateResumeQuestions: async ({ techStacks, count }) =>
+    createFallbackResumeQuestions(techStacks, count),
+  generateQuestions: async (input) => createFallbackQuestions(input)
+});
+
+export default createRuleBasedEvaluator;
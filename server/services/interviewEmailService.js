@@ -0,0 +1,280 @@
+import {
+  sendInterviewInvitation,
+  sendInterviewReminder,
+  sendInterviewCancellation,
+  sendNoShowNotification,
+  sendSlotInvitation,
+  getReplyToAddress
+} from './emailService.js';
+import { getJoinWindow } from './joinWindowService.js';
+import { issueInvitation, revokeInvitations } from './invitationService.js';
+import { buildInterviewCalendar } from './calendarService.js';
+import { formatInTimeZone } from '../utils/timezone.js';
+
+/**
+ * Emails a candidate about their interview: the invitation with its join
+ * link, updates when the interview is rescheduled, reminders and
+ * cancellations. The invitation, update and cancellation carry a calendar
+ * invitation for the same event. Candidates who pick their own time first
+ * get a link to the slot picker. Also tells the scheduling admin when the
+ * candidate did not show up.
+ */
+
+const DEFAULT_COMPANY_NAME = 'SkillSpark';
+
+const getFrontendUrl = () => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Load the candidate and role the emails mention, unless already populated
+const populateInterview = async (interview) => {
+  if (!interview.populated('candidate')) await interview.populate('candidate');
+  if (!interview.populated('role')) await interview.populate('role');
+  return interview;
+};
+
+// Company the admin who scheduled the interview hires for
+const getSchedulingCompany = async (interview) => {
+  if (!interview.populated('createdBy')) await interview.populate('createdBy');
+  return (interview.createdBy && interview.createdBy.company) || DEFAULT_COMPANY_NAME;
+};
+
+// "24 hours", "1 hour", "45 minutes"
+const formatTimeUntil = (minutes) => {
+  if (minutes >= 60) {
+    const hours = Math.round(minutes / 60);
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  const rounded = Math.max(1, Math.round(minutes));
+  return `${rounded} minute${rounded === 1 ? '' : 's'}`;
+};
+
+/**
+ * Collect the details the emails and calendar invitations show, with the
+ * date and time as they read in the given time zone
+ * @param {Object} interview - Interview with candidate and role populated
+ * @param {string} [timeZone] - Defaults to the candidate's time zone
+ * @returns {Object}
+ */
+const describeInterview = (interview, timeZone = interview.candidateTimezone || 'UTC') => {
+  const candidateEmail = interview.candidate.email;
+  // Fall back to the part of the email before @
+  const candidateName = interview.candidate.name || candidateEmail.split('@')[0];
+  const roleName = (interview.role && interview.role.name) || 'the position';
+
+  const { startsAt, earlyMinutes, lateMinutes } = getJoinWindow(interview);
+  const date = formatInTimeZone(startsAt, timeZone, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+  const time = `${formatInTimeZone(startsAt, timeZone, {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  })} (${timeZone})`;
+
+  return { candidateEmail, candidateName, roleName, date, time, earlyMinutes, lateMinutes };
+};
+
+/**
+ * Build the calendar invitation of an interview for its candidate
+ * @param {Object} interview - Interview with candidate and role populated
+ * @param {Object} options
+ * @param {string} [options.method] - request, update or cancel
+ * @param {string} [options.joinLink] - Link to join the interview
+ * @param {string} [options.companyName] - Company name
+ * @returns {string} - iCalendar text
+ */
+export const buildCandidateCalendar = (interview, {
+  method = 'request',
+  joinLink,
+  companyName = DEFAULT_COMPANY_NAME
+} = {}) => {
+  const { candidateEmail, candidateName, roleName } = describeInterview(interview);
+  return buildInterviewCalendar(interview, {
+    method,
+    summary: `Interview: ${roleName} at ${companyName}`,
+    description: `Interview for the ${roleName} position at ${companyName}.`,
+    joinLink,
+    organizer: { name: `${companyName} Hiring Team`, email: getReplyToAddress() },
+    attendee: { name: candidateName, email: candidateEmail }
+  });
+};
+
+// Updates and cancellations must carry a higher SEQUENCE than the last email
+const bumpCalendarSequence = async (interview) => {
+  interview.calendarSequence = (interview.calendarSequence || 0) + 1;
+  await interview.save();
+};
+
+/**
+ * Email the candidate a fresh invitation link. Links sent earlier stop working.
+ * @param {Object} interview - Interview document
+ * @param {Object} options
+ * @param {string} [options.companyName] - Company name
+ * @param {string} [options.createdBy] - User sending the invitation
+ * @param {string} [options.method] - request for the first invitation, update after a change
+ * @returns {Promise<{ email: Object, invitation: Object }>} - The outbox email and the new invitation
+ */
+export const sendInvitationEmail = async (interview, {
+  companyName = DEFAULT_COMPANY_NAME,
+  createdBy,
+  method = 'request'
+} = {}) => {
+  await populateInterview(interview);
+  if (method === 'update') {
+    await bumpCalendarSequence(interview);
+  }
+
+  const details = describeInterview(interview);
+
+  // This link will only work during the scheduled time window
+  const { token, invitation } = await issueInvitation(interview, { createdBy });
+  const interviewLink = `${getFrontendUrl()}/join/${interview._id}?token=${encodeURIComponent(token)}`;
+
+  const email = await sendInterviewInvitation({
+    to: details.candidateEmail,
+    candidateName: details.candidateName,
+    companyName,
+    role: details.roleName,
+    date: details.date,
+    time: details.time,
+    duration: interview.duration || 60,
+    joinEarlyMinutes: details.earlyMinutes,
+    joinLateMinutes: details.lateMinutes,
+    interviewLink,
+    updated: method === 'update',
+    calendar: buildCandidateCalendar(interview, { method, joinLink: interviewLink, companyName }),
+    interview: interview._id
+  });
+
+  return { email, invitation };
+};
+
+/**
+ * Tell the candidate the interview is cancelled, revoke their links and
+ * remove the event from their calendar
+ * @param {Object} interview - Interview document
+ * @param {Object} options
+ * @param {string} [options.companyName] - Company name
+ * @returns {Promise<Object>} - The outbox email
+ */
+export const sendCancellationEmail = async (interview, { companyName = DEFAULT_COMPANY_NAME } = {}) => {
+  await populateInterview(interview);
+  await revokeInvitations(interview._id);
+  await bumpCalendarSequence(interview);
+
+  const details = describeInterview(interview);
+
+  return sendInterviewCancellation({
+    to: details.candidateEmail,
+    candidateName: details.candidateName,
+    companyName,
+    role: details.roleName,
+    date: details.date,
+    time: details.time,
+    calendar: buildCandidateCalendar(interview, { method: 'cancel', companyName }),
+    interview: interview._id
+  });
+};
+
+/**
+ * Remind the candidate of the interview. The reminder carries no link; the
+ * candidate joins with the single-use link from the invitation.
+ * @param {Object} interview - Interview document
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<Object>} - The outbox email
+ */
+export const sendReminderEmail = async (interview, now = new Date()) => {
+  await populateInterview(interview);
+  const companyName = await getSchedulingCompany(interview);
+  const details = describeInterview(interview);
+
+  return sendInterviewReminder({
+    to: details.candidateEmail,
+    candidateName: details.candidateName,
+    companyName,
+    role: details.roleName,
+    date: details.date,
+    time: details.time,
+    duration: interview.duration || 60,
+    startsIn: formatTimeUntil((interview.startsAt.getTime() - now.getTime()) / (60 * 1000)),
+    interview: interview._id
+  });
+};
+
+/**
+ * Tell the admin who scheduled the interview that the candidate did not join
+ * @param {Object} interview - Interview document
+ * @returns {Promise<Object|null>} - The outbox email, null when the interview has no creator
+ */
+export const sendNoShowEmail = async (interview) => {
+  await populateInterview(interview);
+  const companyName = await getSchedulingCompany(interview);
+  if (!interview.createdBy) {
+    return null;
+  }
+
+  // Times as the interviewer reads them
+  const details = describeInterview(interview, interview.interviewerTimezone || 'UTC');
+
+  return sendNoShowNotification({
+    to: interview.createdBy.email,
+    adminName: interview.createdBy.name,
+    candidateName: details.candidateName,
+    candidateEmail: details.candidateEmail,
+    companyName,
+    role: details.roleName,
+    date: details.date,
+    time: details.time,
+    interviewUrl: `${getFrontendUrl()}/interview-details/${interview._id}`,
+    interview: interview._id
+  });
+};
+
+/**
+ * Email the candidate a link to pick a time for the interview. Scheduling
+ * links sent earlier stop working.
+ * @param {Object} interview - Interview document awaiting a slot
+ * @param {Object} options
+ * @param {string} [options.companyName] - Company name
+ * @param {string} [options.createdBy] - User sending the link
+ * @returns {Promise<{ email: Object, invitation: Object }>} - The outbox email and the new invitation
+ */
+export const sendSchedulingEmail = async (interview, {
+  companyName = DEFAULT_COMPANY_NAME,
+  createdBy
+} = {}) => {
+  await populateInterview(interview);
+  const candidateEmail = interview.candidate.email;
+
+  const { token, invitation } = await issueInvitation(interview, { createdBy, purpose: 'schedule' });
+  const schedulingLink = `${getFrontendUrl()}/schedule/${interview._id}?token=${encodeURIComponent(token)}`;
+
+  const email = await sendSlotInvitation({
+    to: candidateEmail,
+    candidateName: interview.candidate.name || candidateEmail.split('@')[0],
+    companyName,
+    role: (interview.role && interview.role.name) || 'the position',
+    duration: interview.duration || 60,
+    schedulingLink,
+    expiresAt: formatInTimeZone(invitation.expiresAt, interview.candidateTimezone || 'UTC', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    }),
+    interview: interview._id
+  });
+
+  return { email, invitation };
+};
+
+export default {
+  buildCandidateCalendar,
+  sendInvitationEmail,
+  sendSchedulingEmail,
+  sendReminderEmail,
+  sendCancellationEmail,
+  sendNoShowEmail
+};
@@ -0,0 +1,396 @@
+import Interview from '../models/Interview.js';
+import Answer from '../models/Answer.js';
+import { checkJoinWindow } from './joinWindowService.js';
+import { selectQuestionsForStacks } from './questionSelectionService.js';
+import { advanceCandidate } from './candidateService.js';
+
+/**
+ * The interview session, kept by the server. An interview moves through
+ * INTERVIEW_TRANSITIONS; while it is in progress, every question shown is
+ * recorded in `progress` with when it was shown, its deadline and what
+ * became of it. The interview's duration and the per-question time limit
+ * are enforced here, so answers saved late are refused and a candidate who
+ * reloads the page resumes where the server says they are.
+ */
+
+// Status changes an interview may make. awaiting-slot, cancelled and
+// no-show interviews become scheduled again when they are (re)scheduled.
+export const INTERVIEW_TRANSITIONS = {
+  'awaiting-slot': ['scheduled', 'cancelled'],
+  scheduled: ['in-progress', 'cancelled', 'no-show'],
+  'in-progress': ['completed', 'abandoned', 'expired'],
+  'no-show': ['scheduled', 'cancelled'],
+  cancelled: ['scheduled'],
+  completed: [],
+  abandoned: [],
+  expired: []
+};
+
+// Seconds an answer may arrive after its deadline, for the time it takes
+// to upload and evaluate it
+export const SUBMIT_GRACE_SECONDS = Number(process.env.INTERVIEW_SUBMIT_GRACE_SECONDS) || 15;
+
+/**
+ * Error raised when the session cannot change as asked
+ */
+export class InterviewSessionError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'InterviewSessionError';
+    this.statusCode = statusCode;
+  }
+}
+
+const secondsUntil = (date, now) => (date ? Math.max(0, Math.ceil((date.getTime() - now.getTime()) / 1000)) : 0);
+
+const isPastWithGrace = (date, now) => !!date && now.getTime() > date.getTime() + SUBMIT_GRACE_SECONDS * 1000;
+
+/**
+ * Check that an interview may move to a status
+ * @param {Object} interview - Interview document
+ * @param {string} status - Status it should move to
+ * @throws {InterviewSessionError} When the transition is not allowed
+ */
+export const assertTransition = (interview, status) => {
+  if (interview.status === status) return;
+  if (!(INTERVIEW_TRANSITIONS[interview.status] || []).includes(status)) {
+    throw new InterviewSessionError(`An interview that is ${interview.status} cannot become ${status}`, 409);
+  }
+};
+
+/**
+ * Find the progress entry of a question
+ * @param {Object} interview - Interview document
+ * @param {string} questionId
+ * @param {boolean} [followUp] - The entry of the question's follow-up question
+ * @returns {Object|undefined}
+ */
+export const findProgressEntry = (interview, questionId, followUp = false) =>
+  interview.progress.find(entry => entry.question.toString() === String(questionId) && entry.followUp === !!followUp);
+
+const closeOpenEntries = (interview, outcome) => {
+  interview.progress
+    .filter(entry => entry.outcome === 'open')
+    .forEach(entry => {
+      entry.outcome = outcome;
+    });
+};
+
+/**
+ * Bring an in-progress interview up to date: questions past their deadline
+ * time out, and the interview expires once its duration has run out. Saves
+ * the interview when anything changed.
+ * @param {Object} interview - Interview document
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<Object>} - The interview
+ */
+export const refreshSession = async (interview, now = new Date()) => {
+  if (interview.status !== 'in-progress') return interview;
+
+  let changed = false;
+  interview.progress
+    .filter(entry => entry.outcome === 'open' && isPastWithGrace(entry.deadline, now))
+    .forEach(entry => {
+      entry.outcome = 'timed-out';
+      changed = true;
+    });
+
+  const expired = isPastWithGrace(interview.endsAt, now);
+  if (expired) {
+    closeOpenEntries(interview, 'timed-out');
+    interview.status = 'expired';
+    interview.endedAt = interview.endsAt;
+    changed = true;
+  }
+
+  if (changed) {
+    await interview.save();
+  }
+  // The candidate took the interview, even if they did not finish it in time
+  if (expired) {
+    await advanceCandidate(interview.candidate._id || interview.candidate, 'interviewed');
+  }
+  return interview;
+};
+
+/**
+ * Describe the session for the candidate's page
+ * @param {Object} interview - Interview document, refreshed
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Object} - { status, startedAt, endsAt, endedAt, remainingSeconds,
+ *   questionTimeLimit, questions, progress }; each progress entry has the
+ *   seconds left to answer it
+ */
+export const toSessionState = (interview, now = new Date()) => ({
+  status: interview.status,
+  startedAt: interview.startedAt || null,
+  endsAt: interview.endsAt || null,
+  endedAt: interview.endedAt || null,
+  remainingSeconds: interview.status === 'in-progress' ? secondsUntil(interview.endsAt, now) : 0,
+  questionTimeLimit: interview.questionTimeLimit,
+  questions: interview.questions,
+  progress: interview.progress.map(entry => ({
+    question: entry.question,
+    followUp: entry.followUp,
+    outcome: entry.outcome,
+    startedAt: entry.startedAt,
+    deadline: entry.deadline,
+    submittedAt: entry.submittedAt || null,
+    remainingSeconds: entry.outcome === 'open' ? secondsUntil(entry.deadline, now) : 0
+  }))
+});
+
+/**
+ * Start an interview within its join window. Interviews without a fixed
+ * question set get one now, so the questions and their order survive a
+ * reload. The interview's duration starts counting from here.
+ * @param {Object} interview - Interview document
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<Object>} - The started interview
+ * @throws {InterviewSessionError} When the interview cannot be started now
+ */
+export const startSession = async (interview, now = new Date()) => {
+  // Same join window as invitation links
+  const joinWindow = checkJoinWindow(interview, now);
+  if (!joinWindow.open) {
+    throw new InterviewSessionError(joinWindow.message, joinWindow.statusCode);
+  }
+  if (interview.status !== 'scheduled') {
+    throw new InterviewSessionError('Interview cannot be started in current state.', 400);
+  }
+
+  const update = {
+    status: 'in-progress',
+    startedAt: now,
+    endsAt: new Date(now.getTime() + interview.duration * 60 * 1000),
+    progress: []
+  };
+  if (interview.mode !== 'adaptive' && interview.questions.length === 0) {
+    const techStacks = interview.techStacks && interview.techStacks.length > 0
+      ? interview.techStacks
+      : [interview.techStack];
+    update.questions = await selectQuestionsForStacks(techStacks);
+  }
+
+  // Only if it was not started meanwhile, e.g. from another tab
+  const started = await Interview.findOneAndUpdate(
+    { _id: interview._id, status: 'scheduled' },
+    { $set: update },
+    { new: true }
+  );
+  if (!started) {
+    throw new InterviewSessionError('Interview cannot be started in current state.', 400);
+  }
+  return started;
+};
+
+const assertInProgress = (interview) => {
+  if (interview.status !== 'in-progress') {
+    throw new InterviewSessionError(`The interview is ${interview.status}`, 409);
+  }
+};
+
+/**
+ * Show a question to the candidate and start its clock. Showing a question
+ * that is already open returns it as it is, with the time it has left, so
+ * a reload does not restart the clock. Another open question is skipped:
+ * the candidate answers one question at a time.
+ * @param {Object} interview - Interview document, refreshed
+ * @param {string} questionId
+ * @param {Object} [options]
+ * @param {boolean} [options.followUp] - Show the question's follow-up question
+ * @param {Date} [options.now] - Defaults to the current time
+ * @returns {Promise<Object>} - The progress entry
+ * @throws {InterviewSessionError} When the question cannot be shown
+ */
+export const startQuestion = async (interview, questionId, { followUp = false, now = new Date() } = {}) => {
+  assertInProgress(interview);
+
+  // Adaptive interviews only have the questions the picker has served
+  if (!interview.questions.some(id => id.toString() === String(questionId))) {
+    throw new InterviewSessionError(interview.mode === 'adaptive'
+      ? 'This question has not been served by the interview yet'
+      : 'This question is not part of the interview', 400);
+  }
+  if (followUp && !await Answer.exists({
+    interview: interview._id,
+    question: questionId,
+    parentAnswer: null,
+    followUpQuestion: { $nin: [null, ''] }
+  })) {
+    throw new InterviewSessionError('This question has no follow-up question', 400);
+  }
+
+  const existing = findProgressEntry(interview, questionId, followUp);
+  if (existing && existing.outcome === 'open') {
+    return existing;
+  }
+  if (existing) {
+    throw new InterviewSessionError(`This question was already ${existing.outcome}`, 409);
+  }
+
+  closeOpenEntries(interview, 'skipped');
+  const timeLimitEnds = new Date(now.getTime() + interview.questionTimeLimit * 1000);
+  interview.progress.push({
+    question: questionId,
+    followUp,
+    outcome: 'open',
+    startedAt: now,
+    // No question outlasts the interview
+    deadline: interview.endsAt && interview.endsAt < timeLimitEnds ? interview.endsAt : timeLimitEnds
+  });
+  await interview.save();
+  return findProgressEntry(interview, questionId, followUp);
+};
+
+/**
+ * Move past a question without answering it. Questions the candidate never
+ * opened are recorded as skipped too; questions already answered, skipped
+ * or timed out stay as they are.
+ * @param {Object} interview - Interview document, refreshed
+ * @param {string} questionId
+ * @param {Object} [options]
+ * @param {boolean} [options.followUp] - Skip the question's follow-up question
+ * @param {Date} [options.now] - Defaults to the current time
+ * @returns {Promise<Object>} - The progress entry
+ */
+export const skipQuestion = async (interview, questionId, { followUp = false, now = new Date() } = {}) => {
+  assertInProgress(interview);
+
+  const existing = findProgressEntry(interview, questionId, followUp);
+  if (existing && existing.outcome !== 'open') {
+    return existing;
+  }
+  if (existing) {
+    // Moving on after the time ran out is not a skip
+    existing.outcome = existing.deadline && now > existing.deadline ? 'timed-out' : 'skipped';
+  } else {
+    interview.progress.push({ question: questionId, followUp, outcome: 'skipped', startedAt: now });
+  }
+  await interview.save();
+  return findProgressEntry(interview, questionId, followUp);
+};
+
+/**
+ * Check that a candidate may save an answer now: the interview is in
+ * progress and the question was shown and is within its time limit
+ * @param {Object} interview - Interview document, refreshed
+ * @param {Object} answer - Answer data with `question` and `parentAnswer`
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Object|null} - The progress entry, or null for interviews
+ *   started before sessions were kept, which are not checked
+ * @throws {InterviewSessionError} When the answer is too late or unexpected
+ */
+export const checkAnswerWindow = (interview, { question, parentAnswer }, now = new Date()) => {
+  if (interview.status === 'in-progress' && !interview.startedAt) {
+    return null;
+  }
+  if (interview.status !== 'in-progress') {
+    throw new InterviewSessionError(`The interview is ${interview.status}; answers can no longer be saved`, 409);
+  }
+
+  const entry = findProgressEntry(interview, question, !!parentAnswer);
+  if (!entry) {
+    throw new InterviewSessionError('This question has not been shown yet', 409);
+  }
+  if (entry.outcome === 'skipped') {
+    throw new InterviewSessionError('This question was skipped', 409);
+  }
+  if (entry.outcome === 'timed-out' || isPastWithGrace(entry.deadline, now)) {
+    throw new InterviewSessionError('Time for this question is up', 409);
+  }
+  return entry;
+};
+
+/**
+ * Record that an answer to a question was saved
+ * @param {Object} interview - Interview document
+ * @param {Object|null} entry - Progress entry from checkAnswerWindow
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<void>}
+ */
+export const recordAnswer = async (interview, entry, now = new Date()) => {
+  if (!entry) return;
+  entry.outcome = 'answered';
+  entry.submittedAt = now;
+  await interview.save();
+};
+
+const endSession = async (interview, status, now) => {
+  assertTransition(interview, status);
+  closeOpenEntries(interview, 'skipped');
+  interview.status = status;
+  interview.endedAt = now;
+  if (status === 'completed') {
+    interview.completedAt = now;
+  }
+  await interview.save();
+  if (status === 'completed') {
+    await advanceCandidate(interview.candidate._id || interview.candidate, 'interviewed');
+  }
+  return interview;
+};
+
+/**
+ * Finish the interview. Questions still open count as skipped.
+ * @param {Object} interview - Interview document, refreshed
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<Object>}
+ * @throws {InterviewSessionError} When the interview is not in progress
+ */
+export const completeSession = (interview, now = new Date()) => endSession(interview, 'completed', now);
+
+/**
+ * End the interview because the candidate left it before finishing
+ * @param {Object} interview - Interview document, refreshed
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<Object>}
+ * @throws {InterviewSessionError} When the interview is not in progress
+ */
+export const abandonSession = (interview, now = new Date()) => endSession(interview, 'abandoned', now);
+
+/**
+ * Expire the interviews whose duration has run out. Candidates who leave
+ * the page open or closed are treated alike; their open questions time out.
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<number>} - Number of interviews expired
+ */
+export const expireSessions = async (now = new Date()) => {
+  const overdue = await Interview.find({
+    status: 'in-progress',
+    endsAt: { $lt: new Date(now.getTime() - SUBMIT_GRACE_SECONDS * 1000) }
+  }).select('endsAt candidate');
+
+  let expired = 0;
+  for (const interview of overdue) {
+    // Only if the candidate did not finish it in the meantime
+    const ended = await Interview.findOneAndUpdate(
+      { _id: interview._id, status: 'in-progress' },
+      { $set: { status: 'expired', endedAt: interview.endsAt, 'progress.$[open].outcome': 'timed-out' } },
+      { arrayFilters: [{ 'open.outcome': 'open' }], new: true }
+    );
+    if (!ended) continue;
+    expired++;
+    await advanceCandidate(ended.candidate, 'interviewed');
+  }
+
+  return expired;
+};
+
+export default {
+  INTERVIEW_TRANSITIONS,
+  SUBMIT_GRACE_SECONDS,
+  InterviewSessionError,
+  assertTransition,
+  findProgressEntry,
+  refreshSession,
+  toSessionState,
+  startSession,
+  startQuestion,
+  skipQuestion,
+  checkAnswerWindow,
+  recordAnswer,
+  completeSession,
+  abandonSession,
+  expireSessions
+};
@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import InvitationToken from '../models/InvitationToken.js';
+import User from '../models/User.js';
+import Candidate from '../models/Candidate.js';
+import { CANDIDATE_ROLE } from './candidateService.js';
+
+/**
+ * Invitation links let a candidate join an interview without a password.
+ * Each link carries a random token that is stored only as a hash, expires,
+ * works once, and is tied to the candidate's email. Joining with it returns
+ * a short-lived session for the candidate instead of a normal login.
+ * Scheduling links work the same way, with purpose "schedule", and are used
+ * up when the candidate books a slot.
+ */
+
+// How long an invitation link stays valid after it is sent
+export const INVITATION_EXPIRE_HOURS = Number(process.env.INVITATION_EXPIRE_HOURS) || 7 * 24;
+
+// Minutes a join session outlives the interview's duration
+export const INTERVIEW_SESSION_GRACE_MINUTES = Number(process.env.INTERVIEW_SESSION_GRACE_MINUTES) || 30;
+
+// JWT audience of join sessions, which the auth middleware only accepts on
+// the interview's candidate routes
+export const INTERVIEW_SESSION_AUDIENCE = 'interview-session';
+
+/**
+ * Error raised when an invitation link cannot be used
+ */
+export class InvitationError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'InvitationError';
+    this.statusCode = statusCode;
+  }
+}
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const candidateEmailOf = async (interview) => {
+  if (interview.candidate && interview.candidate.email) {
+    return interview.candidate.email.toLowerCase();
+  }
+  const candidate = await Candidate.findById(interview.candidate);
+  return candidate ? candidate.email.toLowerCase() : null;
+};
+
+/**
+ * Revoke every unused invitation link of an interview
+ * @param {string} interviewId - Interview id
+ * @param {Object} [options]
+ * @param {string} [options.purpose] - Only revoke links for this purpose
+ * @returns {Promise<number>} - Number of links revoked
+ */
+export const revokeInvitations = async (interviewId, { purpose } = {}) => {
+  const result = await InvitationToken.updateMany(
+    { interview: interviewId, usedAt: null, revokedAt: null, ...(purpose ? { purpose } : {}) },
+    { revokedAt: new Date() }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Issue a new invitation link for an interview. Links for the same purpose
+ * issued before it stop working.
+ * @param {Object} interview - Interview document, candidate populated or not
+ * @param {Object} [options]
+ * @param {string} [options.createdBy] - Id of the admin sending the invitation
+ * @param {string} [options.purpose] - join (default) or schedule
+ * @returns {Promise<{ token: string, invitation: Object }>} - The raw token, which is not stored
+ */
+export const issueInvitation = async (interview, { createdBy, purpose = 'join' } = {}) => {
+  const email = await candidateEmailOf(interview);
+  if (!email) {
+    throw new InvitationError('The interview has no candidate to invite', 400);
+  }
+
+  await revokeInvitations(interview._id, { purpose });
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const invitation = await InvitationToken.create({
+    interview: interview._id,
+    purpose,
+    email,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + INVITATION_EXPIRE_HOURS * 60 * 60 * 1000),
+    createdBy
+  });
+
+  return { token, invitation };
+};
+
+/**
+ * Look up the invitation a token belongs to and check it can still be used
+ * @param {Object} interview - Interview document the link points at
+ * @param {string} token - Token from the link
+ * @param {Object} [options]
+ * @param {string} [options.purpose] - join (default) or schedule
+ * @returns {Promise<Object>} - InvitationToken document
+ * @throws {InvitationError} When the token is unknown, used, revoked, expired,
+ *   meant for something else or no longer matches the interview's candidate
+ */
+export const findInvitation = async (interview, token, { purpose = 'join' } = {}) => {
+  if (!token || typeof token !== 'string') {
+    throw new InvitationError('Invalid interview link', 401);
+  }
+
+  const invitation = await InvitationToken.findOne({ tokenHash: hashToken(token) });
+  if (!invitation || invitation.interview.toString() !== interview._id.toString() || invitation.purpose !== purpose) {
+    throw new InvitationError('Invalid interview link', 401);
+  }
+  if (invitation.revokedAt) {
+    throw new InvitationError('This interview link has been revoked. Please ask the recruiter for a new one.', 410);
+  }
+  if (invitation.usedAt) {
+    throw new InvitationError('This interview link has already been used. Please ask the recruiter for a new one.', 410);
+  }
+  if (invitation.expiresAt <= new Date()) {
+    throw new InvitationError('This interview link has expired. Please ask the recruiter for a new one.', 410);
+  }
+  if (invitation.email !== await candidateEmailOf(interview)) {
+    throw new InvitationError('Invalid interview link', 401);
+  }
+
+  return invitation;
+};
+
+/**
+ * Mark an invitation as used
+ * @param {Object} invitation - InvitationToken document from findInvitation
+ * @returns {Promise<Object>} - The used invitation
+ * @throws {InvitationError} When the invitation was used in the meantime
+ */
+export const useInvitation = async (invitation) => {
+  // Marked used atomically so two requests with the same link cannot both succeed
+  const used = await InvitationToken.findOneAndUpdate(
+    { _id: invitation._id, usedAt: null, revokedAt: null },
+    { usedAt: new Date() },
+    { new: true }
+  );
+  if (!used) {
+    throw new InvitationError('This interview link has already been used. Please ask the recruiter for a new one.', 410);
+  }
+  return used;
+};
+
+/**
+ * Use up an invitation and start a join session for the candidate
+ * @param {Object} invitation - InvitationToken document from findInvitation
+ * @param {Object} interview - Interview document the invitation belongs to
+ * @returns {Promise<{ token: string, expiresAt: Date }>} - Session JWT for the candidate
+ * @throws {InvitationError} When the invitation was used in the meantime
+ */
+export const redeemInvitation = async (invitation, interview) => {
+  await useInvitation(invitation);
+
+  // A link only signs in to the account linked to the interview's candidate,
+  // and never to a staff account
+  const profile = await Candidate.findById(interview.candidate._id || interview.candidate);
+  const candidate = profile && profile.user && await User.findById(profile.user);
+  if (!candidate || candidate.role !== CANDIDATE_ROLE) {
+    throw new InvitationError('Invalid interview link', 401);
+  }
+
+  const sessionMinutes = (interview.duration || 30) + INTERVIEW_SESSION_GRACE_MINUTES;
+  const token = jwt.sign(
+    { id: candidate._id, role: candidate.role, email: candidate.email, interview: interview._id },
+    process.env.JWT_SECRET,
+    { expiresIn: `${sessionMinutes}m`, audience: INTERVIEW_SESSION_AUDIENCE }
+  );
+
+  return { token, expiresAt: new Date(Date.now() + sessionMinutes * 60 * 1000) };
+};
+
+/**
+ * Latest invitation of an interview, if any was sent
+ * @param {string} interviewId - Interview id
+ * @param {Object} [options]
+ * @param {string} [options.purpose] - join (default) or schedule
+ * @returns {Promise<Object|null>}
+ */
+export const getLatestInvitation = (interviewId, { purpose = 'join' } = {}) =>
+  InvitationToken.findOne({ interview: interviewId, purpose }).sort('-createdAt');
+
+export default {
+  issueInvitation,
+  revokeInvitations,
+  findInvitation,
+  useInvitation,
+  redeemInvitation,
+  getLatestInvitation,
+  InvitationError
+};
@@ -0,0 +1,66 @@
+/**
+ * Runs background jobs on an interval in the API process. A job never
+ * overlaps with itself: a run that takes longer than the interval delays
+ * the next one instead of starting a second copy. Jobs must be safe to run
+ * from several processes at once (claim work with atomic updates).
+ */
+
+const jobs = new Map();
+
+/**
+ * Run a job now, unless it is already running
+ * @param {string} name - Job name
+ * @returns {Promise<void>}
+ */
+export const runJob = async (name) => {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new Error(`Unknown job "${name}"`);
+  }
+  if (job.running) return;
+
+  job.running = true;
+  try {
+    const result = await job.run(new Date());
+    if (result) {
+      console.log(`Job ${name}: processed ${result}`);
+    }
+  } catch (error) {
+    console.error(`Job ${name} failed:`, error);
+  } finally {
+    job.running = false;
+  }
+};
+
+/**
+ * Run a job every intervalSeconds
+ * @param {Object} options
+ * @param {string} options.name - Unique job name, used in logs
+ * @param {number} options.intervalSeconds - Seconds between runs
+ * @param {Function} options.run - Called with the current time; may return a count to log
+ */
+export const scheduleJob = ({ name, intervalSeconds, run }) => {
+  if (jobs.has(name)) {
+    throw new Error(`Job "${name}" is already scheduled`);
+  }
+
+  const job = { run, running: false };
+  jobs.set(name, job);
+  job.timer = setInterval(() => runJob(name), intervalSeconds * 1000);
+};
+
+/**
+ * Stop every scheduled job
+ */
+export const stopJobs = () => {
+  for (const job of jobs.values()) {
+    clearInterval(job.timer);
+  }
+  jobs.clear();
+};
+
+export default {
+  scheduleJob,
+  runJob,
+  stopJobs
+};
@@ -0,0 +1,72 @@
+/**
+ * The one rule for when a candidate may join an interview: from
+ * `joinWindow.earlyMinutes` before the start until `joinWindow.lateMinutes`
+ * after it. Used by invitation links and by starting an interview, and
+ * described in the invitation email.
+ */
+
+export const DEFAULT_JOIN_EARLY_MINUTES = 5;
+export const DEFAULT_JOIN_LATE_MINUTES = 30;
+
+/**
+ * Get the instants an interview's join window opens and closes
+ * @param {Object} interview - Interview document
+ * @returns {{ startsAt: Date, opensAt: Date, closesAt: Date, earlyMinutes: number, lateMinutes: number }}
+ */
+export const getJoinWindow = (interview) => {
+  // Interviews created before startsAt existed only have scheduledDate
+  const startsAt = new Date(interview.startsAt || interview.scheduledDate);
+  const earlyMinutes = interview.joinWindow?.earlyMinutes ?? DEFAULT_JOIN_EARLY_MINUTES;
+  const lateMinutes = interview.joinWindow?.lateMinutes ?? DEFAULT_JOIN_LATE_MINUTES;
+
+  return {
+    startsAt,
+    opensAt: new Date(startsAt.getTime() - earlyMinutes * 60 * 1000),
+    closesAt: new Date(startsAt.getTime() + lateMinutes * 60 * 1000),
+    earlyMinutes,
+    lateMinutes
+  };
+};
+
+/**
+ * Check whether a candidate may join an interview now
+ * @param {Object} interview - Interview document
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {{ open: boolean, isTooEarly: boolean, isExpired: boolean, message?: string,
+ *   statusCode?: number, startsAt: Date, opensAt: Date, closesAt: Date }} -
+ *   statusCode and message explain why a closed window is closed
+ */
+export const checkJoinWindow = (interview, now = new Date()) => {
+  const { startsAt, opensAt, closesAt, lateMinutes } = getJoinWindow(interview);
+  const times = { startsAt, opensAt, closesAt };
+
+  if (now < opensAt) {
+    const minutesUntilOpen = Math.ceil((opensAt.getTime() - now.getTime()) / (60 * 1000));
+    return {
+      ...times,
+      open: false,
+      isTooEarly: true,
+      isExpired: false,
+      statusCode: 403, // Forbidden - not allowed to join yet
+      message: `Interview has not started yet. You can join in ${minutesUntilOpen} minute(s).`
+    };
+  }
+
+  if (now > closesAt) {
+    return {
+      ...times,
+      open: false,
+      isTooEarly: false,
+      isExpired: true,
+      statusCode: 410, // Gone - resource no longer available
+      message: `Interview time window has expired. Candidates can join up to ${lateMinutes} minutes after the scheduled start time. Please contact the recruiter.`
+    };
+  }
+
+  return { ...times, open: true, isTooEarly: false, isExpired: false };
+};
+
+export default {
+  getJoinWindow,
+  checkJoinWindow
+};
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import OutboxEmail from '../models/OutboxEmail.js';
+import { getEmailTransport } from './emailTransportService.js';
+
+/**
+ * Every email goes through the outbox: it is stored first, then handed to
+ * the transport. Failed deliveries are retried with a growing delay until
+ * EMAIL_MAX_ATTEMPTS is reached, so a mail provider outage does not lose
+ * invitations. Emails carrying a single-use link are stored encrypted and
+ * their body is dropped once they are sent or given up on, so the outbox
+ * never keeps a usable token.
+ */
+
+const MAX_ATTEMPTS = Number(process.env.EMAIL_MAX_ATTEMPTS) || 5;
+
+// Seconds between checks for emails due for another attempt
+export const OUTBOX_POLL_SECONDS = Number(process.env.EMAIL_OUTBOX_POLL_SECONDS) || 60;
+
+// Retries wait 1, 2, 4, ... minutes, at most an hour
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+// An attempt still marked as sending after this long was interrupted, e.g.
+// by a restart, and is tried again
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+const retryDelay = (attempts) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+/**
+ * Error raised when an outbox email cannot be handled as asked
+ */
+export class OutboxError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'OutboxError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Key for the bodies of sensitive emails, EMAIL_ENCRYPTION_KEY or else one
+// derived from JWT_SECRET
+const sealingKey = () => crypto.createHash('sha256')
+  .update(process.env.EMAIL_ENCRYPTION_KEY || `email-outbox:${process.env.JWT_SECRET}`)
+  .digest();
+
+// Encrypt an email's body and attachments with AES-256-GCM: iv, tag, ciphertext
+const sealBody = ({ html, attachments = [] }) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', sealingKey(), iv);
+  const plaintext = JSON.stringify({
+    html,
+    attachments: attachments.map(({ filename, contentType, content }) => ({
+      filename,
+      contentType,
+      content: Buffer.from(content).toString('base64')
+    }))
+  });
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+};
+
+const openBody = (sealed) => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', sealingKey(), sealed.subarray(0, 12));
+  decipher.setAuthTag(sealed.subarray(12, 28));
+  const plaintext = Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()]).toString('utf8');
+  const { html, attachments } = JSON.parse(plaintext);
+  return {
+    html,
+    attachments: attachments.map(attachment => ({ ...attachment, content: Buffer.from(attachment.content, 'base64') }))
+  };
+};
+
+/**
+ * Try to deliver an outbox email that is due. Does nothing when another
+ * attempt has already claimed it.
+ * @param {string} id - OutboxEmail id
+ * @returns {Promise<Object>} - The email after the attempt
+ */
+export const deliverEmail = async (id) => {
+  // Claim the email so two workers never send it twice
+  const email = await OutboxEmail.findOneAndUpdate(
+    { _id: id, status: 'queued' },
+    { $set: { status: 'sending', lastAttemptAt: new Date() }, $inc: { attempts: 1 } },
+    { new: true }
+  ).select('+attachments +sealedBody');
+
+  if (!email) {
+    return OutboxEmail.findById(id);
+  }
+
+  let transport;
+  try {
+    const { html, attachments } = email.sensitive ? openBody(email.sealedBody) : email;
+    transport = getEmailTransport();
+    const result = await transport.send({
+      from: email.from,
+      to: email.to,
+      replyTo: email.replyTo,
+      subject: email.subject,
+      html,
+      attachments: attachments.map(({ filename, contentType, content }) => ({ filename, contentType, content }))
+    });
+
+    email.set({
+      status: 'sent',
+      transport: transport.name,
+      providerMessageId: result.id,
+      sentAt: new Date(),
+      lastError: undefined
+    });
+  } catch (error) {
+    console.error(`Failed to send email ${email._id} (attempt ${email.attempts} of ${email.maxAttempts}):`, error);
+    const gaveUp = email.attempts >= email.maxAttempts;
+    email.set({
+      status: gaveUp ? 'failed' : 'queued',
+      transport: transport && transport.name,
+      lastError: error.message,
+      nextAttemptAt: gaveUp ? undefined : new Date(Date.now() + retryDelay(email.attempts))
+    });
+  }
+
+  if (email.sensitive && ['sent', 'failed'].includes(email.status)) {
+    email.sealedBody = undefined;
+  }
+  await email.save();
+  // Without the attachments
+  return OutboxEmail.findById(email._id);
+};
+
+/**
+ * Store an email in the outbox and make the first delivery attempt
+ * @param {Object} message
+ * @param {string} message.type - One of EMAIL_TEMPLATE_TYPES
+ * @param {string[]} message.to - Recipients
+ * @param {string} message.from - Sender
+ * @param {string} [message.replyTo] - Reply-to address
+ * @param {string} message.subject - Subject
+ * @param {string} message.html - HTML body
+ * @param {Array<{ filename: string, contentType?: string, content: Buffer }>} [message.attachments]
+ * @param {string} [message.interview] - Interview the email is about
+ * @param {boolean} [message.sensitive] - The email carries a single-use link
+ * @returns {Promise<Object>} - The outbox email, sent or queued for a retry
+ */
+export const queueEmail = async ({ html, attachments = [], sensitive = false, ...message }) => {
+  const email = await OutboxEmail.create({
+    ...message,
+    ...(sensitive ? { sensitive, sealedBody: sealBody({ html, attachments }) } : { html, attachments }),
+    maxAttempts: MAX_ATTEMPTS
+  });
+
+  return deliverEmail(email._id);
+};
+
+/**
+ * Queue a failed email for another round of attempts
+ * @param {string} id - OutboxEmail id
+ * @returns {Promise<Object|null>} - The email after the attempt, null when not found
+ * @throws {OutboxError} When the email carried a single-use link, which is not kept
+ */
+export const retryEmail = async (id) => {
+  const failed = await OutboxEmail.findOne({ _id: id, status: 'failed' }).select('sensitive').catch(() => null);
+  if (failed && failed.sensitive) {
+    throw new OutboxError('This email carried a single-use link, which is not kept once sending fails. Send a new link instead.', 409);
+  }
+
+  const email = await OutboxEmail.findOneAndUpdate(
+    { _id: id, status: 'failed' },
+    { $set: { status: 'queued', nextAttemptAt: new Date(), maxAttempts: MAX_ATTEMPTS, attempts: 0 } },
+    { new: true }
+  );
+
+  if (!email) {
+    return OutboxEmail.findById(id);
+  }
+
+  return deliverEmail(email._id);
+};
+
+/**
+ * Attempt every email that is due, including ones whose attempt was interrupted
+ * @returns {Promise<number>} - Number of emails attempted
+ */
+export const processOutbox = async () => {
+  await OutboxEmail.updateMany(
+    { status: 'sending', lastAttemptAt: { $lt: new Date(Date.now() - SENDING_TIMEOUT_MS) } },
+    { $set: { status: 'queued' } }
+  );
+
+  const due = await OutboxEmail.find({ status: 'queued', nextAttemptAt: { $lte: new Date() } })
+    .select('_id')
+    .sort('nextAttemptAt')
+    .limit(50);
+
+  for (const { _id } of due) {
+    await deliverEmail(_id);
+  }
+
+  return due.length;
+};
+
+export default {
+  OutboxError,
+  queueEmail,
+  deliverEmail,
+  retryEmail,
+  processOutbox
+};
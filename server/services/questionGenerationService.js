@@ -0,0 +1,247 @@
+import mongoose from 'mongoose';
+import Question from '../models/Question.js';
+import TechStack from '../models/TechStack.js';
+import { generateQuestions, embedTexts, EVALUATION_PROVIDERS } from './evaluationService.js';
+import { splitByDifficulty } from './questionSelectionService.js';
+
+/**
+ * Drafts new questions for a tech stack's question bank with an evaluation
+ * provider. Drafts are never saved here: an admin reviews and edits them and
+ * saves the ones worth keeping through the questions routes. Every draft is
+ * compared with the stack's existing questions, by meaning when the
+ * provider offers embeddings and by shared words otherwise, so rewordings
+ * of questions the bank already has can be left out.
+ */
+
+// Types a provider can write without options, test cases or starter code
+export const GENERATED_QUESTION_TYPES = ['verbal', 'free-text', 'system-design'];
+
+// Most questions drafted at once
+export const QUESTION_GENERATION_MAX = 20;
+
+const DEFAULT_DIFFICULTY_MIX = { easy: 30, medium: 50, hard: 20 };
+
+const MAX_TOPICS = 10;
+
+// Existing questions listed in the prompt for the provider to avoid
+const MAX_PROMPT_EXISTING_QUESTIONS = 50;
+
+// Cosine similarity from which a draft counts as a rewording of another
+// question. Embeddings of unrelated questions on the same stack are already
+// fairly close, so their threshold is higher.
+const EMBEDDING_SIMILARITY_THRESHOLD = 0.88;
+const WORD_SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * Error raised when questions cannot be drafted as asked
+ */
+export class QuestionGenerationError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'QuestionGenerationError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Words every interview question uses; they say nothing about its subject
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'between', 'by', 'can', 'describe', 'difference',
+  'do', 'does', 'explain', 'for', 'from', 'how', 'i', 'in', 'is', 'it', 'its', 'of', 'on', 'or',
+  'the', 'their', 'them', 'this', 'to', 'use', 'using', 'what', 'when', 'where', 'which', 'why',
+  'with', 'would', 'you', 'your'
+]);
+
+const toWords = (text) => (text.toLowerCase().match(/[a-z0-9+#]+/g) || [])
+  .filter(word => !STOP_WORDS.has(word))
+  // Plural, -ing, -ed and -ly forms count as the same word
+  .map(word => (word.length > 4 ? word.replace(/(ing|ed|ly|es|s)$/, '') : word));
+
+/**
+ * Weigh the words of each text by how rare they are across all the texts,
+ * so the tech stack's name and phrasing shared by many questions count for
+ * little and the subject of each question for a lot
+ * @param {Array<string>} texts
+ * @returns {Array<Map<string, number>>} - Word weights per text
+ */
+const toWordWeights = (texts) => {
+  const words = texts.map(toWords);
+  const textsWithWord = new Map();
+  words.forEach(list => new Set(list).forEach(word => textsWithWord.set(word, (textsWithWord.get(word) || 0) + 1)));
+
+  return words.map(list => {
+    const weights = new Map();
+    list.forEach(word => {
+      const rarity = Math.log((texts.length + 1) / (textsWithWord.get(word) + 1)) + 1;
+      weights.set(word, (weights.get(word) || 0) + rarity);
+    });
+    return weights;
+  });
+};
+
+const cosineOfWeights = (a, b) => {
+  let dot = 0;
+  a.forEach((weight, word) => {
+    dot += weight * (b.get(word) || 0);
+  });
+  const norm = (weights) => Math.sqrt([...weights.values()].reduce((sum, weight) => sum + weight * weight, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+};
+
+const cosineOfVectors = (a, b) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dot / denominator;
+};
+
+/**
+ * Find, for every draft, the most similar existing question or earlier
+ * draft above the similarity threshold
+ * @param {Array<string>} drafts - Draft question texts
+ * @param {Array<Object>} existing - Question documents already in the bank
+ * @param {Object} options - resolveProviderName options for the embeddings
+ * @returns {Promise<{ method: string, matches: Array<Object|null> }>} -
+ *   method is 'embeddings' or 'words'; each match is
+ *   { question: id or null for a draft, text, similarity } or null
+ */
+const findSimilarQuestions = async (drafts, existing, options) => {
+  const texts = [...drafts, ...existing.map(question => question.text)];
+
+  let embedded = null;
+  try {
+    embedded = await embedTexts(texts, options);
+  } catch (err) {
+    // Drafting still works when embeddings do not; compare words instead
+    console.warn('Could not embed questions, comparing their words instead:', err.message);
+  }
+
+  const method = embedded ? 'embeddings' : 'words';
+  const threshold = embedded ? EMBEDDING_SIMILARITY_THRESHOLD : WORD_SIMILARITY_THRESHOLD;
+  const vectors = embedded ? embedded.embeddings : toWordWeights(texts);
+  const similarity = embedded ? cosineOfVectors : cosineOfWeights;
+
+  const matches = drafts.map((_, index) => {
+    let best = null;
+    // Existing questions come after the drafts; earlier drafts count too,
+    // so a provider repeating itself is caught
+    texts.forEach((text, other) => {
+      if (other === index || (other < drafts.length && other > index)) return;
+      const value = similarity(vectors[index], vectors[other]);
+      if (value >= threshold && (!best || value > best.similarity)) {
+        best = {
+          question: other < drafts.length ? null : existing[other - drafts.length]._id,
+          text,
+          similarity: Math.round(value * 100) / 100
+        };
+      }
+    });
+    return best;
+  });
+
+  return { method, matches };
+};
+
+/**
+ * Read the topics hint, given as a list or as comma separated text
+ * @param {Array<string>|string} topics
+ * @returns {Array<string>}
+ */
+const parseTopics = (topics) => {
+  const list = Array.isArray(topics) ? topics : String(topics || '').split(',');
+  return [...new Set(list.map(topic => String(topic).trim()).filter(Boolean))];
+};
+
+/**
+ * Draft new questions for a tech stack
+ * @param {Object} input
+ * @param {string} input.techStack - TechStack id
+ * @param {number} input.count - Number of questions wanted
+ * @param {{ easy: number, medium: number, hard: number }} [input.difficultyMix] - Percentages adding up to 100
+ * @param {string} [input.type] - One of GENERATED_QUESTION_TYPES, default verbal
+ * @param {Array<string>|string} [input.topics] - Topics the questions should cover
+ * @param {string} [input.provider] - Evaluation provider to draft with
+ * @returns {Promise<Object>} - { techStack, provider, similarity, drafts }, each
+ *   draft being { text, difficulty, type, keyPoints, similarTo }
+ * @throws {QuestionGenerationError} When the request is invalid
+ */
+export const generateQuestionDrafts = async ({ techStack: techStackId, count, difficultyMix, type = 'verbal', topics, provider }) => {
+  if (!techStackId || !mongoose.Types.ObjectId.isValid(techStackId)) {
+    throw new QuestionGenerationError('Please choose a tech stack', 400);
+  }
+  const techStack = await TechStack.findById(techStackId).select('name');
+  if (!techStack) {
+    throw new QuestionGenerationError(`Tech stack not found with id of ${techStackId}`, 404);
+  }
+
+  const total = Number(count);
+  if (!Number.isInteger(total) || total < 1 || total > QUESTION_GENERATION_MAX) {
+    throw new QuestionGenerationError(`Generate between 1 and ${QUESTION_GENERATION_MAX} questions at a time`, 400);
+  }
+  if (!GENERATED_QUESTION_TYPES.includes(type)) {
+    throw new QuestionGenerationError(`Generated questions must be one of: ${GENERATED_QUESTION_TYPES.join(', ')}`, 400);
+  }
+  if (provider && !EVALUATION_PROVIDERS.includes(provider)) {
+    throw new QuestionGenerationError(`Unknown provider "${provider}". Available providers: ${EVALUATION_PROVIDERS.join(', ')}`, 400);
+  }
+
+  const mix = Object.fromEntries(Object.keys(DEFAULT_DIFFICULTY_MIX).map(difficulty => [
+    difficulty,
+    Number(difficultyMix ? difficultyMix[difficulty] || 0 : DEFAULT_DIFFICULTY_MIX[difficulty])
+  ]));
+  const mixValues = Object.values(mix);
+  if (mixValues.some(value => !Number.isFinite(value) || value < 0) || mixValues.reduce((sum, value) => sum + value, 0) !== 100) {
+    throw new QuestionGenerationError('The difficulty mix must add up to 100%', 400);
+  }
+
+  const topicList = parseTopics(topics);
+  if (topicList.length > MAX_TOPICS) {
+    throw new QuestionGenerationError(`Give at most ${MAX_TOPICS} topics`, 400);
+  }
+
+  // Resume questions belong to one candidate and are not part of the bank,
+  // nor are deleted questions
+  const existing = await Question.find({ techStack: techStack._id, candidate: null, deletedAt: null })
+    .select('text')
+    .sort('-createdAt');
+
+  const { questions, provider: providerName } = await generateQuestions({
+    techStack: techStack.name,
+    counts: splitByDifficulty(total, mix),
+    type,
+    topics: topicList,
+    existingQuestions: existing.slice(0, MAX_PROMPT_EXISTING_QUESTIONS).map(question => question.text)
+  }, { provider });
+
+  const { method, matches } = await findSimilarQuestions(
+    questions.map(question => question.text),
+    existing,
+    { provider: providerName }
+  );
+
+  return {
+    techStack: { id: techStack._id, name: techStack.name },
+    provider: providerName,
+    similarity: method,
+    drafts: questions.map((question, index) => ({
+      text: question.text,
+      difficulty: question.difficulty,
+      type,
+      keyPoints: question.keyPoints || [],
+      similarTo: matches[index]
+    }))
+  };
+};
+
+export default {
+  GENERATED_QUESTION_TYPES,
+  QUESTION_GENERATION_MAX,
+  QuestionGenerationError,
+  generateQuestionDrafts
+};
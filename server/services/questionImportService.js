@@ -0,0 +1,709 @@
+import path from 'path';
+import Question from '../models/Question.js';
+import TechStack from '../models/TechStack.js';
+import { QUESTION_TYPES } from '../config/questionTypes.js';
+import { CODE_LANGUAGES } from '../config/codeLanguages.js';
+
+/**
+ * Bulk import and export of the question bank as CSV, JSON or Markdown, so
+ * teams can keep their question banks in git. Imports are checked in full
+ * before anything is saved: every row is mapped to a tech stack by name and
+ * validated like a question created through the API, and rows repeating a
+ * question already in the bank (or earlier in the file) are reported as
+ * duplicates and skipped.
+ *
+ * JSON and Markdown carry every field. CSV has one row per question with the
+ * columns in CSV_COLUMNS; list cells separate items with "|" and mark
+ * correct options with a leading "*". CSV has no columns for starter code
+ * or test cases.
+ */
+
+export const QUESTION_FILE_FORMATS = ['csv', 'json', 'markdown'];
+
+const FORMAT_BY_EXTENSION = {
+  '.csv': 'csv',
+  '.json': 'json',
+  '.md': 'markdown',
+  '.markdown': 'markdown'
+};
+
+const EXPORT_FILES = {
+  csv: { extension: 'csv', contentType: 'text/csv' },
+  json: { extension: 'json', contentType: 'application/json' },
+  markdown: { extension: 'md', contentType: 'text/markdown' }
+};
+
+// Most questions one file may import
+export const QUESTION_IMPORT_MAX_ROWS = 1000;
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+// CSV columns in the order they are exported
+const CSV_COLUMNS = [
+  'techStack', 'text', 'difficulty', 'type', 'keyPoints', 'options', 'referenceLanguage', 'languages',
+  'tags', 'topics', 'modelAnswer'
+];
+
+// Headers are matched ignoring case, spaces and underscores
+const CSV_HEADER_ALIASES = {
+  techstack: 'techStack',
+  stack: 'techStack',
+  text: 'text',
+  question: 'text',
+  difficulty: 'difficulty',
+  type: 'type',
+  keypoints: 'keyPoints',
+  options: 'options',
+  referencelanguage: 'referenceLanguage',
+  languages: 'languages',
+  tags: 'tags',
+  topics: 'topics',
+  modelanswer: 'modelAnswer'
+};
+
+// Markdown "### ..." sections of a question
+const MARKDOWN_SECTIONS = {
+  'model answer': 'modelAnswer',
+  'key points': 'keyPoints',
+  options: 'options',
+  'starter code': 'starterCode',
+  'test cases': 'testCases'
+};
+
+// Markdown "- Name: value" details of a question
+const MARKDOWN_DETAILS = {
+  difficulty: 'difficulty',
+  type: 'type',
+  'reference language': 'referenceLanguage',
+  languages: 'languages',
+  tags: 'tags',
+  topics: 'topics'
+};
+
+// Details holding a comma separated list
+const MARKDOWN_LIST_DETAILS = ['languages', 'tags', 'topics'];
+
+/**
+ * Error raised when an import file cannot be read at all, or an export
+ * cannot be produced. Problems with single rows are reported per row instead.
+ */
+export class QuestionImportError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'QuestionImportError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Work out a file's format from its name
+ * @param {string} fileName - File name with extension
+ * @returns {string | null} - One of QUESTION_FILE_FORMATS, or null
+ */
+export const detectFormat = (fileName) => FORMAT_BY_EXTENSION[path.extname(fileName || '').toLowerCase()] || null;
+
+const asString = (value) => (value === undefined || value === null ? '' : String(value).trim());
+
+const asList = (value) => {
+  if (Array.isArray(value)) return value;
+  return value === undefined || value === null || value === '' ? [] : [value];
+};
+
+// "a | b \| c" -> ['a', 'b | c']
+const splitCell = (value) => value
+  .split(/(?<!\\)\|/)
+  .map(item => item.replace(/\\\|/g, '|').trim())
+  .filter(Boolean);
+
+const joinCell = (items) => items.map(item => String(item).replace(/\|/g, '\\|')).join(' | ');
+
+// Questions count as the same when their text differs only in case,
+// spacing or closing punctuation
+const normalizeText = (text) => text.toLowerCase().replace(/\s+/g, ' ').replace(/[\s?.!]+$/, '').trim();
+
+/* ----------------------------------------------------------------------------
+ * Parsing. Each parser turns a file into drafts: the raw fields of each
+ * question, the row (line, or item for JSON) it starts on and the problems
+ * found while reading it.
+ * ------------------------------------------------------------------------- */
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields may hold commas,
+ * doubled quotes and line breaks)
+ * @param {string} content - CSV text with \n line endings
+ * @returns {Array<{ line: number, fields: string[] }>}
+ */
+const readCsvRecords = (content) => {
+  const records = [];
+  let fields = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new QuestionImportError(`The quoted field starting on line ${recordLine} is never closed`, 400);
+  }
+  if (field || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  return records.filter(record => record.fields.some(value => value.trim()));
+};
+
+const parseCsv = (content) => {
+  const [header, ...records] = readCsvRecords(content);
+  if (!header) return [];
+
+  const columns = header.fields.map(name => CSV_HEADER_ALIASES[name.toLowerCase().replace(/[\s_]/g, '')] || null);
+  if (!columns.includes('text')) {
+    throw new QuestionImportError('The CSV file needs a header row with at least a "text" column', 400);
+  }
+
+  return records.map(({ line, fields }) => {
+    const cell = (column) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? '' : (fields[index] || '').trim();
+    };
+
+    return {
+      row: line,
+      techStack: cell('techStack'),
+      text: cell('text'),
+      difficulty: cell('difficulty'),
+      type: cell('type'),
+      keyPoints: splitCell(cell('keyPoints')),
+      options: splitCell(cell('options')).map(option => ({
+        text: option.replace(/^\*\s*/, ''),
+        correct: option.startsWith('*')
+      })),
+      referenceLanguage: cell('referenceLanguage'),
+      languages: splitCell(cell('languages')),
+      tags: splitCell(cell('tags')),
+      topics: splitCell(cell('topics')),
+      modelAnswer: cell('modelAnswer'),
+      errors: fields.length > header.fields.length
+        ? [`The row has ${fields.length} cells but the header only ${header.fields.length}`]
+        : []
+    };
+  });
+};
+
+const parseJson = (content) => {
+  let data;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new QuestionImportError(`The file is not valid JSON: ${err.message}`, 400);
+  }
+
+  // Either a list of questions, or { techStack, questions } for one stack
+  const items = Array.isArray(data) ? data : data && data.questions;
+  if (!Array.isArray(items)) {
+    throw new QuestionImportError('The JSON file must hold a list of questions or an object with a "questions" list', 400);
+  }
+  const fileStack = Array.isArray(data) ? '' : asString(data.techStack);
+
+  return items.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { row: index + 1, errors: ['Each question must be an object'] };
+    }
+    return { ...item, row: index + 1, techStack: item.techStack || fileStack, errors: [] };
+  });
+};
+
+// Question text lines that would read as Markdown syntax are escaped with a backslash
+const MARKDOWN_ESCAPE = /^[-*#`\\]/;
+
+const unescapeMarkdown = (line) => line.replace(/^\\/, '');
+
+/**
+ * Read questions from Markdown: "# Stack" starts a tech stack, "## Text" a
+ * question. Further lines of text follow the heading, then "- Name: value"
+ * details and the "### Model answer", "### Key points", "### Options",
+ * "### Starter code" and "### Test cases" sections.
+ */
+const parseMarkdown = (content) => {
+  const drafts = [];
+  let techStack = '';
+  let current = null;
+  let section = null;
+  let fence = null;
+
+  const closeFence = () => {
+    if (!current) return;
+    const code = fence.lines.join('\n');
+    if (section === 'starterCode') {
+      if (!fence.language) {
+        current.errors.push('Starter code blocks need a language, e.g. ```python');
+      } else {
+        current.starterCode = { ...current.starterCode, [fence.language]: code };
+      }
+    } else if (section === 'testCases') {
+      try {
+        current.testCases = JSON.parse(code);
+      } catch (err) {
+        current.errors.push(`Test cases are not valid JSON: ${err.message}`);
+      }
+    } else {
+      current.errors.push('Code blocks are only allowed under "Starter code" and "Test cases"');
+    }
+  };
+
+  content.split('\n').forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+
+    if (fence) {
+      if (rawLine.trim().startsWith(fence.marker) && /^`+$/.test(rawLine.trim())) {
+        closeFence();
+        fence = null;
+      } else {
+        fence.lines.push(rawLine);
+      }
+      return;
+    }
+
+    const line = rawLine.trim();
+    if (!line) return;
+
+    let match = line.match(/^(`{3,})\s*([\w+#-]*)/);
+    if (match) {
+      fence = { marker: match[1], language: match[2].toLowerCase(), lines: [] };
+      return;
+    }
+    if ((match = line.match(/^#\s+(.+)$/))) {
+      techStack = match[1].trim();
+      current = null;
+      return;
+    }
+    if ((match = line.match(/^##\s+(.+)$/))) {
+      current = { row: lineNumber, techStack, text: match[1].trim(), keyPoints: [], options: [], errors: [] };
+      section = null;
+      drafts.push(current);
+      return;
+    }
+    // Anything before the first question, such as a description of the bank
+    if (!current) return;
+
+    if ((match = line.match(/^###\s+(.+)$/))) {
+      section = MARKDOWN_SECTIONS[match[1].trim().toLowerCase()] || null;
+      if (!section) {
+        current.errors.push(`Line ${lineNumber}: unknown section "${match[1].trim()}"`);
+      }
+      return;
+    }
+
+    const item = line.match(/^[-*]\s+(.*)$/);
+    if (section === 'modelAnswer') {
+      current.modelAnswer = current.modelAnswer
+        ? `${current.modelAnswer}\n${unescapeMarkdown(line)}`
+        : unescapeMarkdown(line);
+    } else if (section === 'keyPoints' && item) {
+      current.keyPoints.push(item[1].trim());
+    } else if (section === 'options' && item) {
+      const option = item[1].match(/^\[([ xX])\]\s+(.+)$/);
+      if (option) {
+        current.options.push({ text: option[2].trim(), correct: option[1] !== ' ' });
+      } else {
+        current.errors.push(`Line ${lineNumber}: options look like "- [x] Correct" or "- [ ] Wrong"`);
+      }
+    } else if (!section && item) {
+      const detail = item[1].match(/^([^:]+):\s*(.*)$/);
+      const field = detail && MARKDOWN_DETAILS[detail[1].trim().toLowerCase()];
+      if (!field) {
+        current.errors.push(`Line ${lineNumber}: details look like "- Difficulty: easy"`);
+      } else if (MARKDOWN_LIST_DETAILS.includes(field)) {
+        current[field] = detail[2].split(',').map(value => value.trim()).filter(Boolean);
+      } else {
+        current[field] = detail[2].trim();
+      }
+    } else if (!section) {
+      current.text += `\n${unescapeMarkdown(line)}`;
+    } else {
+      current.errors.push(`Line ${lineNumber}: sections hold list items and code blocks only`);
+    }
+  });
+
+  if (fence && current) {
+    current.errors.push('A code block is never closed');
+  }
+
+  return drafts;
+};
+
+const PARSERS = {
+  csv: parseCsv,
+  json: parseJson,
+  markdown: parseMarkdown
+};
+
+/* ----------------------------------------------------------------------------
+ * Validation
+ * ------------------------------------------------------------------------- */
+
+/**
+ * Turn a draft into the fields of a Question, collecting everything wrong
+ * with it. The Question model's own validators run last.
+ * @param {Object} draft - Parsed question
+ * @param {Map<string, Object>} stacksByName - TechStack documents by lowercase name
+ * @param {Object | null} defaultStack - Tech stack for drafts that name none
+ * @returns {{ doc: Object, techStack: Object | null, errors: string[] }}
+ */
+const toQuestionDoc = (draft, stacksByName, defaultStack) => {
+  const errors = [...draft.errors];
+
+  const stackName = asString(draft.techStack);
+  let techStack = defaultStack;
+  if (stackName) {
+    techStack = stacksByName.get(stackName.toLowerCase()) || null;
+    if (!techStack) errors.push(`Unknown tech stack "${stackName}"`);
+  } else if (!techStack) {
+    errors.push('No tech stack given');
+  }
+
+  const text = asString(draft.text);
+  if (!text) errors.push('No question text');
+
+  const difficulty = asString(draft.difficulty).toLowerCase();
+  if (!DIFFICULTIES.includes(difficulty)) {
+    errors.push(difficulty
+      ? `Difficulty must be easy, medium or hard, not "${draft.difficulty}"`
+      : 'No difficulty given');
+  }
+
+  const type = asString(draft.type).toLowerCase() || 'verbal';
+  if (!QUESTION_TYPES.includes(type)) {
+    errors.push(`Type must be one of ${QUESTION_TYPES.join(', ')}, not "${draft.type}"`);
+  }
+
+  const starterCode = draft.starterCode && typeof draft.starterCode === 'object' ? draft.starterCode : {};
+  const unknownLanguages = Object.keys(starterCode).filter(language => !CODE_LANGUAGES.includes(language));
+  if (unknownLanguages.length > 0) {
+    errors.push(`Starter code is for unknown languages: ${unknownLanguages.join(', ')}`);
+  }
+
+  const doc = {
+    techStack: techStack ? techStack._id : undefined,
+    text,
+    difficulty,
+    type,
+    keyPoints: asList(draft.keyPoints).map(asString).filter(Boolean),
+    tags: asList(draft.tags).map(asString).filter(Boolean),
+    topics: asList(draft.topics).map(asString).filter(Boolean),
+    options: asList(draft.options),
+    languages: asList(draft.languages).map(language => asString(language).toLowerCase()),
+    starterCode,
+    testCases: asList(draft.testCases)
+  };
+  if (asString(draft.referenceLanguage)) {
+    doc.referenceLanguage = asString(draft.referenceLanguage).toLowerCase();
+  }
+  if (asString(draft.modelAnswer)) {
+    doc.modelAnswer = asString(draft.modelAnswer);
+  }
+
+  if (errors.length === 0) {
+    const validationError = new Question(doc).validateSync();
+    if (validationError) {
+      errors.push(...Object.values(validationError.errors).map(error => error.message));
+    }
+  }
+
+  return { doc, techStack, errors };
+};
+
+/**
+ * Parse and check a whole import file
+ * @returns {Promise<{ format: string, rows: Array<Object> }>} - Rows with
+ *   the question fields to save under `doc`
+ */
+const analyzeImport = async ({ content, format, fileName, defaultTechStack }) => {
+  const resolvedFormat = format || detectFormat(fileName);
+  if (!QUESTION_FILE_FORMATS.includes(resolvedFormat)) {
+    throw new QuestionImportError(`Import files must be ${QUESTION_FILE_FORMATS.join(', ')} (.csv, .json, .md)`, 400);
+  }
+
+  let defaultStack = null;
+  if (defaultTechStack) {
+    defaultStack = await TechStack.findById(defaultTechStack).select('name');
+    if (!defaultStack) {
+      throw new QuestionImportError('Tech stack not found', 404);
+    }
+  }
+
+  // Strip a byte order mark and settle line endings before parsing
+  const text = String(content || '').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const drafts = PARSERS[resolvedFormat](text);
+  if (drafts.length === 0) {
+    throw new QuestionImportError('The file contains no questions', 400);
+  }
+  if (drafts.length > QUESTION_IMPORT_MAX_ROWS) {
+    throw new QuestionImportError(`Import at most ${QUESTION_IMPORT_MAX_ROWS} questions at a time`, 400);
+  }
+
+  const stacks = await TechStack.find().select('name');
+  const stacksByName = new Map(stacks.map(stack => [stack.name.toLowerCase(), stack]));
+  const checked = drafts.map(draft => ({ draft, ...toQuestionDoc(draft, stacksByName, defaultStack) }));
+
+  // Questions already in the bank of the stacks the file imports into
+  const stackIds = [...new Set(checked.filter(item => item.techStack).map(item => item.techStack._id.toString()))];
+  const existing = await Question.find({ techStack: { $in: stackIds }, candidate: null, deletedAt: null }).select('text techStack');
+  const seen = new Map(existing.map(question => [
+    `${question.techStack}:${normalizeText(question.text)}`,
+    { questionId: question._id }
+  ]));
+
+  const rows = checked.map(({ draft, doc, techStack, errors }) => {
+    const row = {
+      row: draft.row,
+      question: {
+        techStack: techStack ? techStack.name : asString(draft.techStack),
+        text: doc.text,
+        difficulty: doc.difficulty,
+        type: doc.type
+      },
+      status: errors.length > 0 ? 'invalid' : 'valid',
+      errors
+    };
+
+    if (techStack && doc.text) {
+      const key = `${techStack._id}:${normalizeText(doc.text)}`;
+      if (seen.has(key)) {
+        row.duplicateOf = seen.get(key);
+        if (row.status === 'valid') row.status = 'duplicate';
+      } else if (row.status === 'valid') {
+        seen.set(key, { row: draft.row });
+      }
+    }
+
+    return { ...row, doc };
+  });
+
+  return { format: resolvedFormat, rows };
+};
+
+const summarize = (rows) => ({
+  total: rows.length,
+  valid: rows.filter(row => row.status === 'valid').length,
+  invalid: rows.filter(row => row.status === 'invalid').length,
+  duplicate: rows.filter(row => row.status === 'duplicate').length
+});
+
+const withoutDocs = (rows) => rows.map(({ doc, ...row }) => row);
+
+/**
+ * Check an import file without saving anything
+ * @param {Object} input
+ * @param {string} input.content - File contents
+ * @param {string} [input.format] - One of QUESTION_FILE_FORMATS; read from fileName when left out
+ * @param {string} [input.fileName] - Name of the uploaded file
+ * @param {string} [input.defaultTechStack] - Tech stack id for questions that name none
+ * @param {string} [input.author] - User id recorded as the author of imported questions
+ * @returns {Promise<{ format: string, summary: Object, rows: Array<Object> }>} -
+ *   Every row with its status (valid, invalid or duplicate) and errors
+ * @throws {QuestionImportError} When the file cannot be read
+ */
+export const previewQuestionImport = async (input) => {
+  const { format, rows } = await analyzeImport(input);
+  return { format, summary: summarize(rows), rows: withoutDocs(rows) };
+};
+
+/**
+ * Import the valid rows of a file, skipping duplicates. Nothing is saved
+ * while any row is invalid.
+ * @param {Object} input - As for previewQuestionImport
+ * @returns {Promise<{ format: string, summary: Object, rows: Array<Object>, imported: number }>}
+ * @throws {QuestionImportError} When the file cannot be read
+ */
+export const importQuestions = async (input) => {
+  const { format, rows } = await analyzeImport(input);
+  const summary = summarize(rows);
+
+  let imported = 0;
+  if (summary.invalid === 0) {
+    const saved = await Question.insertMany(rows
+      .filter(row => row.status === 'valid')
+      .map(row => ({ ...row.doc, author: input.author })));
+    imported = saved.length;
+  }
+
+  return { format, summary, rows: withoutDocs(rows), imported };
+};
+
+/* ----------------------------------------------------------------------------
+ * Export
+ * ------------------------------------------------------------------------- */
+
+/**
+ * The fields of a question worth keeping in a file, without ids and
+ * without fields left at their defaults
+ */
+const toPortableQuestion = (question) => {
+  const data = question.toObject({ flattenMaps: true });
+  const portable = { text: data.text, difficulty: data.difficulty, type: data.type || 'verbal' };
+
+  if (data.tags && data.tags.length > 0) portable.tags = data.tags;
+  if (data.topics && data.topics.length > 0) portable.topics = data.topics;
+  if (data.modelAnswer) portable.modelAnswer = data.modelAnswer;
+  if (data.keyPoints && data.keyPoints.length > 0) portable.keyPoints = data.keyPoints;
+  if (data.options && data.options.length > 0) {
+    portable.options = data.options.map(option => ({ text: option.text, correct: !!option.correct }));
+  }
+  if (portable.type === 'coding') {
+    portable.referenceLanguage = data.referenceLanguage;
+    if (data.languages && data.languages.length > 0) portable.languages = data.languages;
+    if (data.starterCode && Object.keys(data.starterCode).length > 0) portable.starterCode = data.starterCode;
+    if (data.testCases && data.testCases.length > 0) {
+      portable.testCases = data.testCases.map(({ input, expectedOutput, hidden }) => ({ input, expectedOutput, hidden: !!hidden }));
+    }
+  }
+
+  return portable;
+};
+
+const escapeCsv = (value) => {
+  const text = asString(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (stackName, questions) => {
+  const lines = questions.map(question => [
+    stackName,
+    question.text,
+    question.difficulty,
+    question.type,
+    joinCell(question.keyPoints || []),
+    joinCell((question.options || []).map(option => `${option.correct ? '*' : ''}${option.text}`)),
+    question.referenceLanguage || '',
+    joinCell(question.languages || []),
+    joinCell(question.tags || []),
+    joinCell(question.topics || []),
+    question.modelAnswer || ''
+  ].map(escapeCsv).join(','));
+
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+};
+
+// A code fence longer than any run of backticks in the code
+const fenceFor = (code) => '`'.repeat(Math.max(3, ...(code.match(/`+/g) || []).map(run => run.length + 1)));
+
+const toMarkdown = (stackName, questions) => {
+  const blocks = [`# ${stackName}`];
+
+  for (const question of questions) {
+    const [firstLine, ...moreLines] = question.text.split('\n');
+    const lines = [`## ${firstLine}`];
+    moreLines.forEach(line => lines.push(MARKDOWN_ESCAPE.test(line.trim()) ? `\\${line.trim()}` : line.trim()));
+
+    lines.push('', `- Difficulty: ${question.difficulty}`, `- Type: ${question.type}`);
+    if (question.referenceLanguage) lines.push(`- Reference language: ${question.referenceLanguage}`);
+    if (question.languages) lines.push(`- Languages: ${question.languages.join(', ')}`);
+    if (question.tags) lines.push(`- Tags: ${question.tags.join(', ')}`);
+    if (question.topics) lines.push(`- Topics: ${question.topics.join(', ')}`);
+
+    if (question.modelAnswer) {
+      lines.push('', '### Model answer', '', ...question.modelAnswer
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => (MARKDOWN_ESCAPE.test(line) ? `\\${line}` : line)));
+    }
+    if (question.keyPoints) {
+      lines.push('', '### Key points', '', ...question.keyPoints.map(point => `- ${point}`));
+    }
+    if (question.options) {
+      lines.push('', '### Options', '', ...question.options.map(option => `- [${option.correct ? 'x' : ' '}] ${option.text}`));
+    }
+    if (question.starterCode) {
+      lines.push('', '### Starter code');
+      for (const [language, code] of Object.entries(question.starterCode)) {
+        const fence = fenceFor(code);
+        lines.push('', `${fence}${language}`, code, fence);
+      }
+    }
+    if (question.testCases) {
+      const json = JSON.stringify(question.testCases, null, 2);
+      const fence = fenceFor(json);
+      lines.push('', '### Test cases', '', `${fence}json`, json, fence);
+    }
+
+    blocks.push(lines.join('\n'));
+  }
+
+  return blocks.join('\n\n') + '\n';
+};
+
+/**
+ * Export the question bank of a tech stack. Questions come out in the order
+ * they were created, so re-exporting after a change gives a small diff.
+ * @param {string} techStackId - Tech stack id
+ * @param {string} [format] - One of QUESTION_FILE_FORMATS, json by default
+ * @returns {Promise<{ fileName: string, contentType: string, content: string }>}
+ * @throws {QuestionImportError} When the tech stack or format is unknown
+ */
+export const exportQuestions = async (techStackId, format = 'json') => {
+  if (!QUESTION_FILE_FORMATS.includes(format)) {
+    throw new QuestionImportError(`Export format must be one of ${QUESTION_FILE_FORMATS.join(', ')}`, 400);
+  }
+
+  const techStack = await TechStack.findById(techStackId).select('name');
+  if (!techStack) {
+    throw new QuestionImportError('Tech stack not found', 404);
+  }
+
+  const questions = (await Question.find({ techStack: techStack._id, candidate: null, deletedAt: null }).sort('createdAt _id'))
+    .map(toPortableQuestion);
+
+  let content;
+  if (format === 'csv') {
+    content = toCsv(techStack.name, questions);
+  } else if (format === 'markdown') {
+    content = toMarkdown(techStack.name, questions);
+  } else {
+    content = JSON.stringify({ techStack: techStack.name, questions }, null, 2) + '\n';
+  }
+
+  const slug = techStack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'questions';
+  const { extension, contentType } = EXPORT_FILES[format];
+  return { fileName: `${slug}-questions.${extension}`, contentType, content };
+};
+
+export default {
+  QUESTION_FILE_FORMATS,
+  QUESTION_IMPORT_MAX_ROWS,
+  QuestionImportError,
+  detectFormat,
+  previewQuestionImport,
+  importQuestions,
+  exportQuestions
+};
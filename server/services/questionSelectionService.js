@@ -0,0 +1,146 @@
+import Question from '../models/Question.js';
+
+/**
+ * Picks the questions for an interview from an interview template. The
+ * result is stored on the interview, so every candidate interviewed with the
+ * same template gets the same number of questions per tech stack and the
+ * same difficulty mix, and the report shows exactly what was asked.
+ */
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+/**
+ * Error raised when the question bank cannot satisfy a template
+ */
+export class QuestionSelectionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'QuestionSelectionError';
+  }
+}
+
+// Fisher-Yates shuffle, returning a new array
+const shuffle = (items) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Split a question count across difficulties by percentage, giving the
+ * rounding remainder to the difficulties with the largest fractions
+ * @param {number} count - Number of questions to split
+ * @param {{ easy: number, medium: number, hard: number }} mix - Percentages
+ * @returns {{ easy: number, medium: number, hard: number }}
+ */
+export const splitByDifficulty = (count, mix) => {
+  const exact = DIFFICULTIES.map(difficulty => ({ difficulty, value: (count * (mix[difficulty] || 0)) / 100 }));
+  const result = Object.fromEntries(exact.map(({ difficulty, value }) => [difficulty, Math.floor(value)]));
+
+  let remainder = count - Object.values(result).reduce((sum, value) => sum + value, 0);
+  const byFraction = [...exact].sort((a, b) => (b.value % 1) - (a.value % 1));
+  for (const { difficulty } of byFraction) {
+    if (remainder === 0) break;
+    result[difficulty]++;
+    remainder--;
+  }
+
+  return result;
+};
+
+/**
+ * Pick `count` questions from a pool, preferring the wanted difficulty
+ * counts and falling back to any difficulty when one runs short
+ * @param {Array<Object>} pool - Candidate questions
+ * @param {number} count - Number of questions to pick
+ * @param {Object} wanted - Questions wanted per difficulty
+ * @returns {Array<Object>}
+ */
+const pickQuestions = (pool, count, wanted) => {
+  const shuffled = shuffle(pool);
+  const picked = [];
+
+  for (const difficulty of DIFFICULTIES) {
+    picked.push(...shuffled.filter(question => question.difficulty === difficulty).slice(0, wanted[difficulty]));
+  }
+
+  const pickedIds = new Set(picked.map(question => question._id.toString()));
+  const rest = shuffled.filter(question => !pickedIds.has(question._id.toString()));
+  return [...picked, ...rest.slice(0, count - picked.length)];
+};
+
+const byDifficulty = (a, b) => DIFFICULTIES.indexOf(a.difficulty) - DIFFICULTIES.indexOf(b.difficulty);
+
+/**
+ * Select and order the questions for an interview created from a template
+ * @param {Object} template - InterviewTemplate document
+ * @returns {Promise<{ questions: Array<Object>, techStacks: Array<Object> }>} -
+ *   Question ids in the order they are asked, and the tech stacks they come from
+ * @throws {QuestionSelectionError} When a tech stack has too few questions
+ */
+export const selectQuestionsForTemplate = async (template) => {
+  const mandatory = await Question.find({ _id: { $in: template.mandatoryQuestions }, deletedAt: null })
+    .select('techStack difficulty');
+
+  const sections = [];
+  for (const section of template.sections) {
+    const stackId = section.techStack.toString();
+    const sectionMandatory = mandatory.filter(question => question.techStack.toString() === stackId);
+    const remaining = Math.max(0, section.questionCount - sectionMandatory.length);
+
+    const mandatoryIds = sectionMandatory.map(question => question._id);
+    const pool = await Question.find({ techStack: section.techStack, _id: { $nin: mandatoryIds }, candidate: null, deletedAt: null })
+      .select('techStack difficulty');
+
+    if (pool.length < remaining) {
+      throw new QuestionSelectionError(
+        `The template needs ${section.questionCount} questions from a tech stack that only has ${pool.length + sectionMandatory.length}`
+      );
+    }
+
+    const wanted = splitByDifficulty(remaining, template.difficultyMix);
+    sections.push({ mandatory: sectionMandatory, picked: pickQuestions(pool, remaining, wanted).sort(byDifficulty) });
+  }
+
+  // Mandatory questions from stacks without a section are still asked
+  const sectionStacks = new Set(template.sections.map(section => section.techStack.toString()));
+  const extraMandatory = mandatory.filter(question => !sectionStacks.has(question.techStack.toString()));
+
+  let ordered;
+  if (template.ordering === 'random') {
+    ordered = shuffle([...extraMandatory, ...sections.flatMap(section => [...section.mandatory, ...section.picked])]);
+  } else if (template.ordering === 'difficulty') {
+    ordered = [...extraMandatory, ...sections.flatMap(section => [...section.mandatory, ...section.picked])].sort(byDifficulty);
+  } else {
+    ordered = [
+      ...extraMandatory,
+      ...sections.flatMap(section => section.mandatory),
+      ...sections.flatMap(section => section.picked)
+    ];
+  }
+
+  const techStacks = [...new Set(ordered.map(question => question.techStack.toString()))];
+  return { questions: ordered.map(question => question._id), techStacks };
+};
+
+/**
+ * Pick every question of some tech stacks in random order, the set an
+ * interview without a template asks. Used to fix that set when questions
+ * are added to it.
+ * @param {Array<string>} techStacks - Tech stack ids
+ * @returns {Promise<Array<Object>>} - Question ids in the order they are asked
+ */
+export const selectQuestionsForStacks = async (techStacks) => {
+  const questions = await Question.find({ techStack: { $in: techStacks }, candidate: null, deletedAt: null }).select('_id');
+  return shuffle(questions).map(question => question._id);
+};
+
+export default {
+  splitByDifficulty,
+  selectQuestionsForTemplate,
+  selectQuestionsForStacks,
+  QuestionSelectionError
+};
@@ -0,0 +1,189 @@
+import Question from '../models/Question.js';
+import QuestionVersion from '../models/QuestionVersion.js';
+
+/**
+ * Question history. Every change to a question's content produces a new,
+ * immutable QuestionVersion, and answers reference the version they were
+ * given, so editing a question never rewrites the reports of past
+ * interviews. Questions created before versioning existed get their first
+ * version stored the first time one is needed.
+ */
+
+// Content fields; changing any of them makes a new version
+export const VERSIONED_FIELDS = [
+  'techStack', 'text', 'difficulty', 'type', 'options', 'keyPoints', 'modelAnswer',
+  'tags', 'topics', 'referenceLanguage', 'languages', 'starterCode', 'testCases'
+];
+
+/**
+ * Error raised when a question cannot be changed as asked
+ */
+export class QuestionVersionError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'QuestionVersionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Copy the content of a question
+ * @param {Object} question - Question document
+ * @returns {Object} - The VERSIONED_FIELDS, as plain values
+ */
+const snapshotQuestion = (question) => {
+  const data = question.toObject({ flattenMaps: true });
+  return Object.fromEntries(VERSIONED_FIELDS.map(field => [field, data[field]]));
+};
+
+// Content compared without option ids, which change whenever the options
+// are sent again even if their text is the same
+const contentKey = (question) => {
+  const content = snapshotQuestion(question);
+  return JSON.stringify({
+    ...content,
+    techStack: String(content.techStack),
+    options: (content.options || []).map(option => ({ text: option.text, correct: option.correct }))
+  });
+};
+
+const storeVersion = async (question, author) => {
+  try {
+    return await QuestionVersion.create({
+      ...snapshotQuestion(question),
+      question: question._id,
+      version: question.version || 1,
+      author
+    });
+  } catch (err) {
+    // Stored meanwhile by another request
+    if (err.code === 11000) {
+      return QuestionVersion.findOne({ question: question._id, version: question.version || 1 });
+    }
+    throw err;
+  }
+};
+
+/**
+ * Get the stored version a question is at, storing it first if needed
+ * @param {Object|string} questionOrId - Question document or id
+ * @returns {Promise<Object|null>} - QuestionVersion document, or null when
+ *   the question does not exist
+ */
+export const getCurrentVersion = async (questionOrId) => {
+  const question = questionOrId instanceof Question
+    ? questionOrId
+    : await Question.findById(questionOrId);
+  if (!question) return null;
+
+  const version = await QuestionVersion.findOne({ question: question._id, version: question.version || 1 });
+  return version || storeVersion(question, question.author);
+};
+
+/**
+ * Create a question and store its first version
+ * @param {Object} data - Question fields
+ * @param {Object} [user] - User creating the question
+ * @returns {Promise<Object>} - The Question document
+ */
+export const createQuestion = async (data, user) => {
+  const question = await Question.create({
+    ...data,
+    version: 1,
+    author: user ? user._id : undefined,
+    deletedAt: null
+  });
+  await storeVersion(question, question.author);
+  return question;
+};
+
+/**
+ * Change a question's content. When anything changes, the question moves to
+ * a new version; the version it was at stays as it was.
+ * @param {Object} question - Question document
+ * @param {Object} changes - New values; only VERSIONED_FIELDS are applied
+ * @param {Object} [user] - User making the change
+ * @returns {Promise<Object>} - The saved Question document
+ */
+export const updateQuestion = async (question, changes, user) => {
+  // Make sure the version answers may reference is stored before it changes
+  await getCurrentVersion(question);
+
+  const before = contentKey(question);
+  VERSIONED_FIELDS
+    .filter(field => changes[field] !== undefined)
+    .forEach(field => question.set(field, changes[field]));
+
+  if (contentKey(question) === before) {
+    return question;
+  }
+
+  question.version = (question.version || 1) + 1;
+  await question.save();
+  await storeVersion(question, user ? user._id : undefined);
+  return question;
+};
+
+/**
+ * Soft-delete a question: it stays for the answers and reports that use it
+ * but is no longer offered for new interviews
+ * @param {Object} question - Question document
+ * @returns {Promise<Object>}
+ */
+export const deleteQuestion = async (question) => {
+  question.deletedAt = new Date();
+  return question.save();
+};
+
+/**
+ * Bring back a deleted question
+ * @param {Object} question - Question document
+ * @returns {Promise<Object>}
+ * @throws {QuestionVersionError} When the question is not deleted
+ */
+export const restoreQuestion = async (question) => {
+  if (!question.deletedAt) {
+    throw new QuestionVersionError('This question is not deleted', 400);
+  }
+  question.deletedAt = null;
+  return question.save();
+};
+
+/**
+ * List a question's versions, newest first
+ * @param {Object} question - Question document
+ * @returns {Promise<Array<Object>>}
+ */
+export const listVersions = async (question) => {
+  await getCurrentVersion(question);
+  return QuestionVersion.find({ question: question._id })
+    .populate('author', 'name email')
+    .sort('-version');
+};
+
+/**
+ * Load the question an answer was given: its stored version, or the
+ * question itself for answers saved before versioning existed
+ * @param {Object} answer - Answer data with `question` and `questionVersion`
+ * @param {string} select - Fields to load
+ * @returns {Promise<Object|null>}
+ */
+export const loadAskedQuestion = async ({ question, questionVersion }, select) => {
+  if (questionVersion) {
+    const version = await QuestionVersion.findById(questionVersion).select(select);
+    if (version) return version;
+  }
+  return Question.findById(question).select(select);
+};
+
+export default {
+  VERSIONED_FIELDS,
+  QuestionVersionError,
+  getCurrentVersion,
+  createQuestion,
+  updateQuestion,
+  deleteQuestion,
+  restoreQuestion,
+  listVersions,
+  loadAskedQuestion
+};
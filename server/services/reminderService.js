@@ -0,0 +1,101 @@
+import Interview from '../models/Interview.js';
+import { checkJoinWindow } from './joinWindowService.js';
+import { getLatestInvitation } from './invitationService.js';
+import { sendReminderEmail, sendNoShowEmail } from './interviewEmailService.js';
+
+/**
+ * Jobs that run between scheduling and the interview: reminder emails
+ * before the start, and flagging interviews the candidate never started
+ * as no-shows once the join window has closed.
+ */
+
+// Minutes before the start reminders go out, largest first. Set with
+// INTERVIEW_REMINDER_HOURS, e.g. "24,1"; an empty value turns reminders off.
+export const REMINDER_OFFSETS_MINUTES = (process.env.INTERVIEW_REMINDER_HOURS ?? '24,1')
+  .split(',')
+  .map(hours => Math.round(Number(hours) * 60))
+  .filter(minutes => minutes > 0)
+  .sort((a, b) => b - a);
+
+/**
+ * Send the reminders that are due. When several are due at once, e.g. for
+ * an interview scheduled an hour ahead, only one email goes out. Candidates
+ * invited after a reminder time do not get that reminder.
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<number>} - Number of reminders sent
+ */
+export const sendDueReminders = async (now = new Date()) => {
+  if (REMINDER_OFFSETS_MINUTES.length === 0) return 0;
+
+  const interviews = await Interview.find({
+    status: 'scheduled',
+    startsAt: { $gt: now, $lte: new Date(now.getTime() + REMINDER_OFFSETS_MINUTES[0] * 60 * 1000) }
+  });
+
+  let sent = 0;
+  for (const interview of interviews) {
+    const minutesLeft = (interview.startsAt.getTime() - now.getTime()) / (60 * 1000);
+    const due = REMINDER_OFFSETS_MINUTES.filter(offset =>
+      minutesLeft <= offset && !interview.remindersSent.includes(offset));
+    if (due.length === 0) continue;
+
+    // Claim the reminders so another process does not send them too
+    const claimed = await Interview.updateOne(
+      { _id: interview._id, status: 'scheduled', remindersSent: { $nin: due } },
+      { $addToSet: { remindersSent: { $each: due } } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    // Candidates who were never invited do not know the interview exists
+    const invitation = await getLatestInvitation(interview._id);
+    const remindAt = new Date(interview.startsAt.getTime() - Math.min(...due) * 60 * 1000);
+    if (!invitation || ['revoked', 'expired'].includes(invitation.status) || invitation.createdAt > remindAt) continue;
+
+    try {
+      await sendReminderEmail(interview, now);
+      sent++;
+    } catch (error) {
+      console.error(`Error sending reminder for interview ${interview._id}:`, error);
+    }
+  }
+
+  return sent;
+};
+
+/**
+ * Flag scheduled interviews whose join window closed without the candidate
+ * starting them, and tell the admins who scheduled them
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<number>} - Number of interviews flagged
+ */
+export const flagNoShows = async (now = new Date()) => {
+  const started = await Interview.find({ status: 'scheduled', startsAt: { $lt: now } });
+
+  let flagged = 0;
+  for (const interview of started) {
+    if (!checkJoinWindow(interview, now).isExpired) continue;
+
+    // Only if the candidate did not start it in the meantime
+    const noShow = await Interview.findOneAndUpdate(
+      { _id: interview._id, status: 'scheduled' },
+      { $set: { status: 'no-show', noShowAt: now } },
+      { new: true }
+    );
+    if (!noShow) continue;
+    flagged++;
+
+    try {
+      await sendNoShowEmail(noShow);
+    } catch (error) {
+      console.error(`Error sending no-show notification for interview ${interview._id}:`, error);
+    }
+  }
+
+  return flagged;
+};
+
+export default {
+  REMINDER_OFFSETS_MINUTES,
+  sendDueReminders,
+  flagNoShows
+};
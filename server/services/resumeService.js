@@ -0,0 +1,253 @@
+import path from 'path';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+// The package entry point reads a test PDF when imported; the library does not
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+import mammoth from 'mammoth';
+import Question from '../models/Question.js';
+import TechStack from '../models/TechStack.js';
+import { generateResumeQuestions } from './evaluationService.js';
+
+/**
+ * Candidate resumes. Uploaded files are kept outside the public uploads
+ * directory; their text is extracted once on upload and stored on the
+ * candidate, together with the tech stacks it mentions. The text is what
+ * resume-specific interview questions are generated from.
+ */
+
+// ES Module fix for __dirname
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const RESUME_DIR = path.join(__dirname, '../resumes');
+
+// Accepted resume formats by extension, with the type they are served as
+export const RESUME_FILE_TYPES = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.txt': 'text/plain'
+};
+
+export const RESUME_MAX_SIZE_MB = Number(process.env.RESUME_MAX_SIZE_MB) || 5;
+
+// Most questions generated for one interview
+export const RESUME_QUESTIONS_MAX = 10;
+
+// Resume text kept on the candidate, and the part of it sent to the LLM
+const MAX_STORED_TEXT_LENGTH = 100000;
+const MAX_PROMPT_TEXT_LENGTH = 6000;
+
+/**
+ * Error raised when a resume cannot be stored or used
+ */
+export class ResumeError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'ResumeError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Extract the plain text of a resume
+ * @param {Buffer} buffer - File contents
+ * @param {string} extension - One of the RESUME_FILE_TYPES extensions
+ * @returns {Promise<string>} - Text with runs of blank space collapsed
+ */
+export const extractResumeText = async (buffer, extension) => {
+  let text;
+  if (extension === '.pdf') {
+    text = (await pdfParse(buffer)).text;
+  } else if (extension === '.docx') {
+    text = (await mammoth.extractRawText({ buffer })).value;
+  } else {
+    text = buffer.toString('utf8');
+  }
+
+  return text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+};
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Ways a tech stack name is written in a resume: "Node.js" is also
+ * "NodeJS", "React" is also "React.js". A bare "Node" or "Next" is not
+ * counted; too many ordinary words would match.
+ * @param {string} name - Tech stack name
+ * @returns {Array<string>} - Lowercase aliases
+ */
+const getAliases = (name) => {
+  const lower = name.toLowerCase().trim();
+  const base = lower.replace(/\s*\.?js$/, '');
+  const aliases = new Set([lower, lower.replace(/\s+/g, '')]);
+  if (base && !/[^a-z0-9]/.test(base)) {
+    aliases.add(`${base}.js`);
+    aliases.add(`${base}js`);
+  }
+  return [...aliases];
+};
+
+/**
+ * Count how often a resume mentions each tech stack. Names match as whole
+ * words, so "Java" does not count "JavaScript", and names of one or two
+ * letters ("Go", "R") only match with the same capitalization.
+ * @param {string} text - Resume text
+ * @param {Array<Object>} techStacks - TechStack documents
+ * @returns {Array<{ techStack: Object, name: string, mentions: number }>} -
+ *   Mentioned tech stacks, most mentioned first
+ */
+export const extractSkills = (text, techStacks) => techStacks
+  .map(techStack => {
+    const caseSensitive = techStack.name.trim().length <= 2;
+    const aliases = caseSensitive ? [techStack.name.trim()] : getAliases(techStack.name);
+    const pattern = new RegExp(
+      `(?<![A-Za-z0-9+#.])(?:${aliases.map(escapeRegExp).join('|')})(?![A-Za-z0-9+#])`,
+      caseSensitive ? 'g' : 'gi'
+    );
+    return { techStack: techStack._id, name: techStack.name, mentions: (text.match(pattern) || []).length };
+  })
+  .filter(skill => skill.mentions > 0)
+  .sort((a, b) => b.mentions - a.mentions);
+
+const removeStoredFile = async (fileName) => {
+  if (!fileName) return;
+  try {
+    await fs.unlink(path.join(RESUME_DIR, path.basename(fileName)));
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+  }
+};
+
+/**
+ * Store an uploaded resume for a candidate, replacing any earlier one, and
+ * extract its text and skills
+ * @param {Object} candidate - Candidate document
+ * @param {Object} file - express-fileupload file
+ * @returns {Promise<Object>} - The saved candidate
+ * @throws {ResumeError} When the file is not an accepted resume
+ */
+export const saveResume = async (candidate, file) => {
+  const extension = path.extname(file.name || '').toLowerCase();
+  if (!RESUME_FILE_TYPES[extension]) {
+    throw new ResumeError(`Resumes must be ${Object.keys(RESUME_FILE_TYPES).join(', ')} files`, 400);
+  }
+  if (file.size > RESUME_MAX_SIZE_MB * 1024 * 1024) {
+    throw new ResumeError(`Resumes must be smaller than ${RESUME_MAX_SIZE_MB} MB`, 400);
+  }
+
+  // Uploads are written to temporary files unless the server keeps them in memory
+  const buffer = file.tempFilePath ? await fs.readFile(file.tempFilePath) : file.data;
+
+  let text;
+  try {
+    text = await extractResumeText(buffer, extension);
+  } catch (err) {
+    throw new ResumeError(`Could not read the resume: ${err.message}`, 400);
+  }
+  if (!text) {
+    throw new ResumeError('The resume contains no text. Scanned resumes are not supported.', 400);
+  }
+
+  const fileName = `${candidate._id}-${crypto.randomBytes(8).toString('hex')}${extension}`;
+  await fs.mkdir(RESUME_DIR, { recursive: true });
+  await fs.writeFile(path.join(RESUME_DIR, fileName), buffer);
+
+  const previousFile = candidate.resume;
+  candidate.resume = fileName;
+  candidate.resumeFileName = file.name;
+  candidate.resumeText = text.slice(0, MAX_STORED_TEXT_LENGTH);
+  candidate.resumeSkills = extractSkills(text, await TechStack.find().select('name'));
+  candidate.resumeUploadedAt = new Date();
+  await candidate.save();
+
+  if (previousFile && previousFile !== fileName) {
+    await removeStoredFile(previousFile);
+  }
+
+  return candidate;
+};
+
+/**
+ * Path and type of a candidate's stored resume
+ * @param {Object} candidate - Candidate document
+ * @returns {{ filePath: string, fileName: string, contentType: string } | null}
+ */
+export const getResumeFile = (candidate) => {
+  if (!candidate.resume) return null;
+
+  const extension = path.extname(candidate.resume).toLowerCase();
+  return {
+    filePath: path.join(RESUME_DIR, path.basename(candidate.resume)),
+    fileName: candidate.resumeFileName || `resume${extension}`,
+    contentType: RESUME_FILE_TYPES[extension] || 'application/octet-stream'
+  };
+};
+
+/**
+ * Delete a candidate's stored resume file
+ * @param {Object} candidate - Candidate document
+ * @returns {Promise<void>}
+ */
+export const deleteResume = (candidate) => removeStoredFile(candidate.resume);
+
+/**
+ * Generate questions about a candidate's resume and save them for that
+ * candidate only
+ * @param {Object} candidate - Candidate document, selected with +resumeText
+ * @param {Object} options
+ * @param {Array<string>} options.techStacks - Ids of the tech stacks the questions may be about
+ * @param {number} options.count - Number of questions wanted
+ * @param {string} [options.roleId] - Role whose evaluation provider writes the questions
+ * @returns {Promise<Array<Object>>} - The saved Question documents
+ * @throws {ResumeError} When the candidate has no resume
+ */
+export const createResumeQuestions = async (candidate, { techStacks, count, roleId }) => {
+  if (!candidate.resumeText) {
+    throw new ResumeError('Upload a resume for the candidate before generating resume questions', 400);
+  }
+
+  const stacks = await TechStack.find({ _id: { $in: techStacks } }).select('name');
+  if (stacks.length === 0) {
+    throw new ResumeError('Pick at least one tech stack for the resume questions', 400);
+  }
+
+  // Ask about the stacks the resume mentions, most mentioned first; only
+  // when it mentions none of them are the questions about all of them
+  const mentions = new Map((candidate.resumeSkills || []).map(skill => [skill.techStack.toString(), skill.mentions]));
+  const mentioned = stacks
+    .filter(stack => mentions.has(stack._id.toString()))
+    .sort((a, b) => mentions.get(b._id.toString()) - mentions.get(a._id.toString()));
+  const questionStacks = mentioned.length > 0 ? mentioned : stacks;
+
+  const { questions } = await generateResumeQuestions({
+    resumeText: candidate.resumeText.slice(0, MAX_PROMPT_TEXT_LENGTH),
+    techStacks: questionStacks.map(stack => stack.name),
+    count: Math.min(count, RESUME_QUESTIONS_MAX)
+  }, { roleId });
+
+  const stackByName = new Map(questionStacks.map(stack => [stack.name, stack._id]));
+  return Question.insertMany(questions.map(question => ({
+    techStack: stackByName.get(question.techStack),
+    text: question.text,
+    difficulty: question.difficulty,
+    type: 'verbal',
+    candidate: candidate._id
+  })));
+};
+
+export default {
+  RESUME_FILE_TYPES,
+  RESUME_MAX_SIZE_MB,
+  RESUME_QUESTIONS_MAX,
+  ResumeError,
+  extractResumeText,
+  extractSkills,
+  saveResume,
+  getResumeFile,
+  deleteResume,
+  createResumeQuestions
+};
@@ -0,0 +1,107 @@
+import Rubric from '../models/Rubric.js';
+import Role from '../models/Role.js';
+import TechStack from '../models/TechStack.js';
+import Question from '../models/Question.js';
+import Interview from '../models/Interview.js';
+
+// Rubric used when neither the tech stack nor the role configures one.
+// Matches the criteria answers were always graded on.
+export const DEFAULT_RUBRIC = {
+  name: 'Default',
+  criteria: [
+    { key: 'technicalAccuracy', label: 'Technical accuracy', weight: 40 },
+    { key: 'completeness', label: 'Completeness', weight: 30 },
+    { key: 'clarity', label: 'Clarity of explanation', weight: 20 },
+    { key: 'examples', label: 'Example usage', weight: 10 }
+  ]
+};
+
+/**
+ * Reduce a rubric document to the plain shape evaluators and answers use
+ * @param {Object} rubric - Rubric document or plain object
+ * @returns {{ name: string, criteria: Array<{ key: string, label: string, description?: string, weight: number }> }}
+ */
+export const toRubricSnapshot = (rubric) => ({
+  name: rubric.name,
+  criteria: rubric.criteria.map(({ key, label, description, weight }) => ({
+    key,
+    label,
+    ...(description ? { description } : {}),
+    weight
+  }))
+});
+
+/**
+ * Work out which rubric an answer should be graded with.
+ * Order of precedence: explicit rubric, the question's tech stack,
+ * the interview's tech stack, the role, then DEFAULT_RUBRIC.
+ * @param {Object} options
+ * @param {string} [options.rubricId] - Explicitly requested rubric
+ * @param {string} [options.questionId] - Question being answered
+ * @param {string} [options.techStackId] - Tech stack to read the rubric from
+ * @param {string} [options.interviewId] - Interview the answer belongs to
+ * @param {string} [options.roleId] - Role to read the rubric from
+ * @returns {Promise<Object>} - Rubric snapshot
+ */
+export const resolveRubric = async ({ rubricId, questionId, techStackId, interviewId, roleId } = {}) => {
+  let resolvedRubricId = rubricId;
+  let resolvedTechStackId = techStackId;
+  let resolvedRoleId = roleId;
+
+  if (!resolvedTechStackId && questionId) {
+    const question = await Question.findById(questionId).select('techStack');
+    if (question && question.techStack) {
+      resolvedTechStackId = question.techStack;
+    }
+  }
+
+  if (interviewId) {
+    const interview = await Interview.findById(interviewId).select('role techStack');
+    if (interview) {
+      resolvedTechStackId = resolvedTechStackId || interview.techStack;
+      resolvedRoleId = interview.role || resolvedRoleId;
+    }
+  }
+
+  if (!resolvedRubricId && resolvedTechStackId) {
+    const techStack = await TechStack.findById(resolvedTechStackId).select('rubric');
+    resolvedRubricId = techStack && techStack.rubric;
+  }
+
+  if (!resolvedRubricId && resolvedRoleId) {
+    const role = await Role.findById(resolvedRoleId).select('rubric');
+    resolvedRubricId = role && role.rubric;
+  }
+
+  if (resolvedRubricId) {
+    const rubric = await Rubric.findById(resolvedRubricId);
+    if (rubric) {
+      return toRubricSnapshot(rubric);
+    }
+  }
+
+  return DEFAULT_RUBRIC;
+};
+
+/**
+ * Combine per-criterion scores into an overall score using the rubric weights
+ * @param {Object<string, number>} criteria - Score out of 10 per criterion key
+ * @param {Object} rubric - Rubric snapshot
+ * @returns {number} - Overall score out of 10, rounded to one decimal
+ */
+export const calculateWeightedScore = (criteria, rubric) => {
+  const totalWeight = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const weighted = rubric.criteria.reduce(
+    (sum, criterion) => sum + (criteria[criterion.key] || 0) * criterion.weight,
+    0
+  );
+
+  return Math.round((weighted / totalWeight) * 10) / 10;
+};
+
+export default {
+  DEFAULT_RUBRIC,
+  toRubricSnapshot,
+  resolveRubric,
+  calculateWeightedScore
+};
@@ -0,0 +1,194 @@
+import AvailabilityWindow from '../models/AvailabilityWindow.js';
+import Interview from '../models/Interview.js';
+
+/**
+ * Candidate self-scheduling. Interviewers publish availability windows; a
+ * candidate asked to pick a slot sees the parts of their interviewer's
+ * windows that no scheduled interview overlaps, on a fixed grid, and books
+ * one. Bookings in a window are serialized with a short lock so two
+ * candidates never get the same time.
+ */
+
+// Slots start this many minutes apart from the start of a window
+export const SLOT_INTERVAL_MINUTES = Number(process.env.SLOT_INTERVAL_MINUTES) || 30;
+
+// Candidates cannot book a slot starting sooner than this
+export const SLOT_MIN_NOTICE_HOURS = Number(process.env.SLOT_MIN_NOTICE_HOURS) || 2;
+
+// Interviews that take up the interviewer's time
+const BOOKED_STATUSES = ['scheduled', 'in-progress'];
+
+const BOOKING_LOCK_SECONDS = 30;
+
+// Interviews never last longer than this; used to find ones still running
+const MAX_INTERVIEW_MINUTES = 24 * 60;
+
+/**
+ * Error raised when a window cannot be published or a slot cannot be booked
+ */
+export class SchedulingError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'SchedulingError';
+    this.statusCode = statusCode;
+  }
+}
+
+const minutesToMs = (minutes) => minutes * 60 * 1000;
+
+const overlaps = (a, b) => a.startsAt < b.endsAt && b.startsAt < a.endsAt;
+
+const interviewerOf = (interview) => (interview.createdBy && interview.createdBy._id) || interview.createdBy;
+
+/**
+ * Times an interviewer is already busy with interviews
+ * @param {string} interviewerId - User id of the interviewer
+ * @param {Date} from - Start of the range
+ * @param {Date} to - End of the range
+ * @param {Object} [options]
+ * @param {string} [options.excludeInterview] - Interview being scheduled, which does not count
+ * @returns {Promise<Array<{ startsAt: Date, endsAt: Date }>>}
+ */
+export const findBusyTimes = async (interviewerId, from, to, { excludeInterview } = {}) => {
+  const interviews = await Interview.find({
+    createdBy: interviewerId,
+    status: { $in: BOOKED_STATUSES },
+    startsAt: { $lt: to, $gt: new Date(from.getTime() - minutesToMs(MAX_INTERVIEW_MINUTES)) },
+    ...(excludeInterview ? { _id: { $ne: excludeInterview } } : {})
+  }).select('startsAt duration');
+
+  return interviews.map(interview => ({
+    startsAt: interview.startsAt,
+    endsAt: new Date(interview.startsAt.getTime() + minutesToMs(interview.duration || 30))
+  }));
+};
+
+/**
+ * Publish an availability window
+ * @param {Object} options
+ * @param {string} options.interviewer - User id of the interviewer
+ * @param {Date|string} options.startsAt - Start of the window
+ * @param {Date|string} options.endsAt - End of the window
+ * @param {string} [options.timezone] - Time zone the window was entered in
+ * @returns {Promise<Object>} - AvailabilityWindow document
+ * @throws {SchedulingError} When the window overlaps another one of the interviewer
+ */
+export const createAvailabilityWindow = async ({ interviewer, startsAt, endsAt, timezone }) => {
+  const overlapping = await AvailabilityWindow.findOne({
+    interviewer,
+    startsAt: { $lt: new Date(endsAt) },
+    endsAt: { $gt: new Date(startsAt) }
+  });
+  if (overlapping) {
+    throw new SchedulingError('This window overlaps one you already published', 409);
+  }
+
+  return AvailabilityWindow.create({ interviewer, startsAt, endsAt, timezone });
+};
+
+// Slots of a window on the grid, starting no earlier than notBefore
+const slotsInWindow = (window, durationMinutes, notBefore) => {
+  const slots = [];
+  const step = minutesToMs(SLOT_INTERVAL_MINUTES);
+  const length = minutesToMs(durationMinutes);
+  for (let start = window.startsAt.getTime(); start + length <= window.endsAt.getTime(); start += step) {
+    if (start >= notBefore.getTime()) {
+      slots.push({ startsAt: new Date(start), endsAt: new Date(start + length) });
+    }
+  }
+  return slots;
+};
+
+/**
+ * Slots the candidate of an interview can book
+ * @param {Object} interview - Interview document awaiting a slot
+ * @param {Date} [now] - Defaults to the current time
+ * @returns {Promise<Array<{ startsAt: Date, endsAt: Date }>>} - In order
+ */
+export const getFreeSlots = async (interview, now = new Date()) => {
+  const interviewer = interviewerOf(interview);
+  const notBefore = new Date(now.getTime() + SLOT_MIN_NOTICE_HOURS * 60 * 60 * 1000);
+
+  const windows = await AvailabilityWindow.find({ interviewer, endsAt: { $gt: notBefore } }).sort('startsAt');
+  if (windows.length === 0) return [];
+
+  const busy = await findBusyTimes(interviewer, windows[0].startsAt, windows[windows.length - 1].endsAt, {
+    excludeInterview: interview._id
+  });
+
+  return windows
+    .flatMap(window => slotsInWindow(window, interview.duration || 30, notBefore))
+    .filter(slot => !busy.some(busyTime => overlaps(slot, busyTime)));
+};
+
+/**
+ * Book a slot for an interview awaiting one. The interview is scheduled at
+ * the slot's start.
+ * @param {Object} interview - Interview document awaiting a slot
+ * @param {Date|string} startsAt - Start of the chosen slot
+ * @param {Object} [options]
+ * @param {Function} [options.beforeSave] - Called once the slot is confirmed
+ *   free, before the interview is saved; e.g. to use up the scheduling link
+ * @param {Date} [options.now] - Defaults to the current time
+ * @returns {Promise<Object>} - The scheduled interview
+ * @throws {SchedulingError} When the slot is not free
+ */
+export const bookSlot = async (interview, startsAt, { beforeSave, now = new Date() } = {}) => {
+  if (interview.status !== 'awaiting-slot') {
+    throw new SchedulingError('This interview has already been scheduled', 409);
+  }
+
+  const slot = { startsAt: new Date(startsAt) };
+  if (Number.isNaN(slot.startsAt.getTime())) {
+    throw new SchedulingError('Please pick one of the available slots', 400);
+  }
+  slot.endsAt = new Date(slot.startsAt.getTime() + minutesToMs(interview.duration || 30));
+
+  const unavailable = new SchedulingError('This slot is no longer available. Please pick another one.', 409);
+  const interviewer = interviewerOf(interview);
+  const window = await AvailabilityWindow.findOne({
+    interviewer,
+    startsAt: { $lte: slot.startsAt },
+    endsAt: { $gte: slot.endsAt }
+  });
+  const onGrid = window && (slot.startsAt.getTime() - window.startsAt.getTime()) % minutesToMs(SLOT_INTERVAL_MINUTES) === 0;
+  const notBefore = new Date(now.getTime() + SLOT_MIN_NOTICE_HOURS * 60 * 60 * 1000);
+  if (!onGrid || slot.startsAt < notBefore) {
+    throw unavailable;
+  }
+
+  const locked = await AvailabilityWindow.findOneAndUpdate(
+    { _id: window._id, $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }] },
+    { lockedUntil: new Date(now.getTime() + BOOKING_LOCK_SECONDS * 1000) }
+  );
+  if (!locked) {
+    throw new SchedulingError('Someone else is booking a slot right now. Please try again in a moment.', 409);
+  }
+
+  try {
+    const busy = await findBusyTimes(interviewer, slot.startsAt, slot.endsAt, { excludeInterview: interview._id });
+    if (busy.some(busyTime => overlaps(slot, busyTime))) {
+      throw unavailable;
+    }
+
+    if (beforeSave) {
+      await beforeSave();
+    }
+
+    interview.set({ startsAt: slot.startsAt, status: 'scheduled' });
+    await interview.save();
+    return interview;
+  } finally {
+    await AvailabilityWindow.updateOne({ _id: window._id }, { lockedUntil: null });
+  }
+};
+
+export default {
+  SLOT_INTERVAL_MINUTES,
+  SLOT_MIN_NOTICE_HOURS,
+  SchedulingError,
+  findBusyTimes,
+  createAvailabilityWindow,
+  getFreeSlots,
+  bookSlot
+};
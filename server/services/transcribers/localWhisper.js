@@ -0,0 +1,145 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export const LOCAL_WHISPER_ENGINES = ['whisper-cpp', 'faster-whisper'];
+
+// File extensions the engines recognise recordings by
+const extensions = {
+  'audio/webm': '.webm',
+  'audio/ogg': '.ogg',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a'
+};
+
+/**
+ * Run a command to completion
+ * @param {string} command
+ * @param {string[]} args
+ * @param {Object} options
+ * @param {string} options.cwd
+ * @param {number} options.timeoutMs - The command is killed after this long
+ * @returns {Promise<void>}
+ * @throws {Error} When the command cannot start, fails or times out
+ */
+const run = (command, args, { cwd, timeoutMs }) => new Promise((resolve, reject) => {
+  let stderr = '';
+  let timedOut = false;
+
+  const child = spawn(command, args, { cwd, stdio: ['ignore', 'ignore', 'pipe'] });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    child.kill('SIGKILL');
+  }, timeoutMs);
+
+  // Only the end of the output is kept; it says what went wrong
+  child.stderr.on('data', chunk => {
+    stderr = (stderr + chunk.toString()).slice(-2000);
+  });
+  child.on('error', err => {
+    clearTimeout(timer);
+    reject(new Error(`Could not run ${command}: ${err.message}`));
+  });
+  child.on('close', exitCode => {
+    clearTimeout(timer);
+    if (timedOut) {
+      reject(new Error(`${command} did not finish within ${Math.round(timeoutMs / 1000)} seconds`));
+    } else if (exitCode !== 0) {
+      reject(new Error(`${command} exited with code ${exitCode}: ${stderr.trim()}`));
+    } else {
+      resolve();
+    }
+  });
+});
+
+/**
+ * Transcribe with whisper.cpp. It only reads 16 kHz WAV, so the recording
+ * is converted with ffmpeg first. Limiting segments to one word each gives
+ * the timing of every word.
+ */
+const transcribeWithWhisperCpp = async ({ dir, input, language, command, model, ffmpeg, timeoutMs }) => {
+  const wav = path.join(dir, 'audio.wav');
+  await run(ffmpeg, ['-nostdin', '-y', '-i', input, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wav], { cwd: dir, timeoutMs });
+
+  const output = path.join(dir, 'transcript');
+  await run(command, ['-m', model, '-f', wav, '-l', language, '-ml', '1', '-sow', '-oj', '-of', output, '-np'], { cwd: dir, timeoutMs });
+
+  const { transcription = [] } = JSON.parse(await fs.readFile(`${output}.json`, 'utf8'));
+  const words = transcription
+    .map(segment => ({
+      word: segment.text.trim(),
+      start: segment.offsets.from / 1000,
+      end: segment.offsets.to / 1000
+    }))
+    .filter(word => word.word);
+
+  return { text: words.map(word => word.word).join(' '), words };
+};
+
+/**
+ * Transcribe with faster-whisper through the whisper-ctranslate2 command
+ * line, which takes the same arguments and writes the same JSON as
+ * OpenAI's whisper command (so that works too)
+ */
+const transcribeWithFasterWhisper = async ({ dir, input, language, command, model, timeoutMs }) => {
+  await run(command, [
+    input,
+    '--model', model,
+    '--language', language,
+    '--word_timestamps', 'True',
+    '--output_format', 'json',
+    '--output_dir', dir
+  ], { cwd: dir, timeoutMs });
+
+  const output = path.join(dir, `${path.parse(input).name}.json`);
+  const { text = '', segments = [] } = JSON.parse(await fs.readFile(output, 'utf8'));
+  const words = segments.flatMap(segment => (segment.words || []).map(({ word, start, end }) => ({
+    word: word.trim(),
+    start,
+    end
+  })));
+
+  return { text: text.trim(), words };
+};
+
+/**
+ * Create a transcriber that runs a local Whisper binary, so recordings
+ * never leave the server and no API key is needed
+ * @param {Object} options
+ * @param {string} options.engine - One of LOCAL_WHISPER_ENGINES
+ * @param {string} options.command - Binary to run, e.g. whisper-cli or whisper-ctranslate2
+ * @param {string} options.model - Model file (whisper.cpp) or model name (faster-whisper)
+ * @param {string} options.ffmpeg - ffmpeg binary, used to convert recordings for whisper.cpp
+ * @param {number} options.timeoutMs - Longest a transcription may take
+ */
+const createLocalWhisperTranscriber = ({ engine, command, model, ffmpeg, timeoutMs }) => {
+  if (!LOCAL_WHISPER_ENGINES.includes(engine)) {
+    throw new Error(`Unknown local Whisper engine "${engine}". Available engines: ${LOCAL_WHISPER_ENGINES.join(', ')}`);
+  }
+  if (!model) {
+    throw new Error('Local Whisper model is not configured. Please set WHISPER_LOCAL_MODEL in your environment variables.');
+  }
+
+  return {
+    name: 'local',
+    transcribe: async ({ audio, mimeType, language }) => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skillspark-stt-'));
+      try {
+        const input = path.join(dir, `recording${extensions[mimeType.split(';')[0]] || '.webm'}`);
+        await fs.writeFile(input, audio);
+
+        const options = { dir, input, language, command, model, ffmpeg, timeoutMs };
+        return engine === 'whisper-cpp'
+          ? await transcribeWithWhisperCpp(options)
+          : await transcribeWithFasterWhisper(options);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    }
+  };
+};
+
+export default createLocalWhisperTranscriber;
@@ -0,0 +1,36 @@
+import OpenAI, { toFile } from 'openai';
+
+/**
+ * Create a transcriber backed by the OpenAI transcription API
+ * @param {Object} options
+ * @param {string} options.apiKey - OpenAI API key
+ * @param {string} options.model - Transcription model, e.g. whisper-1
+ */
+const createOpenAITranscriber = ({ apiKey, model }) => {
+  if (!apiKey) {
+    throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY in your environment variables.');
+  }
+
+  const client = new OpenAI({ apiKey });
+
+  return {
+    name: 'openai',
+    transcribe: async ({ audio, fileName, mimeType, language }) => {
+      // Word timings are only returned in the verbose format
+      const transcription = await client.audio.transcriptions.create({
+        file: await toFile(audio, fileName, { type: mimeType }),
+        model,
+        language,
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word']
+      });
+
+      return {
+        text: transcription.text,
+        words: (transcription.words || []).map(({ word, start, end }) => ({ word, start, end }))
+      };
+    }
+  };
+};
+
+export default createOpenAITranscriber;
@@ -0,0 +1,20 @@
+/**
+ * Create a transcriber that returns the same transcript for every
+ * recording without looking at it. Meant for development and tests, where
+ * no speech-to-text service is available; each word gets half a second.
+ * @param {Object} options
+ * @param {string} options.text - Transcript returned for every recording
+ */
+const createStubTranscriber = ({ text }) => ({
+  name: 'stub',
+  transcribe: async () => ({
+    text,
+    words: text.split(/\s+/).filter(Boolean).map((word, index) => ({
+      word,
+      start: index * 0.5,
+      end: index * 0.5 + 0.45
+    }))
+  })
+});
+
+export default createStubTranscriber;
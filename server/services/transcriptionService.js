@@ -0,0 +1,141 @@
+import createOpenAITranscriber from './transcribers/openai.js';
+import createLocalWhisperTranscriber from './transcribers/localWhisper.js';
+import createStubTranscriber from './transcribers/stub.js';
+import Interview from '../models/Interview.js';
+
+// Factories for every supported speech-to-text provider. Transcribers are
+// created lazily so a deployment only needs settings for the one it uses.
+const transcriberFactories = {
+  openai: () => createOpenAITranscriber({
+    apiKey: process.env.OPENAI_API_KEY,
+    model: process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1'
+  }),
+  local: () => createLocalWhisperTranscriber({
+    engine: process.env.WHISPER_LOCAL_ENGINE || 'whisper-cpp',
+    command: process.env.WHISPER_LOCAL_COMMAND
+      || (process.env.WHISPER_LOCAL_ENGINE === 'faster-whisper' ? 'whisper-ctranslate2' : 'whisper-cli'),
+    model: process.env.WHISPER_LOCAL_MODEL,
+    ffmpeg: process.env.FFMPEG_PATH || 'ffmpeg',
+    timeoutMs: (Number(process.env.WHISPER_LOCAL_TIMEOUT_SECONDS) || 300) * 1000
+  }),
+  stub: () => createStubTranscriber({
+    text: process.env.TRANSCRIPTION_STUB_TEXT || 'This is a transcript from the stub speech to text provider.'
+  })
+};
+
+export const TRANSCRIPTION_PROVIDERS = Object.keys(transcriberFactories);
+
+// Language recordings are in when the interview does not say
+export const DEFAULT_TRANSCRIPTION_LANGUAGE = process.env.TRANSCRIPTION_LANGUAGE || 'en';
+
+const transcriberCache = new Map();
+
+/**
+ * Error raised when a recording cannot be transcribed as asked
+ */
+export class TranscriptionError extends Error {
+  constructor(message, statusCode) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Whether a language is given as an ISO 639-1 code, e.g. "en" or "de"
+ * @param {string} language
+ * @returns {boolean}
+ */
+export const isValidLanguageCode = (language) => typeof language === 'string' && /^[a-z]{2}$/.test(language);
+
+/**
+ * Name of the configured provider: TRANSCRIPTION_PROVIDER, otherwise OpenAI
+ * @returns {string}
+ */
+export const getTranscriptionProviderName = () => process.env.TRANSCRIPTION_PROVIDER || 'openai';
+
+/**
+ * Get a transcriber instance by provider name
+ * @param {string} [name] - One of TRANSCRIPTION_PROVIDERS, defaults to the configured one
+ * @returns {{ name: string, transcribe: Function }}
+ */
+export const getTranscriber = (name = getTranscriptionProviderName()) => {
+  if (!transcriberFactories[name]) {
+    throw new Error(`Unknown transcription provider "${name}". Available providers: ${TRANSCRIPTION_PROVIDERS.join(', ')}`);
+  }
+
+  if (!transcriberCache.has(name)) {
+    transcriberCache.set(name, transcriberFactories[name]());
+  }
+
+  return transcriberCache.get(name);
+};
+
+/**
+ * Work out the language of a recording: the one asked for, then the
+ * interview's, then the deployment default
+ * @param {Object} options
+ * @param {string} [options.language] - ISO 639-1 code
+ * @param {string} [options.interviewId]
+ * @returns {Promise<string>}
+ */
+export const resolveLanguage = async ({ language, interviewId } = {}) => {
+  if (language) {
+    if (!isValidLanguageCode(language)) {
+      throw new TranscriptionError(`"${language}" is not a two-letter ISO 639-1 language code`, 400);
+    }
+    return language;
+  }
+
+  if (interviewId) {
+    const interview = await Interview.findById(interviewId).select('transcriptionLanguage');
+    if (interview && interview.transcriptionLanguage) {
+      return interview.transcriptionLanguage;
+    }
+  }
+
+  return DEFAULT_TRANSCRIPTION_LANGUAGE;
+};
+
+/**
+ * Transcribe a recording with the configured provider
+ * @param {Object} options
+ * @param {Buffer} options.audio - The recording
+ * @param {string} options.fileName
+ * @param {string} options.mimeType
+ * @param {string} [options.language] - ISO 639-1 code; see resolveLanguage
+ * @param {string} [options.interviewId] - Interview the recording answers
+ * @returns {Promise<{ text: string, words: Array<{ word: string, start: number, end: number }>, language: string, provider: string }>}
+ *   Word start and end are seconds into the recording
+ */
+export const transcribe = async ({ audio, fileName, mimeType, language, interviewId }) => {
+  const resolvedLanguage = await resolveLanguage({ language, interviewId });
+  const transcriber = getTranscriber();
+
+  const { text, words } = await transcriber.transcribe({ audio, fileName, mimeType, language: resolvedLanguage });
+
+  return {
+    text: (text || '').trim(),
+    // Providers report times with more precision than playback needs
+    words: words
+      .filter(word => word.word && Number.isFinite(word.start) && Number.isFinite(word.end))
+      .map(word => ({
+        word: word.word,
+        start: Math.round(word.start * 1000) / 1000,
+        end: Math.round(word.end * 1000) / 1000
+      })),
+    language: resolvedLanguage,
+    provider: transcriber.name
+  };
+};
+
+export default {
+  TRANSCRIPTION_PROVIDERS,
+  DEFAULT_TRANSCRIPTION_LANGUAGE,
+  TranscriptionError,
+  isValidLanguageCode,
+  getTranscriptionProviderName,
+  getTranscriber,
+  resolveLanguage,
+  transcribe
+};
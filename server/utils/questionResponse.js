@@ -0,0 +1,29 @@
+/**
+ * Shape a question for the API response. Hidden test cases, correct options,
+ * key points and the model answer are only visible to admins; everyone else just learns how
+ * many hidden tests there are and whether more than one option may be selected
+ * @param {Object} question - Question document
+ * @param {Object} [user] - Requesting user, if any
+ * @returns {Object}
+ */
+const toQuestionResponse = (question, user) => {
+  const data = question.toObject({ flattenMaps: true });
+  if (user && user.role === 'admin') {
+    return data;
+  }
+
+  const testCases = data.testCases || [];
+  const options = data.options || [];
+  const rest = { ...data };
+  delete rest.keyPoints;
+  delete rest.modelAnswer;
+  return {
+    ...rest,
+    testCases: testCases.filter(testCase => !testCase.hidden),
+    hiddenTestCaseCount: testCases.filter(testCase => testCase.hidden).length,
+    options: options.map(option => ({ _id: option._id, text: option.text })),
+    multipleAnswers: options.filter(option => option.correct).length > 1
+  };
+};
+
+export default toQuestionResponse;
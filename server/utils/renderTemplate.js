@@ -0,0 +1,56 @@
+/**
+ * A small Mustache-style template language for email templates:
+ *   {{name}}                 value, HTML-escaped
+ *   {{{name}}}               value, as is
+ *   {{#name}}...{{/name}}    block shown when the value is truthy
+ *   {{^name}}...{{/name}}    block shown when the value is falsy
+ * Names may use dots to reach nested values, e.g. {{interview.role}}.
+ */
+
+const SECTION_PATTERN = /\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const RAW_PATTERN = /\{\{\{\s*([\w.]+)\s*\}\}\}/g;
+const VALUE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const lookup = (data, name) => name
+  .split('.')
+  .reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), data);
+
+const isTruthy = (value) => Array.isArray(value) ? value.length > 0 : !!value;
+
+/**
+ * Render a template with the given data
+ * @param {string} template - Template text
+ * @param {Object} data - Values the template refers to
+ * @param {Object} [options]
+ * @param {boolean} [options.escape] - HTML-escape {{name}} values; off for plain text such as subjects
+ * @returns {string}
+ */
+const renderTemplate = (template, data = {}, { escape = true } = {}) => {
+  let rendered = String(template || '');
+
+  // Sections may contain sections, so repeat until none are left
+  let previous;
+  do {
+    previous = rendered;
+    rendered = rendered.replace(SECTION_PATTERN, (match, kind, name, body) =>
+      isTruthy(lookup(data, name)) === (kind === '#') ? body : '');
+  } while (rendered !== previous);
+
+  const format = (value) => (value === undefined || value === null ? '' : String(value));
+
+  return rendered
+    .replace(RAW_PATTERN, (match, name) => format(lookup(data, name)))
+    .replace(VALUE_PATTERN, (match, name) => {
+      const value = format(lookup(data, name));
+      return escape ? escapeHtml(value) : value;
+    });
+};
+
+export default renderTemplate;
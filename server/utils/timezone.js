@@ -0,0 +1,29 @@
+/**
+ * Check that a string is an IANA time zone name such as "Europe/Berlin"
+ * @param {string} timeZone
+ * @returns {boolean}
+ */
+export const isValidTimeZone = (timeZone) => {
+  if (!timeZone || typeof timeZone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (err) {
+    return false;
+  }
+};
+
+/**
+ * Format an instant as it reads on a clock in the given time zone
+ * @param {Date} date - Instant to format
+ * @param {string} timeZone - IANA time zone name
+ * @param {Object} options - Intl.DateTimeFormat options
+ * @returns {string}
+ */
+export const formatInTimeZone = (date, timeZone, options) =>
+  new Intl.DateTimeFormat('en-US', { ...options, timeZone }).format(date);
+
+export default {
+  isValidTimeZone,
+  formatInTimeZone
+};
@@ -20,6 +20,8 @@ import NotFound from "./pages/NotFound";
 import CreateAdmin from "./pages/CreateAdmin";
 import Settings from "./pages/Settings";
 import RoleManagement from "./pages/RoleManagement";
+import JoinInterview from "./pages/JoinInterview";
+import PickSlot from "./pages/PickSlot";
 
 const queryClient = new QueryClient();
 
@@ -54,6 +56,10 @@ const AppRoutes = () => (
     <Route path="/login" element={<Login />} />
     <Route path="/register" element={<Register />} />
     <Route path="/not-authorized" element={<NotAuthorized />} />
+    {/* Invitation links sign the candidate in, so this route is public */}
+    <Route path="/join/:interviewId" element={<JoinInterview />} />
+    {/* Scheduling links let the candidate pick a slot without logging in */}
+    <Route path="/schedule/:interviewId" element={<PickSlot />} />
     <Route 
       path="/settings" 
       element={
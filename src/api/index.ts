@@ -41,7 +41,7 @@ export const techStackAPI = {
   getById: (id: string) => api.get(`/techstacks/${id}`),
   create: (techStackData: { name: string; description: string }) =>
     api.post('/techstacks', techStackData),
-  update: (id: string, techStackData: { name?: string; description?: string }) =>
+  update: (id: string, techStackData: { name?: string; description?: string; rubric?: string | null; languages?: string[] }) =>
     api.put(`/techstacks/${id}`, techStackData),
   delete: (id: string) => api.delete(`/techstacks/${id}`),
 };
@@ -51,11 +51,72 @@ export const questionAPI = {
   getAll: () => api.get('/questions'),
   getByTechStack: (techStackId: string) => api.get(`/questions?techStack=${techStackId}`),
   getById: (id: string) => api.get(`/questions/${id}`),
-  create: (questionData: { techStack: string; text: string; difficulty: string }) =>
-    api.post('/questions', questionData),
-  update: (id: string, questionData: { text?: string; difficulty?: string }) =>
+  create: (questionData: {
+    techStack: string;
+    text: string;
+    difficulty: string;
+    type?: string;
+    options?: Array<{ text: string; correct: boolean }>;
+    keyPoints?: string[];
+    modelAnswer?: string;
+    tags?: string[];
+    topics?: string[];
+    referenceLanguage?: string;
+    languages?: string[];
+    starterCode?: Record<string, string>;
+    testCases?: Array<{ input: string; expectedOutput: string; hidden?: boolean }>;
+  }) => api.post('/questions', questionData),
+  // Changing the content moves the question to a new version; answers keep
+  // the version they were given
+  update: (id: string, questionData: {
+    techStack?: string;
+    text?: string;
+    difficulty?: string;
+    type?: string;
+    options?: Array<{ text: string; correct: boolean }>;
+    keyPoints?: string[];
+    modelAnswer?: string;
+    tags?: string[];
+    topics?: string[];
+    referenceLanguage?: string;
+    languages?: string[];
+    starterCode?: Record<string, string>;
+    testCases?: Array<{ input: string; expectedOutput: string; hidden?: boolean }>;
+  }) =>
     api.put(`/questions/${id}`, questionData),
+  // Deleted questions stay for the interviews that asked them
   delete: (id: string) => api.delete(`/questions/${id}`),
+  getDeleted: (techStackId?: string) => api.get('/questions', { params: { techStack: techStackId, deleted: true } }),
+  restore: (id: string) => api.post(`/questions/${id}/restore`),
+  getVersions: (id: string) => api.get(`/questions/${id}/versions`),
+  // Question files are CSV, JSON or Markdown; techStack is used for
+  // questions that name no tech stack
+  previewImport: (file: File, techStack?: string) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (techStack) formData.append('techStack', techStack);
+    return api.post('/questions/import/preview', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+  },
+  importFile: (file: File, techStack?: string) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (techStack) formData.append('techStack', techStack);
+    return api.post('/questions/import', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+  },
+  exportFile: (techStackId: string, format: 'json' | 'csv' | 'markdown') =>
+    api.get<Blob>('/questions/export', { params: { techStack: techStackId, format }, responseType: 'blob' }),
+  // Drafts are returned for review and not saved
+  generate: (data: {
+    techStack: string;
+    count: number;
+    difficultyMix?: { easy: number; medium: number; hard: number };
+    type?: 'verbal' | 'free-text' | 'system-design';
+    topics?: string[];
+  }) => api.post('/questions/generate', data),
 };
 
 // Interview endpoints
@@ -63,17 +124,55 @@ export const interviewAPI = {
   getAll: () => api.get('/interviews'),
   getById: (id: string) => api.get(`/interviews/${id}`),
   create: (interviewData: {
+    // Candidate in the pipeline. An account id, as older clients send, adds
+    // its owner to the pipeline.
     candidate: string;
     techStack: string;
-    scheduledDate: string;
+    startsAt?: string; // ISO instant; left out when the candidate picks a slot
+    status?: 'scheduled' | 'awaiting-slot';
+    candidateTimezone: string; // IANA time zone names
+    interviewerTimezone: string;
+    joinWindow?: { earlyMinutes: number; lateMinutes: number };
     duration: number;
-    scheduledTime?: string; // Optional for backward compatibility
+    // Seconds the candidate has for each question
+    questionTimeLimit?: number;
+    // ISO 639-1 code of the language the candidate answers in
+    transcriptionLanguage?: string;
+    role?: string;
+    techStacks?: string[];
+    template?: string;
+    mode?: 'standard' | 'adaptive';
+    questionCount?: number;
+    // Questions generated from the candidate's resume, asked after the others
+    resumeQuestionCount?: number;
   }) => api.post('/interviews', interviewData),
+  // Admins only; candidates change the status through the session below
   update: (id: string, interviewData: {
     status?: string;
-    completedAt?: string;
+    duration?: number;
+    questionTimeLimit?: number;
   }) => api.put(`/interviews/${id}`, interviewData),
   delete: (id: string) => api.delete(`/interviews/${id}`),
+  // Moves the interview and emails the candidate a new invitation link
+  reschedule: (id: string, startsAt: string) =>
+    api.post(`/interviews/${id}/reschedule`, { startsAt }),
+  // iCalendar (.ics) file of the interview
+  downloadCalendar: (id: string) =>
+    api.get<Blob>(`/interviews/${id}/calendar`, { responseType: 'blob' }),
+  // Adaptive interviews only; skip moves past a question that was not
+  // answered, and ignorePending picks without waiting for evaluations
+  getNextQuestion: (id: string, skip = false, ignorePending = false) =>
+    api.post(`/interviews/${id}/next-question`, { skip, ignorePending }),
+  // The session kept by the server: the candidate starts the interview and
+  // each question, and the server keeps the time
+  start: (id: string) => api.post(`/interviews/${id}/start`),
+  getSession: (id: string) => api.get(`/interviews/${id}/session`),
+  startQuestion: (id: string, questionId: string, followUp = false) =>
+    api.post(`/interviews/${id}/session/questions/${questionId}/start`, { followUp }),
+  skipQuestion: (id: string, questionId: string, followUp = false) =>
+    api.post(`/interviews/${id}/session/questions/${questionId}/skip`, { followUp }),
+  complete: (id: string) => api.post(`/interviews/${id}/complete`),
+  abandon: (id: string) => api.post(`/interviews/${id}/abandon`),
 };
 
 // Answer endpoints
@@ -83,18 +182,26 @@ export const answerAPI = {
   create: (answerData: {
     interview: string;
     question: string;
+    parentAnswer?: string; // Answer whose follow-up question this answers
     audioUrl?: string;
     transcript?: string;
+    // Start and end of each word in seconds, from the speech-to-text provider
+    transcriptWords?: Array<{ word: string; start: number; end: number }>;
+    transcriptionProvider?: string;
     code?: string;
     codeLanguage?: string;
+    textAnswer?: string;
+    selectedOptions?: string[];
     score?: number;
     feedback?: string;
-    criteria?: {
-      technicalAccuracy: number;
-      completeness: number;
-      clarity: number;
-      examples: number;
+    criteria?: Record<string, number>;
+    rubric?: {
+      name: string;
+      criteria: Array<{ key: string; label: string; weight: number }>;
     };
+    codeEvaluation?: string;
+    evaluationStatus?: 'pending' | 'queued' | 'running' | 'completed' | 'failed';
+    evaluationError?: string;
   }) => {
     console.log('answerAPI.create called with data:', JSON.stringify(answerData, null, 2));
     return api.post('/answers', answerData);
@@ -102,31 +209,35 @@ export const answerAPI = {
   update: (id: string, answerData: {
     audioUrl?: string;
     transcript?: string;
+    // Start and end of each word in seconds, from the speech-to-text provider
+    transcriptWords?: Array<{ word: string; start: number; end: number }>;
+    transcriptionProvider?: string;
     code?: string;
     codeLanguage?: string;
+    textAnswer?: string;
+    selectedOptions?: string[];
     score?: number;
     feedback?: string;
-    criteria?: {
-      technicalAccuracy: number;
-      completeness: number;
-      clarity: number;
-      examples: number;
+    criteria?: Record<string, number>;
+    rubric?: {
+      name: string;
+      criteria: Array<{ key: string; label: string; weight: number }>;
     };
+    codeEvaluation?: string;
+    evaluationStatus?: 'pending' | 'queued' | 'running' | 'completed' | 'failed';
+    evaluationError?: string;
   }) => {
     console.log('answerAPI.update called with id:', id);
     console.log('answerAPI.update data:', JSON.stringify(answerData, null, 2));
     
-    // Ensure criteria is properly structured if it exists
+    // Ensure every criterion score is a number; the keys come from the
+    // rubric the answer was graded with, so they are kept as they are
     if (answerData.criteria) {
       console.log('Criteria object present:', JSON.stringify(answerData.criteria, null, 2));
       
-      // Ensure criteria object has all required fields
-      const criteriaObj = {
-        technicalAccuracy: answerData.criteria.technicalAccuracy || 0,
-        completeness: answerData.criteria.completeness || 0,
-        clarity: answerData.criteria.clarity || 0,
-        examples: answerData.criteria.examples || 0
-      };
+      const criteriaObj = Object.fromEntries(
+        Object.entries(answerData.criteria).map(([key, value]) => [key, Number(value) || 0])
+      );
       
       // Replace the original criteria with our sanitized version
       answerData.criteria = criteriaObj;
@@ -138,20 +249,64 @@ export const answerAPI = {
   batch: (answers: Array<{
     interview: string;
     question: string;
+    parentAnswer?: string; // Answer whose follow-up question this answers
     audioUrl?: string;
     transcript?: string;
+    // Start and end of each word in seconds, from the speech-to-text provider
+    transcriptWords?: Array<{ word: string; start: number; end: number }>;
+    transcriptionProvider?: string;
+    code?: string;
+    codeLanguage?: string;
+    textAnswer?: string;
+    selectedOptions?: string[];
     score?: number;
     feedback?: string;
-    criteria?: {
-      technicalAccuracy: number;
-      completeness: number;
-      clarity: number;
-      examples: number;
+    criteria?: Record<string, number>;
+    rubric?: {
+      name: string;
+      criteria: Array<{ key: string; label: string; weight: number }>;
     };
+    codeEvaluation?: string;
+    evaluationStatus?: 'pending' | 'queued' | 'running' | 'completed' | 'failed';
+    evaluationError?: string;
   }>) => {
     console.log('answerAPI.batch called with answers:', JSON.stringify(answers, null, 2));
     return api.post('/answers/batch', answers);
   },
+  // Answers are evaluated on the server after they are saved; this tells
+  // how far each answer of the interview has got
+  getEvaluationStatus: (interviewId: string) =>
+    api.get<{ success: boolean; data: AnswerEvaluationStatus[] }>(`/answers/evaluation-status?interview=${interviewId}`),
+  // Admin only
+  reEvaluate: (id: string) =>
+    api.post<{ success: boolean; data: AnswerEvaluationStatus }>(`/answers/${id}/evaluate`),
+  // Reviewer comments on parts of the recordings (admins only)
+  getComments: (interviewId: string) =>
+    api.get<{ success: boolean; data: AnswerComment[] }>(`/answers/comments?interview=${interviewId}`),
+  addComment: (id: string, comment: { start: number; end: number; text: string }) =>
+    api.post<{ success: boolean; data: AnswerComment }>(`/answers/${id}/comments`, comment),
+  deleteComment: (id: string, commentId: string) => api.delete(`/answers/${id}/comments/${commentId}`),
+};
+
+// Start and end are seconds into the answer's recording
+export type AnswerComment = {
+  _id: string;
+  answer: string;
+  author: { _id: string; name: string };
+  start: number;
+  end: number;
+  text: string;
+  createdAt: string;
+};
+
+export type AnswerEvaluationStatus = {
+  answer: string;
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: string;
+  error?: string;
+  score?: number;
 };
 
 // Upload endpoints
@@ -203,7 +358,34 @@ export const uploadAPI = {
       
       return response;
     });
-  }
+  },
+  // Resumable uploads for recordings of any length: announce the recording,
+  // send its parts of `chunkSize` bytes, then have the server join them
+  startChunked: (data: { fileName: string; mimeType: string; size: number }) =>
+    api.post<{ success: boolean; data: ChunkedUpload }>('/uploads/chunked', data),
+  getChunked: (id: string) =>
+    api.get<{ success: boolean; data: ChunkedUpload }>(`/uploads/chunked/${id}`),
+  uploadChunk: (id: string, index: number, chunk: Blob) => {
+    const formData = new FormData();
+    formData.append('chunk', chunk, `${index}.part`);
+    return api.put<{ success: boolean; data: ChunkedUpload }>(`/uploads/chunked/${id}/chunks/${index}`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+  },
+  completeChunked: (id: string) =>
+    api.post<{ success: boolean; data: ChunkedUpload & { fileUrl: string } }>(`/uploads/chunked/${id}/complete`),
+};
+
+export type ChunkedUpload = {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  fileUrl?: string;
+  completedAt?: string;
 };
 
 // User endpoints
@@ -217,15 +399,28 @@ export const userAPI = {
   delete: (id: string) => api.delete(`/users/${id}`),
 };
 
+// Word start and end are seconds into the recording
+export type Transcription = {
+  text: string;
+  words: Array<{ word: string; start: number; end: number }>;
+  language: string;
+  provider: string;
+};
+
 // AI endpoints
 export const aiAPI = {
-  transcribe: (audioBlob: Blob) => {
+  // Transcribes with the server's speech-to-text provider, in the
+  // interview's language when an interview is given
+  transcribe: (audioBlob: Blob, interviewId?: string) => {
     // Create FormData object to send audio file
     const formData = new FormData();
-    formData.append('audio', audioBlob, 'recording.wav');
+    formData.append('audio', audioBlob, audioBlob.type.includes('webm') ? 'recording.webm' : 'recording.wav');
+    if (interviewId) {
+      formData.append('interview', interviewId);
+    }
     
     // Send request with FormData
-    return api.post('/ai/transcribe', formData, {
+    return api.post<{ success: boolean; data: Transcription }>('/ai/transcribe', formData, {
       headers: {
         'Content-Type': 'multipart/form-data'
       }
@@ -237,20 +432,32 @@ export const aiAPI = {
     transcript: string, 
     techStack?: string,
     code?: string,
-    codeLanguage?: string 
+    codeLanguage?: string,
+    textAnswer?: string,
+    selectedOptions?: string[],
+    interview?: string,
+    questionId?: string,
+    parentAnswer?: string,
+    provider?: string
   }) => {
     console.log('Sending evaluation request to AI API:', data);
     return api.post('/ai/evaluate', data);
-  }
+  },
+
+  // Returns { followUpQuestion: null } when the answer does not warrant one,
+  // with `pending: true` while the answer is still being evaluated
+  followUp: (answerId: string) => api.post('/ai/follow-up', { answer: answerId }),
+
+  getProviders: () => api.get('/ai/providers')
 };
 
 // Role endpoints
 export const roleAPI = {
   getAll: () => api.get('/roles'),
   getById: (id: string) => api.get(`/roles/${id}`),
-  create: (roleData: { name: string; description: string }) =>
+  create: (roleData: { name: string; description: string; evaluationProvider?: string | null; rubric?: string | null }) =>
     api.post('/roles', roleData),
-  update: (id: string, roleData: { name?: string; description?: string; techStacks?: string[] }) =>
+  update: (id: string, roleData: { name?: string; description?: string; techStacks?: string[]; evaluationProvider?: string | null; rubric?: string | null }) =>
     api.put(`/roles/${id}`, roleData),
   delete: (id: string) => api.delete(`/roles/${id}`),
   addTechStacks: (id: string, techStackIds: string[]) =>
@@ -259,12 +466,125 @@ export const roleAPI = {
     api.delete(`/roles/${id}/techstacks/${techStackId}`)
 };
 
+// Code execution endpoints
+export const codeAPI = {
+  // Runs the question's visible test cases, or the code once with `input` on stdin
+  run: (data: { code: string; language: string; question?: string; input?: string }) =>
+    api.post('/code/run', data),
+  getLanguages: () => api.get('/code/languages'),
+};
+
+// Rubric endpoints
+export const rubricAPI = {
+  getAll: () => api.get('/rubrics'),
+  getDefault: () => api.get('/rubrics/default'),
+  getById: (id: string) => api.get(`/rubrics/${id}`),
+  create: (rubricData: {
+    name: string;
+    description?: string;
+    criteria: Array<{ key: string; label: string; description?: string; weight: number }>;
+  }) => api.post('/rubrics', rubricData),
+  update: (id: string, rubricData: {
+    name?: string;
+    description?: string;
+    criteria?: Array<{ key: string; label: string; description?: string; weight: number }>;
+  }) => api.put(`/rubrics/${id}`, rubricData),
+  delete: (id: string) => api.delete(`/rubrics/${id}`),
+};
+
+// Interview template endpoints
+type InterviewTemplateData = {
+  name: string;
+  description?: string;
+  role: string;
+  sections: Array<{ techStack: string; questionCount: number }>;
+  difficultyMix: { easy: number; medium: number; hard: number };
+  mandatoryQuestions?: string[];
+  ordering?: 'sections' | 'difficulty' | 'random';
+};
+
+export const interviewTemplateAPI = {
+  getAll: (roleId?: string) => api.get(roleId ? `/interview-templates?role=${roleId}` : '/interview-templates'),
+  getById: (id: string) => api.get(`/interview-templates/${id}`),
+  create: (templateData: InterviewTemplateData) => api.post('/interview-templates', templateData),
+  update: (id: string, templateData: Partial<InterviewTemplateData>) =>
+    api.put(`/interview-templates/${id}`, templateData),
+  delete: (id: string) => api.delete(`/interview-templates/${id}`),
+};
+
 // Email endpoints
 export const emailAPI = {
   sendInvitation: (interviewId: string) => 
     api.post(`/email/send-invitation/${interviewId}`),
+  // Exchanges a single-use invitation token for a short-lived session token
   verifyToken: (interviewId: string, token: string) => 
-    api.get(`/email/verify-token/${interviewId}?token=${token}`)
+    api.get(`/email/verify-token/${interviewId}?token=${encodeURIComponent(token)}`),
+  // Latest invitation link sent for an interview; the token itself is never returned
+  getInvitation: (interviewId: string) =>
+    api.get(`/email/invitation/${interviewId}`),
+  revokeInvitation: (interviewId: string) =>
+    api.delete(`/email/invitation/${interviewId}`),
+  sendResults: (interviewId: string, message?: string) =>
+    api.post(`/email/results/${interviewId}`, { message }),
+  // Every email sent, with its delivery status
+  getOutbox: (params?: { status?: string; interview?: string; page?: number; limit?: number }) =>
+    api.get('/email/outbox', { params }),
+  retryEmail: (id: string) => api.post(`/email/outbox/${id}/retry`),
+  // Templates of the admin's company
+  getTemplates: () => api.get('/email/templates'),
+  updateTemplate: (type: string, templateData: { subject: string; html: string; brandColor?: string }) =>
+    api.put(`/email/templates/${type}`, templateData),
+  resetTemplate: (type: string) => api.delete(`/email/templates/${type}`),
+  // Renders the given template, or the saved one, with sample values
+  previewTemplate: (type: string, templateData?: { subject: string; html: string; brandColor?: string }) =>
+    api.post(`/email/templates/${type}/preview`, templateData)
+};
+
+// Candidate pipeline endpoints (Admin only)
+export type CandidateStage = 'applied' | 'screening' | 'interviewed' | 'offer' | 'rejected';
+
+type CandidateData = {
+  name: string;
+  email: string;
+  phone?: string;
+  stage?: CandidateStage;
+  notes?: string;
+};
+
+export const candidateAPI = {
+  getAll: (params?: { stage?: CandidateStage; search?: string }) => api.get('/candidates', { params }),
+  // The candidate with all of their interviews
+  getById: (id: string) => api.get(`/candidates/${id}`),
+  create: (candidateData: CandidateData) => api.post('/candidates', candidateData),
+  update: (id: string, candidateData: Partial<CandidateData>) => api.put(`/candidates/${id}`, candidateData),
+  delete: (id: string) => api.delete(`/candidates/${id}`),
+  // PDF, DOCX or TXT; the server extracts the text and the tech stacks it mentions
+  uploadResume: (id: string, resumeFile: File) => {
+    const formData = new FormData();
+    formData.append('resume', resumeFile);
+    // multipart/form-data makes axios send the FormData as is, with its boundary
+    return api.post(`/candidates/${id}/resume`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+  },
+  downloadResume: (id: string) =>
+    api.get<Blob>(`/candidates/${id}/resume`, { responseType: 'blob' }),
+};
+
+// Candidate self-scheduling endpoints
+export const schedulingAPI = {
+  // The current admin's upcoming availability windows
+  getAvailability: () => api.get('/scheduling/availability'),
+  createAvailability: (windowData: { startsAt: string; endsAt: string; timezone: string }) =>
+    api.post('/scheduling/availability', windowData),
+  deleteAvailability: (id: string) => api.delete(`/scheduling/availability/${id}`),
+  // Emails the candidate of an interview awaiting a slot a link to pick one
+  sendLink: (interviewId: string) => api.post(`/scheduling/${interviewId}/send-link`),
+  // Public: authorized by the token from the scheduling link
+  getSlots: (interviewId: string, token: string) =>
+    api.get(`/scheduling/${interviewId}/slots?token=${encodeURIComponent(token)}`),
+  bookSlot: (interviewId: string, slotData: { token: string; startsAt: string; candidateTimezone?: string }) =>
+    api.post(`/scheduling/${interviewId}/book`, slotData)
 };
 
 export default api;
\ No newline at end of file
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { CalendarPlus } from 'lucide-react';
+import { interviewAPI } from '@/api/index';
+
+interface AddToCalendarButtonProps {
+  interviewId: string;
+  className?: string;
+}
+
+// Downloads the interview as an .ics file that calendar apps can import
+const AddToCalendarButton: React.FC<AddToCalendarButtonProps> = ({ interviewId, className }) => {
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    try {
+      setIsDownloading(true);
+      const response = await interviewAPI.downloadCalendar(interviewId);
+
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `interview-${interviewId}.ics`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading calendar invitation:', error);
+      toast.error('Failed to download calendar invitation');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Button
+      onClick={handleDownload}
+      disabled={isDownloading}
+      variant="outline"
+      className={`flex items-center gap-2 ${className || ''}`}
+    >
+      <CalendarPlus size={16} />
+      {isDownloading ? 'Downloading...' : 'Add to Calendar'}
+    </Button>
+  );
+};
+
+export default AddToCalendarButton;
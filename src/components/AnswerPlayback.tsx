@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import AudioPlayer, { SeekRequest } from '@/components/AudioPlayer';
+import TranscriptViewer from '@/components/TranscriptViewer';
+import ReviewComments from '@/components/ReviewComments';
+import { AnswerComment } from '@/api';
+import { TranscriptWord } from '@/context/InterviewContext';
+
+interface AnswerPlaybackProps {
+  answerId: string;
+  audioUrl?: string;
+  transcript?: string;
+  transcriptWords?: TranscriptWord[];
+  onReloadAudio: (answerId: string) => void;
+  onReloadTranscript: (answerId: string) => Promise<void>;
+  onManualEntry: (answerId: string, transcript: string) => Promise<void>;
+  // Reviewer comments; left out for users who may not see them
+  comments?: AnswerComment[];
+  onAddComment?: (answerId: string, comment: { start: number; end: number; text: string }) => Promise<void>;
+  onDeleteComment?: (answerId: string, commentId: string) => Promise<void>;
+}
+
+// A recorded answer with its transcript kept in step with the recording,
+// and the reviewers' comments on it
+const AnswerPlayback: React.FC<AnswerPlaybackProps> = ({
+  answerId,
+  audioUrl,
+  transcript,
+  transcriptWords,
+  onReloadAudio,
+  onReloadTranscript,
+  onManualEntry,
+  comments,
+  onAddComment,
+  onDeleteComment
+}) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [seekRequest, setSeekRequest] = useState<SeekRequest>();
+
+  const seek = (seconds: number) => {
+    setSeekRequest(prev => ({ time: seconds, id: (prev?.id || 0) + 1 }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <AudioPlayer
+        audioUrl={audioUrl}
+        answerId={answerId}
+        onReload={onReloadAudio}
+        onTimeUpdate={setCurrentTime}
+        seekRequest={seekRequest}
+      />
+      <TranscriptViewer
+        transcript={transcript}
+        answerId={answerId}
+        onReload={onReloadTranscript}
+        onManualEntry={onManualEntry}
+        words={transcriptWords}
+        currentTime={currentTime}
+        onSeek={seek}
+        commentedRanges={comments}
+      />
+      {comments && onAddComment && onDeleteComment && audioUrl && (
+        <ReviewComments
+          comments={comments}
+          currentTime={currentTime}
+          onSeek={seek}
+          onAdd={comment => onAddComment(answerId, comment)}
+          onDelete={commentId => onDeleteComment(answerId, commentId)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AnswerPlayback;
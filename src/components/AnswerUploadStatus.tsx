@@ -0,0 +1,71 @@
+import React from 'react';
+import { AlertTriangle, CloudOff, Loader2, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AnswerQueueEntry } from '@/hooks/use-answer-queue';
+
+interface AnswerUploadStatusProps {
+  entries: AnswerQueueEntry[];
+  isOnline: boolean;
+  // Label of the question an entry answers, e.g. "Question 3"
+  labelFor: (entry: AnswerQueueEntry) => string;
+  // Send a rejected answer again, or give up on it
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const stageLabels: Record<AnswerQueueEntry['stage'], string> = {
+  waiting: 'Waiting to send',
+  saving: 'Saving answer',
+  uploading: 'Uploading recording',
+  retrying: 'Will try again',
+  rejected: 'Not accepted'
+};
+
+// Answers still on their way to the server. They are kept in the browser
+// until they arrive, so the candidate can go on with the interview. Answers
+// the server refused stay listed until they are sent again or discarded.
+const AnswerUploadStatus: React.FC<AnswerUploadStatusProps> = ({ entries, isOnline, labelFor, onRetry, onDiscard }) => {
+  if (entries.length === 0 && isOnline) return null;
+
+  return (
+    <div className="mb-4 p-3 rounded-md border bg-gray-50 text-sm space-y-2">
+      {!isOnline && (
+        <div className="flex items-center text-amber-700">
+          <CloudOff size={16} className="mr-2" />
+          You are offline. Your answers are kept on this device and sent once you are back online.
+        </div>
+      )}
+      {entries.map(entry => (
+        <div key={entry.id} className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{labelFor(entry)}</span>
+            <span className="flex items-center text-xs text-gray-500">
+              {entry.stage === 'rejected'
+                ? <AlertTriangle size={12} className="mr-1 text-red-600" />
+                : entry.stage === 'retrying'
+                  ? <RotateCw size={12} className="mr-1" />
+                  : <Loader2 size={12} className="mr-1 animate-spin" />}
+              {stageLabels[entry.stage]}
+              {entry.stage === 'uploading' && ` (${Math.round(entry.progress * 100)}%)`}
+            </span>
+          </div>
+          {entry.hasRecording && <Progress value={entry.progress * 100} className="h-1.5" />}
+          {entry.error && <p className="text-xs text-red-600">{entry.error}</p>}
+          {entry.stage === 'rejected' && (
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onRetry(entry.id)}>
+                Try again
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onDiscard(entry.id)}>
+                Discard
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AnswerUploadStatus;
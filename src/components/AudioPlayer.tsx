@@ -2,16 +2,29 @@ import React, { useState, useRef, useEffect } from 'react';
 import { toast } from 'sonner';
 import { RefreshCw, Play, Pause, Volume2, VolumeX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { formatTimestamp } from '@/lib/transcriptPhrases';
+
+// Asks the player to jump to a time and play from there; a new id repeats
+// the request for the same time
+export type SeekRequest = {
+  time: number;
+  id: number;
+};
 
 interface AudioPlayerProps {
   audioUrl?: string;
   answerId?: string;
   onReload?: (answerId: string) => void;
+  // Seconds into the recording, reported as it plays
+  onTimeUpdate?: (seconds: number) => void;
+  seekRequest?: SeekRequest;
 }
 
-const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, answerId, onReload }) => {
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, answerId, onReload, onTimeUpdate, seekRequest }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [currentUrl, setCurrentUrl] = useState<string | undefined>(audioUrl);
   const [attemptCount, setAttemptCount] = useState(0);
@@ -46,6 +59,29 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, answerId, onReload
     setAttemptCount(0);
   }, [audioUrl]);
 
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!seekRequest || !audio) return;
+
+    audio.currentTime = seekRequest.time;
+    audio.play().catch(err => {
+      console.error('Error playing audio:', err);
+      toast.error('Failed to play audio');
+    });
+  }, [seekRequest]);
+
+  const handleTimeUpdate = () => {
+    if (!audioRef.current) return;
+    setCurrentTime(audioRef.current.currentTime);
+    onTimeUpdate?.(audioRef.current.currentTime);
+  };
+
+  // Browser recordings often report no duration until played through
+  const handleDurationChange = () => {
+    const value = audioRef.current?.duration;
+    setDuration(value !== undefined && Number.isFinite(value) ? value : null);
+  };
+
   const handlePlayPause = () => {
     if (audioRef.current) {
       if (isPlaying) {
@@ -144,6 +180,10 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, answerId, onReload
         ref={audioRef} 
         src={currentUrl} 
         onEnded={() => setIsPlaying(false)}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onTimeUpdate={handleTimeUpdate}
+        onDurationChange={handleDurationChange}
         onError={handleError}
         className="hidden"
       />
@@ -166,6 +206,9 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioUrl, answerId, onReload
         >
           {isMuted ? <VolumeX size={16} /> : <Volume2 size={16} />}
         </Button>
+        <span className="text-xs text-gray-600 tabular-nums">
+          {formatTimestamp(currentTime)}{duration !== null && ` / ${formatTimestamp(duration)}`}
+        </span>
         <div className="text-xs text-gray-400 flex-grow truncate">
           {currentUrl && `URL: ${currentUrl.split('/').pop() || '...'}`}
         </div>
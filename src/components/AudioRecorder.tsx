@@ -194,8 +194,9 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         console.log('url audio', url);
         
         // Use the latest transcript from the ref instead of the state
-        // This ensures we get the most up-to-date transcript value
-        const finalTranscript = latestTranscriptRef.current || "[TRANSCRIPT FROM WEB SPEECH API NOT AVAILABLE]";
+        // This ensures we get the most up-to-date transcript value. Without
+        // one the recording is transcribed on the server when it is saved.
+        const finalTranscript = latestTranscriptRef.current;
         console.log('Recording complete. Latest transcript from ref:', finalTranscript);
         onRecordingComplete(audioBlob, finalTranscript);
       };
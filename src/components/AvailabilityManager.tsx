@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { schedulingAPI } from '@/api';
+import {
+  formatInTimeZone,
+  getBrowserTimeZone,
+  getTimeZoneOptions,
+  zonedTimeToUtc
+} from '@/lib/timezones';
+
+type AvailabilityWindow = {
+  _id: string;
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+};
+
+// Times the current admin is free for interviews. Candidates sent a
+// scheduling link pick a slot from the parts no interview takes up yet.
+const AvailabilityManager = () => {
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('17:00');
+  const [timezone, setTimezone] = useState(getBrowserTimeZone());
+
+  const fetchWindows = async () => {
+    setIsLoading(true);
+    try {
+      const response = await schedulingAPI.getAvailability();
+      setWindows(response.data?.data || []);
+    } catch (error) {
+      console.error('Error fetching availability:', error);
+      toast.error('Failed to fetch availability');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWindows();
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date || !startTime || !endTime) {
+      toast.error('Please pick a date, start and end time');
+      return;
+    }
+
+    const startsAt = zonedTimeToUtc(date, startTime, timezone);
+    const endsAt = zonedTimeToUtc(date, endTime, timezone);
+    if (endsAt <= startsAt) {
+      toast.error('The window must end after it starts');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await schedulingAPI.createAvailability({
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt.toISOString(),
+        timezone
+      });
+      toast.success('Availability added');
+      setDate('');
+      fetchWindows();
+    } catch (error) {
+      console.error('Error adding availability:', error);
+      toast.error(axios.isAxiosError(error) && error.response?.data?.error
+        ? error.response.data.error
+        : 'Failed to add availability');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (availability: AvailabilityWindow) => {
+    try {
+      await schedulingAPI.deleteAvailability(availability._id);
+      setWindows(prev => prev.filter(item => item._id !== availability._id));
+      toast.success('Availability removed');
+    } catch (error) {
+      console.error('Error removing availability:', error);
+      toast.error('Failed to remove availability');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>My Availability</CardTitle>
+        <CardDescription>
+          Candidates asked to pick a slot choose from the free times in these windows.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAdd} className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <div>
+              <Label htmlFor="availability-date">Date</Label>
+              <Input
+                id="availability-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="availability-start">From</Label>
+              <Input
+                id="availability-start"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="availability-end">Until</Label>
+              <Input
+                id="availability-end"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Select value={timezone} onValueChange={setTimezone}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select time zone" />
+              </SelectTrigger>
+              <SelectContent>
+                {getTimeZoneOptions(getBrowserTimeZone(), timezone).map(zone => (
+                  <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Adding...' : 'Add'}
+            </Button>
+          </div>
+        </form>
+
+        {windows.length === 0 ? (
+          <p className="text-sm text-gray-500">{isLoading ? 'Loading...' : 'No upcoming availability'}</p>
+        ) : (
+          <div className="space-y-2">
+            {windows.map(availability => (
+              <div key={availability._id} className="flex items-center justify-between p-3 border rounded-md">
+                <p className="text-sm">
+                  {formatInTimeZone(availability.startsAt, availability.timezone, { dateStyle: 'medium', timeStyle: 'short' })}
+                  {' – '}
+                  {formatInTimeZone(availability.endsAt, availability.timezone, { timeStyle: 'short' })}
+                </p>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(availability)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AvailabilityManager;
@@ -0,0 +1,452 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, ChevronRight, Download, FileText, Search, Trash2, Upload, UserPlus } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { candidateAPI, CandidateStage } from '@/api';
+import { formatInTimeZone } from '@/lib/timezones';
+
+type PipelineCandidate = {
+  _id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  resumeFileName?: string;
+  resumeSkills?: ResumeSkill[];
+  resumeUploadedAt?: string;
+  stage: CandidateStage;
+  notes?: string;
+  interviewCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type ResumeSkill = {
+  techStack: string;
+  name: string;
+  mentions: number;
+};
+
+type CandidateInterview = {
+  _id: string;
+  status: string;
+  startsAt?: string;
+  role?: { name: string };
+  techStack?: { name: string };
+};
+
+const STAGES: CandidateStage[] = ['applied', 'screening', 'interviewed', 'offer', 'rejected'];
+
+const stageStyles: Record<CandidateStage, string> = {
+  applied: 'bg-gray-100 text-gray-800',
+  screening: 'bg-blue-100 text-blue-800',
+  interviewed: 'bg-purple-100 text-purple-800',
+  offer: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+const emptyCandidate = { name: '', email: '', phone: '' };
+
+// The hiring pipeline: every candidate, the stage they are at and their
+// interviews. Scheduling an interview moves a candidate to screening, and
+// completing one to interviewed.
+const CandidatePipeline = () => {
+  const [candidates, setCandidates] = useState<PipelineCandidate[]>([]);
+  const [stageCounts, setStageCounts] = useState<Partial<Record<CandidateStage, number>>>({});
+  const [stageFilter, setStageFilter] = useState<CandidateStage | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [newCandidate, setNewCandidate] = useState(emptyCandidate);
+  const [isAdding, setIsAdding] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [interviews, setInterviews] = useState<CandidateInterview[]>([]);
+  const [notes, setNotes] = useState('');
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+
+  const fetchCandidates = async () => {
+    setIsLoading(true);
+    try {
+      const response = await candidateAPI.getAll({
+        stage: stageFilter === 'all' ? undefined : stageFilter,
+        search: search.trim() || undefined
+      });
+      setCandidates(response.data?.data || []);
+      setStageCounts(response.data?.stages || {});
+    } catch (error) {
+      console.error('Error fetching candidates:', error);
+      toast.error('Failed to fetch candidates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCandidates();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stageFilter]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchCandidates();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCandidate.name.trim() || !newCandidate.email.trim()) {
+      toast.error('Please enter a name and email');
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      await candidateAPI.create({
+        name: newCandidate.name.trim(),
+        email: newCandidate.email.trim(),
+        phone: newCandidate.phone.trim() || undefined
+      });
+      toast.success('Candidate added');
+      setNewCandidate(emptyCandidate);
+      fetchCandidates();
+    } catch (error) {
+      console.error('Error adding candidate:', error);
+      toast.error('Failed to add candidate. A candidate with this email may already exist.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleStageChange = async (candidate: PipelineCandidate, stage: CandidateStage) => {
+    try {
+      await candidateAPI.update(candidate._id, { stage });
+      toast.success(`${candidate.name} moved to ${stage}`);
+      fetchCandidates();
+    } catch (error) {
+      console.error('Error updating candidate stage:', error);
+      toast.error('Failed to update stage');
+    }
+  };
+
+  const handleToggle = async (candidate: PipelineCandidate) => {
+    if (expandedId === candidate._id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(candidate._id);
+    setInterviews([]);
+    setNotes(candidate.notes || '');
+    try {
+      const response = await candidateAPI.getById(candidate._id);
+      setInterviews(response.data?.data?.interviews || []);
+    } catch (error) {
+      console.error('Error fetching candidate interviews:', error);
+      toast.error('Failed to fetch interviews');
+    }
+  };
+
+  const handleSaveNotes = async (candidate: PipelineCandidate) => {
+    try {
+      await candidateAPI.update(candidate._id, { notes });
+      setCandidates(prev => prev.map(item => (item._id === candidate._id ? { ...item, notes } : item)));
+      toast.success('Notes saved');
+    } catch (error) {
+      console.error('Error saving notes:', error);
+      toast.error('Failed to save notes');
+    }
+  };
+
+  const handleResumeUpload = async (candidate: PipelineCandidate, file?: File) => {
+    if (!file) return;
+
+    setUploadingId(candidate._id);
+    try {
+      const response = await candidateAPI.uploadResume(candidate._id, file);
+      const updated: PipelineCandidate = response.data.data;
+      setCandidates(prev => prev.map(item => (item._id === candidate._id ? { ...item, ...updated } : item)));
+      toast.success(updated.resumeSkills?.length
+        ? `Resume uploaded. Found ${updated.resumeSkills.map(skill => skill.name).join(', ')}.`
+        : 'Resume uploaded. It mentions none of the tech stacks.');
+    } catch (error) {
+      console.error('Error uploading resume:', error);
+      toast.error(axios.isAxiosError(error) && error.response?.status === 400
+        ? 'Failed to upload resume. Upload a PDF, DOCX or TXT file with text in it.'
+        : 'Failed to upload resume');
+    } finally {
+      setUploadingId(null);
+    }
+  };
+
+  const handleResumeDownload = async (candidate: PipelineCandidate) => {
+    try {
+      const response = await candidateAPI.downloadResume(candidate._id);
+
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = candidate.resumeFileName || 'resume';
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading resume:', error);
+      toast.error('Failed to download resume');
+    }
+  };
+
+  const handleDelete = async (candidate: PipelineCandidate) => {
+    if (!confirm(`Delete ${candidate.name}?`)) return;
+
+    try {
+      await candidateAPI.delete(candidate._id);
+      toast.success('Candidate deleted');
+      fetchCandidates();
+    } catch (error) {
+      console.error('Error deleting candidate:', error);
+      toast.error('Failed to delete candidate. Candidates with interviews can only be rejected.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Candidates</CardTitle>
+        <CardDescription>
+          Everyone in the hiring pipeline. Schedule interviews for them from the Interviews tab.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+          <div>
+            <Label htmlFor="candidate-name">Name</Label>
+            <Input
+              id="candidate-name"
+              value={newCandidate.name}
+              onChange={(e) => setNewCandidate({ ...newCandidate, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="candidate-email">Email</Label>
+            <Input
+              id="candidate-email"
+              type="email"
+              value={newCandidate.email}
+              onChange={(e) => setNewCandidate({ ...newCandidate, email: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="candidate-phone">Phone</Label>
+            <Input
+              id="candidate-phone"
+              value={newCandidate.phone}
+              onChange={(e) => setNewCandidate({ ...newCandidate, phone: e.target.value })}
+            />
+          </div>
+          <Button type="submit" disabled={isAdding}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            {isAdding ? 'Adding...' : 'Add Candidate'}
+          </Button>
+        </form>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-4">
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant={stageFilter === 'all' ? 'default' : 'outline'}
+              onClick={() => setStageFilter('all')}
+            >
+              All
+            </Button>
+            {STAGES.map(stage => (
+              <Button
+                key={stage}
+                size="sm"
+                variant={stageFilter === stage ? 'default' : 'outline'}
+                className="capitalize"
+                onClick={() => setStageFilter(stage)}
+              >
+                {stage} ({stageCounts[stage] || 0})
+              </Button>
+            ))}
+          </div>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              placeholder="Search name or email"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-56"
+            />
+            <Button type="submit" variant="outline" size="icon">
+              <Search className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+
+        {candidates.length === 0 ? (
+          <p className="text-sm text-gray-500">{isLoading ? 'Loading...' : 'No candidates found'}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                <TableHead>Candidate</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Interviews</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {candidates.map(candidate => (
+                <React.Fragment key={candidate._id}>
+                  <TableRow>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleToggle(candidate)}>
+                        {expandedId === candidate._id
+                          ? <ChevronDown className="h-4 w-4" />
+                          : <ChevronRight className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{candidate.name}</p>
+                      <p className="text-sm text-gray-500">{candidate.email}</p>
+                    </TableCell>
+                    <TableCell>{candidate.phone || '-'}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={candidate.stage}
+                        onValueChange={(value) => handleStageChange(candidate, value as CandidateStage)}
+                      >
+                        <SelectTrigger className={`w-36 capitalize ${stageStyles[candidate.stage]}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STAGES.map(stage => (
+                            <SelectItem key={stage} value={stage} className="capitalize">{stage}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>{candidate.interviewCount}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(candidate)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {expandedId === candidate._id && (
+                    <TableRow>
+                      <TableCell></TableCell>
+                      <TableCell colSpan={5}>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-2">
+                          <div>
+                            <p className="font-medium mb-2">Interviews</p>
+                            {interviews.length === 0 ? (
+                              <p className="text-sm text-gray-500">No interviews yet</p>
+                            ) : (
+                              <ul className="space-y-2">
+                                {interviews.map(interview => (
+                                  <li key={interview._id} className="text-sm">
+                                    <Link to={`/interview-details/${interview._id}`} className="text-interview-primary hover:underline">
+                                      {interview.role?.name || interview.techStack?.name || 'Interview'}
+                                    </Link>
+                                    {' – '}
+                                    {interview.startsAt ? formatInTimeZone(interview.startsAt) : 'Time not picked yet'}
+                                    <span className="ml-2 capitalize text-gray-500">{interview.status}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                          <div className="space-y-2">
+                            <p className="font-medium">Resume</p>
+                            {candidate.resumeFileName ? (
+                              <>
+                                <Button
+                                  variant="link"
+                                  className="h-auto p-0"
+                                  onClick={() => handleResumeDownload(candidate)}
+                                >
+                                  <FileText className="h-4 w-4 mr-1" />
+                                  {candidate.resumeFileName}
+                                  <Download className="h-4 w-4 ml-1" />
+                                </Button>
+                                {candidate.resumeUploadedAt && (
+                                  <p className="text-xs text-gray-500">
+                                    Uploaded {formatInTimeZone(candidate.resumeUploadedAt)}
+                                  </p>
+                                )}
+                                <div className="flex flex-wrap gap-1">
+                                  {(candidate.resumeSkills || []).length === 0 ? (
+                                    <span className="text-sm text-gray-500">Mentions none of the tech stacks</span>
+                                  ) : (
+                                    candidate.resumeSkills?.map(skill => (
+                                      <span
+                                        key={skill.techStack}
+                                        className="px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800"
+                                        title={`Mentioned ${skill.mentions} time${skill.mentions === 1 ? '' : 's'}`}
+                                      >
+                                        {skill.name}
+                                      </span>
+                                    ))
+                                  )}
+                                </div>
+                              </>
+                            ) : (
+                              <p className="text-sm text-gray-500">No resume yet</p>
+                            )}
+                            <Label
+                              htmlFor={`resume-${candidate._id}`}
+                              className="inline-flex items-center text-sm text-interview-primary cursor-pointer hover:underline"
+                            >
+                              <Upload className="h-4 w-4 mr-1" />
+                              {uploadingId === candidate._id
+                                ? 'Uploading...'
+                                : candidate.resumeFileName ? 'Replace resume' : 'Upload resume'}
+                            </Label>
+                            <input
+                              id={`resume-${candidate._id}`}
+                              type="file"
+                              accept=".pdf,.docx,.txt"
+                              className="hidden"
+                              disabled={uploadingId === candidate._id}
+                              onChange={(e) => {
+                                handleResumeUpload(candidate, e.target.files?.[0]);
+                                e.target.value = '';
+                              }}
+                            />
+                          </div>
+                          <div className="space-y-2 md:col-span-2">
+                            <Label htmlFor={`notes-${candidate._id}`}>Notes</Label>
+                            <Textarea
+                              id={`notes-${candidate._id}`}
+                              value={notes}
+                              onChange={(e) => setNotes(e.target.value)}
+                              rows={4}
+                            />
+                            <Button size="sm" variant="outline" onClick={() => handleSaveNotes(candidate)}>
+                              Save Notes
+                            </Button>
+                          </div>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CandidatePipeline;
@@ -1,12 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import Editor from '@monaco-editor/react';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CodeLanguageOption, getCodeLanguage } from '@/lib/codeLanguages';
 
 interface CodeEditorProps {
   initialValue?: string;
   onChange?: (value: string) => void;
   onSave?: (value: string) => void;
   height?: string;
+  language?: string;
+  // Languages to offer in the picker; the picker is hidden without onLanguageChange
+  languages?: CodeLanguageOption[];
+  onLanguageChange?: (language: string) => void;
+  readOnly?: boolean;
+  title?: string;
 }
 
 const CodeEditor: React.FC<CodeEditorProps> = ({
@@ -14,6 +22,11 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   onChange,
   onSave,
   height = '400px',
+  language = 'javascript',
+  languages = [],
+  onLanguageChange,
+  readOnly = false,
+  title = 'Code Editor',
 }) => {
   const [code, setCode] = useState(initialValue);
   
@@ -42,16 +55,33 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   return (
     <div className="flex flex-col gap-4 w-full">
       <div className="flex justify-between items-center">
-        <h3 className="text-lg font-medium">Code Editor</h3>
+        <h3 className="text-lg font-medium">{title}</h3>
+        {onLanguageChange && languages.length > 1 ? (
+          <Select value={language} onValueChange={onLanguageChange}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Language" />
+            </SelectTrigger>
+            <SelectContent>
+              {languages.map(option => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span className="text-sm text-muted-foreground">{getCodeLanguage(language).label}</span>
+        )}
       </div>
       <Editor
         height={height}
-        language="javascript"
+        language={language}
         value={code}
         onChange={handleEditorChange}
         theme="vs-dark"
         options={{
           minimap: { enabled: false },
+          readOnly,
           scrollBeyondLastLine: false,
           fontSize: 14,
           wordWrap: 'on',
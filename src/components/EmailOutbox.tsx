@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { emailAPI } from '@/api';
+
+type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+type OutboxEmail = {
+  _id: string;
+  type: string;
+  to: string[];
+  subject: string;
+  status: OutboxStatus;
+  transport?: string;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  // Carried a single-use link, which is not kept once sending fails
+  sensitive?: boolean;
+  sentAt?: string;
+  createdAt: string;
+};
+
+const statusStyles: Record<OutboxStatus, string> = {
+  queued: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+// Emails the app sent or is still trying to send
+const EmailOutbox = () => {
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [total, setTotal] = useState(0);
+  const [transport, setTransport] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [isLoading, setIsLoading] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const fetchOutbox = async () => {
+    setIsLoading(true);
+    try {
+      const response = await emailAPI.getOutbox(statusFilter === 'all' ? undefined : { status: statusFilter });
+      setEmails(response.data?.data || []);
+      setTotal(response.data?.total || 0);
+      setTransport(response.data?.transport || '');
+    } catch (error) {
+      console.error('Error fetching email outbox:', error);
+      toast.error('Failed to fetch email outbox');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOutbox();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  const handleRetry = async (email: OutboxEmail) => {
+    setRetryingId(email._id);
+    try {
+      const response = await emailAPI.retryEmail(email._id);
+      if (response.data?.data?.status === 'sent') {
+        toast.success('Email sent');
+      } else {
+        toast.error('Sending failed again');
+      }
+      fetchOutbox();
+    } catch (error) {
+      console.error('Error retrying email:', error);
+      toast.error('Failed to retry email');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Email Outbox</CardTitle>
+            <CardDescription>
+              Every email sent to candidates{transport ? `, delivered through ${transport}` : ''}. Failed deliveries are retried automatically.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="queued">Queued</SelectItem>
+                <SelectItem value="sending">Sending</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={fetchOutbox} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {emails.length === 0 ? (
+          <p className="text-sm text-gray-500">{isLoading ? 'Loading...' : 'No emails yet'}</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {emails.map(email => (
+                  <TableRow key={email._id}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(email.createdAt), 'PP p')}</TableCell>
+                    <TableCell className="capitalize">{email.type}</TableCell>
+                    <TableCell>{email.to.join(', ')}</TableCell>
+                    <TableCell>{email.subject}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`capitalize ${statusStyles[email.status]}`}>{email.status}</Badge>
+                      {email.lastError && email.status !== 'sent' && (
+                        <p className="text-xs text-red-600 mt-1">{email.lastError}</p>
+                      )}
+                      {email.status === 'queued' && email.attempts > 0 && email.nextAttemptAt && (
+                        <p className="text-xs text-gray-500 mt-1">Next attempt {format(new Date(email.nextAttemptAt), 'p')}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{email.attempts} / {email.maxAttempts}</TableCell>
+                    <TableCell>
+                      {email.status === 'failed' && email.sensitive && (
+                        <p className="text-xs text-gray-500">Send a new link from the interview</p>
+                      )}
+                      {email.status === 'failed' && !email.sensitive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRetry(email)}
+                          disabled={retryingId === email._id}
+                        >
+                          {retryingId === email._id ? 'Retrying...' : 'Retry'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {total > emails.length && (
+              <p className="text-xs text-gray-500 mt-2">Showing the latest {emails.length} of {total} emails</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailOutbox;
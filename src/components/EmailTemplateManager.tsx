@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { emailAPI } from '@/api';
+
+type EmailTemplate = {
+  type: string;
+  company: string;
+  subject: string;
+  html: string;
+  brandColor?: string;
+  isDefault: boolean;
+  variables: string[];
+};
+
+const TEMPLATE_LABELS: Record<string, string> = {
+  invitation: 'Invitation',
+  reschedule: 'Reschedule',
+  reminder: 'Reminder',
+  cancellation: 'Cancellation',
+  results: 'Results',
+  'no-show': 'No-show (to admin)',
+  'slot-invitation': 'Pick a slot'
+};
+
+// Edit the emails candidates receive. Templates use {{name}} for values,
+// {{#name}}...{{/name}} for optional parts and {{^name}}...{{/name}} for
+// their alternative.
+const EmailTemplateManager = () => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [company, setCompany] = useState('');
+  const [selectedType, setSelectedType] = useState('invitation');
+  const [subject, setSubject] = useState('');
+  const [html, setHtml] = useState('');
+  const [brandColor, setBrandColor] = useState('');
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const selectedTemplate = templates.find(template => template.type === selectedType);
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await emailAPI.getTemplates();
+      setTemplates(response.data?.data || []);
+      setCompany(response.data?.company || '');
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+      toast.error('Failed to fetch email templates');
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    if (selectedTemplate) {
+      setSubject(selectedTemplate.subject);
+      setHtml(selectedTemplate.html);
+      setBrandColor(selectedTemplate.brandColor || '');
+      setPreview(null);
+    }
+  }, [selectedTemplate]);
+
+  const templateData = () => ({ subject, html, brandColor: brandColor.trim() || undefined });
+
+  const handlePreview = async () => {
+    try {
+      const response = await emailAPI.previewTemplate(selectedType, templateData());
+      setPreview(response.data?.data || null);
+    } catch (error) {
+      console.error('Error previewing email template:', error);
+      toast.error('Failed to preview template');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!subject.trim() || !html.trim()) {
+      toast.error('Please enter a subject and a body');
+      return;
+    }
+
+    if (brandColor.trim() && !/^#[0-9a-fA-F]{6}$/.test(brandColor.trim())) {
+      toast.error('Please use a hex color such as #4f46e5');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await emailAPI.updateTemplate(selectedType, templateData());
+      toast.success('Email template saved');
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error saving email template:', error);
+      toast.error('Failed to save email template');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Discard your changes to this template and go back to the default?')) return;
+
+    setIsLoading(true);
+    try {
+      await emailAPI.resetTemplate(selectedType);
+      toast.success('Email template reset');
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error resetting email template:', error);
+      toast.error('Failed to reset email template');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Templates</CardTitle>
+        <CardDescription>
+          {company
+            ? `Emails sent to candidates on behalf of ${company}.`
+            : 'Emails sent to candidates. Set a company on your account to give it its own templates.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Select value={selectedType} onValueChange={setSelectedType}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.type} value={template.type}>
+                    {TEMPLATE_LABELS[template.type] || template.type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedTemplate && (
+              <Badge variant="secondary">
+                {selectedTemplate.isDefault
+                  ? 'Built-in template'
+                  : selectedTemplate.company ? `${selectedTemplate.company} template` : 'Shared template'}
+              </Badge>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email-template-subject">Subject</Label>
+            <Input
+              id="email-template-subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email-template-color">Brand Color</Label>
+            <Input
+              id="email-template-color"
+              className="w-40"
+              placeholder="#4f46e5"
+              value={brandColor}
+              onChange={(e) => setBrandColor(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email-template-html">Body (HTML)</Label>
+            <Textarea
+              id="email-template-html"
+              className="font-mono text-xs"
+              rows={16}
+              value={html}
+              onChange={(e) => setHtml(e.target.value)}
+            />
+            {selectedTemplate && (
+              <div className="flex flex-wrap gap-1">
+                {selectedTemplate.variables.map(variable => (
+                  <Badge key={variable} variant="outline" className="font-mono">{`{{${variable}}}`}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            {selectedTemplate && !selectedTemplate.isDefault && selectedTemplate.company === company && (
+              <Button type="button" variant="outline" onClick={handleReset} disabled={isLoading}>
+                Reset to Default
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={handlePreview} disabled={isLoading}>
+              Preview
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              Save Template
+            </Button>
+          </div>
+        </form>
+
+        {preview && (
+          <div className="mt-6 space-y-2">
+            <p className="text-sm"><span className="font-medium">Subject:</span> {preview.subject}</p>
+            {/* Sandboxed so template markup cannot run scripts in the app */}
+            <iframe
+              title="Email preview"
+              sandbox=""
+              srcDoc={preview.html}
+              className="w-full h-[500px] border rounded-md bg-white"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailTemplateManager;
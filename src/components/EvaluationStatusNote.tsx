@@ -0,0 +1,61 @@
+import React from 'react';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AnswerEvaluationStatus } from '@/api';
+import { EvaluationStatus } from '@/context/InterviewContext';
+import { isEvaluationUnderWay } from '@/lib/evaluationStatus';
+
+interface EvaluationStatusNoteProps {
+  status?: EvaluationStatus;
+  error?: string;
+  // Latest progress reported by the server, if the report has asked for it
+  progress?: AnswerEvaluationStatus;
+  // Only given to admins, who may have the answer evaluated again
+  onReEvaluate?: () => void;
+  isRequesting?: boolean;
+}
+
+// How far the background evaluation of an answer has got. Nothing is shown
+// for answers evaluated without trouble, apart from the admin's button.
+const EvaluationStatusNote: React.FC<EvaluationStatusNoteProps> = ({ status, error, progress, onReEvaluate, isRequesting }) => {
+  const currentStatus = progress?.status || status;
+  const currentError = progress ? progress.error : error;
+
+  let note: React.ReactNode = null;
+  if (currentStatus === 'running') {
+    note = 'Evaluating this answer...';
+  } else if (currentStatus === 'queued') {
+    note = progress && progress.attempts > 0
+      ? `Attempt ${progress.attempts} of ${progress.maxAttempts} failed${currentError ? `: ${currentError}` : ''}. It will be tried again${progress.nextAttemptAt ? ` at ${new Date(progress.nextAttemptAt).toLocaleTimeString()}` : ''}.`
+      : 'Waiting to be evaluated...';
+  }
+
+  return (
+    <>
+      {note && (
+        <div className="p-3 bg-blue-50 text-blue-800 rounded-lg text-sm flex items-start">
+          <Loader2 size={16} className="mr-2 mt-0.5 flex-shrink-0 animate-spin" />
+          <span>{note}</span>
+        </div>
+      )}
+
+      {currentStatus === 'failed' && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm flex items-start">
+          <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            Automatic evaluation failed{currentError ? `: ${currentError}` : ''}. This answer is excluded from the averages.
+          </span>
+        </div>
+      )}
+
+      {onReEvaluate && !isEvaluationUnderWay(currentStatus) && (
+        <Button variant="outline" size="sm" onClick={onReEvaluate} disabled={isRequesting}>
+          <RefreshCw size={14} className="mr-1" />
+          Re-evaluate
+        </Button>
+      )}
+    </>
+  );
+};
+
+export default EvaluationStatusNote;
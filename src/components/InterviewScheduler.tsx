@@ -6,24 +6,55 @@ import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Form, FormControl, FormField, FormItem, FormLabel } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { CalendarClock, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useForm } from 'react-hook-form';
+import axios from 'axios';
 import { toast } from 'sonner';
 import { useInterview } from '@/context/InterviewContext';
-import { interviewAPI, userAPI, roleAPI, emailAPI } from '@/api/index';
+import { interviewAPI, candidateAPI, roleAPI, emailAPI, interviewTemplateAPI, schedulingAPI } from '@/api/index';
 import { Badge } from '@/components/ui/badge';
+import {
+  DEFAULT_JOIN_WINDOW,
+  formatInTimeZone,
+  getBrowserTimeZone,
+  getTimeZoneOptions,
+  zonedTimeToUtc
+} from '@/lib/timezones';
+import { TRANSCRIPTION_LANGUAGES } from '@/lib/transcriptionLanguages';
 
 type ScheduleFormData = {
-  candidateId: string; // ObjectId of the candidate
+  candidateId: string; // ObjectId of the candidate in the pipeline
   roleId: string; // ObjectId of the role
   techStackIds: string[]; // Array of tech stack ObjectIds
+  templateId: string; // ObjectId of the interview template, or 'none'
+  adaptive: boolean; // Pick each question's difficulty from the scores so far
+  questionCount: number; // Number of questions in adaptive mode
+  candidatePicksSlot: boolean; // Email the candidate a link to pick a free slot instead
+  resumeQuestions: boolean; // Add questions generated from the candidate's resume
+  resumeQuestionCount: number; // Number of resume questions
   datetime: {
     date: string | Date;
     time: string;
   };
+  interviewerTimezone: string; // The date and time are read in this zone
+  candidateTimezone: string; // Zone the candidate's emails show times in
+  joinEarlyMinutes: number; // Minutes before the start the candidate may join
+  joinLateMinutes: number; // Minutes after the start the candidate may still join
+  transcriptionLanguage: string; // ISO 639-1 code of the candidate's answers, or 'default'
+};
+
+type Candidate = {
+  _id: string;
+  name: string;
+  email: string;
+  stage: string;
+  resumeFileName?: string;
+  // Tech stacks the resume mentions, most mentioned first
+  resumeSkills?: { techStack: string; name: string; mentions: number }[];
 };
 
 type Role = {
@@ -39,6 +70,38 @@ type TechStack = {
   description: string;
 };
 
+type InterviewTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  sections: {
+    techStackId: string;
+    techStackName: string;
+    questionCount: number;
+  }[];
+};
+
+type ApiInterviewTemplate = {
+  _id: string;
+  name: string;
+  description?: string;
+  sections: {
+    techStack: string | { _id: string; name: string };
+    questionCount: number;
+  }[];
+};
+
+const NO_TEMPLATE = 'none';
+const DEFAULT_LANGUAGE = 'default';
+
+// The start instant the picked date and time name in the interviewer's zone
+const getStartsAt = (data: ScheduleFormData): Date | null => {
+  const { date, time } = data.datetime || {};
+  if (!date || !time) return null;
+  const day = format(typeof date === 'string' ? new Date(date) : date, 'yyyy-MM-dd');
+  return zonedTimeToUtc(day, time, data.interviewerTimezone);
+};
+
 const InterviewScheduler = () => {
   const { availableTechStacks, refreshTechStacks } = useInterview();
   const { refreshInterview } = useInterview();
@@ -46,21 +109,33 @@ const InterviewScheduler = () => {
   const [roles, setRoles] = useState<Role[]>([]);
   const [selectedTechStacks, setSelectedTechStacks] = useState<string[]>([]);
   const [availableTechStacksForRole, setAvailableTechStacksForRole] = useState<TechStack[]>([]);
+  const [templates, setTemplates] = useState<InterviewTemplate[]>([]);
   
   const form = useForm<ScheduleFormData>({
     defaultValues: {
       candidateId: '',
       roleId: '',
       techStackIds: [],
+      templateId: NO_TEMPLATE,
+      adaptive: false,
+      questionCount: 10,
+      candidatePicksSlot: false,
+      resumeQuestions: false,
+      resumeQuestionCount: 3,
       datetime: {
         date: undefined,
         time: ''
-      }
+      },
+      interviewerTimezone: getBrowserTimeZone(),
+      candidateTimezone: getBrowserTimeZone(),
+      joinEarlyMinutes: DEFAULT_JOIN_WINDOW.earlyMinutes,
+      joinLateMinutes: DEFAULT_JOIN_WINDOW.lateMinutes,
+      transcriptionLanguage: DEFAULT_LANGUAGE
     }
   });
 
   // Candidate state
-  const [candidates, setCandidates] = useState<any[]>([]);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
   
   // Fetch candidates, roles, and tech stacks on component mount
   useEffect(() => {
@@ -78,8 +153,9 @@ const InterviewScheduler = () => {
   
   const fetchCandidates = async () => {
     try {
-      const res = await userAPI.getAll();
-      setCandidates(res.data.data || []);
+      const res = await candidateAPI.getAll();
+      // Rejected candidates are not interviewed again
+      setCandidates((res.data.data || []).filter((candidate: Candidate) => candidate.stage !== 'rejected'));
     } catch (error) {
       console.error('Error fetching candidates:', error);
       toast.error('Failed to fetch candidates');
@@ -108,9 +184,35 @@ const InterviewScheduler = () => {
     }
   };
   
+  const fetchTemplates = async (roleId: string) => {
+    try {
+      const res = await interviewTemplateAPI.getAll(roleId);
+      if (res.data && res.data.data) {
+        const templatesData = res.data.data.map((template: ApiInterviewTemplate) => ({
+          id: template._id,
+          name: template.name,
+          description: template.description || '',
+          sections: template.sections.map(section => ({
+            techStackId: typeof section.techStack === 'object' ? section.techStack._id : section.techStack,
+            techStackName: typeof section.techStack === 'object' ? section.techStack.name : 'Unknown',
+            questionCount: section.questionCount
+          }))
+        }));
+        setTemplates(templatesData);
+      }
+    } catch (error) {
+      console.error('Error fetching interview templates:', error);
+      toast.error('Failed to fetch interview templates');
+    }
+  };
+  
   // Update role selection without filtering tech stacks
   const handleRoleChange = (roleId: string) => {
     form.setValue('roleId', roleId);
+    // Templates belong to a role, so the chosen one no longer applies
+    form.setValue('templateId', NO_TEMPLATE);
+    setTemplates([]);
+    fetchTemplates(roleId);
     // Don't reset tech stack selection when role changes
     // form.setValue('techStackIds', []);
     // setSelectedTechStacks([]);
@@ -130,70 +232,128 @@ const InterviewScheduler = () => {
   };
 
 
+  const selectedTemplate = templates.find(template => template.id === form.watch('templateId'));
+  const selectedCandidate = candidates.find(candidate => candidate._id === form.watch('candidateId'));
+  // Resume questions are added to a fixed set, which adaptive interviews do not have
+  const canAddResumeQuestions = !!selectedCandidate?.resumeFileName && (!!selectedTemplate || !form.watch('adaptive'));
+  // Stacks mentioned in the resume that can be picked for the interview
+  const resumeStackIds = (selectedCandidate?.resumeSkills || [])
+    .map(skill => skill.techStack)
+    .filter(stackId => availableTechStacksForRole.some(stack => stack.id === stackId));
+
+  const handleUseResumeStacks = () => {
+    const updatedSelection = Array.from(new Set([...selectedTechStacks, ...resumeStackIds]));
+    setSelectedTechStacks(updatedSelection);
+    form.setValue('techStackIds', updatedSelection);
+  };
+
   const handleSubmit = async (data: ScheduleFormData) => {
     try {
+      // A template decides the tech stacks itself
+      const techStackIds = selectedTemplate
+        ? selectedTemplate.sections.map(section => section.techStackId)
+        : data.techStackIds;
+
       // Validate that at least one tech stack is selected
-      if (!data.techStackIds || data.techStackIds.length === 0) {
+      if (!techStackIds || techStackIds.length === 0) {
         toast.error('Please select at least one tech stack');
         return;
       }
 
+      if (!selectedTemplate && data.adaptive && !(Number(data.questionCount) >= 1)) {
+        toast.error('An adaptive interview needs at least one question');
+        return;
+      }
+
+      const resumeQuestionCount = canAddResumeQuestions && data.resumeQuestions
+        ? Number(data.resumeQuestionCount)
+        : 0;
+      if (canAddResumeQuestions && data.resumeQuestions && !(resumeQuestionCount >= 1 && resumeQuestionCount <= 10)) {
+        toast.error('Please ask between 1 and 10 resume questions');
+        return;
+      }
+
       // Debug: log the date and time being submitted
       console.log('Submitting datetime:', data.datetime);
-      // Combine date and time into a single ISO string
-      const { date, time } = data.datetime;
-      let scheduledDate: string;
-      if (date && time) {
-        // date is a Date object or string
-        const dateObj = typeof date === 'string' ? new Date(date) : date;
-        const [hours, minutes] = time.split(':');
-        dateObj.setHours(Number(hours));
-        dateObj.setMinutes(Number(minutes));
-        dateObj.setSeconds(0);
-        dateObj.setMilliseconds(0);
-        scheduledDate = dateObj.toISOString();
-      } else {
-        scheduledDate = typeof date === 'string' ? date : date.toISOString();
+      const startsAt = data.candidatePicksSlot ? null : getStartsAt(data);
+      if (!data.candidatePicksSlot && !startsAt) {
+        toast.error('Please pick a date and time');
+        return;
+      }
+      if (!(data.joinEarlyMinutes >= 0) || !(data.joinLateMinutes >= 0)) {
+        toast.error('The join window needs zero or more minutes on each side');
+        return;
       }
 
       // Prepare payload for API
       const payload = {
         candidate: data.candidateId,
         role: data.roleId,
-        techStacks: data.techStackIds, // Send array of tech stack IDs
-        techStack: data.techStackIds[0], // For backward compatibility - required field
-        scheduledDate, // Send as full ISO string
-        scheduledTime: time, // Send as HH:mm string
+        techStacks: techStackIds, // Send array of tech stack IDs
+        techStack: techStackIds[0], // For backward compatibility - required field
+        template: selectedTemplate?.id, // The server picks the questions from it
+        // Adaptive interviews pick their own questions, so they cannot use a template
+        mode: !selectedTemplate && data.adaptive ? 'adaptive' as const : 'standard' as const,
+        questionCount: !selectedTemplate && data.adaptive ? Number(data.questionCount) : undefined,
+        resumeQuestionCount: resumeQuestionCount || undefined,
+        startsAt: startsAt?.toISOString(), // The picked clock time in the interviewer's zone
+        // The candidate picks the start from the interviewer's availability
+        status: data.candidatePicksSlot ? 'awaiting-slot' as const : 'scheduled' as const,
+        candidateTimezone: data.candidateTimezone,
+        interviewerTimezone: data.interviewerTimezone,
+        joinWindow: {
+          earlyMinutes: Number(data.joinEarlyMinutes),
+          lateMinutes: Number(data.joinLateMinutes)
+        },
+        // Recordings are transcribed in this language; left out, the server's default applies
+        transcriptionLanguage: data.transcriptionLanguage === DEFAULT_LANGUAGE ? undefined : data.transcriptionLanguage,
         duration: 30 // Optional, default to 30 minutes
       };
       
       // Debug: log payload
       console.log('Interview creation payload:', payload);
 
+      if (resumeQuestionCount) {
+        toast.info('Writing questions from the resume...');
+      }
+
       // Call the backend API to create the interview
       const response = await interviewAPI.create(payload);
       if (response.data && response.data.success && response.data.data) {
         const interviewId = response.data.data._id;
-        toast.success('Interview scheduled successfully!');
+
+        if (data.candidatePicksSlot) {
+          toast.success('Interview created!');
+          try {
+            await schedulingAPI.sendLink(interviewId);
+            toast.success('Scheduling link sent! The candidate gets the invitation once they pick a time.');
+          } catch (linkError) {
+            console.error('Error sending scheduling link:', linkError);
+            toast.error('Failed to send the scheduling link. You can send it later from the interview details page.');
+          }
+        } else {
+          toast.success('Interview scheduled successfully!');
         
-        // Send email invitation
-        try {
-          toast.info('Sending interview invitation email...');
-          const emailResponse = await emailAPI.sendInvitation(interviewId);
+          // Send email invitation
+          try {
+            toast.info('Sending interview invitation email...');
+            const emailResponse = await emailAPI.sendInvitation(interviewId);
           
-          if (emailResponse.data?.success) {
-            toast.success('Interview invitation email sent!');
-          } else {
+            if (emailResponse.data?.success) {
+              toast.success('Interview invitation email sent!');
+            } else {
+              toast.error('Failed to send invitation email. You can send it later from the interview details page.');
+            }
+          } catch (emailError) {
+            console.error('Error sending invitation email:', emailError);
             toast.error('Failed to send invitation email. You can send it later from the interview details page.');
           }
-        } catch (emailError) {
-          console.error('Error sending invitation email:', emailError);
-          toast.error('Failed to send invitation email. You can send it later from the interview details page.');
         }
         
         form.reset();
         setSelectedTechStacks([]);
         setAvailableTechStacksForRole([]);
+        setTemplates([]);
         // Refresh the interview list so the new interview appears
         if (typeof refreshTechStacks === 'function') {
           await refreshTechStacks(); // refreshes interviews as well on mount
@@ -204,10 +364,21 @@ const InterviewScheduler = () => {
     } catch (error) {
       // eslint-disable-next-line no-console
       console.error('Error scheduling interview:', error);
-      toast.error('Failed to schedule interview.');
+      // The server explains when a template cannot be filled from the question bank
+      if (axios.isAxiosError(error) && error.response?.data?.error) {
+        toast.error(error.response.data.error);
+      } else {
+        toast.error('Failed to schedule interview.');
+      }
     }
   };
 
+  const interviewerTimezone = form.watch('interviewerTimezone');
+  const candidateTimezone = form.watch('candidateTimezone');
+  const timeZoneOptions = getTimeZoneOptions(getBrowserTimeZone(), interviewerTimezone, candidateTimezone);
+  const candidatePicksSlot = form.watch('candidatePicksSlot');
+  const startsAt = candidatePicksSlot ? null : getStartsAt(form.watch());
+
   return (
     <Card>
       <CardHeader>
@@ -267,9 +438,58 @@ const InterviewScheduler = () => {
                 </FormItem>
               )}
             />
+
+            {templates.length > 0 && (
+              <FormField
+                control={form.control}
+                name="templateId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Interview Template</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a template" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_TEMPLATE}>No template</SelectItem>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            )}
             
+            {selectedTemplate ? (
+              <div>
+                <FormLabel>Questions</FormLabel>
+                {selectedTemplate.description && (
+                  <p className="text-sm text-muted-foreground mt-1">{selectedTemplate.description}</p>
+                )}
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {selectedTemplate.sections.map(section => (
+                    <Badge key={section.techStackId} variant="secondary">
+                      {section.techStackName}: {section.questionCount} question{section.questionCount === 1 ? '' : 's'}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ) : (
             <div>
-              <FormLabel>Tech Stacks</FormLabel>
+              <div className="flex items-center justify-between">
+                <FormLabel>Tech Stacks</FormLabel>
+                {resumeStackIds.length > 0 && (
+                  <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={handleUseResumeStacks}>
+                    Select stacks from resume
+                  </Button>
+                )}
+              </div>
               <div className="mt-2 mb-4">
                 {selectedTechStacks.length > 0 ? (
                   <div className="flex flex-wrap gap-2">
@@ -315,79 +535,269 @@ const InterviewScheduler = () => {
                 <p className="text-sm text-muted-foreground mt-2">Please select at least one tech stack for the interview.</p>
               )}
             </div>
+            )}
 
-            <FormField
-              control={form.control}
-              name="datetime"
-              render={({ field }) => (
-                <FormItem className="flex flex-col">
-                  <FormLabel>Date & Time</FormLabel>
-                  <Popover>
-                    <PopoverTrigger asChild>
+            {!selectedTemplate && (
+              <FormField
+                control={form.control}
+                name="adaptive"
+                render={({ field }) => (
+                  <FormItem className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <FormLabel>Adaptive Difficulty</FormLabel>
+                        <p className="text-sm text-muted-foreground">
+                          Start at medium and pick each next question harder or easier based on the candidate's scores.
+                        </p>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </div>
+                    {field.value && (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          className="w-24"
+                          {...form.register('questionCount', { valueAsNumber: true, min: 1 })}
+                        />
+                        <span className="text-sm text-muted-foreground">questions</span>
+                      </div>
+                    )}
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {canAddResumeQuestions && (
+              <FormField
+                control={form.control}
+                name="resumeQuestions"
+                render={({ field }) => (
+                  <FormItem className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <FormLabel>Resume Questions</FormLabel>
+                        <p className="text-sm text-muted-foreground">
+                          Ask about the projects and experience in {selectedCandidate?.resumeFileName}, after the other questions.
+                        </p>
+                      </div>
                       <FormControl>
-                        <Button
-                          variant="outline"
-                          className={cn(
-                            "w-full pl-3 text-left font-normal",
-                            !field.value && "text-muted-foreground"
-                          )}
-                        >
-                          {field.value?.date ? (
-                            <span>
-                              {format(field.value.date, "PPP")} at {field.value.time || "Select time"}
-                            </span>
-                          ) : (
-                            <span>Pick date and time</span>
-                          )}
-                          <CalendarClock className="ml-auto h-4 w-4 opacity-50" />
-                        </Button>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
                       </FormControl>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-4" align="start">
-                      <div className="space-y-4">
-                        <Calendar
-                          mode="single"
-                          selected={typeof field.value?.date === 'string' ? new Date(field.value.date) : field.value?.date}
-                          onSelect={(date) => field.onChange({ ...field.value, date })}
-                          disabled={(date) => {
-                            const today = new Date();
-                            today.setHours(0,0,0,0);
-                            return date < today;
-                          }}
-                          initialFocus
-                          className="pointer-events-auto"
+                    </div>
+                    {field.value && (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          max={10}
+                          className="w-24"
+                          {...form.register('resumeQuestionCount', { valueAsNumber: true, min: 1, max: 10 })}
                         />
-                        <div className="mt-4">
-                          <FormLabel>Time</FormLabel>
-                          <Input
-                            type="time"
-                            value={field.value?.time || ""}
-                            min={(() => {
-                              const selectedDate = typeof field.value?.date === 'string' ? new Date(field.value.date) : field.value?.date;
-                              const now = new Date();
-                              if (
-                                selectedDate &&
-                                selectedDate.getFullYear() === now.getFullYear() &&
-                                selectedDate.getMonth() === now.getMonth() &&
-                                selectedDate.getDate() === now.getDate()
-                              ) {
-                                // Only allow times after the current time if today is selected
-                                return now.toTimeString().slice(0,5);
-                              }
-                              return undefined;
-                            })()}
-                            onChange={(e) => field.onChange({ ...field.value, time: e.target.value })}
-                            className="mt-2"
+                        <span className="text-sm text-muted-foreground">questions</span>
+                      </div>
+                    )}
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="candidatePicksSlot"
+              render={({ field }) => (
+                <FormItem className="rounded-md border p-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <FormLabel>Let the Candidate Pick a Slot</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        Email the candidate a link to choose a free time from your availability.
+                      </p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {!candidatePicksSlot && (
+              <FormField
+                control={form.control}
+                name="datetime"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Date & Time</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className={cn(
+                              "w-full pl-3 text-left font-normal",
+                              !field.value && "text-muted-foreground"
+                            )}
+                          >
+                            {field.value?.date ? (
+                              <span>
+                                {format(field.value.date, "PPP")} at {field.value.time || "Select time"}
+                              </span>
+                            ) : (
+                              <span>Pick date and time</span>
+                            )}
+                            <CalendarClock className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-4" align="start">
+                        <div className="space-y-4">
+                          <Calendar
+                            mode="single"
+                            selected={typeof field.value?.date === 'string' ? new Date(field.value.date) : field.value?.date}
+                            onSelect={(date) => field.onChange({ ...field.value, date })}
+                            disabled={(date) => {
+                              const today = new Date();
+                              today.setHours(0,0,0,0);
+                              return date < today;
+                            }}
+                            initialFocus
+                            className="pointer-events-auto"
                           />
+                          <div className="mt-4">
+                            <FormLabel>Time</FormLabel>
+                            <Input
+                              type="time"
+                              value={field.value?.time || ""}
+                              min={(() => {
+                                const selectedDate = typeof field.value?.date === 'string' ? new Date(field.value.date) : field.value?.date;
+                                const now = new Date();
+                                if (
+                                  selectedDate &&
+                                  selectedDate.getFullYear() === now.getFullYear() &&
+                                  selectedDate.getMonth() === now.getMonth() &&
+                                  selectedDate.getDate() === now.getDate()
+                                ) {
+                                  // Only allow times after the current time if today is selected
+                                  return now.toTimeString().slice(0,5);
+                                }
+                                return undefined;
+                              })()}
+                              onChange={(e) => field.onChange({ ...field.value, time: e.target.value })}
+                              className="mt-2"
+                            />
+                          </div>
                         </div>
-                      </div>
-                    </PopoverContent>
-                  </Popover>
+                      </PopoverContent>
+                    </Popover>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="interviewerTimezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Interviewer Time Zone</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select time zone" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {timeZoneOptions.map(zone => (
+                          <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="candidateTimezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Candidate Time Zone</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select time zone" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {timeZoneOptions.map(zone => (
+                          <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {startsAt && (
+              <p className="text-sm text-muted-foreground">
+                Starts {formatInTimeZone(startsAt, interviewerTimezone)} for you and {formatInTimeZone(startsAt, candidateTimezone)} for the candidate.
+              </p>
+            )}
+
+            <FormItem>
+              <FormLabel>Join Window</FormLabel>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <span>From</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-20"
+                  {...form.register('joinEarlyMinutes', { valueAsNumber: true, min: 0 })}
+                />
+                <span>minutes before the start until</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-20"
+                  {...form.register('joinLateMinutes', { valueAsNumber: true, min: 0 })}
+                />
+                <span>minutes after it</span>
+              </div>
+            </FormItem>
+
+            <FormField
+              control={form.control}
+              name="transcriptionLanguage"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Answer Language</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select language" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_LANGUAGE}>Server default</SelectItem>
+                      {TRANSCRIPTION_LANGUAGES.map(language => (
+                        <SelectItem key={language.code} value={language.code}>{language.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    The language recorded answers are transcribed in.
+                  </p>
                 </FormItem>
               )}
             />
 
-            <Button type="submit" className="w-full">Schedule Interview</Button>
+            <Button type="submit" className="w-full">
+              {candidatePicksSlot ? 'Send Scheduling Link' : 'Schedule Interview'}
+            </Button>
           </form>
         </Form>
       </CardContent>
@@ -0,0 +1,485 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash } from 'lucide-react';
+import { toast } from 'sonner';
+import axios from 'axios';
+import { interviewTemplateAPI, roleAPI } from '@/api';
+import { useInterview } from '@/context/InterviewContext';
+
+type TemplateOrdering = 'sections' | 'difficulty' | 'random';
+
+type DifficultyMix = {
+  easy: number;
+  medium: number;
+  hard: number;
+};
+
+type InterviewTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  roleId: string;
+  roleName: string;
+  sections: { techStackId: string; questionCount: number }[];
+  difficultyMix: DifficultyMix;
+  mandatoryQuestions: string[];
+  ordering: TemplateOrdering;
+};
+
+type ApiInterviewTemplate = {
+  _id: string;
+  name: string;
+  description?: string;
+  role: string | { _id: string; name: string };
+  sections: { techStack: string | { _id: string; name: string }; questionCount: number }[];
+  difficultyMix: DifficultyMix;
+  mandatoryQuestions: string[];
+  ordering: TemplateOrdering;
+};
+
+type SectionDraft = {
+  techStackId: string;
+  questionCount: string;
+};
+
+const emptySection = (): SectionDraft => ({ techStackId: '', questionCount: '5' });
+
+const DEFAULT_DIFFICULTY_MIX: DifficultyMix = { easy: 30, medium: 50, hard: 20 };
+
+const ORDERING_LABELS: Record<TemplateOrdering, string> = {
+  sections: 'By section, easy to hard',
+  difficulty: 'Easy to hard across all sections',
+  random: 'Random'
+};
+
+const idOf = (value: string | { _id: string }) => (typeof value === 'object' ? value._id : value);
+
+const InterviewTemplateManager = () => {
+  const { availableTechStacks, getQuestionsForStack } = useInterview();
+  const [templates, setTemplates] = useState<InterviewTemplate[]>([]);
+  const [roles, setRoles] = useState<{ id: string; name: string }[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<InterviewTemplate | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [roleId, setRoleId] = useState('');
+  const [sections, setSections] = useState<SectionDraft[]>([emptySection()]);
+  const [difficultyMix, setDifficultyMix] = useState<DifficultyMix>(DEFAULT_DIFFICULTY_MIX);
+  const [mandatoryQuestions, setMandatoryQuestions] = useState<string[]>([]);
+  const [ordering, setOrdering] = useState<TemplateOrdering>('sections');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    fetchTemplates();
+    fetchRoles();
+  }, []);
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await interviewTemplateAPI.getAll();
+      if (response.data && response.data.data) {
+        setTemplates(response.data.data.map((template: ApiInterviewTemplate) => ({
+          id: template._id,
+          name: template.name,
+          description: template.description || '',
+          roleId: idOf(template.role),
+          roleName: typeof template.role === 'object' ? template.role.name : '',
+          sections: template.sections.map(section => ({
+            techStackId: idOf(section.techStack),
+            questionCount: section.questionCount
+          })),
+          difficultyMix: template.difficultyMix,
+          mandatoryQuestions: template.mandatoryQuestions || [],
+          ordering: template.ordering
+        })));
+      }
+    } catch (error) {
+      console.error('Error fetching interview templates:', error);
+      toast.error('Failed to fetch interview templates');
+    }
+  };
+
+  const fetchRoles = async () => {
+    try {
+      const response = await roleAPI.getAll();
+      if (response.data && response.data.data) {
+        setRoles(response.data.data.map((role: { _id: string; name: string }) => ({ id: role._id, name: role.name })));
+      }
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      toast.error('Failed to fetch roles');
+    }
+  };
+
+  const resetForm = () => {
+    setSelectedTemplate(null);
+    setName('');
+    setDescription('');
+    setRoleId('');
+    setSections([emptySection()]);
+    setDifficultyMix(DEFAULT_DIFFICULTY_MIX);
+    setMandatoryQuestions([]);
+    setOrdering('sections');
+  };
+
+  const updateSection = (index: number, changes: Partial<SectionDraft>) => {
+    setSections(prev => prev.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const handleToggleMandatory = (questionId: string) => {
+    setMandatoryQuestions(prev =>
+      prev.includes(questionId) ? prev.filter(id => id !== questionId) : [...prev, questionId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error('Please enter a template name');
+      return;
+    }
+
+    if (!roleId) {
+      toast.error('Please select a role');
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      description: description.trim(),
+      role: roleId,
+      sections: sections.map(section => ({
+        techStack: section.techStackId,
+        questionCount: Number(section.questionCount)
+      })),
+      difficultyMix,
+      // Questions from a stack that was removed from the template are dropped
+      mandatoryQuestions: mandatoryQuestions.filter(id => sectionQuestions.some(question => question.id === id)),
+      ordering
+    };
+
+    if (data.sections.some(section => !section.techStack)) {
+      toast.error('Every section needs a tech stack');
+      return;
+    }
+
+    if (new Set(data.sections.map(section => section.techStack)).size !== data.sections.length) {
+      toast.error('Each tech stack can only have one section');
+      return;
+    }
+
+    if (data.sections.some(section => !Number.isInteger(section.questionCount) || section.questionCount < 1)) {
+      toast.error('Every section needs at least one question');
+      return;
+    }
+
+    if (mixTotal !== 100) {
+      toast.error('The difficulty mix must add up to 100%');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (selectedTemplate) {
+        await interviewTemplateAPI.update(selectedTemplate.id, data);
+        toast.success('Interview template updated successfully');
+      } else {
+        await interviewTemplateAPI.create(data);
+        toast.success('Interview template created successfully');
+      }
+
+      resetForm();
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error saving interview template:', error);
+      if (axios.isAxiosError(error) && error.response?.data?.error) {
+        toast.error(`Failed to save interview template: ${error.response.data.error}`);
+      } else {
+        toast.error('Failed to save interview template');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (template: InterviewTemplate) => {
+    setSelectedTemplate(template);
+    setName(template.name);
+    setDescription(template.description);
+    setRoleId(template.roleId);
+    setSections(template.sections.map(section => ({
+      techStackId: section.techStackId,
+      questionCount: String(section.questionCount)
+    })));
+    setDifficultyMix(template.difficultyMix);
+    setMandatoryQuestions(template.mandatoryQuestions);
+    setOrdering(template.ordering);
+  };
+
+  const handleDelete = async (templateId: string) => {
+    if (!confirm('Are you sure you want to delete this template? Interviews already scheduled with it keep their questions.')) return;
+
+    setIsLoading(true);
+    try {
+      await interviewTemplateAPI.delete(templateId);
+      toast.success('Interview template deleted successfully');
+      if (selectedTemplate?.id === templateId) {
+        resetForm();
+      }
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error deleting interview template:', error);
+      toast.error('Failed to delete interview template');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const mixTotal = difficultyMix.easy + difficultyMix.medium + difficultyMix.hard;
+  const sectionQuestions = sections
+    .filter(section => section.techStackId)
+    .flatMap(section => getQuestionsForStack(section.techStackId));
+  const techStackName = (stackId: string) => availableTechStacks.find(stack => stack.id === stackId)?.name || 'Unknown';
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>{selectedTemplate ? 'Edit Interview Template' : 'Add New Interview Template'}</CardTitle>
+          <CardDescription>
+            Fix how many questions an interview asks from each tech stack, the difficulty mix and the questions that are always asked.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Template Name</Label>
+                <Input
+                  id="template-name"
+                  placeholder="e.g. Senior Backend Screening"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={roleId} onValueChange={setRoleId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map(role => (
+                      <SelectItem key={role.id} value={role.id}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Textarea
+                id="template-description"
+                placeholder="When this template should be used"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Sections</Label>
+              {sections.map((section, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-8">
+                    <Select
+                      value={section.techStackId}
+                      onValueChange={(value) => updateSection(index, { techStackId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a tech stack" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableTechStacks.map(stack => (
+                          <SelectItem key={stack.id} value={stack.id}>
+                            {stack.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min={1}
+                    value={section.questionCount}
+                    onChange={(e) => updateSection(index, { questionCount: e.target.value })}
+                  />
+                  <span className="col-span-1 text-xs text-muted-foreground">questions</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="col-span-1 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => setSections(prev => prev.filter((_, i) => i !== index))}
+                    disabled={sections.length === 1}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setSections(prev => [...prev, emptySection()])}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add Section
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Difficulty Mix (%)</Label>
+              <div className="grid grid-cols-3 gap-4">
+                {(['easy', 'medium', 'hard'] as const).map(difficulty => (
+                  <div key={difficulty} className="flex items-center gap-2">
+                    <span className="text-sm capitalize w-16">{difficulty}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={difficultyMix[difficulty]}
+                      onChange={(e) => setDifficultyMix(prev => ({ ...prev, [difficulty]: Number(e.target.value) || 0 }))}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className={`text-xs ${mixTotal === 100 ? 'text-muted-foreground' : 'text-destructive'}`}>
+                Total: {mixTotal}%. Applied within each section; stacks short of a difficulty are topped up from the others.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Mandatory Questions</Label>
+              {sectionQuestions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Add a section to choose questions that are always asked.</p>
+              ) : (
+                <div className="max-h-64 overflow-y-auto border rounded-md p-3 space-y-2">
+                  {sectionQuestions.map(question => (
+                    <div key={question.id} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`mandatory-${question.id}`}
+                        checked={mandatoryQuestions.includes(question.id)}
+                        onCheckedChange={() => handleToggleMandatory(question.id)}
+                      />
+                      <Label htmlFor={`mandatory-${question.id}`} className="font-normal leading-snug">
+                        {question.text}
+                        <span className="text-xs text-muted-foreground ml-2 capitalize">{question.difficulty}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Mandatory questions count towards their section's question count.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Question Order</Label>
+              <Select value={ordering} onValueChange={(value) => setOrdering(value as TemplateOrdering)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ORDERING_LABELS) as TemplateOrdering[]).map(option => (
+                    <SelectItem key={option} value={option}>
+                      {ORDERING_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              {selectedTemplate && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={isLoading}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={isLoading}>
+                {selectedTemplate ? 'Update Template' : 'Create Template'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Manage Interview Templates</CardTitle>
+          <CardDescription>
+            Pick a template when scheduling an interview for its role. The questions are chosen once, when the interview is created.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {templates.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">
+              No interview templates found. Interviews ask every question of their tech stacks.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {templates.map(template => (
+                <div key={template.id} className="border rounded-lg p-4">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <h3 className="text-lg font-semibold">{template.name}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {template.roleName} · {ORDERING_LABELS[template.ordering]}
+                      </p>
+                      {template.description && (
+                        <p className="text-sm text-muted-foreground">{template.description}</p>
+                      )}
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(template)}>
+                        Edit
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => handleDelete(template.id)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {template.sections.map(section => (
+                      <Badge key={section.techStackId} variant="secondary">
+                        {techStackName(section.techStackId)} · {section.questionCount}
+                      </Badge>
+                    ))}
+                    <Badge variant="outline">
+                      {template.difficultyMix.easy}/{template.difficultyMix.medium}/{template.difficultyMix.hard} easy/medium/hard
+                    </Badge>
+                    {template.mandatoryQuestions.length > 0 && (
+                      <Badge variant="outline">{template.mandatoryQuestions.length} mandatory</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default InterviewTemplateManager;
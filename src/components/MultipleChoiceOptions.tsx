@@ -0,0 +1,76 @@
+import React from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { QuestionOption } from '@/context/InterviewContext';
+
+interface MultipleChoiceOptionsProps {
+  options: QuestionOption[];
+  selected: string[];
+  // Checkboxes when several options may be correct, radio buttons otherwise
+  multipleAnswers?: boolean;
+  // Without onChange the options are shown read-only, e.g. in a report
+  onChange?: (selected: string[]) => void;
+  disabled?: boolean;
+}
+
+const MultipleChoiceOptions: React.FC<MultipleChoiceOptionsProps> = ({
+  options,
+  selected,
+  multipleAnswers = false,
+  onChange,
+  disabled = false,
+}) => {
+  const readOnly = !onChange;
+
+  // Admins get the correct flags, so mark right and wrong picks
+  const renderMark = (option: QuestionOption) => {
+    if (option.correct === undefined) return null;
+    if (option.correct) {
+      return <CheckCircle size={14} className="text-green-600" />;
+    }
+    return selected.includes(option.id) ? <XCircle size={14} className="text-red-600" /> : null;
+  };
+
+  if (multipleAnswers) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">Select all that apply.</p>
+        {options.map(option => (
+          <div key={option.id} className="flex items-center gap-2 border rounded-md p-3">
+            <Checkbox
+              id={`option-${option.id}`}
+              checked={selected.includes(option.id)}
+              disabled={disabled || readOnly}
+              onCheckedChange={(checked) => onChange?.(
+                checked === true ? [...selected, option.id] : selected.filter(id => id !== option.id)
+              )}
+            />
+            <Label htmlFor={`option-${option.id}`} className="font-normal flex-1">{option.text}</Label>
+            {renderMark(option)}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <RadioGroup
+      value={selected[0] || ''}
+      onValueChange={(value) => onChange?.([value])}
+      disabled={disabled || readOnly}
+      className="space-y-2"
+    >
+      {options.map(option => (
+        <div key={option.id} className="flex items-center gap-2 border rounded-md p-3">
+          <RadioGroupItem id={`option-${option.id}`} value={option.id} />
+          <Label htmlFor={`option-${option.id}`} className="font-normal flex-1">{option.text}</Label>
+          {renderMark(option)}
+        </div>
+      ))}
+    </RadioGroup>
+  );
+};
+
+export default MultipleChoiceOptions;
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { History, Pencil, RotateCcw, Trash } from 'lucide-react';
+import { toast } from 'sonner';
+import { questionAPI } from '@/api';
+import { useInterview, Question } from '@/context/InterviewContext';
+import QuestionManager from '@/components/QuestionManager';
+
+type QuestionVersion = {
+  _id: string;
+  version: number;
+  text: string;
+  difficulty: Question['difficulty'];
+  type: string;
+  keyPoints?: string[];
+  modelAnswer?: string;
+  tags?: string[];
+  topics?: string[];
+  author?: { name: string; email: string } | null;
+  createdAt: string;
+};
+
+type DeletedQuestion = {
+  _id: string;
+  text: string;
+  difficulty: Question['difficulty'];
+  version?: number;
+  deletedAt: string;
+};
+
+const difficultyStyles: Record<string, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  hard: 'bg-red-100 text-red-800'
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : fallback;
+
+const DifficultyBadge: React.FC<{ difficulty: string }> = ({ difficulty }) => (
+  <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${difficultyStyles[difficulty] || 'bg-gray-100 text-gray-800'}`}>
+    {difficulty}
+  </span>
+);
+
+interface QuestionBankListProps {
+  stackId: string;
+}
+
+// A tech stack's questions with their tags and version. Admins edit
+// questions, look through their earlier versions, and delete or restore
+// them; deleted questions stay available to the reports that used them.
+const QuestionBankList: React.FC<QuestionBankListProps> = ({ stackId }) => {
+  const { getQuestionsForStack, refreshQuestions } = useInterview();
+
+  const [editing, setEditing] = useState<Question | null>(null);
+  const [historyFor, setHistoryFor] = useState<Question | null>(null);
+  const [versions, setVersions] = useState<QuestionVersion[]>([]);
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [deleted, setDeleted] = useState<DeletedQuestion[]>([]);
+
+  const questions = getQuestionsForStack(stackId);
+
+  const loadDeleted = useCallback(async () => {
+    try {
+      const response = await questionAPI.getDeleted(stackId);
+      setDeleted(response.data.data);
+    } catch (err) {
+      console.error('Error loading deleted questions:', err);
+      toast.error('Failed to load deleted questions');
+    }
+  }, [stackId]);
+
+  useEffect(() => {
+    if (showDeleted) {
+      loadDeleted();
+    }
+  }, [showDeleted, loadDeleted]);
+
+  const openHistory = async (question: Question) => {
+    setHistoryFor(question);
+    setVersions([]);
+    setIsLoadingVersions(true);
+    try {
+      const response = await questionAPI.getVersions(question.id);
+      setVersions(response.data.data);
+    } catch (err) {
+      console.error('Error loading question versions:', err);
+      toast.error('Failed to load the question history');
+    } finally {
+      setIsLoadingVersions(false);
+    }
+  };
+
+  const handleDelete = async (question: Question) => {
+    if (!confirm('Delete this question? It will no longer be asked, but past interview reports keep it.')) return;
+
+    try {
+      await questionAPI.delete(question.id);
+      toast.success('Question deleted');
+      await refreshQuestions(stackId);
+      if (showDeleted) await loadDeleted();
+    } catch (err) {
+      console.error('Error deleting question:', err);
+      toast.error(errorMessage(err, 'Failed to delete the question'));
+    }
+  };
+
+  const handleRestore = async (question: DeletedQuestion) => {
+    try {
+      await questionAPI.restore(question._id);
+      toast.success('Question restored');
+      await refreshQuestions(stackId);
+      await loadDeleted();
+    } catch (err) {
+      console.error('Error restoring question:', err);
+      toast.error(errorMessage(err, 'Failed to restore the question'));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question) => (
+        <div key={question.id} className="border rounded-md p-4">
+          <div className="flex justify-between items-start">
+            <div className="flex-1 space-y-2">
+              <p className="font-medium">{question.text}</p>
+              {(question.tags?.length || question.topics?.length) ? (
+                <div className="flex flex-wrap gap-1">
+                  {question.tags?.map(tag => <Badge key={`tag-${tag}`} variant="secondary">#{tag}</Badge>)}
+                  {question.topics?.map(topic => <Badge key={`topic-${topic}`} variant="outline">{topic}</Badge>)}
+                </div>
+              ) : null}
+            </div>
+            <div className="ml-4 flex items-center gap-2">
+              <span className="text-xs text-gray-500">v{question.version || 1}</span>
+              <DifficultyBadge difficulty={question.difficulty} />
+              <Button variant="ghost" size="icon" title="Edit" onClick={() => setEditing(question)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" title="History" onClick={() => openHistory(question)}>
+                <History className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete"
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                onClick={() => handleDelete(question)}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="border-t pt-4 space-y-3">
+        <Button variant="outline" size="sm" onClick={() => setShowDeleted(!showDeleted)}>
+          {showDeleted ? 'Hide Deleted Questions' : 'Show Deleted Questions'}
+        </Button>
+        {showDeleted && (deleted.length === 0 ? (
+          <p className="text-sm text-gray-500">No deleted questions.</p>
+        ) : deleted.map(question => (
+          <div key={question._id} className="border rounded-md p-4 flex justify-between items-start opacity-70">
+            <div className="flex-1">
+              <p className="font-medium">{question.text}</p>
+              <p className="text-xs text-gray-500">Deleted {new Date(question.deletedAt).toLocaleDateString()}</p>
+            </div>
+            <div className="ml-4 flex items-center gap-2">
+              <DifficultyBadge difficulty={question.difficulty} />
+              <Button variant="outline" size="sm" onClick={() => handleRestore(question)}>
+                <RotateCcw className="mr-1 h-4 w-4" /> Restore
+              </Button>
+            </div>
+          </div>
+        )))}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {editing && (
+            <QuestionManager
+              key={editing.id}
+              showUploadSection={false}
+              question={editing}
+              onSaved={() => setEditing(null)}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyFor} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Question History</DialogTitle>
+            <DialogDescription>
+              Every saved version of the question. Interview reports show the version that was asked.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingVersions ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : (
+            <div className="space-y-3">
+              {versions.map(version => (
+                <div key={version._id} className="border rounded-md p-3 space-y-2">
+                  <div className="flex justify-between items-center text-xs text-gray-500">
+                    <span className="font-medium text-gray-700">Version {version.version}</span>
+                    <span>
+                      {new Date(version.createdAt).toLocaleString()}
+                      {version.author ? ` · ${version.author.name}` : ''}
+                    </span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{version.text}</p>
+                  <div className="flex flex-wrap gap-1 items-center">
+                    <DifficultyBadge difficulty={version.difficulty} />
+                    {version.tags?.map(tag => <Badge key={`tag-${tag}`} variant="secondary">#{tag}</Badge>)}
+                    {version.topics?.map(topic => <Badge key={`topic-${topic}`} variant="outline">{topic}</Badge>)}
+                  </div>
+                  {version.keyPoints && version.keyPoints.length > 0 && (
+                    <ul className="text-sm text-gray-600 list-disc pl-5">
+                      {version.keyPoints.map(point => <li key={point}>{point}</li>)}
+                    </ul>
+                  )}
+                  {version.modelAnswer && (
+                    <p className="text-sm text-gray-600 whitespace-pre-wrap border-l-2 pl-2">{version.modelAnswer}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default QuestionBankList;
@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { questionAPI } from '@/api';
+import { useInterview } from '@/context/InterviewContext';
+
+type GeneratedType = 'verbal' | 'free-text' | 'system-design';
+type Difficulty = 'easy' | 'medium' | 'hard';
+
+type Draft = {
+  text: string;
+  difficulty: Difficulty;
+  type: GeneratedType;
+  keyPoints: string;
+  similarTo: {
+    question: string | null;
+    text: string;
+    similarity: number;
+  } | null;
+  keep: boolean;
+};
+
+type DraftResponse = Omit<Draft, 'keyPoints' | 'keep'> & { keyPoints: string[] };
+
+const GENERATED_TYPE_LABELS: Record<GeneratedType, string> = {
+  verbal: 'Verbal',
+  'free-text': 'Free Text',
+  'system-design': 'System Design'
+};
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+// Matches QUESTION_GENERATION_MAX on the server
+const MAX_QUESTIONS = 20;
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : fallback;
+
+// Drafts questions for a tech stack with the evaluation provider. The admin
+// reviews and edits the drafts, and only the ones kept are saved; drafts
+// resembling a question the bank already has start out unchecked.
+const QuestionGenerator: React.FC = () => {
+  const { availableTechStacks, refreshQuestions } = useInterview();
+
+  const [techStack, setTechStack] = useState('');
+  const [count, setCount] = useState(5);
+  const [type, setType] = useState<GeneratedType>('verbal');
+  const [mix, setMix] = useState<Record<Difficulty, number>>({ easy: 30, medium: 50, hard: 20 });
+  const [topics, setTopics] = useState('');
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [draftStack, setDraftStack] = useState('');
+  const [similarityMethod, setSimilarityMethod] = useState<'embeddings' | 'words'>('words');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const mixTotal = mix.easy + mix.medium + mix.hard;
+
+  const handleGenerate = async () => {
+    if (!techStack) {
+      toast.error('Please select a tech stack');
+      return;
+    }
+    if (mixTotal !== 100) {
+      toast.error('The difficulty mix must add up to 100%');
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const response = await questionAPI.generate({
+        techStack,
+        count,
+        difficultyMix: mix,
+        type,
+        topics: topics.split(',').map(topic => topic.trim()).filter(Boolean)
+      });
+      const result = response.data.data;
+      setDrafts((result.drafts as DraftResponse[]).map(draft => ({
+        ...draft,
+        keyPoints: draft.keyPoints.join('\n'),
+        keep: !draft.similarTo
+      })));
+      setDraftStack(techStack);
+      setSimilarityMethod(result.similarity);
+    } catch (err) {
+      console.error('Error generating questions:', err);
+      toast.error(errorMessage(err, 'Failed to generate questions'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updateDraft = (index: number, changes: Partial<Draft>) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSave = async () => {
+    const kept = drafts.filter(draft => draft.keep && draft.text.trim());
+    if (kept.length === 0) return;
+
+    setIsSaving(true);
+    const failed: Draft[] = [];
+    for (const draft of kept) {
+      try {
+        await questionAPI.create({
+          techStack: draftStack,
+          text: draft.text.trim(),
+          difficulty: draft.difficulty,
+          type: draft.type,
+          keyPoints: draft.keyPoints.split('\n').map(point => point.trim()).filter(Boolean)
+        });
+      } catch (err) {
+        console.error('Error saving generated question:', err);
+        failed.push(draft);
+      }
+    }
+
+    const saved = kept.length - failed.length;
+    if (saved > 0) {
+      toast.success(`Saved ${saved} question${saved === 1 ? '' : 's'}`);
+      await refreshQuestions(draftStack);
+    }
+    if (failed.length > 0) {
+      toast.error(`${failed.length} question${failed.length === 1 ? '' : 's'} could not be saved`);
+    }
+    // Drafts left out or not saved stay for another look
+    setDrafts(drafts.filter(draft => !kept.includes(draft) || failed.includes(draft)));
+    setIsSaving(false);
+  };
+
+  const keptCount = drafts.filter(draft => draft.keep).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Generate Questions</CardTitle>
+        <CardDescription>
+          Draft questions for a tech stack with AI, then review them before they are added
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Tech Stack</Label>
+            <Select value={techStack} onValueChange={setTechStack}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a tech stack" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableTechStacks.map(stack => (
+                  <SelectItem key={stack.id} value={stack.id}>{stack.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="generate-count">Number of Questions</Label>
+            <Input
+              id="generate-count"
+              type="number"
+              min={1}
+              max={MAX_QUESTIONS}
+              value={count}
+              onChange={(e) => setCount(Math.min(MAX_QUESTIONS, Math.max(1, Number(e.target.value) || 1)))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Question Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as GeneratedType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(GENERATED_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Difficulty Mix (%)</Label>
+          <div className="grid grid-cols-3 gap-4">
+            {DIFFICULTIES.map(difficulty => (
+              <div key={difficulty} className="space-y-1">
+                <span className="text-xs text-gray-500 capitalize">{difficulty}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={mix[difficulty]}
+                  onChange={(e) => setMix({ ...mix, [difficulty]: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </div>
+            ))}
+          </div>
+          {mixTotal !== 100 && (
+            <p className="text-sm text-red-600">The mix adds up to {mixTotal}%, not 100%.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="generate-topics">Topics (optional)</Label>
+          <Input
+            id="generate-topics"
+            value={topics}
+            onChange={(e) => setTopics(e.target.value)}
+            placeholder="e.g. hooks, state management, performance"
+          />
+        </div>
+
+        <Button onClick={handleGenerate} disabled={isGenerating || !techStack || mixTotal !== 100}>
+          <Sparkles className="mr-2 h-4 w-4" />
+          {isGenerating ? 'Generating...' : 'Generate Drafts'}
+        </Button>
+
+        {drafts.length > 0 && (
+          <div className="space-y-4 border-t pt-4">
+            <p className="text-sm text-gray-500">
+              Drafts similar to an existing question are unchecked.
+              {similarityMethod === 'words'
+                ? ' Similarity was judged by shared words, so check the drafts for rewordings too.'
+                : ''}
+            </p>
+            {drafts.map((draft, index) => (
+              <div key={index} className={`border rounded-md p-4 space-y-3 ${draft.keep ? '' : 'opacity-60'}`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`draft-keep-${index}`}
+                      checked={draft.keep}
+                      onCheckedChange={(checked) => updateDraft(index, { keep: checked === true })}
+                    />
+                    <Label htmlFor={`draft-keep-${index}`}>Keep</Label>
+                  </div>
+                  <Select
+                    value={draft.difficulty}
+                    onValueChange={(value) => updateDraft(index, { difficulty: value as Difficulty })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DIFFICULTIES.map(difficulty => (
+                        <SelectItem key={difficulty} value={difficulty} className="capitalize">{difficulty}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.similarTo && (
+                  <p className="text-sm text-amber-700 bg-amber-50 rounded px-2 py-1">
+                    {draft.similarTo.question ? 'Similar to an existing question' : 'Similar to another draft'}
+                    {' '}({Math.round(draft.similarTo.similarity * 100)}%): {draft.similarTo.text}
+                  </p>
+                )}
+                <Textarea
+                  value={draft.text}
+                  onChange={(e) => updateDraft(index, { text: e.target.value })}
+                  rows={2}
+                />
+                <div className="space-y-1">
+                  <span className="text-xs text-gray-500">Key points (one per line)</span>
+                  <Textarea
+                    value={draft.keyPoints}
+                    onChange={(e) => updateDraft(index, { keyPoints: e.target.value })}
+                    rows={3}
+                  />
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={isSaving || keptCount === 0}>
+                {isSaving ? 'Saving...' : `Save ${keptCount} Question${keptCount === 1 ? '' : 's'}`}
+              </Button>
+              <Button variant="outline" onClick={() => setDrafts([])} disabled={isSaving}>
+                Discard Drafts
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuestionGenerator;
@@ -0,0 +1,285 @@
+import React, { useRef, useState } from 'react';
+import axios from 'axios';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { questionAPI } from '@/api';
+import { useInterview } from '@/context/InterviewContext';
+
+type RowStatus = 'valid' | 'invalid' | 'duplicate';
+
+type ImportRow = {
+  row: number;
+  question: {
+    techStack?: string;
+    text?: string;
+    difficulty?: string;
+    type?: string;
+  };
+  status: RowStatus;
+  errors: string[];
+};
+
+type ImportPreview = {
+  format: string;
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    duplicate: number;
+  };
+  rows: ImportRow[];
+};
+
+type ExportFormat = 'json' | 'csv' | 'markdown';
+
+const statusStyles: Record<RowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  duplicate: 'bg-gray-100 text-gray-800'
+};
+
+// Stands for "no default stack"; Select items cannot have an empty value
+const FROM_FILE = 'from-file';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : fallback;
+
+// Imports question banks from CSV, JSON or Markdown files after a preview of
+// every row, and exports a tech stack's bank in the same formats
+const QuestionImportExport: React.FC = () => {
+  const { availableTechStacks, refreshTechStacks } = useInterview();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [defaultStack, setDefaultStack] = useState(FROM_FILE);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const [exportStack, setExportStack] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const stackOption = defaultStack === FROM_FILE ? undefined : defaultStack;
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] || null);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+
+    setIsPreviewing(true);
+    try {
+      const response = await questionAPI.previewImport(file, stackOption);
+      setPreview(response.data.data);
+    } catch (err) {
+      console.error('Error previewing question file:', err);
+      toast.error(errorMessage(err, 'Could not read the question file'));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+
+    setIsImporting(true);
+    try {
+      const response = await questionAPI.importFile(file, stackOption);
+      const { imported, summary } = response.data.data;
+      toast.success(
+        `Imported ${imported} question${imported === 1 ? '' : 's'}` +
+        (summary.duplicate > 0 ? `, skipped ${summary.duplicate} duplicate${summary.duplicate === 1 ? '' : 's'}` : '')
+      );
+
+      // Reloads the stacks together with their questions
+      await refreshTechStacks();
+
+      setFile(null);
+      setPreview(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      console.error('Error importing questions:', err);
+      toast.error(errorMessage(err, 'Failed to import the questions'));
+      // The bank may have changed since the preview
+      await handlePreview();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!exportStack) return;
+
+    setIsExporting(true);
+    try {
+      const response = await questionAPI.exportFile(exportStack, exportFormat);
+      const fileName = response.headers['content-disposition']?.match(/filename="([^"]+)"/)?.[1]
+        || `questions.${exportFormat === 'markdown' ? 'md' : exportFormat}`;
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting questions:', err);
+      toast.error('Failed to export the questions');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const canImport = !!preview && preview.summary.invalid === 0 && preview.summary.valid > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import &amp; Export Questions</CardTitle>
+        <CardDescription>
+          Move question banks in and out as CSV, JSON or Markdown files
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="question-file">Question File</Label>
+            <Input
+              id="question-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,.md,.markdown"
+              onChange={handleFileChange}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tech Stack for Questions Without One</Label>
+            <Select
+              value={defaultStack}
+              onValueChange={(value) => {
+                setDefaultStack(value);
+                setPreview(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={FROM_FILE}>Use the stacks named in the file</SelectItem>
+                {availableTechStacks.map(stack => (
+                  <SelectItem key={stack.id} value={stack.id}>{stack.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handlePreview} disabled={!file || isPreviewing}>
+              {isPreviewing ? 'Checking...' : 'Preview'}
+            </Button>
+            <Button onClick={handleImport} disabled={!canImport || isImporting}>
+              <Upload className="mr-2 h-4 w-4" />
+              {isImporting
+                ? 'Importing...'
+                : `Import${preview && preview.summary.valid > 0 ? ` ${preview.summary.valid}` : ''} Questions`}
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge className={statusStyles.valid}>{preview.summary.valid} new</Badge>
+                <Badge className={statusStyles.duplicate}>{preview.summary.duplicate} duplicate</Badge>
+                <Badge className={statusStyles.invalid}>{preview.summary.invalid} with errors</Badge>
+              </div>
+              {preview.summary.invalid > 0 && (
+                <p className="text-sm text-red-600">
+                  Fix the rows with errors and preview the file again before importing.
+                </p>
+              )}
+              <div className="max-h-96 overflow-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Question</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map(row => (
+                      <TableRow key={row.row}>
+                        <TableCell className="align-top">{row.row}</TableCell>
+                        <TableCell className="align-top">
+                          <p className="line-clamp-2">{row.question.text || <span className="text-gray-400">No text</span>}</p>
+                          <p className="text-xs text-gray-500">
+                            {[row.question.techStack, row.question.difficulty, row.question.type].filter(Boolean).join(' · ')}
+                          </p>
+                          {row.errors.length > 0 && (
+                            <ul className="mt-1 text-xs text-red-600 list-disc pl-4">
+                              {row.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          )}
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <Badge className={statusStyles[row.status]}>{row.status}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Tech Stack</Label>
+              <Select value={exportStack} onValueChange={setExportStack}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a tech stack" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableTechStacks.map(stack => (
+                    <SelectItem key={stack.id} value={stack.id}>{stack.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="markdown">Markdown</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button variant="outline" className="w-full" onClick={handleExport} disabled={!exportStack || isExporting}>
+            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? 'Exporting...' : 'Export Questions'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuestionImportExport;
@@ -5,37 +5,79 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { Upload, Plus } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus, Trash } from 'lucide-react';
 import { toast } from 'sonner';
-import { useInterview } from '@/context/InterviewContext';
+import { useInterview, Question, TestCase, QuestionType } from '@/context/InterviewContext';
 import { questionAPI } from '@/api';
+import { CODE_LANGUAGES, DEFAULT_CODE_LANGUAGE, getCodeLanguage } from '@/lib/codeLanguages';
+import QuestionImportExport from '@/components/QuestionImportExport';
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  verbal: 'Verbal',
+  coding: 'Coding',
+  'multiple-choice': 'Multiple Choice',
+  'free-text': 'Free Text',
+  'system-design': 'System Design'
+};
+
+type OptionDraft = {
+  text: string;
+  correct: boolean;
+};
 
 interface QuestionManagerProps {
   showUploadSection?: boolean;
+  // Question to edit instead of adding a new one
+  question?: Question;
+  onSaved?: () => void;
+  onCancel?: () => void;
 }
 
-const QuestionManager: React.FC<QuestionManagerProps> = ({ showUploadSection = true }) => {
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const QuestionManager: React.FC<QuestionManagerProps> = ({ showUploadSection = true, question, onSaved, onCancel }) => {
   const { availableTechStacks, refreshQuestions } = useInterview();
-  const [selectedStack, setSelectedStack] = useState<string>('');
-  const [questionText, setQuestionText] = useState<string>('');
-  const [difficulty, setDifficulty] = useState<string>('');
+  const [selectedStack, setSelectedStack] = useState<string>(question?.stackId || '');
+  const [questionText, setQuestionText] = useState<string>(question?.text || '');
+  const [difficulty, setDifficulty] = useState<string>(question?.difficulty || '');
+  const [questionType, setQuestionType] = useState<QuestionType>(question?.type || 'verbal');
+  const [options, setOptions] = useState<OptionDraft[]>(
+    question?.options && question.options.length >= 2
+      ? question.options.map(option => ({ text: option.text, correct: !!option.correct }))
+      : [{ text: '', correct: false }, { text: '', correct: false }]
+  );
+  const [keyPoints, setKeyPoints] = useState<string>((question?.keyPoints || []).join('\n'));
+  const [modelAnswer, setModelAnswer] = useState<string>(question?.modelAnswer || '');
+  const [tags, setTags] = useState<string>((question?.tags || []).join(', '));
+  const [topics, setTopics] = useState<string>((question?.topics || []).join(', '));
+  const [referenceLanguage, setReferenceLanguage] = useState<string>(question?.referenceLanguage || DEFAULT_CODE_LANGUAGE);
+  const [languages, setLanguages] = useState<string[]>(question?.languages || []);
+  const [starterCode, setStarterCode] = useState<Record<string, string>>(question?.starterCode || {});
+  const [testCases, setTestCases] = useState<TestCase[]>(question?.testCases || []);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Verbal answers can include code, so they keep the coding settings
+  const hasCodeInput = questionType === 'coding' || questionType === 'verbal';
 
-    // Check file extension
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    if (!extension || !['txt', 'docx', 'csv'].includes(extension)) {
-      toast.error('Invalid file format. Please upload .txt, .docx, or .csv files only.');
-      return;
-    }
+  const updateOption = (index: number, changes: Partial<OptionDraft>) => {
+    setOptions(prev => prev.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  const updateTestCase = (index: number, changes: Partial<TestCase>) => {
+    setTestCases(prev => prev.map((testCase, i) => (i === index ? { ...testCase, ...changes } : testCase)));
+  };
 
-    // Demo only - in real app this would send to backend
-    toast.success(`File "${file.name}" uploaded successfully (demo)`);
+  const toggleLanguage = (language: string, checked: boolean) => {
+    setLanguages(prev => (checked ? [...prev, language] : prev.filter(id => id !== language)));
   };
 
+  // Starter code can be set for every language the candidate may pick
+  const starterCodeLanguages = languages.length > 0
+    ? Array.from(new Set([referenceLanguage, ...languages]))
+    : [referenceLanguage];
+
   const handleSingleQuestion = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     
@@ -54,31 +96,79 @@ const QuestionManager: React.FC<QuestionManagerProps> = ({ showUploadSection = t
       return;
     }
     
+    const filledOptions = options.filter(option => option.text.trim());
+    if (questionType === 'multiple-choice' && (filledOptions.length < 2 || !filledOptions.some(option => option.correct))) {
+      toast.error('Add at least two options and mark the correct one');
+      return;
+    }
+    
+    if (hasCodeInput && testCases.some(testCase => !testCase.expectedOutput.trim())) {
+      toast.error('Every test case needs an expected output');
+      return;
+    }
+    
     setIsSubmitting(true);
     
     try {
-      // Call the API to create a new question
-      const response = await questionAPI.create({
+      const questionData = {
         techStack: selectedStack,
         text: questionText,
-        difficulty: difficulty
-      });
+        difficulty: difficulty,
+        type: questionType,
+        options: questionType === 'multiple-choice'
+          ? filledOptions.map(option => ({ text: option.text.trim(), correct: option.correct }))
+          : [],
+        keyPoints: keyPoints.split('\n').map(point => point.trim()).filter(Boolean),
+        modelAnswer: modelAnswer.trim(),
+        tags: splitList(tags),
+        topics: splitList(topics),
+        referenceLanguage,
+        languages: languages.length > 0 ? starterCodeLanguages : [],
+        starterCode: Object.fromEntries(
+          starterCodeLanguages
+            .filter(language => starterCode[language]?.trim())
+            .map(language => [language, starterCode[language]])
+        ),
+        testCases: hasCodeInput ? testCases : []
+      };
+
+      // Edits save a new version; interviews that asked the question keep
+      // the version they asked
+      const response = question
+        ? await questionAPI.update(question.id, questionData)
+        : await questionAPI.create(questionData);
       
       if (response.data && response.data.success) {
-        toast.success('Question added successfully');
+        toast.success(question ? 'Question updated' : 'Question added successfully');
         
-        // Refresh questions for this stack
+        // Refresh questions for this stack, and the one it moved from
         await refreshQuestions(selectedStack);
+        if (question && question.stackId !== selectedStack) {
+          await refreshQuestions(question.stackId);
+        }
+
+        if (question) {
+          onSaved?.();
+          return;
+        }
         
         // Reset form
         setQuestionText('');
         setDifficulty('');
+        setOptions([{ text: '', correct: false }, { text: '', correct: false }]);
+        setKeyPoints('');
+        setModelAnswer('');
+        setTags('');
+        setTopics('');
+        setLanguages([]);
+        setStarterCode({});
+        setTestCases([]);
       } else {
-        toast.error('Failed to add question');
+        toast.error(question ? 'Failed to update question' : 'Failed to add question');
       }
     } catch (error) {
-      console.error('Error adding question:', error);
-      toast.error('Failed to add question');
+      console.error('Error saving question:', error);
+      toast.error(question ? 'Failed to update question' : 'Failed to add question');
     } finally {
       setIsSubmitting(false);
     }
@@ -86,61 +176,15 @@ const QuestionManager: React.FC<QuestionManagerProps> = ({ showUploadSection = t
 
   return (
     <div className="space-y-6">
-      {showUploadSection && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Upload Questions File</CardTitle>
-            <CardDescription>
-              Upload questions in bulk using .txt, .docx, or .csv files
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="stack-select">Select Tech Stack</Label>
-                <Select value={selectedStack} onValueChange={setSelectedStack}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Choose a tech stack" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {availableTechStacks.map((stack) => (
-                      <SelectItem key={stack.id} value={stack.id}>
-                        {stack.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="file-upload">Upload File</Label>
-                <div className="flex items-center gap-4">
-                  <Input
-                    id="file-upload"
-                    type="file"
-                    accept=".txt,.docx,.csv"
-                    className="flex-1"
-                    onChange={handleFileUpload}
-                  />
-                  <Button variant="secondary">
-                    <Upload className="w-4 h-4 mr-2" />
-                    Upload
-                  </Button>
-                </div>
-                <p className="text-sm text-muted-foreground">
-                  Supported formats: .txt, .docx, .csv
-                </p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )}
+      {showUploadSection && !question && <QuestionImportExport />}
 
       <Card>
         <CardHeader>
-          <CardTitle>Add Single Question</CardTitle>
+          <CardTitle>{question ? 'Edit Question' : 'Add Single Question'}</CardTitle>
           <CardDescription>
-            Add a single question to the selected tech stack
+            {question
+              ? `Saving changes creates version ${(question.version || 1) + 1}; past interviews keep the version they asked`
+              : 'Add a single question to the selected tech stack'}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -184,10 +228,244 @@ const QuestionManager: React.FC<QuestionManagerProps> = ({ showUploadSection = t
                 </SelectContent>
               </Select>
             </div>
-            <Button type="submit" disabled={isSubmitting} className="w-full">
-              <Plus className="w-4 h-4 mr-2" />
-              {isSubmitting ? 'Adding...' : 'Add Question'}
-            </Button>
+            <div className="space-y-2">
+              <Label htmlFor="question-type">Question Type</Label>
+              <Select value={questionType} onValueChange={(value) => setQuestionType(value as QuestionType)}>
+                <SelectTrigger id="question-type">
+                  <SelectValue placeholder="Select question type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {questionType === 'multiple-choice' && (
+              <div className="space-y-3">
+                <Label>Options</Label>
+                <p className="text-sm text-muted-foreground">
+                  Mark every correct option. Answers are graded automatically; with more than one correct option
+                  candidates can select several.
+                </p>
+                {options.map((option, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      placeholder={`Option ${index + 1}`}
+                      value={option.text}
+                      onChange={(e) => updateOption(index, { text: e.target.value })}
+                    />
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        id={`option-correct-${index}`}
+                        checked={option.correct}
+                        onCheckedChange={(checked) => updateOption(index, { correct: checked })}
+                      />
+                      <Label htmlFor={`option-correct-${index}`} className="text-xs">Correct</Label>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => setOptions(prev => prev.filter((_, i) => i !== index))}
+                      disabled={options.length <= 2}
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOptions(prev => [...prev, { text: '', correct: false }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" /> Add Option
+                </Button>
+              </div>
+            )}
+            {questionType !== 'multiple-choice' && (
+              <div className="space-y-2">
+                <Label htmlFor="key-points">Expected Key Points</Label>
+                <Textarea
+                  id="key-points"
+                  placeholder="One point per line, e.g. Explains the trade-off between consistency and availability"
+                  value={keyPoints}
+                  onChange={(e) => setKeyPoints(e.target.value)}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Optional. Given to the evaluator as what a complete answer should cover; never shown to candidates.
+                </p>
+              </div>
+            )}
+            {questionType !== 'multiple-choice' && (
+              <div className="space-y-2">
+                <Label htmlFor="model-answer">Model Answer</Label>
+                <Textarea
+                  id="model-answer"
+                  placeholder="An answer that would get full marks"
+                  value={modelAnswer}
+                  onChange={(e) => setModelAnswer(e.target.value)}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Optional. The evaluator uses it as a reference, not as the only right answer; never shown to candidates.
+                </p>
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="question-tags">Tags</Label>
+                <Input
+                  id="question-tags"
+                  placeholder="e.g. fundamentals, async"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="question-topics">Topics</Label>
+                <Input
+                  id="question-topics"
+                  placeholder="e.g. Event loop, Promises"
+                  value={topics}
+                  onChange={(e) => setTopics(e.target.value)}
+                />
+              </div>
+            </div>
+            {hasCodeInput && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="reference-language">Coding Language</Label>
+                  <Select value={referenceLanguage} onValueChange={setReferenceLanguage}>
+                    <SelectTrigger id="reference-language">
+                      <SelectValue placeholder="Select language" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CODE_LANGUAGES.map(language => (
+                        <SelectItem key={language.id} value={language.id}>
+                          {language.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!getCodeLanguage(referenceLanguage).runnable && (
+                    <p className="text-sm text-muted-foreground">
+                      Test cases can only be run for JavaScript, TypeScript and Python.
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>Allowed Languages</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Languages the candidate can pick in the code editor. Leave empty to use the tech stack's languages.
+                  </p>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {CODE_LANGUAGES.map(language => (
+                      <div key={language.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`question-language-${language.id}`}
+                          checked={languages.includes(language.id)}
+                          onCheckedChange={(checked) => toggleLanguage(language.id, checked === true)}
+                        />
+                        <Label htmlFor={`question-language-${language.id}`} className="font-normal">
+                          {language.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  <Label>Starter Code</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Optional. Shown in the editor when the candidate starts the question or switches language.
+                  </p>
+                  {starterCodeLanguages.map(language => (
+                    <div key={language} className="space-y-1">
+                      <Label htmlFor={`starter-code-${language}`} className="text-xs">
+                        {getCodeLanguage(language).label}
+                      </Label>
+                      <Textarea
+                        id={`starter-code-${language}`}
+                        className="font-mono text-sm"
+                        placeholder={getCodeLanguage(language).starterCode}
+                        value={starterCode[language] || ''}
+                        onChange={(e) => setStarterCode(prev => ({ ...prev, [language]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-3">
+                  <Label>Test Cases</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Optional. Submitted code receives the input on stdin and passes when it prints the expected output.
+                    Hidden test cases are not shown to candidates.
+                  </p>
+                  {testCases.map((testCase, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-start">
+                      <Textarea
+                        className="col-span-5 font-mono text-sm"
+                        placeholder="Input"
+                        value={testCase.input}
+                        onChange={(e) => updateTestCase(index, { input: e.target.value })}
+                      />
+                      <Textarea
+                        className="col-span-5 font-mono text-sm"
+                        placeholder="Expected output"
+                        value={testCase.expectedOutput}
+                        onChange={(e) => updateTestCase(index, { expectedOutput: e.target.value })}
+                      />
+                      <div className="col-span-2 flex flex-col items-center gap-2">
+                        <div className="flex items-center gap-1">
+                          <Switch
+                            id={`test-hidden-${index}`}
+                            checked={!!testCase.hidden}
+                            onCheckedChange={(checked) => updateTestCase(index, { hidden: checked })}
+                          />
+                          <Label htmlFor={`test-hidden-${index}`} className="text-xs">Hidden</Label>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => setTestCases(prev => prev.filter((_, i) => i !== index))}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTestCases(prev => [...prev, { input: '', expectedOutput: '', hidden: false }])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" /> Add Test Case
+                  </Button>
+                </div>
+              </>
+            )}
+            {question ? (
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSubmitting} className="flex-1">
+                  {isSubmitting ? 'Saving...' : 'Save Changes'}
+                </Button>
+                {onCancel && (
+                  <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Button type="submit" disabled={isSubmitting} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                {isSubmitting ? 'Adding...' : 'Add Question'}
+              </Button>
+            )}
           </form>
         </CardContent>
       </Card>
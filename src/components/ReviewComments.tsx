@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { MessageSquarePlus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { AnswerComment } from '@/api';
+import { formatTimestamp, parseTimestamp } from '@/lib/transcriptPhrases';
+
+interface ReviewCommentsProps {
+  comments: AnswerComment[];
+  // Seconds into the recording, to start new comments from
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  onAdd: (comment: { start: number; end: number; text: string }) => Promise<void>;
+  onDelete: (commentId: string) => Promise<void>;
+}
+
+// New comments cover the last few seconds heard, which is usually what
+// made the reviewer stop
+const DEFAULT_RANGE_SECONDS = 5;
+
+// Reviewers' notes on parts of a recording. Clicking a note's time range
+// plays the recording from its start.
+const ReviewComments: React.FC<ReviewCommentsProps> = ({ comments, currentTime, onSeek, onAdd, onDelete }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [text, setText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startAdding = () => {
+    setStart(formatTimestamp(Math.max(0, currentTime - DEFAULT_RANGE_SECONDS)));
+    setEnd(formatTimestamp(Math.ceil(currentTime)));
+    setText('');
+    setIsAdding(true);
+  };
+
+  const handleSave = async () => {
+    const startSeconds = parseTimestamp(start);
+    const endSeconds = parseTimestamp(end);
+    if (startSeconds === null || endSeconds === null) {
+      toast.error('Enter the start and end as minutes:seconds, e.g. 1:05');
+      return;
+    }
+    if (endSeconds < startSeconds) {
+      toast.error('The comment cannot end before it starts');
+      return;
+    }
+    if (!text.trim()) {
+      toast.error('Please write a comment');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onAdd({ start: startSeconds, end: endSeconds, text: text.trim() });
+      setIsAdding(false);
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast.error(error?.response?.data?.error || 'Failed to add comment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      await onDelete(commentId);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Failed to delete comment');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {comments.map(comment => (
+        <div key={comment._id} className="p-3 bg-amber-50 rounded-lg text-sm">
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              className="font-medium text-amber-800 underline tabular-nums"
+              onClick={() => onSeek(comment.start)}
+            >
+              {formatTimestamp(comment.start)}–{formatTimestamp(comment.end)}
+            </button>
+            <div className="flex items-center text-xs text-gray-500">
+              {comment.author?.name}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-1 h-6 w-6 p-0"
+                onClick={() => handleDelete(comment._id)}
+                aria-label="Delete comment"
+              >
+                <Trash2 size={12} />
+              </Button>
+            </div>
+          </div>
+          <p className="mt-1 whitespace-pre-wrap">{comment.text}</p>
+        </div>
+      ))}
+
+      {isAdding ? (
+        <div className="p-3 border rounded-lg space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span>From</span>
+            <Input value={start} onChange={e => setStart(e.target.value)} className="w-20 h-8" aria-label="Start" />
+            <span>to</span>
+            <Input value={end} onChange={e => setEnd(e.target.value)} className="w-20 h-8" aria-label="End" />
+          </div>
+          <Textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder="What stood out in this part of the answer?"
+            maxLength={2000}
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setIsAdding(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Add Comment'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="ghost" size="sm" className="text-xs" onClick={startAdding}>
+          <MessageSquarePlus className="mr-1 h-3 w-3" />
+          Comment at {formatTimestamp(currentTime)}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ReviewComments;
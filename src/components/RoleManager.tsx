@@ -4,9 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Form, FormControl, FormField, FormItem, FormLabel } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { useForm } from 'react-hook-form';
 import { toast } from 'sonner';
-import { roleAPI, techStackAPI } from '@/api';
+import { roleAPI, techStackAPI, aiAPI, rubricAPI } from '@/api';
 import { Badge } from '@/components/ui/badge';
 import { X, Plus } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -14,6 +15,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 type RoleFormData = {
   name: string;
   description: string;
+  evaluationProvider: string;
+  rubric: string;
+  followUpQuestions: boolean;
+};
+
+// Select value used for "use the deployment default provider"
+const DEFAULT_PROVIDER_VALUE = 'default';
+
+// Select value used for "use the default rubric"
+const DEFAULT_RUBRIC_VALUE = 'default';
+
+type RubricOption = {
+  id: string;
+  name: string;
 };
 
 type TechStack = {
@@ -27,18 +42,27 @@ type Role = {
   name: string;
   description: string;
   techStacks: TechStack[];
+  evaluationProvider?: string | null;
+  rubric?: string | null;
+  followUpQuestions: boolean;
 };
 
 const RoleManager = () => {
   const [roles, setRoles] = useState<Role[]>([]);
   const [techStacks, setTechStacks] = useState<TechStack[]>([]);
+  const [evaluationProviders, setEvaluationProviders] = useState<string[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState<string>('');
+  const [rubrics, setRubrics] = useState<RubricOption[]>([]);
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   
   const form = useForm<RoleFormData>({
     defaultValues: {
       name: '',
-      description: ''
+      description: '',
+      evaluationProvider: DEFAULT_PROVIDER_VALUE,
+      rubric: DEFAULT_RUBRIC_VALUE,
+      followUpQuestions: false
     }
   });
 
@@ -46,6 +70,8 @@ const RoleManager = () => {
   useEffect(() => {
     fetchRoles();
     fetchTechStacks();
+    fetchEvaluationProviders();
+    fetchRubrics();
   }, []);
 
   const fetchRoles = async () => {
@@ -57,6 +83,9 @@ const RoleManager = () => {
           id: role._id,
           name: role.name,
           description: role.description,
+          evaluationProvider: role.evaluationProvider || null,
+          rubric: role.rubric || null,
+          followUpQuestions: !!role.followUpQuestions,
           techStacks: role.techStacks?.map((stack: any) => ({
             id: typeof stack === 'object' ? stack._id : stack,
             name: typeof stack === 'object' ? stack.name : 'Loading...',
@@ -88,8 +117,39 @@ const RoleManager = () => {
     }
   };
 
-  const handleSubmit = async (data: RoleFormData) => {
+  const fetchEvaluationProviders = async () => {
+    try {
+      const response = await aiAPI.getProviders();
+      if (response.data && response.data.data) {
+        setEvaluationProviders(response.data.data.providers || []);
+        setDefaultProvider(response.data.data.default || '');
+      }
+    } catch (error) {
+      console.error('Error fetching evaluation providers:', error);
+    }
+  };
+
+  const fetchRubrics = async () => {
+    try {
+      const response = await rubricAPI.getAll();
+      if (response.data && response.data.data) {
+        setRubrics(response.data.data.map((rubric: { _id: string; name: string }) => ({
+          id: rubric._id,
+          name: rubric.name
+        })));
+      }
+    } catch (error) {
+      console.error('Error fetching rubrics:', error);
+    }
+  };
+
+  const handleSubmit = async (formData: RoleFormData) => {
     setIsLoading(true);
+    const data = {
+      ...formData,
+      evaluationProvider: formData.evaluationProvider === DEFAULT_PROVIDER_VALUE ? null : formData.evaluationProvider,
+      rubric: formData.rubric === DEFAULT_RUBRIC_VALUE ? null : formData.rubric
+    };
     try {
       if (selectedRole) {
         // Update existing role
@@ -117,6 +177,9 @@ const RoleManager = () => {
     setSelectedRole(role);
     form.setValue('name', role.name);
     form.setValue('description', role.description);
+    form.setValue('evaluationProvider', role.evaluationProvider || DEFAULT_PROVIDER_VALUE);
+    form.setValue('rubric', role.rubric || DEFAULT_RUBRIC_VALUE);
+    form.setValue('followUpQuestions', role.followUpQuestions);
   };
 
   const handleDelete = async (roleId: string) => {
@@ -209,6 +272,76 @@ const RoleManager = () => {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="evaluationProvider"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Evaluation Provider</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select evaluation provider" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_PROVIDER_VALUE}>
+                          Deployment default{defaultProvider ? ` (${defaultProvider})` : ''}
+                        </SelectItem>
+                        {evaluationProviders.map(provider => (
+                          <SelectItem key={provider} value={provider}>
+                            {provider}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="rubric"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scoring Rubric</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select scoring rubric" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_RUBRIC_VALUE}>Default rubric</SelectItem>
+                        {rubrics.map(rubric => (
+                          <SelectItem key={rubric.id} value={rubric.id}>
+                            {rubric.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="followUpQuestions"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Follow-up Questions</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        Ask one follow-up question after answers that score low
+                      </p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              
               <div className="flex justify-end space-x-2">
                 {selectedRole && (
                   <Button 
@@ -245,6 +378,15 @@ const RoleManager = () => {
                     <div>
                       <h3 className="text-lg font-semibold">{role.name}</h3>
                       <p className="text-sm text-muted-foreground">{role.description}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Evaluation: {role.evaluationProvider || 'deployment default'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Rubric: {rubrics.find(rubric => rubric.id === role.rubric)?.name || 'default'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Follow-up questions: {role.followUpQuestions ? 'on' : 'off'}
+                      </p>
                     </div>
                     <div className="flex space-x-2">
                       <Button 
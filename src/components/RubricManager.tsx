@@ -0,0 +1,308 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash } from 'lucide-react';
+import { toast } from 'sonner';
+import axios from 'axios';
+import { rubricAPI } from '@/api';
+import { RubricCriterion } from '@/context/InterviewContext';
+
+type Rubric = {
+  id: string;
+  name: string;
+  description: string;
+  criteria: RubricCriterion[];
+};
+
+type CriterionDraft = {
+  key: string;
+  label: string;
+  description: string;
+  weight: string;
+};
+
+const emptyCriterion = (): CriterionDraft => ({ key: '', label: '', description: '', weight: '10' });
+
+// Turn a label such as "Security awareness" into a key like "securityAwareness"
+const toCriterionKey = (label: string) =>
+  label
+    .trim()
+    .replace(/[^A-Za-z0-9]+(.)?/g, (_, char: string | undefined) => (char ? char.toUpperCase() : ''))
+    .replace(/^[^A-Za-z]+/, '')
+    .replace(/^./, char => char.toLowerCase());
+
+const RubricManager = () => {
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [selectedRubric, setSelectedRubric] = useState<Rubric | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [criteria, setCriteria] = useState<CriterionDraft[]>([emptyCriterion()]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    fetchRubrics();
+  }, []);
+
+  const fetchRubrics = async () => {
+    try {
+      const response = await rubricAPI.getAll();
+      if (response.data && response.data.data) {
+        setRubrics(response.data.data.map((rubric: Omit<Rubric, 'id'> & { _id: string }) => ({
+          id: rubric._id,
+          name: rubric.name,
+          description: rubric.description || '',
+          criteria: rubric.criteria || []
+        })));
+      }
+    } catch (error) {
+      console.error('Error fetching rubrics:', error);
+      toast.error('Failed to fetch rubrics');
+    }
+  };
+
+  const resetForm = () => {
+    setSelectedRubric(null);
+    setName('');
+    setDescription('');
+    setCriteria([emptyCriterion()]);
+  };
+
+  const updateCriterion = (index: number, changes: Partial<CriterionDraft>) => {
+    setCriteria(prev => prev.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error('Please enter a rubric name');
+      return;
+    }
+
+    // Existing criteria keep their key so stored scores stay matched up
+    const data = {
+      name: name.trim(),
+      description: description.trim(),
+      criteria: criteria.map(criterion => ({
+        key: criterion.key || toCriterionKey(criterion.label),
+        label: criterion.label.trim(),
+        description: criterion.description.trim() || undefined,
+        weight: Number(criterion.weight)
+      }))
+    };
+
+    if (data.criteria.some(criterion => !criterion.key || !criterion.label)) {
+      toast.error('Every criterion needs a label');
+      return;
+    }
+
+    if (data.criteria.some(criterion => !Number.isFinite(criterion.weight) || criterion.weight < 1)) {
+      toast.error('Criterion weights must be at least 1');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (selectedRubric) {
+        await rubricAPI.update(selectedRubric.id, data);
+        toast.success('Rubric updated successfully');
+      } else {
+        await rubricAPI.create(data);
+        toast.success('Rubric created successfully');
+      }
+
+      resetForm();
+      fetchRubrics();
+    } catch (error) {
+      console.error('Error saving rubric:', error);
+      if (axios.isAxiosError(error) && error.response?.data?.error) {
+        toast.error(`Failed to save rubric: ${error.response.data.error}`);
+      } else {
+        toast.error('Failed to save rubric');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEdit = (rubric: Rubric) => {
+    setSelectedRubric(rubric);
+    setName(rubric.name);
+    setDescription(rubric.description);
+    setCriteria(rubric.criteria.map(criterion => ({
+      key: criterion.key,
+      label: criterion.label,
+      description: criterion.description || '',
+      weight: String(criterion.weight)
+    })));
+  };
+
+  const handleDelete = async (rubricId: string) => {
+    if (!confirm('Are you sure you want to delete this rubric? Roles and tech stacks using it will fall back to the default rubric.')) return;
+
+    setIsLoading(true);
+    try {
+      await rubricAPI.delete(rubricId);
+      toast.success('Rubric deleted successfully');
+      if (selectedRubric?.id === rubricId) {
+        resetForm();
+      }
+      fetchRubrics();
+    } catch (error) {
+      console.error('Error deleting rubric:', error);
+      toast.error('Failed to delete rubric');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const totalWeight = criteria.reduce((sum, criterion) => sum + (Number(criterion.weight) || 0), 0);
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>{selectedRubric ? 'Edit Rubric' : 'Add New Rubric'}</CardTitle>
+          <CardDescription>
+            Define the criteria answers are scored on and how much each one counts towards the overall score.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rubric-name">Rubric Name</Label>
+              <Input
+                id="rubric-name"
+                placeholder="e.g. Backend System Design"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rubric-description">Description</Label>
+              <Textarea
+                id="rubric-description"
+                placeholder="When this rubric should be used"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Label>Criteria</Label>
+              {criteria.map((criterion, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-start">
+                  <Input
+                    className="col-span-4"
+                    placeholder="Label, e.g. Security awareness"
+                    value={criterion.label}
+                    onChange={(e) => updateCriterion(index, { label: e.target.value })}
+                  />
+                  <Input
+                    className="col-span-5"
+                    placeholder="What the evaluator should look for"
+                    value={criterion.description}
+                    onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                  />
+                  <div className="col-span-2 flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={1}
+                      value={criterion.weight}
+                      onChange={(e) => updateCriterion(index, { weight: e.target.value })}
+                    />
+                    <span className="text-xs text-muted-foreground">
+                      {totalWeight > 0 ? `${Math.round(((Number(criterion.weight) || 0) / totalWeight) * 100)}%` : ''}
+                    </span>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="col-span-1 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => setCriteria(prev => prev.filter((_, i) => i !== index))}
+                    disabled={criteria.length === 1}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setCriteria(prev => [...prev, emptyCriterion()])}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add Criterion
+              </Button>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              {selectedRubric && (
+                <Button type="button" variant="outline" onClick={resetForm} disabled={isLoading}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={isLoading}>
+                {selectedRubric ? 'Update Rubric' : 'Create Rubric'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Manage Rubrics</CardTitle>
+          <CardDescription>
+            Assign a rubric to a role or tech stack. A tech stack's rubric takes precedence over its role's.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rubrics.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">
+              No rubrics found. Answers are scored with the default rubric.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {rubrics.map(rubric => (
+                <div key={rubric.id} className="border rounded-lg p-4">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <h3 className="text-lg font-semibold">{rubric.name}</h3>
+                      {rubric.description && (
+                        <p className="text-sm text-muted-foreground">{rubric.description}</p>
+                      )}
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(rubric)}>
+                        Edit
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => handleDelete(rubric.id)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {rubric.criteria.map(criterion => (
+                      <Badge key={criterion.key} variant="secondary">
+                        {criterion.label} · {criterion.weight}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RubricManager;
@@ -8,12 +8,15 @@ interface SendInvitationButtonProps {
   interviewId: string;
   disabled?: boolean;
   onSuccess?: () => void;
+  // Sending again issues a new link and revokes the previous one
+  label?: string;
 }
 
 const SendInvitationButton: React.FC<SendInvitationButtonProps> = ({
   interviewId,
   disabled = false,
-  onSuccess
+  onSuccess,
+  label = 'Send Invitation'
 }) => {
   const [isSending, setIsSending] = useState(false);
 
@@ -48,7 +51,7 @@ const SendInvitationButton: React.FC<SendInvitationButtonProps> = ({
       className="flex items-center gap-2"
     >
       <Mail size={16} />
-      {isSending ? 'Sending...' : 'Send Invitation'}
+      {isSending ? 'Sending...' : label}
     </Button>
   );
 };
@@ -5,21 +5,33 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Plus, X, Edit, Trash } from 'lucide-react';
 import { toast } from 'sonner';
-import { techStackAPI, roleAPI } from '@/api';
+import { techStackAPI, roleAPI, rubricAPI } from '@/api';
 import { useInterview } from '@/context/InterviewContext';
 import axios, { AxiosError } from 'axios';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CODE_LANGUAGES } from '@/lib/codeLanguages';
 
 type TechStack = {
   _id: string;
   id: string;
   name: string;
   description: string;
+  rubric?: string | null;
+  languages: string[];
 };
 
+type RubricOption = {
+  id: string;
+  name: string;
+};
+
+// Select value used for "use the role's or the default rubric"
+const INHERITED_RUBRIC_VALUE = 'inherit';
+
 type Role = {
   _id: string;
   id: string;
@@ -38,6 +50,7 @@ const TechStackManager: React.FC<TechStackManagerProps> = ({ displayFullCard = f
   const [newStackName, setNewStackName] = useState('');
   const [newStackDescription, setNewStackDescription] = useState('');
   const [techStacks, setTechStacks] = useState<TechStack[]>([]);
+  const [rubrics, setRubrics] = useState<RubricOption[]>([]);
   
   // Role state
   const [isSubmittingRole, setIsSubmittingRole] = useState(false);
@@ -53,6 +66,7 @@ const TechStackManager: React.FC<TechStackManagerProps> = ({ displayFullCard = f
   useEffect(() => {
     fetchTechStacks();
     fetchRoles();
+    fetchRubrics();
   }, []);
   
   const fetchTechStacks = async () => {
@@ -63,7 +77,9 @@ const TechStackManager: React.FC<TechStackManagerProps> = ({ displayFullCard = f
           _id: stack._id,
           id: stack._id,
           name: stack.name,
-          description: stack.description
+          description: stack.description,
+          rubric: stack.rubric || null,
+          languages: stack.languages || []
         }));
         setTechStacks(formattedStacks);
       }
@@ -97,6 +113,20 @@ const TechStackManager: React.FC<TechStackManagerProps> = ({ displayFullCard = f
     }
   };
 
+  const fetchRubrics = async () => {
+    try {
+      const response = await rubricAPI.getAll();
+      if (response.data && response.data.data) {
+        setRubrics(response.data.data.map((rubric: { _id: string; name: string }) => ({
+          id: rubric._id,
+          name: rubric.name
+        })));
+      }
+    } catch (error) {
+      console.error('Error fetching rubrics:', error);
+    }
+  };
+
   const handleAddTechStack = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -233,6 +263,32 @@ const TechStackManager: React.FC<TechStackManagerProps> = ({ displayFullCard = f
     }
   };
   
+  const handleSetTechStackRubric = async (techStackId: string, rubricId: string) => {
+    try {
+      await techStackAPI.update(techStackId, {
+        rubric: rubricId === INHERITED_RUBRIC_VALUE ? null : rubricId
+      });
+      toast.success('Tech stack rubric updated');
+      await fetchTechStacks();
+    } catch (error) {
+      console.error('Error updating tech stack rubric:', error);
+      toast.error('Failed to update tech stack rubric');
+    }
+  };
+  
+  const handleToggleTechStackLanguage = async (stack: TechStack, language: string, checked: boolean) => {
+    const languages = checked
+      ? [...stack.languages, language]
+      : stack.languages.filter(id => id !== language);
+    try {
+      await techStackAPI.update(stack._id, { languages });
+      await fetchTechStacks();
+    } catch (error) {
+      console.error('Error updating tech stack languages:', error);
+      toast.error('Failed to update tech stack languages');
+    }
+  };
+  
   const handleDeleteTechStack = async (techStackId: string) => {
     if (!confirm('Are you sure you want to delete this tech stack?')) return;
     
@@ -321,6 +377,45 @@ const TechStackManager: React.FC<TechStackManagerProps> = ({ displayFullCard = f
                 <div>
                   <h4 className="font-medium">{stack.name}</h4>
                   <p className="text-sm text-muted-foreground">{stack.description}</p>
+                  <div className="mt-2 w-[240px]">
+                    <Label htmlFor={`stack-rubric-${stack._id}`} className="text-xs">Scoring Rubric</Label>
+                    <Select
+                      value={stack.rubric || INHERITED_RUBRIC_VALUE}
+                      onValueChange={(value) => handleSetTechStackRubric(stack._id, value)}
+                    >
+                      <SelectTrigger id={`stack-rubric-${stack._id}`} className="h-8">
+                        <SelectValue placeholder="Select a rubric" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={INHERITED_RUBRIC_VALUE}>Role or default rubric</SelectItem>
+                        {rubrics.map(rubric => (
+                          <SelectItem key={rubric.id} value={rubric.id}>
+                            {rubric.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="mt-2">
+                    <Label className="text-xs">Coding Languages</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {stack.languages.length === 0 ? 'All languages are offered.' : 'Offered in the code editor unless a question sets its own.'}
+                    </p>
+                    <div className="mt-1 flex flex-wrap gap-3">
+                      {CODE_LANGUAGES.map(language => (
+                        <div key={language.id} className="flex items-center gap-1">
+                          <Checkbox
+                            id={`stack-language-${stack._id}-${language.id}`}
+                            checked={stack.languages.includes(language.id)}
+                            onCheckedChange={(checked) => handleToggleTechStackLanguage(stack, language.id, checked === true)}
+                          />
+                          <Label htmlFor={`stack-language-${stack._id}-${language.id}`} className="text-xs font-normal">
+                            {language.label}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
                 </div>
                 <Button
                   variant="ghost"
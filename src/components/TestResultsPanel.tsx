@@ -0,0 +1,67 @@
+import React from 'react';
+import { CheckCircle, XCircle, Lock } from 'lucide-react';
+import { TestResults } from '@/context/InterviewContext';
+
+interface TestResultsPanelProps {
+  testResults: TestResults;
+  title?: string;
+}
+
+const TestResultsPanel: React.FC<TestResultsPanelProps> = ({ testResults, title = 'Test Results' }) => {
+  const allPassed = testResults.total > 0 && testResults.passed === testResults.total;
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h5 className="text-xs font-medium text-gray-700">{title}</h5>
+        <span className={`text-xs font-medium ${allPassed ? 'text-green-600' : 'text-red-600'}`}>
+          {testResults.passed} / {testResults.total} passed ({testResults.language})
+        </span>
+      </div>
+      <div className="space-y-2">
+        {testResults.results.map(result => (
+          <div key={result.index} className="text-sm border rounded p-2 bg-white">
+            <div className="flex items-center gap-2">
+              {result.passed ? (
+                <CheckCircle size={14} className="text-green-600" />
+              ) : (
+                <XCircle size={14} className="text-red-600" />
+              )}
+              <span className="font-medium">Test {result.index + 1}</span>
+              {result.hidden && (
+                <span className="flex items-center text-xs text-gray-500">
+                  <Lock size={12} className="mr-1" /> hidden
+                </span>
+              )}
+              {result.error && <span className="text-xs text-red-600">{result.error}</span>}
+            </div>
+            {result.expectedOutput !== undefined && !result.passed && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mt-2 text-xs font-mono">
+                <div>
+                  <div className="text-gray-500 font-sans">Input</div>
+                  <pre className="whitespace-pre-wrap break-words">{result.input || '(none)'}</pre>
+                </div>
+                <div>
+                  <div className="text-gray-500 font-sans">Expected</div>
+                  <pre className="whitespace-pre-wrap break-words">{result.expectedOutput}</pre>
+                </div>
+                <div>
+                  <div className="text-gray-500 font-sans">Actual</div>
+                  <pre className="whitespace-pre-wrap break-words">{result.actualOutput || '(no output)'}</pre>
+                </div>
+                {result.stderr && (
+                  <div className="sm:col-span-3">
+                    <div className="text-gray-500 font-sans">Error output</div>
+                    <pre className="whitespace-pre-wrap break-words text-red-700">{result.stderr}</pre>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TestResultsPanel;
@@ -25,8 +25,11 @@ const ToggleAIMode: React.FC = () => {
               </TooltipTrigger>
               <TooltipContent>
                 <p className="max-w-xs">
-                  Free mode uses browser Web Speech API and local evaluation.
-                  Paid mode uses OpenAI Whisper and GPT for more accurate results.
+                  Free mode uses the browser Web Speech API for transcription, and the
+                  server's speech-to-text provider when the browser heard nothing.
+                  Paid mode always uses the server's provider, which also times each
+                  word. In both modes answers are evaluated by the provider
+                  configured for the interview's role.
                 </p>
               </TooltipContent>
             </Tooltip>
@@ -34,8 +37,8 @@ const ToggleAIMode: React.FC = () => {
         </div>
         <p className="text-sm text-gray-500">
           {useFreeMode 
-            ? "Using browser-based speech recognition and local evaluation (free)" 
-            : "Using OpenAI Whisper and GPT-4 (requires API key)"
+            ? "Using browser-based speech recognition (free)" 
+            : "Using the server's speech-to-text provider"
           }
         </p>
       </div>
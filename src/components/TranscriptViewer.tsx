@@ -1,24 +1,42 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { RefreshCw, Edit } from 'lucide-react';
+import { TranscriptWord } from '@/context/InterviewContext';
+import { cn } from '@/lib/utils';
+import { formatTimestamp, toPhrases } from '@/lib/transcriptPhrases';
 
 interface TranscriptViewerProps {
   transcript?: string;
   answerId: string;
   onReload?: (answerId: string) => Promise<void>;
   onManualEntry?: (answerId: string, transcript: string) => Promise<void>;
+  // With word timings the transcript follows the recording: the phrase
+  // being played is highlighted and clicking a phrase plays from there
+  words?: TranscriptWord[];
+  currentTime?: number;
+  onSeek?: (seconds: number) => void;
+  // Time ranges reviewers commented on, underlined in the transcript
+  commentedRanges?: Array<{ start: number; end: number }>;
 }
 
 const TranscriptViewer: React.FC<TranscriptViewerProps> = ({ 
   transcript, 
   answerId, 
   onReload, 
-  onManualEntry 
+  onManualEntry,
+  words,
+  currentTime,
+  onSeek,
+  commentedRanges = []
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [manualTranscript, setManualTranscript] = useState('');
+  const phrases = useMemo(
+    () => (transcript && words && words.length > 0 ? toPhrases(transcript, words) : []),
+    [transcript, words]
+  );
 
   const handleReload = async () => {
     if (!onReload) return;
@@ -106,7 +124,39 @@ const TranscriptViewer: React.FC<TranscriptViewerProps> = ({
     <div className="w-full">
       {transcript ? (
         <div className="bg-gray-50 p-3 rounded-md text-sm">
-          <p className="whitespace-pre-wrap">{transcript}</p>
+          {phrases.length > 0 ? (
+            <p className="leading-relaxed">
+              {phrases.map(phrase => {
+                const isCurrent = currentTime !== undefined && currentTime >= phrase.start && currentTime < phrase.end;
+                const isCommented = commentedRanges.some(range => range.start < phrase.end && range.end > phrase.start);
+                return (
+                  <React.Fragment key={phrase.start}>
+                    <span
+                      role="button"
+                      tabIndex={0}
+                      title={`Play from ${formatTimestamp(phrase.start)}`}
+                      onClick={() => onSeek?.(phrase.start)}
+                      onKeyDown={event => {
+                        if (event.key === 'Enter' || event.key === ' ') {
+                          event.preventDefault();
+                          onSeek?.(phrase.start);
+                        }
+                      }}
+                      className={cn(
+                        'cursor-pointer rounded px-0.5 transition-colors hover:bg-blue-100',
+                        isCurrent && 'bg-yellow-200 hover:bg-yellow-200',
+                        isCommented && 'underline decoration-amber-500 decoration-2 underline-offset-2'
+                      )}
+                    >
+                      {phrase.text}
+                    </span>{' '}
+                  </React.Fragment>
+                );
+              })}
+            </p>
+          ) : (
+            <p className="whitespace-pre-wrap">{transcript}</p>
+          )}
           <div className="flex justify-end mt-2 space-x-2">
             <Button 
               variant="ghost" 
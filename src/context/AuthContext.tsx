@@ -14,6 +14,8 @@ type AuthContextType = {
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (name: string, email: string, password: string, role?: string) => Promise<void>;
+  // Sign in with a session token issued by the server, e.g. from an invitation link
+  loginWithToken: (token: string) => Promise<void>;
   logout: () => void;
   isAuthenticated: boolean;
   isAdmin: boolean;
@@ -95,6 +97,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const loginWithToken = async (token: string) => {
+    setIsLoading(true);
+    localStorage.setItem('token', token);
+    await fetchCurrentUser();
+  };
+
   const logout = async () => {
     try {
       await authAPI.logout();
@@ -114,6 +122,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         isLoading,
         login,
         register,
+        loginWithToken,
         logout,
         isAuthenticated: !!user,
         isAdmin: user?.role === 'admin'
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import axios from 'axios';
 import { toast } from 'sonner';
-import { techStackAPI, questionAPI, aiAPI, interviewAPI, answerAPI, uploadAPI, roleAPI } from '@/api';
+import { techStackAPI, questionAPI, aiAPI, interviewAPI, answerAPI, roleAPI } from '@/api';
+import { getBrowserTimeZone, JoinWindow } from '@/lib/timezones';
 
 // Types
 export type TechStack = {
@@ -8,6 +10,7 @@ export type TechStack = {
   name: string;
   description: string;
   icon: string;
+  languages?: string[];
 };
 
 export type Role = {
@@ -17,46 +20,198 @@ export type Role = {
   techStacks: string[];
 };
 
+export type TestCase = {
+  input: string;
+  expectedOutput: string;
+  hidden?: boolean;
+};
+
+export type QuestionType = 'verbal' | 'coding' | 'multiple-choice' | 'free-text' | 'system-design';
+
+// `correct` is only sent to admins
+export type QuestionOption = {
+  id: string;
+  text: string;
+  correct?: boolean;
+};
+
 export type Question = {
   id: string;
   stackId: string;
   text: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  type: QuestionType;
+  options?: QuestionOption[];
+  multipleAnswers?: boolean;
+  keyPoints?: string[];
+  // Only sent to admins
+  modelAnswer?: string;
+  tags?: string[];
+  topics?: string[];
+  version?: number;
+  referenceLanguage?: string;
+  languages?: string[];
+  starterCode?: Record<string, string>;
+  testCases?: TestCase[];
+  hiddenTestCaseCount?: number;
+};
+
+// A question as it was when an answer was given; the question may have
+// been edited or deleted since
+export type AskedQuestion = {
+  id: string;
+  version: number;
+  text: string;
+  difficulty: Question['difficulty'];
+  type: QuestionType;
+};
+
+// Answers are evaluated on the server after they are saved: 'queued' and
+// 'running' while that is under way
+export type EvaluationStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed';
+
+export type RubricCriterion = {
+  key: string;
+  label: string;
+  description?: string;
+  weight: number;
+};
+
+export type Rubric = {
+  name: string;
+  criteria: RubricCriterion[];
+};
+
+// Outcome of running an answer's code against one test case. Candidates
+// only get index/hidden/passed for hidden test cases.
+export type TestCaseResult = {
+  index: number;
+  hidden: boolean;
+  passed: boolean;
+  input?: string;
+  expectedOutput?: string;
+  actualOutput?: string;
+  stderr?: string;
+  error?: string;
+  durationMs?: number;
+};
+
+export type TestResults = {
+  language: string;
+  passed: number;
+  total: number;
+  results: TestCaseResult[];
+  executedAt?: string;
+};
+
+// A word of a transcript, with its start and end in seconds into the recording
+export type TranscriptWord = {
+  word: string;
+  start: number;
+  end: number;
 };
 
 export type Answer = {
   id: string;
   questionId: string;
+  questionVersion?: AskedQuestion;
+  // Follow-up question generated from this answer
+  followUpQuestion?: string;
+  // Set on answers to a follow-up question: the answer it follows up on
+  parentAnswerId?: string;
   audioUrl?: string;
   transcript?: string;
+  // Only for transcripts written by the server's speech-to-text provider
+  transcriptWords?: TranscriptWord[];
   code?: string;
   codeLanguage?: string;
   codeEvaluation?: string;
+  textAnswer?: string;
+  selectedOptions?: string[];
   score?: number;
   feedback?: string;
-  criteria?: {
-    technicalAccuracy: number;
-    completeness: number;
-    clarity: number;
-    examples: number;
-  };
+  criteria?: Record<string, number>;
+  rubric?: Rubric;
+  testResults?: TestResults;
+  evaluationStatus?: EvaluationStatus;
+  evaluationError?: string;
+};
+
+export type InterviewMode = 'standard' | 'adaptive';
+
+// no-show: the join window closed without the candidate starting,
+// awaiting-slot: the candidate was sent a link to pick the start time,
+// abandoned: the candidate left before finishing, expired: the duration ran out
+export type InterviewStatus = 'scheduled' | 'in-progress' | 'completed' | 'cancelled' | 'no-show' | 'awaiting-slot'
+  | 'abandoned' | 'expired';
+
+// A question shown in an interview, as the server recorded it
+export type SessionEntry = {
+  question: string;
+  followUp: boolean;
+  outcome: 'open' | 'answered' | 'skipped' | 'timed-out';
+  startedAt: string;
+  deadline?: string;
+  submittedAt: string | null;
+  remainingSeconds: number;
+};
+
+// The interview session kept by the server; times left are in seconds
+export type InterviewSession = {
+  status: InterviewStatus;
+  startedAt: string | null;
+  endsAt: string | null;
+  endedAt: string | null;
+  remainingSeconds: number;
+  questionTimeLimit: number;
+  questions: string[];
+  progress: SessionEntry[];
 };
 
 export type Interview = {
   id: string;
+  // Account the candidate takes the interview with
   candidateId: string;
   roleId?: string; // New field for role
   stackId?: string; // Now optional since we can have multiple tech stacks
   techStackIds?: string[]; // New field for multiple tech stacks
-  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  templateId?: string;
+  // Question ids in the order they are asked: fixed by the interview
+  // template, or the questions served so far in adaptive mode
+  questionIds?: string[];
+  mode?: InterviewMode;
+  // Number of questions asked in adaptive mode
+  questionCount?: number;
+  status: InterviewStatus;
   createdAt: string;
   completedAt?: string;
+  // Start of the interview as an ISO instant; shown in each viewer's time
+  // zone. Empty while the candidate has not picked a slot.
+  startsAt: string;
+  candidateTimezone: string;
+  interviewerTimezone: string;
+  joinWindow?: JoinWindow;
+  // Legacy copies of startsAt
   scheduledDate: string;
   scheduledTime: string;
   duration: number;
+  // Seconds the candidate has for each question
+  questionTimeLimit?: number;
   answers: Answer[];
 };
 
+// Answers to multiple-choice, free-text and system design questions
+export type WrittenResponse = {
+  textAnswer?: string;
+  selectedOptions?: string[];
+};
+
+// A follow-up question asked about an earlier answer
+export type FollowUp = {
+  parentAnswerId: string;
+  question: string;
+};
+
 type InterviewContextType = {
   availableTechStacks: TechStack[];
   availableRoles: Role[];
@@ -67,7 +222,7 @@ type InterviewContextType = {
   startInterview: (candidateId: string, roleId: string, techStackIds: string[]) => Promise<Interview>;
   endInterview: (interviewId: string) => Promise<void>;
   getQuestionsForStack: (stackId: string) => Question[];
-  saveAnswer: (interviewId: string, questionId: string, audioBlob: Blob, transcript?: string, code?: string) => Promise<void>;
+  saveAnswer: (interviewId: string, questionId: string, audioBlob: Blob, transcript?: string, code?: string, codeLanguage?: string, response?: WrittenResponse, followUp?: FollowUp) => Promise<Answer>;
   getInterviewDetails: (interviewId: string) => Interview | null;
   refreshInterview: (interviewId: string) => Promise<Interview | null>;
   isLoading: boolean;
@@ -85,27 +240,6 @@ const InterviewContext = createContext<InterviewContextType | undefined>(undefin
 
 // Mock transcription function has been removed - we now use real transcription
 
-// Mock AI evaluation function (in a real app this would use GPT or other LLM)
-const mockEvaluateAnswer = async (question: string, transcript: string): Promise<{ score: number, feedback: string }> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  // Generate random score between 6 and 10
-  const score = Math.floor(Math.random() * 5) + 6;
-  
-  // Mock feedback based on score
-  let feedback;
-  if (score >= 9) {
-    feedback = "Excellent answer that demonstrates deep understanding of the concept. The explanation was clear, comprehensive, and included relevant examples.";
-  } else if (score >= 7) {
-    feedback = "Good answer that covers the main points. Some additional detail or examples would have strengthened the response.";
-  } else {
-    feedback = "Satisfactory answer that addresses the basic concept. The explanation could be more precise and include more technical details.";
-  }
-  
-  return { score, feedback };
-};
-
 // Function to determine emoji for tech stack
 const getTechStackEmoji = (name: string) => {
   const emojiMap: Record<string, string> = {
@@ -134,6 +268,7 @@ interface ApiTechStack {
   _id: string;
   name: string;
   description: string;
+  languages?: string[];
 }
 
 interface ApiQuestion {
@@ -141,43 +276,89 @@ interface ApiQuestion {
   techStack: string;
   text: string;
   difficulty: 'easy' | 'medium' | 'hard';
+  type?: QuestionType;
+  options?: Array<{ _id: string; text: string; correct?: boolean }>;
+  multipleAnswers?: boolean;
+  keyPoints?: string[];
+  modelAnswer?: string;
+  tags?: string[];
+  topics?: string[];
+  version?: number;
+  referenceLanguage?: string;
+  languages?: string[];
+  starterCode?: Record<string, string>;
+  testCases?: TestCase[];
+  hiddenTestCaseCount?: number;
 }
 
 // Add this interface for API interview data
 interface ApiInterview {
   _id: string;
-  candidate: { _id: string } | string;
+  // Candidate in the pipeline, with the account they sign in with
+  candidate: { _id: string; user?: string | null } | string;
   techStack: { _id: string } | string;
   techStacks?: Array<{ _id: string } | string>; // Add support for multiple tech stacks
   role?: { _id: string } | string; // Add support for role
-  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  template?: string | null;
+  questions?: string[];
+  mode?: InterviewMode;
+  questionCount?: number;
+  status: InterviewStatus;
   createdAt: string;
   completedAt?: string;
+  startsAt?: string;
+  candidateTimezone?: string;
+  interviewerTimezone?: string;
+  joinWindow?: JoinWindow;
   scheduledDate: string;
   scheduledTime: string;
   duration: number;
+  questionTimeLimit?: number;
 }
 
 // Add this interface for API answer data
+interface ApiQuestionVersion {
+  _id: string;
+  version: number;
+  text: string;
+  difficulty: Question['difficulty'];
+  type?: QuestionType;
+}
+
 interface ApiAnswer {
   _id: string;
   question: string;
+  questionVersion?: ApiQuestionVersion | null;
   interview: string;
+  followUpQuestion?: string;
+  parentAnswer?: string | null;
   audioUrl?: string;
   transcript?: string;
+  transcriptWords?: TranscriptWord[];
   code?: string;
   codeLanguage?: string;
   codeEvaluation?: string;
+  textAnswer?: string;
+  selectedOptions?: string[];
   score?: number;
   feedback?: string;
-  criteria?: {
-    technicalAccuracy: number;
-    completeness: number;
-    clarity: number;
-    examples: number;
-  }
+  criteria?: Record<string, number>;
+  rubric?: Rubric;
+  testResults?: TestResults;
+  evaluationStatus?: EvaluationStatus;
+  evaluationError?: string;
 }
 
+// Answers saved before questions had versions have none
+const toAskedQuestion = (version?: ApiQuestionVersion | null): AskedQuestion | undefined =>
+  version ? {
+    id: version._id,
+    version: version.version,
+    text: version.text,
+    difficulty: version.difficulty,
+    type: version.type || 'verbal'
+  } : undefined;
+
 export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   console.log('[DEBUG][InterviewContext] Provider mounted');
   const [currentInterview, setCurrentInterview] = useState<Interview | null>(null);
@@ -219,7 +400,8 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
           id: stack._id,
           name: stack.name,
           description: stack.description,
-          icon: getTechStackEmoji(stack.name)
+          icon: getTechStackEmoji(stack.name),
+          languages: stack.languages || []
         }));
         setAvailableTechStacks(techStacks);
         
@@ -313,7 +495,20 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     stackId: typeof q.techStack === 'object' && q.techStack !== null && '_id' in q.techStack ? q.techStack._id : 
             (typeof q.techStack === 'string' ? q.techStack : stackId),
     text: q.text,
-    difficulty: q.difficulty
+    difficulty: q.difficulty,
+    type: q.type || 'verbal',
+    options: (q.options || []).map(option => ({ id: option._id, text: option.text, correct: option.correct })),
+    multipleAnswers: !!q.multipleAnswers,
+    keyPoints: q.keyPoints || [],
+    modelAnswer: q.modelAnswer,
+    tags: q.tags || [],
+    topics: q.topics || [],
+    version: q.version,
+    referenceLanguage: q.referenceLanguage,
+    languages: q.languages || [],
+    starterCode: q.starterCode || {},
+    testCases: q.testCases || [],
+    hiddenTestCaseCount: q.hiddenTestCaseCount || 0
   }));
         console.log(`[fetchQuestionsForStack] Mapped questions for stackId ${stackId}:`, questions);
         setQuestionsByStack(prev => {
@@ -341,16 +536,15 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     setIsLoading(true);
     
     try {
-      // Use current date/time in proper format
-      const now = new Date();
-      const scheduledDate = now.toISOString(); // full ISO string
-      const scheduledTime = now.toTimeString().substring(0, 5); // "HH:MM"
+      // Practice interviews start right away
+      const timeZone = getBrowserTimeZone();
       // Call the actual API instead of simulating
       const response = await interviewAPI.create({
         candidate: candidateId,
         techStack: stackId,
-        scheduledDate,
-        scheduledTime,
+        startsAt: new Date().toISOString(),
+        candidateTimezone: timeZone,
+        interviewerTimezone: timeZone,
         duration: 30
       });
       
@@ -383,7 +577,7 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   };
 
-  const saveAnswer = async (interviewId: string, questionId: string, audioBlob: Blob, transcript?: string, code?: string, codeLanguage?: string): Promise<void> => {
+  const saveAnswer = async (interviewId: string, questionId: string, audioBlob: Blob, transcript?: string, code?: string, codeLanguage?: string, response?: WrittenResponse, followUp?: FollowUp): Promise<Answer> => {
     setIsLoading(true);
     
     try {
@@ -396,9 +590,8 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       // Create object URL for the audio blob
       const audioUrl = URL.createObjectURL(audioBlob);
       
-      // Find the question and tech stack
+      // Find the question
       const stackId = interview.stackId;
-      const stack = availableTechStacks.find(s => s.id === stackId);
       
       // Find the question from our state
       const question = questionsByStack[stackId]?.find(q => q.id === questionId) ||
@@ -410,35 +603,26 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         throw new Error('Question not found');
       }
       
-      let finalTranscript = transcript;
-      let score, feedback, criteria;
+      // Written and multiple-choice answers may come without a recording
+      let finalTranscript = transcript || '';
+      let transcriptWords: TranscriptWord[] | undefined;
+      let transcriptionProvider: string | undefined;
       // We no longer use mock transcripts
       
-      // Get the transcription
-      if (!finalTranscript) {
+      // Recordings without a transcript from the browser (paid mode, or
+      // when Web Speech heard nothing) are transcribed by the server's
+      // speech-to-text provider, which also times each word
+      if (!finalTranscript && audioBlob.size > 0) {
         try {
-          if (useFreeMode) {
-            // In free mode, we now use the real transcription API as well
-            const transcriptionResponse = await aiAPI.transcribe(audioBlob);
-            if (transcriptionResponse.data && transcriptionResponse.data.data) {
-              finalTranscript = transcriptionResponse.data.data.text || transcriptionResponse.data.data;
-              console.log('Using real transcript (free mode):', finalTranscript.substring(0, 30));
-            }
-          } else {
-            // In paid mode, always use the real transcription API
-            const transcriptionResponse = await aiAPI.transcribe(audioBlob);
-            if (transcriptionResponse.data && transcriptionResponse.data.data) {
-              // Handle both response formats - either data.data.text or just data.data as the transcript
-              finalTranscript = transcriptionResponse.data.data.text || transcriptionResponse.data.data;
-              
-              if (!finalTranscript) {
-                throw new Error('Transcription failed');
-              }
-              console.log('Real transcript obtained:', finalTranscript.substring(0, 30));
-            } else {
-              throw new Error('Invalid transcription response format');
-            }
+          const transcriptionResponse = await aiAPI.transcribe(audioBlob, interviewId);
+          const transcription = transcriptionResponse.data?.data;
+          if (!transcription?.text) {
+            throw new Error('Transcription failed');
           }
+          finalTranscript = transcription.text;
+          transcriptWords = transcription.words;
+          transcriptionProvider = transcription.provider;
+          console.log(`Transcript obtained from ${transcription.provider}:`, finalTranscript.substring(0, 30));
         } catch (error) {
           console.error('Transcription error:', error);
           
@@ -453,75 +637,10 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       const wordCount = finalTranscript.trim().split(/\s+/).length;
       console.log(`Answer word count: ${wordCount} for question: ${question.text.substring(0, 30)}...`);
       
-      if (wordCount < 5 && !finalTranscript.includes('[TRANSCRIPTION FAILED]')) {
+      if (!response && wordCount < 5 && !finalTranscript.includes('[TRANSCRIPTION FAILED]')) {
         toast.warning('Your answer is too short or incomplete. Please provide a more detailed response.');
       }
       
-      // Always use Cohere AI for evaluation regardless of free mode
-      try {
-        // Paid mode - Use OpenAI services
-        try {
-          // Skip to evaluation - we already handled transcription above
-          const evaluationResponse = await aiAPI.evaluate({
-            question: question.text,
-            transcript: finalTranscript,
-            techStack: stack?.name,
-            code: code,
-            codeLanguage: codeLanguage
-          });
-          
-          if (evaluationResponse.data && evaluationResponse.data.data) {
-            const evaluation = evaluationResponse.data.data;
-            score = evaluation.score;
-            feedback = evaluation.feedback;
-            criteria = evaluation.criteria;
-            
-            // Check if evaluation method info is available
-            const evaluationMethod = evaluationResponse.data.evaluationMethod || 'unknown';
-            console.log(`✅ Answer evaluated using ${evaluationMethod.toUpperCase()} AI`);
-            
-            // Add evaluation method to feedback
-            if (evaluationMethod === 'cohere') {
-              feedback = `[EVALUATED BY COHERE AI] \n\n${feedback}`;
-              toast.success('Answer evaluated using Cohere AI');
-            } else if (evaluationMethod === 'fallback') {
-              feedback = `[EVALUATED BY FALLBACK SYSTEM] \n\n${feedback}`;
-              toast.info('Answer evaluated using fallback system');
-            }
-          } else {
-            throw new Error('Evaluation failed');
-          }
-        } catch (error) {
-          console.error('Evaluation error:', error);
-          toast.error('Evaluation failed, using backup method');
-          // Fallback to mock evaluation in case of failure
-          const mockEval = await mockEvaluateAnswer(question.text, finalTranscript);
-          score = mockEval.score;
-          feedback = `[MOCK EVALUATION] ${mockEval.feedback}\n\nNote: This is an auto-generated mock evaluation because the AI evaluation service failed.`;
-        }
-      } catch (error) {
-        console.error('Evaluation error:', error);
-        toast.error('Evaluation failed, using backup method');
-        // Fallback to mock evaluation in case of failure
-        const mockEval = await mockEvaluateAnswer(question.text, finalTranscript);
-        score = mockEval.score;
-        feedback = `[MOCK EVALUATION] ${mockEval.feedback}\n\nNote: This is an auto-generated mock evaluation because the AI evaluation service failed.`;
-      }
-      
-      // Extract code evaluation from feedback if available
-      let codeEvaluation = '';
-      if (code && feedback) {
-        // Look for code-specific feedback in the overall feedback
-        const codeEvalRegex = /(?:Code Assessment|Code evaluation|Code submission|Code analysis):([\s\S]*?)(?=\n\n|$)/i;
-        const match = feedback.match(codeEvalRegex);
-        if (match) {
-          codeEvaluation = match[0];
-        } else {
-          // If no specific section found, create a generic one
-          codeEvaluation = 'Code was evaluated as part of the overall response.';
-        }
-      }
-      
       // Create answer object with properly formatted transcript
       // Make sure transcript is a string, not an object
       const transcriptToSave = typeof finalTranscript === 'object' && finalTranscript !== null && 'text' in finalTranscript ? 
@@ -531,105 +650,53 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       const answer: Answer = {
         id: Date.now().toString(), // Temporary ID
         questionId: questionId,
+        parentAnswerId: followUp?.parentAnswerId,
         audioUrl: audioUrl,
         transcript: transcriptToSave,
+        transcriptWords,
         code: code || '',
         codeLanguage: codeLanguage || '',
-        codeEvaluation: codeEvaluation,  // Include code evaluation
-        score,
-        feedback,
-        criteria
+        textAnswer: response?.textAnswer,
+        selectedOptions: response?.selectedOptions,
+        evaluationStatus: 'queued'
       };
       
-      console.log("Created answer object with criteria:", criteria);
+      // Log what we're about to save to the database
+      console.log('Saving answer to database with data:', {
+        interview: interviewId,
+        question: questionId,
+        hasTranscript: !!finalTranscript,
+        transcriptLength: finalTranscript ? finalTranscript.length : 0,
+        hasCode: !!code,
+        codeLength: code ? code.length : 0
+      });
       
-      // Try to upload the audio and save the answer to the database
-      try {
-        // Pass the Blob directly to the uploadAPI instead of creating a File
-        console.log('Uploading audio file, size:', audioBlob.size, 'bytes', 'type:', audioBlob.type);
-        
-        // Create a more reliable Blob with explicit type if missing
-        let uploadBlob = audioBlob;
-        if (!audioBlob.type || audioBlob.type === '') {
-          // If no type, create a new Blob with audio/webm type (most common for recordings)
-          uploadBlob = new Blob([audioBlob], { type: 'audio/webm' });
-          console.log('Created new blob with explicit type:', uploadBlob.type);
-        }
-        
-        // Use the uploadAPI to handle the file upload properly
-        const uploadResponse = await uploadAPI.uploadAudio(uploadBlob);
-        
-        console.log('Upload response received:', uploadResponse);
-        
-        if (!uploadResponse.data || uploadResponse.data.success === false) {
-          console.error('Upload failed with response:', uploadResponse);
-          throw new Error('Failed to upload audio');
-        }
-        
-        // Extract the file URL from the response
-        const serverAudioUrl = uploadResponse.data.data.fileUrl;
-        console.log('File uploaded successfully with URL:', serverAudioUrl);
-        
-        // Ensure we have properly formatted criteria
-        const formattedCriteria = criteria ? {
-          technicalAccuracy: criteria.technicalAccuracy || 0,
-          completeness: criteria.completeness || 0,
-          clarity: criteria.clarity || 0,
-          examples: criteria.examples || 0
-        } : undefined;
-        
-        console.log("Formatted criteria for initial save:", formattedCriteria);
-        
-        // Log what we're about to save to the database
-        console.log('Saving answer to database with data:', {
-          interview: interviewId,
-          question: questionId,
-          hasTranscript: !!finalTranscript,
-          transcriptLength: finalTranscript ? finalTranscript.length : 0,
-          hasAudioUrl: !!serverAudioUrl,
-          hasCode: !!code,
-          codeLength: code ? code.length : 0,
-          hasScore: score !== undefined,
-          score: score,
-          hasFeedback: !!feedback,
-          feedbackLength: feedback ? feedback.length : 0,
-          hasCriteria: !!formattedCriteria
-        });
-        
-        // Now save the answer with ALL data including evaluation in one step
-        // Ensure transcript is properly formatted as a string before saving
-        const transcriptToSave = typeof finalTranscript === 'object' && finalTranscript !== null && 'text' in finalTranscript ? 
-          finalTranscript.text as string : 
-          (typeof finalTranscript === 'string' ? finalTranscript : '');
-          
-        const answerResponse = await answerAPI.create({
-          interview: interviewId,
-          question: questionId,
-          transcript: transcriptToSave || '',
-          audioUrl: serverAudioUrl || '',
-          code: code || '',
-          codeLanguage: codeLanguage || 'javascript',
-          score: score !== undefined ? score : null,
-          feedback: feedback || '',
-          criteria: formattedCriteria || {
-            technicalAccuracy: 0,
-            completeness: 0,
-            clarity: 0,
-            examples: 0
-          }
-        });
-        
-        console.log("Complete answer created in database:", answerResponse.data);
-        
-        // If we got a response, update the local answer ID with the server-generated one
-        if (answerResponse.data && answerResponse.data.data) {
-          const createdAnswerId = answerResponse.data.data._id;
-          answer.id = createdAnswerId;
-        }
-      } catch (error) {
-        console.error('Failed to save answer to database:', error);
-        toast.warning('Answer saved locally but failed to store on server');
-        // Continue with local state update even if API fails
+      // Save the answer; the server evaluates it in the background. The
+      // recording is uploaded by the caller and attached once it is on the
+      // server.
+      const answerResponse = await answerAPI.create({
+        interview: interviewId,
+        question: questionId,
+        parentAnswer: followUp?.parentAnswerId,
+        transcript: transcriptToSave || '',
+        transcriptWords,
+        transcriptionProvider,
+        audioUrl: '',
+        code: code || '',
+        codeLanguage: codeLanguage || 'javascript',
+        textAnswer: response?.textAnswer,
+        selectedOptions: response?.selectedOptions
+      });
+      
+      console.log("Complete answer created in database:", answerResponse.data);
+      
+      // If we got a response, update the local answer ID with the server-generated one
+      if (answerResponse.data && answerResponse.data.data) {
+        const createdAnswerId = answerResponse.data.data._id;
+        answer.id = createdAnswerId;
+        // Multiple-choice answers are graded as they are saved
+        answer.score = answerResponse.data.data.score;
+        answer.evaluationStatus = answerResponse.data.data.evaluationStatus || answer.evaluationStatus;
       }
       
       // Update interview with new answer in local state
@@ -643,15 +710,20 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         prev.map(i => (i.id === interviewId ? updatedInterview : i))
       );
       
-      // Update current interview if it's the one being updated
-      if (currentInterview?.id === interviewId) {
-        setCurrentInterview(updatedInterview);
-      }
+      // Update current interview if it's the one being updated, keeping
+      // questions an adaptive interview has served since it was loaded
+      setCurrentInterview(prev =>
+        prev?.id === interviewId ? { ...prev, answers: [...prev.answers, answer] } : prev
+      );
       
       toast.success('Answer saved!');
+      return answer;
     } catch (error) {
       console.error('Failed to save answer:', error);
-      toast.error('Failed to save answer');
+      // The caller says why a request failed and whether it will try again
+      if (!axios.isAxiosError(error)) {
+        toast.error(error instanceof Error && error.message ? error.message : 'Failed to save answer');
+      }
       throw error;
     } finally {
       setIsLoading(false);
@@ -662,19 +734,17 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     setIsLoading(true);
     
     try {
-      // Call the actual API
-      await interviewAPI.update(interviewId, {
-        status: 'completed',
-        completedAt: new Date().toISOString()
-      });
+      // The server records when the interview was completed
+      const response = await interviewAPI.complete(interviewId);
+      const completed = response.data.data as ApiInterview;
       
       // Update local state
       const updatedInterviews = interviews.map(interview => 
         interview.id === interviewId
           ? {
               ...interview,
-              status: 'completed' as const,
-              completedAt: new Date().toISOString()
+              status: completed.status,
+              completedAt: completed.completedAt
             }
           : interview
       );
@@ -734,14 +804,24 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         // Convert API format to our internal format
         const formattedInterviews: Interview[] = apiInterviews.map((interview: ApiInterview) => ({
           id: interview._id,
-          candidateId: typeof interview.candidate === 'object' ? interview.candidate._id : interview.candidate,
+          candidateId: typeof interview.candidate === 'object' ? interview.candidate.user || '' : '',
           stackId: typeof interview.techStack === 'object' ? interview.techStack._id : interview.techStack,
-          status: interview.status as 'scheduled' | 'in-progress' | 'completed' | 'cancelled',
+          techStackIds: (interview.techStacks || []).map(stack => (typeof stack === 'object' ? stack._id : stack)),
+          status: interview.status as InterviewStatus,
           createdAt: interview.createdAt,
           completedAt: interview.completedAt,
+          startsAt: interview.startsAt || interview.scheduledDate || '',
+          candidateTimezone: interview.candidateTimezone || 'UTC',
+          interviewerTimezone: interview.interviewerTimezone || 'UTC',
+          joinWindow: interview.joinWindow,
           scheduledDate: interview.scheduledDate,
           scheduledTime: interview.scheduledTime,
           duration: interview.duration,
+          questionTimeLimit: interview.questionTimeLimit,
+          templateId: interview.template || undefined,
+          questionIds: interview.questions || [],
+          mode: interview.mode || 'standard',
+          questionCount: interview.questionCount,
           answers: []
         }));
 
@@ -760,11 +840,23 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                   return {
                     id: answer._id,
                     questionId: answer.question,
+                    questionVersion: toAskedQuestion(answer.questionVersion),
+                    followUpQuestion: answer.followUpQuestion,
+                    parentAnswerId: answer.parentAnswer || undefined,
                     audioUrl: answer.audioUrl,
                     transcript: answer.transcript,
+                    transcriptWords: answer.transcriptWords,
+                    code: answer.code || '',
+                    codeLanguage: answer.codeLanguage || '',
+                    textAnswer: answer.textAnswer || '',
+                    selectedOptions: answer.selectedOptions || [],
                     score: answer.score,
                     feedback: answer.feedback,
-                    criteria: answer.criteria
+                    criteria: answer.criteria,
+                    rubric: answer.rubric,
+                    testResults: answer.testResults,
+                    evaluationStatus: answer.evaluationStatus,
+                    evaluationError: answer.evaluationError
                   };
                 });
                 return { ...interview, answers };
@@ -835,16 +927,25 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       
       const formattedInterview: Interview = {
         id: apiInterview._id, // Use only _id from API
-        candidateId: typeof apiInterview.candidate === 'object' ? apiInterview.candidate._id : apiInterview.candidate as string,
+        candidateId: typeof apiInterview.candidate === 'object' ? apiInterview.candidate.user || '' : '',
         stackId: singleStackId, // Keep for backward compatibility
         techStackIds: techStackIds, // Add the array of tech stack IDs
         roleId: roleId, // Add role ID if present
-        status: apiInterview.status as 'scheduled' | 'in-progress' | 'completed' | 'cancelled',
+        status: apiInterview.status as InterviewStatus,
         createdAt: apiInterview.createdAt,
         completedAt: apiInterview.completedAt,
+        startsAt: apiInterview.startsAt || apiInterview.scheduledDate || '',
+        candidateTimezone: apiInterview.candidateTimezone || 'UTC',
+        interviewerTimezone: apiInterview.interviewerTimezone || 'UTC',
+        joinWindow: apiInterview.joinWindow,
         scheduledDate: apiInterview.scheduledDate,
         scheduledTime: apiInterview.scheduledTime,
         duration: apiInterview.duration,
+        questionTimeLimit: apiInterview.questionTimeLimit,
+        templateId: apiInterview.template || undefined,
+        questionIds: apiInterview.questions || [],
+        mode: apiInterview.mode || 'standard',
+        questionCount: apiInterview.questionCount,
         answers: []
       };
       
@@ -860,14 +961,24 @@ export const InterviewProvider: React.FC<{ children: React.ReactNode }> = ({ chi
           formattedInterview.answers = answersResponse.data.data.map((answer: ApiAnswer) => ({
             id: answer._id,
             questionId: answer.question,
+            questionVersion: toAskedQuestion(answer.questionVersion),
+            followUpQuestion: answer.followUpQuestion,
+            parentAnswerId: answer.parentAnswer || undefined,
             audioUrl: answer.audioUrl,
             transcript: answer.transcript,
+            transcriptWords: answer.transcriptWords,
             code: answer.code || '',
             codeLanguage: answer.codeLanguage || '',
             codeEvaluation: answer.codeEvaluation || '',
+            textAnswer: answer.textAnswer || '',
+            selectedOptions: answer.selectedOptions || [],
             score: answer.score,
             feedback: answer.feedback,
-            criteria: answer.criteria
+            criteria: answer.criteria,
+            rubric: answer.rubric,
+            testResults: answer.testResults,
+            evaluationStatus: answer.evaluationStatus,
+            evaluationError: answer.evaluationError
           }));
         }
       } catch (error) {
@@ -0,0 +1,253 @@
+import * as React from "react"
+import axios from "axios"
+import { answerAPI } from "@/api"
+import { uploadInChunks } from "@/lib/chunkedUpload"
+import { QueuedAnswer, putQueuedAnswer, getQueuedAnswers, deleteQueuedAnswer } from "@/lib/answerQueue"
+
+const FIRST_RETRY_DELAY_MS = 2000
+const MAX_RETRY_DELAY_MS = 60000
+
+export type AnswerQueueEntry = {
+  id: string
+  flowQuestionId: string
+  stage: "waiting" | "saving" | "uploading" | "retrying" | "rejected"
+  hasRecording: boolean
+  // Fraction of the recording uploaded, from 0 to 1
+  progress: number
+  error?: string
+}
+
+export type NewQueuedAnswer = Omit<QueuedAnswer, "id" | "interviewId" | "attempts" | "nextAttemptAt" | "createdAt">
+
+type AnswerQueueOptions = {
+  interviewId?: string
+  // Whether answers can be saved yet, e.g. once the questions have loaded
+  enabled: boolean
+  // Save the answer itself and return its id on the server
+  save: (answer: QueuedAnswer) => Promise<string>
+  // The server refused the answer, or its recording when answerId is set
+  onRejected: (answer: QueuedAnswer, message: string) => void
+}
+
+// Answers are saved in one lane and recordings uploaded in another, so an
+// answer never waits behind the upload of an earlier recording
+type Lane = "save" | "upload"
+
+const isInLane = (answer: QueuedAnswer, lane: Lane) =>
+  !answer.rejected && (lane === "save" ? !answer.answerId : !!answer.answerId)
+
+const hasRecording = (answer: QueuedAnswer) => !!answer.audioBlob && answer.audioBlob.size > 0
+
+// Requests the server will refuse however often they are sent. An expired
+// login is not one of them: the answer waits until the candidate is back.
+const isPermanentFailure = (error: unknown) => {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined
+  return !!status && status >= 400 && status < 500 && ![401, 408, 429].includes(status)
+}
+
+const failureMessage = (error: unknown) =>
+  axios.isAxiosError(error) && error.response?.data?.error
+    ? error.response.data.error
+    : error instanceof Error && error.message ? error.message : "Upload failed"
+
+const toEntry = (answer: QueuedAnswer): AnswerQueueEntry => ({
+  id: answer.id,
+  flowQuestionId: answer.flowQuestionId,
+  stage: answer.rejected ? "rejected" : answer.error ? "retrying" : "waiting",
+  hasRecording: hasRecording(answer),
+  progress: answer.audioUrl ? 1 : 0,
+  error: answer.error
+})
+
+// Saves answers and uploads their recordings in the background, each one
+// at a time. Answers are kept in IndexedDB until the server has them;
+// failed steps are retried with a growing delay, straight away when the
+// browser comes back online, and after a reload of the page. Answers the
+// server refuses are kept too, marked as rejected, until the candidate
+// tries them again or discards them.
+export function useAnswerQueue({ interviewId, enabled, save, onRejected }: AnswerQueueOptions) {
+  const [entries, setEntries] = React.useState<AnswerQueueEntry[]>([])
+  const [isOnline, setIsOnline] = React.useState(() => navigator.onLine)
+  const saveRef = React.useRef(save)
+  const onRejectedRef = React.useRef(onRejected)
+  const lanesRef = React.useRef<Record<Lane, Promise<void>>>({ save: Promise.resolve(), upload: Promise.resolve() })
+  const retryTimersRef = React.useRef<Record<Lane, number | null>>({ save: null, upload: null })
+  saveRef.current = save
+  onRejectedRef.current = onRejected
+
+  const setEntry = (id: string, changes: Partial<AnswerQueueEntry>) =>
+    setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)))
+  const removeEntry = (id: string) => setEntries(prev => prev.filter(entry => entry.id !== id))
+
+  // Take an answer through the lane's step. Returns false when it has to
+  // be tried again later.
+  const processAnswer = async (answer: QueuedAnswer, lane: Lane): Promise<boolean> => {
+    let current = answer
+    const update = async (changes: Partial<QueuedAnswer>) => {
+      current = { ...current, ...changes }
+      await putQueuedAnswer(current)
+    }
+
+    try {
+      if (lane === "save") {
+        setEntry(current.id, { stage: "saving" })
+        const answerId = await saveRef.current(current)
+        if (hasRecording(current)) {
+          await update({ answerId, attempts: 0, nextAttemptAt: 0, error: undefined })
+          setEntry(current.id, { stage: "waiting", error: undefined })
+          runLane("upload")
+          return true
+        }
+      } else {
+        if (hasRecording(current) && !current.audioUrl) {
+          setEntry(current.id, { stage: "uploading" })
+          const audioUrl = await uploadInChunks(current.audioBlob, {
+            uploadId: current.uploadId,
+            onStarted: uploadId => { update({ uploadId }) },
+            onProgress: progress => setEntry(current.id, { progress })
+          })
+          await update({ audioUrl })
+        }
+        if (current.audioUrl) {
+          await answerAPI.update(current.answerId, { audioUrl: current.audioUrl })
+        }
+      }
+      await deleteQueuedAnswer(current.id)
+      removeEntry(current.id)
+      return true
+    } catch (error) {
+      console.error("Error sending queued answer:", error)
+      if (isPermanentFailure(error)) {
+        await update({ rejected: true, error: failureMessage(error) })
+        setEntry(current.id, { stage: "rejected", error: current.error })
+        onRejectedRef.current(current, current.error)
+        return true
+      }
+      const attempts = current.attempts + 1
+      const delay = Math.min(FIRST_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)
+      await update({ attempts, nextAttemptAt: Date.now() + delay, error: failureMessage(error) })
+      setEntry(current.id, { stage: "retrying", error: current.error })
+      return false
+    }
+  }
+
+  // Send every answer in the lane that is due, or all of them when
+  // retryNow is set, then wait for the next one to become due
+  const drain = async (lane: Lane, retryNow: boolean) => {
+    if (!interviewId || !enabled) return
+    if (retryTimersRef.current[lane]) {
+      window.clearTimeout(retryTimersRef.current[lane])
+      retryTimersRef.current[lane] = null
+    }
+
+    const failed = new Set<string>()
+    while (navigator.onLine) {
+      const queued = await getQueuedAnswers(interviewId)
+      const next = queued.find(answer => isInLane(answer, lane) && !failed.has(answer.id)
+        && (retryNow || answer.nextAttemptAt <= Date.now()))
+      if (!next) break
+      if (!(await processAnswer(next, lane))) failed.add(next.id)
+    }
+
+    const remaining = (await getQueuedAnswers(interviewId)).filter(answer => isInLane(answer, lane))
+    if (remaining.length > 0 && navigator.onLine) {
+      const nextAttemptAt = Math.min(...remaining.map(answer => answer.nextAttemptAt))
+      retryTimersRef.current[lane] = window.setTimeout(() => runLane(lane), Math.max(nextAttemptAt - Date.now(), 0))
+    }
+  }
+
+  // Runs in a lane never overlap, so an answer is never sent twice at once
+  const runLane = (lane: Lane, retryNow = false) => {
+    lanesRef.current[lane] = lanesRef.current[lane]
+      .then(() => drain(lane, retryNow))
+      .catch(error => console.error("Error running the answer queue:", error))
+    return lanesRef.current[lane]
+  }
+
+  const run = async (retryNow = false) => {
+    await Promise.all([runLane("save", retryNow), runLane("upload", retryNow)])
+  }
+
+  const enqueue = async (answer: NewQueuedAnswer) => {
+    if (!interviewId) return
+    const queued: QueuedAnswer = {
+      ...answer,
+      id: `${interviewId}:${answer.flowQuestionId}`,
+      interviewId,
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: Date.now()
+    }
+    await putQueuedAnswer(queued)
+    setEntries(prev => [...prev.filter(entry => entry.id !== queued.id), toEntry(queued)])
+    run()
+  }
+
+  // Send everything still queued now. Resolves to whether everything the
+  // server did not refuse has arrived.
+  const flush = async () => {
+    if (!interviewId) return true
+    await run(true)
+    // Answers saved meanwhile queue their recordings behind this run
+    await lanesRef.current.upload
+    return (await getQueuedAnswers(interviewId)).every(answer => answer.rejected)
+  }
+
+  // Save the answers still queued now, without waiting for their
+  // recordings. Resolves to whether the server has all it did not refuse.
+  const flushSaves = async () => {
+    if (!interviewId) return true
+    await runLane("save", true)
+    return !(await getQueuedAnswers(interviewId)).some(answer => isInLane(answer, "save"))
+  }
+
+  // Send a rejected answer again, e.g. once the reason it was refused is gone
+  const retry = async (id: string) => {
+    if (!interviewId) return
+    const answer = (await getQueuedAnswers(interviewId)).find(queued => queued.id === id)
+    if (!answer) return
+    const retried = { ...answer, rejected: false, attempts: 0, nextAttemptAt: 0, error: undefined }
+    await putQueuedAnswer(retried)
+    setEntry(id, toEntry(retried))
+    await run()
+  }
+
+  // Give up on a rejected answer for good
+  const discard = async (id: string) => {
+    await deleteQueuedAnswer(id)
+    removeEntry(id)
+  }
+
+  // Answers left from before a reload carry on
+  React.useEffect(() => {
+    if (!interviewId || !enabled) return
+    const retryTimers = retryTimersRef.current
+    getQueuedAnswers(interviewId)
+      .then(queued => {
+        setEntries(queued.map(toEntry))
+        run()
+      })
+      .catch(error => console.error("Error loading queued answers:", error))
+    return () => {
+      Object.values(retryTimers).forEach(timer => timer && window.clearTimeout(timer))
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [interviewId, enabled])
+
+  React.useEffect(() => {
+    const onOnline = () => {
+      setIsOnline(true)
+      run(true)
+    }
+    const onOffline = () => setIsOnline(false)
+    window.addEventListener("online", onOnline)
+    window.addEventListener("offline", onOffline)
+    return () => {
+      window.removeEventListener("online", onOnline)
+      window.removeEventListener("offline", onOffline)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [interviewId, enabled])
+
+  return { entries, isOnline, enqueue, flush, flushSaves, retry, discard }
+}
@@ -0,0 +1,97 @@
+import type { FollowUp, WrittenResponse } from '@/context/InterviewContext';
+
+// An answer waiting to reach the server, kept in IndexedDB so that neither
+// a dropped connection nor a reload of the page loses it. Each step that
+// succeeds is written back, so a retry carries on where the last one failed.
+export type QueuedAnswer = {
+  // `${interviewId}:${flowQuestionId}`
+  id: string;
+  interviewId: string;
+  // The question as shown; follow-up questions have their own id
+  flowQuestionId: string;
+  // The question the answer is saved against
+  questionId: string;
+  followUp?: FollowUp;
+  transcript: string;
+  code: string;
+  codeLanguage?: string;
+  response?: WrittenResponse;
+  audioBlob?: Blob;
+  // Set once the answer is saved on the server
+  answerId?: string;
+  // The resumable upload of the recording, once started
+  uploadId?: string;
+  audioUrl?: string;
+  attempts: number;
+  nextAttemptAt: number;
+  error?: string;
+  // The server refused the answer, or its recording when answerId is set.
+  // It is not sent again unless the candidate retries it.
+  rejected?: boolean;
+  createdAt: number;
+};
+
+const DB_NAME = 'interview-answers';
+const STORE_NAME = 'answers';
+
+// Without IndexedDB, e.g. in some private windows, answers are only kept
+// for as long as the page is open
+const memoryStore = new Map<string, QueuedAnswer>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('interviewId', 'interviewId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Could not open the answer queue database:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, use: (store: IDBObjectStore) => IDBRequest<T>, db: IDBDatabase) =>
+  new Promise<T>((resolve, reject) => {
+    const request = use(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const putQueuedAnswer = async (answer: QueuedAnswer): Promise<void> => {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.set(answer.id, answer);
+    return;
+  }
+  await runRequest('readwrite', store => store.put(answer), db);
+};
+
+// The interview's queued answers, oldest first
+export const getQueuedAnswers = async (interviewId: string): Promise<QueuedAnswer[]> => {
+  const db = await openDb();
+  const answers = db
+    ? await runRequest<QueuedAnswer[]>('readonly', store => store.index('interviewId').getAll(interviewId), db)
+    : [...memoryStore.values()].filter(answer => answer.interviewId === interviewId);
+  return answers.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteQueuedAnswer = async (id: string): Promise<void> => {
+  const db = await openDb();
+  if (!db) {
+    memoryStore.delete(id);
+    return;
+  }
+  await runRequest('readwrite', store => store.delete(id), db);
+};
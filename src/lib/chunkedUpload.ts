@@ -0,0 +1,61 @@
+import { uploadAPI, ChunkedUpload } from '@/api';
+
+type UploadInChunksOptions = {
+  // An upload started earlier for the same recording; only its missing
+  // parts are sent
+  uploadId?: string;
+  // Called once the server knows the upload, so its id can be kept for
+  // resuming after a failure
+  onStarted?: (uploadId: string) => void;
+  // Fraction of the recording the server has, from 0 to 1
+  onProgress?: (fraction: number) => void;
+};
+
+const recordingFileName = (blob: Blob) =>
+  `recording${blob.type.includes('webm') ? '.webm' : blob.type.includes('ogg') ? '.ogg' : '.wav'}`;
+
+// Upload a recording in parts and return its URL. Failed parts are not
+// retried here: the caller tries again later with the same upload id and
+// the parts that already arrived are skipped.
+export const uploadInChunks = async (blob: Blob, options: UploadInChunksOptions = {}): Promise<string> => {
+  const { onStarted, onProgress } = options;
+
+  let existing: ChunkedUpload | null = null;
+  if (options.uploadId) {
+    try {
+      existing = (await uploadAPI.getChunked(options.uploadId)).data.data;
+    } catch {
+      // Unfinished uploads are removed after a day; start again
+      existing = null;
+    }
+  }
+  const upload = existing && existing.size === blob.size
+    ? existing
+    : (await uploadAPI.startChunked({
+      fileName: recordingFileName(blob),
+      mimeType: blob.type || 'audio/wav',
+      size: blob.size
+    })).data.data;
+  if (upload !== existing) {
+    onStarted?.(upload.id);
+  }
+  if (upload.fileUrl) {
+    onProgress?.(1);
+    return upload.fileUrl;
+  }
+
+  const received = new Set(upload.receivedChunks);
+  const reportProgress = () => onProgress?.(Math.min(1, received.size / upload.totalChunks));
+  reportProgress();
+
+  for (let index = 0; index < upload.totalChunks; index++) {
+    if (received.has(index)) continue;
+    const start = index * upload.chunkSize;
+    await uploadAPI.uploadChunk(upload.id, index, blob.slice(start, start + upload.chunkSize, blob.type));
+    received.add(index);
+    reportProgress();
+  }
+
+  const completed = (await uploadAPI.completeChunked(upload.id)).data.data;
+  return completed.fileUrl;
+};
@@ -0,0 +1,97 @@
+// Languages candidates can write code in. `id` is what is stored on
+// questions and answers and is also the Monaco language id; `runnable`
+// marks the languages the server sandbox can execute test cases for.
+export type CodeLanguageOption = {
+  id: string;
+  label: string;
+  runnable: boolean;
+  starterCode: string;
+};
+
+export const CODE_LANGUAGES: CodeLanguageOption[] = [
+  {
+    id: 'javascript',
+    label: 'JavaScript',
+    runnable: true,
+    starterCode: '// Write your code here\n'
+  },
+  {
+    id: 'typescript',
+    label: 'TypeScript',
+    runnable: true,
+    starterCode: '// Write your code here\n'
+  },
+  {
+    id: 'python',
+    label: 'Python',
+    runnable: true,
+    starterCode: '# Write your code here\n'
+  },
+  {
+    id: 'java',
+    label: 'Java',
+    runnable: false,
+    starterCode: 'public class Main {\n    public static void main(String[] args) {\n        // Write your code here\n    }\n}\n'
+  },
+  {
+    id: 'go',
+    label: 'Go',
+    runnable: false,
+    starterCode: 'package main\n\nfunc main() {\n\t// Write your code here\n}\n'
+  },
+  {
+    id: 'csharp',
+    label: 'C#',
+    runnable: false,
+    starterCode: 'public class Program\n{\n    public static void Main()\n    {\n        // Write your code here\n    }\n}\n'
+  },
+  {
+    id: 'cpp',
+    label: 'C++',
+    runnable: false,
+    starterCode: '#include <iostream>\n\nint main() {\n    // Write your code here\n    return 0;\n}\n'
+  },
+  {
+    id: 'ruby',
+    label: 'Ruby',
+    runnable: false,
+    starterCode: '# Write your code here\n'
+  },
+  {
+    id: 'php',
+    label: 'PHP',
+    runnable: false,
+    starterCode: '<?php\n\n// Write your code here\n'
+  },
+  {
+    id: 'sql',
+    label: 'SQL',
+    runnable: false,
+    starterCode: '-- Write your query here\n'
+  }
+];
+
+export const DEFAULT_CODE_LANGUAGE = 'javascript';
+
+export const getCodeLanguage = (id?: string): CodeLanguageOption =>
+  CODE_LANGUAGES.find(language => language.id === id) ||
+  CODE_LANGUAGES.find(language => language.id === DEFAULT_CODE_LANGUAGE)!;
+
+/**
+ * Languages offered for a question: the question's own list, then its tech
+ * stack's, then every language
+ */
+export const getLanguagesFor = (questionLanguages?: string[], stackLanguages?: string[]): CodeLanguageOption[] => {
+  const ids = questionLanguages && questionLanguages.length > 0 ? questionLanguages : stackLanguages;
+  if (!ids || ids.length === 0) {
+    return CODE_LANGUAGES;
+  }
+  return CODE_LANGUAGES.filter(language => ids.includes(language.id));
+};
+
+/**
+ * Starter code for a question in a language: the question's own template
+ * when it has one, otherwise the language default
+ */
+export const getStarterCode = (language: string, questionStarterCode?: Record<string, string>): string =>
+  questionStarterCode?.[language] ?? getCodeLanguage(language).starterCode;
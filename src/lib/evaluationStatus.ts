@@ -0,0 +1,4 @@
+import { EvaluationStatus } from '@/context/InterviewContext';
+
+// Whether an answer is waiting for, or in the middle of, its background evaluation
+export const isEvaluationUnderWay = (status?: EvaluationStatus) => status === 'queued' || status === 'running';
@@ -0,0 +1,125 @@
+// Interviews start at one UTC instant. The scheduler picks the clock time in
+// the interviewer's time zone, and everyone else reads it in their own.
+
+// Time zones offered in the scheduler, besides the browser's own
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Europe/Istanbul',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Karachi',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Shanghai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland'
+];
+
+// Minutes before and after the start a candidate may join, unless the
+// interview sets its own window. Mirrors the server defaults.
+export const DEFAULT_JOIN_WINDOW = { earlyMinutes: 5, lateMinutes: 30 };
+
+export type JoinWindow = {
+  earlyMinutes: number;
+  lateMinutes: number;
+};
+
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Time zones for a picker: the common ones plus any already in use
+export const getTimeZoneOptions = (...extra: Array<string | undefined>): string[] =>
+  Array.from(new Set([...extra.filter((zone): zone is string => !!zone), ...COMMON_TIME_ZONES])).sort();
+
+// Minutes a time zone is ahead of UTC at the given instant
+const getOffsetMinutes = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((asUtc - date.getTime()) / 60000);
+};
+
+/**
+ * Convert a wall-clock date and time in a time zone to the instant it names
+ * @param date - Calendar date as yyyy-MM-dd
+ * @param time - Clock time as HH:mm
+ * @param timeZone - IANA time zone the date and time are read in
+ */
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // The second pass settles the offset when the first guess crosses a DST change
+  let instant = wallClock - getOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  instant = wallClock - getOffsetMinutes(new Date(instant), timeZone) * 60000;
+  return new Date(instant);
+};
+
+/**
+ * The wall-clock date and time an instant reads as in a time zone; the
+ * inverse of zonedTimeToUtc
+ * @returns Date as yyyy-MM-dd and time as HH:mm
+ */
+export const utcToZonedTime = (instant: Date, timeZone: string): { date: string; time: string } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`
+  };
+};
+
+// Format an instant as it reads in a time zone, e.g. "Apr 29, 2025, 2:30 PM CEST"
+export const formatInTimeZone = (
+  date: Date | string,
+  timeZone: string = getBrowserTimeZone(),
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string => {
+  const instant = typeof date === 'string' ? new Date(date) : date;
+  if (Number.isNaN(instant.getTime())) return '';
+  // dateStyle/timeStyle cannot be combined with timeZoneName
+  const zoneName = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(instant)
+    .find(part => part.type === 'timeZoneName')?.value;
+  const formatted = new Intl.DateTimeFormat('en-US', { ...options, timeZone }).format(instant);
+  return zoneName ? `${formatted} ${zoneName}` : formatted;
+};
+
+// When the candidate may join, using the same rule as the server
+export const getJoinWindow = (startsAt: Date | string, joinWindow?: Partial<JoinWindow>) => {
+  const start = typeof startsAt === 'string' ? new Date(startsAt) : startsAt;
+  const earlyMinutes = joinWindow?.earlyMinutes ?? DEFAULT_JOIN_WINDOW.earlyMinutes;
+  const lateMinutes = joinWindow?.lateMinutes ?? DEFAULT_JOIN_WINDOW.lateMinutes;
+  return {
+    opensAt: new Date(start.getTime() - earlyMinutes * 60000),
+    closesAt: new Date(start.getTime() + lateMinutes * 60000)
+  };
+};
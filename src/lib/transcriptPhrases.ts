@@ -0,0 +1,94 @@
+import { TranscriptWord } from '@/context/InterviewContext';
+
+// A run of transcript words highlighted and sought to as one
+export type TranscriptPhrase = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+// A phrase ends at the end of a sentence, at a pause this long, or when it
+// gets this long, so unpunctuated speech still splits into short phrases
+const PAUSE_SECONDS = 1;
+const MAX_PHRASE_WORDS = 15;
+
+/**
+ * Spell each word as the transcript does, with its punctuation, since some
+ * providers time the words without it. Words the transcript does not
+ * contain in order are folded into the word before them.
+ */
+const withTranscriptSpelling = (transcript: string, words: TranscriptWord[]): TranscriptWord[] => {
+  const lower = transcript.toLowerCase();
+  let position = 0;
+  const offsets = words.map(word => {
+    const bare = word.word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+    const index = bare ? lower.indexOf(bare, position) : -1;
+    if (index === -1) return null;
+    position = index + bare.length;
+    return index;
+  });
+
+  const found = offsets.filter((offset): offset is number => offset !== null);
+  if (found.length === 0) return words;
+
+  return words.map((word, index) => {
+    const offset = offsets[index];
+    if (offset === null) return { ...word, word: '' };
+    const next = offsets.slice(index + 1).find(later => later !== null);
+    const from = offset === found[0] ? 0 : offset;
+    return { ...word, word: transcript.slice(from, next ?? transcript.length).trim() };
+  });
+};
+
+/**
+ * Group the words of a transcript into phrases
+ * @param transcript - The transcript the words were timed for
+ * @param words - Words in the order they were spoken
+ */
+export const toPhrases = (transcript: string, words: TranscriptWord[]): TranscriptPhrase[] => {
+  const phrases: TranscriptPhrase[] = [];
+  let current: TranscriptWord[] = [];
+
+  const close = () => {
+    if (current.length === 0) return;
+    phrases.push({
+      text: current.map(word => word.word).filter(Boolean).join(' '),
+      start: current[0].start,
+      end: current[current.length - 1].end
+    });
+    current = [];
+  };
+
+  const spelled = withTranscriptSpelling(transcript, words);
+  spelled.forEach((word, index) => {
+    current.push(word);
+    const next = spelled[index + 1];
+    if (/[.!?]["')\]]*$/.test(word.word)
+      || (next && next.start - word.end >= PAUSE_SECONDS)
+      || current.length >= MAX_PHRASE_WORDS) {
+      close();
+    }
+  });
+  close();
+
+  return phrases;
+};
+
+/**
+ * Format seconds into a recording as m:ss
+ * @param seconds
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Read m:ss (or plain seconds) back into seconds; null when it is not a time
+ * @param value
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  return Number(match[1] || 0) * 60 + Number(match[2]);
+};
@@ -4,18 +4,24 @@ import { useAuth } from '@/context/AuthContext';
 import Layout from '@/components/Layout';
 import QuestionManager from '@/components/QuestionManager';
 import TechStackManager from '@/components/TechStackManager';
+import QuestionImportExport from '@/components/QuestionImportExport';
+import QuestionGenerator from '@/components/QuestionGenerator';
+import QuestionBankList from '@/components/QuestionBankList';
 import TechStackList from '@/components/TechStackList';
 import InterviewScheduler from '@/components/InterviewScheduler';
+import AvailabilityManager from '@/components/AvailabilityManager';
+import CandidatePipeline from '@/components/CandidatePipeline';
+import EmailOutbox from '@/components/EmailOutbox';
+import EmailTemplateManager from '@/components/EmailTemplateManager';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, Archive, Clipboard, ClipboardCheck, UserPlus, Upload, BookOpen } from 'lucide-react';
+import { Plus, Archive, Clipboard, ClipboardCheck, UserPlus, BookOpen } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { toast } from 'sonner';
 import { userAPI } from '@/api';
+import { formatInTimeZone } from '@/lib/timezones';
 
 // Add this interface for user data
 interface AdminUser {
@@ -29,7 +35,6 @@ const AdminDashboard: React.FC = () => {
   const { user } = useAuth();
   const { availableTechStacks, interviews, getQuestionsForStack } = useInterview();
   const [activeTab, setActiveTab] = useState<string>('dashboard');
-  const [selectedStack, setSelectedStack] = useState<string>('');
   const [selectedStackForBrowse, setSelectedStackForBrowse] = useState<string | null>(null);
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
   const [isLoadingAdmins, setIsLoadingAdmins] = useState(false);
@@ -41,8 +46,10 @@ const AdminDashboard: React.FC = () => {
   const [pendingMonthFilter, setPendingMonthFilter] = useState<string>('all');
   const [completedMonthFilter, setCompletedMonthFilter] = useState<string>('all');
   
-  const completedInterviews = interviews.filter(interview => interview.status === 'completed');
-  const pendingInterviews = interviews.filter(interview => interview.status !== 'completed');
+  // Interviews the candidate abandoned or ran out of time on are over too
+  const isEnded = (status: string) => ['completed', 'abandoned', 'expired'].includes(status);
+  const completedInterviews = interviews.filter(interview => isEnded(interview.status));
+  const pendingInterviews = interviews.filter(interview => !isEnded(interview.status));
 
   // Check for stored active tab in localStorage
   useEffect(() => {
@@ -84,7 +91,7 @@ const AdminDashboard: React.FC = () => {
     if (pendingMonthFilter === 'all') return pendingInterviews;
     
     return pendingInterviews.filter((interview) => {
-      const interviewDate = new Date(interview.scheduledDate);
+      const interviewDate = new Date(interview.startsAt);
       const month = interviewDate.getMonth() + 1; // JS months are 0-indexed
       return month.toString() === pendingMonthFilter;
     });
@@ -95,7 +102,7 @@ const AdminDashboard: React.FC = () => {
     if (completedMonthFilter === 'all') return completedInterviews;
     
     return completedInterviews.filter((interview) => {
-      const interviewDate = new Date(interview.completedAt || interview.scheduledDate);
+      const interviewDate = new Date(interview.completedAt || interview.startsAt);
       const month = interviewDate.getMonth() + 1; // JS months are 0-indexed
       return month.toString() === completedMonthFilter;
     });
@@ -104,27 +111,12 @@ const AdminDashboard: React.FC = () => {
   // Sort completed interviews by completedAt date (most recent first)
   const sortedCompletedInterviews = useMemo(() => {
     return [...filteredCompletedInterviews].sort((a, b) => {
-      const dateA = new Date(a.completedAt || a.scheduledDate);
-      const dateB = new Date(b.completedAt || b.scheduledDate);
+      const dateA = new Date(a.completedAt || a.startsAt);
+      const dateB = new Date(b.completedAt || b.startsAt);
       return dateB.getTime() - dateA.getTime(); // Sort in descending order (newest first)
     });
   }, [filteredCompletedInterviews]);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    // Check file extension
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    if (!extension || !['txt', 'docx', 'csv'].includes(extension)) {
-      toast.error('Invalid file format. Please upload .txt, .docx, or .csv files only.');
-      return;
-    }
-
-    // Demo only - in real app this would send to backend
-    toast.success(`File "${file.name}" uploaded successfully (demo)`);
-  };
-
   useEffect(() => {
     if (activeTab === 'users') {
       fetchAdminUsers();
@@ -162,28 +154,12 @@ const AdminDashboard: React.FC = () => {
     );
   }
 
-  // Get questions for the selected tech stack
-  const getQuestionsForSelectedStack = () => {
-    if (!selectedStackForBrowse) return [];
-    return getQuestionsForStack(selectedStackForBrowse);
-  };
-
   // Find tech stack name by ID
   const getStackNameById = (id: string) => {
     const stack = availableTechStacks.find(s => s.id === id);
     return stack ? stack.name : 'Unknown';
   };
 
-  // Find difficulty color class
-  const getDifficultyColor = (difficulty: string) => {
-    switch(difficulty) {
-      case 'easy': return 'bg-green-100 text-green-800';
-      case 'medium': return 'bg-yellow-100 text-yellow-800';
-      case 'hard': return 'bg-red-100 text-red-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   const renderUserManagementTab = () => (
     <div className="space-y-6">
       <Card>
@@ -267,6 +243,16 @@ const AdminDashboard: React.FC = () => {
           >
             Interviews
           </button>
+          <button
+            className={`px-4 py-2 font-medium ${
+              activeTab === 'candidates'
+                ? 'text-interview-primary border-b-2 border-interview-primary'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+            onClick={() => setActiveTab('candidates')}
+          >
+            Candidates
+          </button>
           <button
             className={`px-4 py-2 font-medium ${
               activeTab === 'reports'
@@ -310,14 +296,25 @@ const AdminDashboard: React.FC = () => {
           >
             User Management
           </button>
+          <button
+            className={`px-4 py-2 font-medium ${
+              activeTab === 'emails'
+                ? 'text-interview-primary border-b-2 border-interview-primary'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+            onClick={() => setActiveTab('emails')}
+          >
+            Emails
+          </button>
         </div>
       </div>
       
       {activeTab === 'interviews' ? (
         <div className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
+            <div className="space-y-6">
               <InterviewScheduler />
+              <AvailabilityManager />
             </div>
             
             <Card>
@@ -372,12 +369,14 @@ const AdminDashboard: React.FC = () => {
                               {techStack?.name || 'Unknown'} Interview
                             </p>
                             <p className="text-sm text-gray-500">
-                              Scheduled: {interview.scheduledDate
-                                ? new Date(interview.scheduledDate).toLocaleString()
-                                : 'N/A'}
+                              Scheduled: {interview.startsAt
+                                ? formatInTimeZone(interview.startsAt)
+                                : interview.status === 'awaiting-slot' ? 'Waiting for the candidate to pick a slot' : 'N/A'}
                             </p>
                             <div className="mt-1">
-                              <span className="inline-flex items-center rounded-full bg-yellow-100 px-2.5 py-0.5 text-xs font-medium text-yellow-800">
+                              <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
+                                interview.status === 'no-show' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                              }`}>
                                 {interview.status}
                               </span>
                             </div>
@@ -484,7 +483,7 @@ const AdminDashboard: React.FC = () => {
         </div>
       ) : activeTab === 'techStacks' ? (
         <div className="space-y-6">
-          {/* Top grid for Add Tech Stack and Upload Questions side by side */}
+          {/* Top grid for Add Tech Stack and Import/Export Questions side by side */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Tech Stack Management - Left Column */}
             <Card>
@@ -499,56 +498,13 @@ const AdminDashboard: React.FC = () => {
               </CardContent>
             </Card>
             
-            {/* Upload Questions - Right Column */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Upload Questions File</CardTitle>
-                <CardDescription>
-                  Upload questions in bulk using .txt, .docx, or .csv files
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="stack-select">Select Tech Stack</Label>
-                    <Select value={selectedStack} onValueChange={setSelectedStack}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Choose a tech stack" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {availableTechStacks.map((stack) => (
-                          <SelectItem key={stack.id} value={stack.id}>
-                            {stack.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="file-upload">Upload File</Label>
-                    <div className="flex items-center gap-4">
-                      <Input
-                        id="file-upload"
-                        type="file"
-                        accept=".txt,.docx,.csv"
-                        className="flex-1"
-                        onChange={handleFileUpload}
-                      />
-                      <Button variant="secondary">
-                        <Upload className="w-4 h-4 mr-2" />
-                        Upload
-                      </Button>
-                    </div>
-                    <p className="text-sm text-muted-foreground">
-                      Supported formats: .txt, .docx, .csv
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            {/* Import and Export Questions - Right Column */}
+            <QuestionImportExport />
           </div>
           
+          {/* AI Question Generation - Full Width */}
+          <QuestionGenerator />
+
           {/* Individual Question Management - Full Width */}
           <QuestionManager showUploadSection={false} />
         </div>
@@ -589,30 +545,22 @@ const AdminDashboard: React.FC = () => {
               <CardHeader>
                 <CardTitle>{getStackNameById(selectedStackForBrowse)} Questions</CardTitle>
                 <CardDescription>
-                  Questions for the selected tech stack
+                  Edit, delete and restore the questions of the selected tech stack
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {getQuestionsForSelectedStack().map((question) => (
-                    <div key={question.id} className="border rounded-md p-4">
-                      <div className="flex justify-between items-start">
-                        <div className="flex-1">
-                          <p className="font-medium">{question.text}</p>
-                        </div>
-                        <div className="ml-4">
-                          <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${getDifficultyColor(question.difficulty)}`}>
-                            {question.difficulty}
-                          </span>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <QuestionBankList stackId={selectedStackForBrowse} />
               </CardContent>
             </Card>
           )}
         </div>
+      ) : activeTab === 'candidates' ? (
+        <CandidatePipeline />
+      ) : activeTab === 'emails' ? (
+        <div className="space-y-6">
+          <EmailOutbox />
+          <EmailTemplateManager />
+        </div>
       ) : (
         renderUserManagementTab()
       )}
@@ -5,8 +5,10 @@ import { useInterview, TechStack } from '@/context/InterviewContext';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import Layout from '@/components/Layout';
+import AddToCalendarButton from '@/components/AddToCalendarButton';
 import { useNavigate } from 'react-router-dom';
 import { Play } from 'lucide-react';
+import { formatInTimeZone, getBrowserTimeZone, getJoinWindow } from '@/lib/timezones';
 
 const CandidateSelect: React.FC = () => {
   const { user } = useAuth();
@@ -18,8 +20,8 @@ const CandidateSelect: React.FC = () => {
   const getScheduledFields = (iv: any) => {
     // Try both camelCase and snake_case for compatibility
     return {
-      scheduledDate: iv.scheduledDate || iv.scheduled_date || '',
-      scheduledTime: iv.scheduledTime || iv.scheduled_time || '',
+      startsAt: iv.startsAt || iv.scheduledDate || iv.scheduled_date || '',
+      joinWindow: iv.joinWindow,
       duration: iv.duration,
       status: iv.status,
       id: iv._id || iv.id, // Fallback to id if _id is missing
@@ -38,15 +40,14 @@ const CandidateSelect: React.FC = () => {
     setScheduled(filtered);
   }, [user, interviews]);
 
-  // Helper to check if interview can be started now
-  // Always use scheduledDate (ISO) for logic, ignore scheduledTime for logic
+  // Helper to check if interview can be started now, by the same join
+  // window the server enforces
   const canStart = (iv: any) => {
-    const { scheduledDate } = getScheduledFields(iv);
-    if (!scheduledDate) return false;
+    const { startsAt, joinWindow } = getScheduledFields(iv);
+    if (!startsAt) return false;
     const now = new Date();
-    const start = new Date(scheduledDate);
-    // Interview can be started if now is within the scheduled window (start to start+duration)
-    return now >= start;
+    const { opensAt, closesAt } = getJoinWindow(startsAt, joinWindow);
+    return now >= opensAt && now <= closesAt;
   };
 
   const handleStart = async (interviewId: string) => {
@@ -63,7 +64,7 @@ const CandidateSelect: React.FC = () => {
         alert('Could not start interview: ' + (res.data?.message || 'Unknown error'));
       }
     } catch (err: any) {
-      alert('Could not start interview: ' + (err.response?.data?.message || err.message));
+      alert('Could not start interview: ' + (err.response?.data?.error || err.response?.data?.message || err.message));
     } finally {
       setIsLoading(false);
     }
@@ -97,7 +98,7 @@ const CandidateSelect: React.FC = () => {
         ) : (
           <div className="space-y-6">
             {scheduled.map((iv) => {
-              const { id, stackId, scheduledDate, scheduledTime, duration } = getScheduledFields(iv);
+              const { id, stackId, startsAt, joinWindow, duration } = getScheduledFields(iv);
               return (
                 <Card key={id}>
                   <CardContent className="p-6 flex flex-col md:flex-row md:items-center md:justify-between">
@@ -110,11 +111,13 @@ const CandidateSelect: React.FC = () => {
   }</span>
 </div>
                       <div className="text-sm text-gray-600 mb-1">
-                        Scheduled Date: {scheduledDate ? new Date(scheduledDate).toLocaleDateString() : ''}
-                      </div>
-                      <div className="text-sm text-gray-600 mb-1">
-                        Scheduled Time: {scheduledDate ? new Date(scheduledDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : ''}
+                        Starts: {startsAt ? formatInTimeZone(startsAt, getBrowserTimeZone(), { dateStyle: 'full', timeStyle: 'short' }) : ''}
                       </div>
+                      {startsAt && (
+                        <div className="text-sm text-gray-600 mb-1">
+                          Join between {formatInTimeZone(getJoinWindow(startsAt, joinWindow).opensAt, getBrowserTimeZone(), { timeStyle: 'short' })} and {formatInTimeZone(getJoinWindow(startsAt, joinWindow).closesAt, getBrowserTimeZone(), { timeStyle: 'short' })}
+                        </div>
+                      )}
                       <div className="text-sm text-gray-600">Duration: {duration || 30} min</div>
                     </div>
                     <div className="mt-4 md:mt-0 md:ml-6">
@@ -128,6 +131,7 @@ const CandidateSelect: React.FC = () => {
                       {!canStart(iv) && (
                         <div className="text-xs text-gray-400 mt-2">Interview can only be started during the scheduled window.</div>
                       )}
+                      <AddToCalendarButton interviewId={id} className="w-full mt-2" />
                     </div>
                   </CardContent>
                 </Card>
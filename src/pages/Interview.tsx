@@ -1,18 +1,43 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
-import { answerAPI, uploadAPI, aiAPI } from '@/api';
-import { useInterview, Question } from '@/context/InterviewContext';
+import { aiAPI, codeAPI, interviewAPI } from '@/api';
+import { useInterview, Question, TestResults, Answer, FollowUp, InterviewSession, SessionEntry } from '@/context/InterviewContext';
 import Layout from '@/components/Layout';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import AudioRecorder from '@/components/AudioRecorder';
 import CodeEditor from '@/components/CodeEditor';
-import { ArrowRight, CheckCircle, Clock, AlertCircle, Code } from 'lucide-react';
+import TestResultsPanel from '@/components/TestResultsPanel';
+import MultipleChoiceOptions from '@/components/MultipleChoiceOptions';
+import AnswerUploadStatus from '@/components/AnswerUploadStatus';
+import { Textarea } from '@/components/ui/textarea';
+import { DEFAULT_CODE_LANGUAGE, getCodeLanguage, getLanguagesFor, getStarterCode } from '@/lib/codeLanguages';
+import { QueuedAnswer } from '@/lib/answerQueue';
+import { useAnswerQueue } from '@/hooks/use-answer-queue';
+import { ArrowRight, CheckCircle, Clock, AlertCircle, Code, Play, LogOut } from 'lucide-react';
 import { toast } from 'sonner';
 
-// Maximum time per question in seconds (2 minutes)
-const MAX_QUESTION_TIME = 120;
+// A question as it appears in the interview. Follow-up questions are shown
+// right after the question they follow up on and are saved against it.
+type FlowQuestion = Question & {
+  followUp?: FollowUp & { questionId: string };
+};
+
+// How often, and how many times, to ask whether an answer still being
+// evaluated warrants a follow-up question
+const FOLLOW_UP_POLL_MS = 3000;
+const FOLLOW_UP_MAX_POLLS = 20;
+
+// How often, and how many times, to ask for the next adaptive question
+// while the answers it depends on are being evaluated
+const NEXT_QUESTION_POLL_MS = 3000;
+const NEXT_QUESTION_MAX_POLLS = 20;
+
+// What asking for the next adaptive question came to: a question was
+// appended, the interview has asked all its questions, or neither, e.g.
+// when the server served the question on screen again
+type NextQuestionResult = 'added' | 'done' | 'unchanged';
 
 const Interview: React.FC = () => {
   // All hooks at the top
@@ -37,14 +62,55 @@ const Interview: React.FC = () => {
   const [answeredQuestions, setAnsweredQuestions] = useState<Set<string>>(new Set());
   const [localAnswers, setLocalAnswers] = useState<any[]>([]);
   const [showComplete, setShowComplete] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState(MAX_QUESTION_TIME);
+  // The session kept by the server, and the interview's time left by it
+  const [session, setSession] = useState<InterviewSession | null>(null);
+  const [interviewTimeLeft, setInterviewTimeLeft] = useState<number | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [timeRemaining, setTimeRemaining] = useState(0);
   const [hasTimerStarted, setHasTimerStarted] = useState(false);
   const [timerWarning, setTimerWarning] = useState(false);
   const [autoSubmitCountdown, setAutoSubmitCountdown] = useState(0);
   const [showCodeEditor, setShowCodeEditor] = useState(false);
   const [code, setCode] = useState('');
+  const [codeLanguage, setCodeLanguage] = useState(DEFAULT_CODE_LANGUAGE);
+  const [runResults, setRunResults] = useState<TestResults | null>(null);
+  const [textAnswer, setTextAnswer] = useState('');
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const [isRunningTests, setIsRunningTests] = useState(false);
+  const [isLoadingNextQuestion, setIsLoadingNextQuestion] = useState(false);
+  // Follow-up questions asked so far, keyed by the question they follow up on
+  const [followUps, setFollowUps] = useState<Record<string, FollowUp>>({});
   const timerRef = useRef<number | null>(null);
   const autoSubmitRef = useRef<number | null>(null);
+  const firstQuestionRequestedRef = useRef(false);
+  const resumedRef = useRef(false);
+  // Runs when a question's time is up; set once the handlers are defined
+  const timeUpRef = useRef<() => void>(() => {});
+  // Save a queued answer, and handle one the server refused; set once the
+  // handlers are defined
+  const saveQueuedAnswerRef = useRef<(answer: QueuedAnswer) => Promise<string>>(
+    () => Promise.reject(new Error('The interview is still loading'))
+  );
+  const answerRejectedRef = useRef<(answer: QueuedAnswer, message: string) => void>(() => {});
+  // The question on screen, for work that finishes after the candidate
+  // may have moved on; null once the page is left
+  const currentQuestionIdRef = useRef<string | null>(null);
+  // Saved answers and their recordings are sent in the background and kept
+  // in the browser until the server has them
+  const answerQueue = useAnswerQueue({
+    interviewId: currentInterview?.id,
+    enabled: !!currentInterview && questions.length > 0,
+    save: answer => saveQueuedAnswerRef.current(answer),
+    onRejected: (answer, message) => answerRejectedRef.current(answer, message)
+  });
+  
+  // Queued answers count as answered while they are on their way
+  useEffect(() => {
+    const sending = answerQueue.entries.filter(entry => entry.stage !== 'rejected');
+    setAnsweredQuestions(prev => (sending.every(entry => prev.has(entry.flowQuestionId))
+      ? prev
+      : new Set([...prev, ...sending.map(entry => entry.flowQuestionId)])));
+  }, [answerQueue.entries]);
   
   // Format date/time - moved after all hook declarations
   let formattedDate = '';
@@ -56,28 +122,6 @@ const Interview: React.FC = () => {
       refreshInterview(interviewId).then(fetched => {
         if (fetched) {
           setCurrentInterview(fetched);
-          
-          // Try to restore progress from storage (try sessionStorage first, then localStorage)
-          const savedProgress = sessionStorage.getItem(`interview-progress-${interviewId}`) || 
-                              localStorage.getItem(`interview-progress-${interviewId}`);
-          if (savedProgress) {
-            try {
-              const progress = JSON.parse(savedProgress);
-              console.log('Restored progress:', progress);
-              if (progress.questionIndex !== undefined) {
-                // Force a timeout to ensure this happens after initial render
-                setTimeout(() => {
-                  setCurrentQuestionIndex(progress.questionIndex);
-                  console.log('Set question index to:', progress.questionIndex);
-                }, 100);
-              }
-              if (progress.answeredQuestions && Array.isArray(progress.answeredQuestions)) {
-                setAnsweredQuestions(new Set(progress.answeredQuestions));
-              }
-            } catch (e) {
-              console.error('Failed to parse saved progress:', e);
-            }
-          }
         }
       });
     }
@@ -103,13 +147,23 @@ const Interview: React.FC = () => {
         }
       }
       
-      // Shuffle the questions to mix them up from different tech stacks
-      const shuffledQuestions = allQuestions.sort(() => Math.random() - 0.5);
-      setQuestions(shuffledQuestions);
+      if (currentInterview?.mode === 'adaptive' || (currentInterview?.questionIds && currentInterview.questionIds.length > 0)) {
+        // Interviews created from a template or with resume questions ask a
+        // fixed set in a fixed order;
+        // adaptive interviews ask the questions the server has served so far
+        const fixedQuestions = (currentInterview.questionIds || [])
+          .map(id => allQuestions.find(question => question.id === id))
+          .filter((question): question is Question => !!question);
+        setQuestions(fixedQuestions);
+      } else {
+        // Shuffle the questions to mix them up from different tech stacks
+        const shuffledQuestions = allQuestions.sort(() => Math.random() - 0.5);
+        setQuestions(shuffledQuestions);
+      }
     }
-    if (currentInterview?.scheduledDate) {
+    if (currentInterview?.startsAt) {
       try {
-        const dateObj = new Date(currentInterview.scheduledDate);
+        const dateObj = new Date(currentInterview.startsAt);
         formattedDate = dateObj.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
         formattedTime = dateObj.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
       } catch (error) {
@@ -119,48 +173,320 @@ const Interview: React.FC = () => {
     }
   }, [currentInterview, interviewId, refreshInterview, setCurrentInterview, getQuestionsForStack]);
   
-  // Save progress to local storage whenever it changes
+  // Take over the session from the server: its status, and the question
+  // set it fixed when the interview started
+  const applySession = (data: InterviewSession) => {
+    setSession(data);
+    setCurrentInterview(prev => {
+      if (!prev) return prev;
+      const questionIds = data.questions.length > 0 ? data.questions : prev.questionIds;
+      if (prev.status === data.status && (prev.questionIds || []).join() === (questionIds || []).join()) {
+        return prev;
+      }
+      return { ...prev, status: data.status, questionIds };
+    });
+  };
+  
+  // The server keeps the session, so a reload resumes where it says the
+  // candidate is
   useEffect(() => {
-    if (interviewId && currentQuestionIndex !== undefined) {
-      // Use sessionStorage instead of localStorage for more reliable session persistence
-      try {
-        sessionStorage.setItem(`interview-progress-${interviewId}`, JSON.stringify({
-          questionIndex: currentQuestionIndex,
-          answeredQuestions: Array.from(answeredQuestions)
-        }));
-        // Also save to localStorage as backup
-        localStorage.setItem(`interview-progress-${interviewId}`, JSON.stringify({
-          questionIndex: currentQuestionIndex,
-          answeredQuestions: Array.from(answeredQuestions)
-        }));
-        console.log('Saved progress to storage:', currentQuestionIndex);
-      } catch (e) {
-        console.error('Failed to save progress:', e);
+    if (!currentInterview?.id) return;
+    interviewAPI.getSession(currentInterview.id)
+      .then(response => applySession(response.data.data))
+      .catch(error => console.error('Error loading the interview session:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentInterview?.id]);
+  
+  // The interview's own clock, kept in step with the server's
+  useEffect(() => {
+    if (session?.status !== 'in-progress') return;
+    setInterviewTimeLeft(session.remainingSeconds);
+    const timer = window.setInterval(() => {
+      setInterviewTimeLeft(prev => Math.max(0, (prev ?? 0) - 1));
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [session]);
+  
+  // Count down a question's time left; once it runs out the candidate has a
+  // few seconds' notice before the interview moves on
+  const startQuestionTimer = (seconds: number) => {
+    if (timerRef.current) window.clearInterval(timerRef.current);
+    if (autoSubmitRef.current) window.clearInterval(autoSubmitRef.current);
+    
+    setTimeRemaining(seconds);
+    setTimerWarning(false);
+    setAutoSubmitCountdown(0);
+    setIsAnswering(true);
+    setHasTimerStarted(true);
+    
+    timerRef.current = window.setInterval(() => {
+      setTimeRemaining(prevTime => {
+        const newTime = prevTime - 1;
+        
+        // Show warning when 30 seconds left
+        if (newTime === 30) {
+          setTimerWarning(true);
+          toast.warning('30 seconds remaining for this question!');
+        }
+        
+        // When time runs out, start the countdown to the next question
+        if (newTime <= 0) {
+          if (timerRef.current) {
+            window.clearInterval(timerRef.current);
+            timerRef.current = null;
+          }
+          
+          setAutoSubmitCountdown(5);
+          autoSubmitRef.current = window.setInterval(() => {
+            setAutoSubmitCountdown(prev => {
+              const newCount = prev - 1;
+              if (newCount <= 0) {
+                if (autoSubmitRef.current) {
+                  window.clearInterval(autoSubmitRef.current);
+                  autoSubmitRef.current = null;
+                }
+                timeUpRef.current();
+                return 0;
+              }
+              return newCount;
+            });
+          }, 1000);
+        }
+        
+        return Math.max(0, newTime);
+      });
+    }, 1000);
+  };
+  
+  // Get the stackId for convenience
+  const stackId = currentInterview?.stackId;
+  
+  // Follow-up questions saved before a reload are asked again in place
+  useEffect(() => {
+    const restored: Record<string, FollowUp> = {};
+    (currentInterview?.answers || []).forEach(answer => {
+      if (answer.followUpQuestion && !answer.parentAnswerId) {
+        restored[answer.questionId] = { parentAnswerId: answer.id, question: answer.followUpQuestion };
       }
+    });
+    if (Object.keys(restored).length > 0) {
+      setFollowUps(prev => ({ ...restored, ...prev }));
     }
-  }, [interviewId, currentQuestionIndex, answeredQuestions]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentInterview?.id]);
+  
+  const questionFlow: FlowQuestion[] = questions.flatMap(question => {
+    const followUp = followUps[question.id];
+    if (!followUp) return [question];
+    return [question, {
+      ...question,
+      id: `${question.id}:follow-up`,
+      text: followUp.question,
+      followUp: { ...followUp, questionId: question.id }
+    }];
+  });
+  
+  // Define currentQuestion at the top level after all hooks
+  const currentQuestion: FlowQuestion | null = questionFlow[currentQuestionIndex] || null;
+  currentQuestionIdRef.current = currentQuestion?.id || null;
+  useEffect(() => () => {
+    currentQuestionIdRef.current = null;
+  }, []);
   
-  // Add the autoSubmitCountdown effect here at the top level
+  // Answers to follow-up questions are saved against the original question
+  const answerQuestionId = currentQuestion?.followUp?.questionId || currentQuestion?.id;
+  
+  // Languages the candidate may answer in: the question's own list, else the tech stack's, else all
+  const codeLanguageOptions = getLanguagesFor(
+    currentQuestion?.languages,
+    availableTechStacks.find(stack => stack.id === currentQuestion?.stackId)?.languages
+  );
+  
+  // Question types answered in writing rather than by recording
+  const questionType = currentQuestion?.type || 'verbal';
+  const isWrittenQuestion = questionType === 'multiple-choice' || questionType === 'free-text' || questionType === 'system-design';
+  
+  // Results of a previous question's test run no longer apply, and each
+  // question starts from its own starter code with the input its type needs
   useEffect(() => {
-    if (autoSubmitCountdown > 0 && autoSubmitCountdown <= 5) {
-      const timer = setTimeout(() => {
-        setAutoSubmitCountdown(prev => prev - 1);
-      }, 1000);
-      return () => clearTimeout(timer);
-    } else if (autoSubmitCountdown === 0 && isAnswering) {
-      // Only execute this if timer has actually run out (timeRemaining === 0)
-      // This check prevents the immediate auto-submit when starting to answer
-      if (timeRemaining === 0) {
-        handleRecordingComplete(new Blob(), '');
+    setRunResults(null);
+    setTextAnswer('');
+    setSelectedOptions([]);
+    if (!currentQuestion) return;
+    
+    setShowCodeEditor(currentQuestion.type === 'coding');
+    const language = codeLanguageOptions.some(option => option.id === currentQuestion.referenceLanguage)
+      ? currentQuestion.referenceLanguage
+      : codeLanguageOptions[0].id;
+    setCodeLanguage(language);
+    setCode(getStarterCode(language, currentQuestion.starterCode));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentQuestionIndex, currentQuestion?.id]);
+  
+  // Adaptive interviews get their questions one at a time from the server,
+  // which picks the difficulty from the scores so far
+  const isAdaptive = currentInterview?.mode === 'adaptive';
+  const totalQuestions = (isAdaptive ? currentInterview?.questionCount || questions.length : questions.length)
+    + Object.keys(followUps).length;
+  
+  // Fetch the next adaptive question and append it. The server waits for
+  // the recent answers' scores before picking, so this asks again until
+  // they are in, and then goes on with the scores it has.
+  const fetchNextAdaptiveQuestion = async (skip = false): Promise<NextQuestionResult> => {
+    if (!currentInterview) return 'unchanged';
+    setIsLoadingNextQuestion(true);
+    try {
+      let data = null;
+      for (let poll = 0; !data || data.pending; poll++) {
+        if (poll > 0) {
+          await new Promise(resolve => setTimeout(resolve, NEXT_QUESTION_POLL_MS));
+        }
+        const response = await interviewAPI.getNextQuestion(currentInterview.id, skip, poll >= NEXT_QUESTION_MAX_POLLS);
+        data = response.data.data;
+      }
+      const { done, question } = data;
+      if (done || !question) {
+        return 'done';
+      }
+      
+      // A question served before is one the server has no answer to yet
+      if ((currentInterview.questionIds || []).includes(question._id)) {
+        toast.error('Your answer to this question has not reached the server yet. Try again in a moment.');
+        return 'unchanged';
+      }
+      
+      const stackId = typeof question.techStack === 'object' ? question.techStack._id : question.techStack;
+      const nextQuestion = getQuestionsForStack(stackId).find(q => q.id === question._id);
+      if (!nextQuestion) {
+        throw new Error('The next question is not loaded');
       }
+      setQuestions(prev => [...prev, nextQuestion]);
+      setCurrentInterview(prev => prev ? { ...prev, questionIds: [...(prev.questionIds || []), question._id] } : prev);
+      return 'added';
+    } catch (error) {
+      console.error('Error fetching next question:', error);
+      toast.error(error?.response?.data?.error || 'Failed to load the next question');
+      return 'unchanged';
+    } finally {
+      setIsLoadingNextQuestion(false);
     }
-  }, [autoSubmitCountdown, isAnswering, timeRemaining]);
+  };
   
-  // Get the stackId for convenience
-  const stackId = currentInterview?.stackId;
+  // Ask for the first question once the interview's questions have loaded
+  const interviewStackIds = currentInterview?.techStackIds?.length
+    ? currentInterview.techStackIds
+    : [currentInterview?.stackId].filter((id): id is string => !!id);
+  const hasLoadedStackQuestions = interviewStackIds.some(id => getQuestionsForStack(id).length > 0);
+  const isInProgress = session?.status === 'in-progress';
+  useEffect(() => {
+    if (isAdaptive && isInProgress && hasLoadedStackQuestions && !firstQuestionRequestedRef.current
+      && (currentInterview?.questionIds || []).length === 0) {
+      firstQuestionRequestedRef.current = true;
+      fetchNextAdaptiveQuestion();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAdaptive, isInProgress, hasLoadedStackQuestions, currentInterview?.id]);
   
-  // Define currentQuestion at the top level after all hooks
-  const currentQuestion = questions[currentQuestionIndex] || null;
+  // Resume where the session left off: after the last question shown, or
+  // on it with the time it has left if it is still open
+  useEffect(() => {
+    if (resumedRef.current || !session || session.status !== 'in-progress' || questionFlow.length === 0) return;
+    resumedRef.current = true;
+    
+    const flowId = (entry: SessionEntry) => (entry.followUp ? `${entry.question}:follow-up` : entry.question);
+    setAnsweredQuestions(prev => new Set([
+      ...prev,
+      ...session.progress.filter(entry => entry.outcome === 'answered').map(flowId)
+    ]));
+    
+    const last = session.progress[session.progress.length - 1];
+    const index = last ? questionFlow.findIndex(question => question.id === flowId(last)) : -1;
+    if (index === -1) return;
+    
+    setCurrentQuestionIndex(index);
+    if (last.outcome === 'open' && last.remainingSeconds > 0) {
+      startQuestionTimer(last.remainingSeconds);
+    } else if (index < questionFlow.length - 1) {
+      setCurrentQuestionIndex(index + 1);
+    } else if (isAdaptive) {
+      fetchNextAdaptiveQuestion().then(result => {
+        if (result === 'added') {
+          setCurrentQuestionIndex(index + 1);
+        } else if (result === 'done') {
+          setShowComplete(true);
+        }
+      });
+    } else {
+      setShowComplete(true);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, questionFlow.length]);
+  
+  // Once the interview's time is up only submitting is left
+  useEffect(() => {
+    if (interviewTimeLeft === 0 && session?.status === 'in-progress') {
+      if (timerRef.current) window.clearInterval(timerRef.current);
+      if (autoSubmitRef.current) window.clearInterval(autoSubmitRef.current);
+      setIsAnswering(false);
+      setHasTimerStarted(false);
+      setShowComplete(true);
+      toast.warning("The interview's time is up. Submit it to finish.");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [interviewTimeLeft]);
+  
+  // Start the interview; its duration starts counting on the server
+  const handleStartInterview = async () => {
+    if (!currentInterview) return;
+    setIsStarting(true);
+    try {
+      const response = await interviewAPI.start(currentInterview.id);
+      applySession(response.data.session);
+    } catch (error) {
+      console.error('Error starting interview:', error);
+      toast.error(error?.response?.data?.error || 'Failed to start the interview');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+  
+  // Swap in the new language's starter code unless the candidate has already written something
+  const handleCodeLanguageChange = (language: string) => {
+    const previousStarter = getStarterCode(codeLanguage, currentQuestion?.starterCode);
+    if (!code.trim() || code === previousStarter) {
+      setCode(getStarterCode(language, currentQuestion?.starterCode));
+    }
+    setCodeLanguage(language);
+    setRunResults(null);
+  };
+  
+  // Untouched starter code is not an answer
+  const submittedCode = code === getStarterCode(codeLanguage, currentQuestion?.starterCode) ? '' : code;
+  
+  // Run the code against the question's visible test cases in the server sandbox
+  const handleRunTests = async () => {
+    if (!currentQuestion || !code.trim()) {
+      toast.error('Write some code before running the tests');
+      return;
+    }
+    
+    setIsRunningTests(true);
+    try {
+      const response = await codeAPI.run({
+        code,
+        language: codeLanguage,
+        question: currentQuestion.id
+      });
+      if (response.data && response.data.data) {
+        setRunResults(response.data.data);
+      }
+    } catch (error) {
+      console.error('Error running tests:', error);
+      toast.error(error?.response?.data?.error || 'Failed to run tests');
+    } finally {
+      setIsRunningTests(false);
+    }
+  };
   
   // Define tech stack name and warning
   const techStackName = currentInterview?.stackId ? 
@@ -210,6 +536,55 @@ const Interview: React.FC = () => {
       </Layout>
     );
   }
+  if (session && session.status === 'scheduled') {
+    return (
+      <Layout>
+        <div className="max-w-xl mx-auto">
+          <Card>
+            <CardContent className="p-8 text-center space-y-4">
+              <h1 className="text-2xl font-bold">Ready to Start?</h1>
+              <p className="text-gray-600">
+                You have {currentInterview.duration} minutes for the interview and{' '}
+                {formatTime(session.questionTimeLimit)} to answer each question once you open it.
+                The clock keeps running if you leave or reload the page.
+              </p>
+              <Button onClick={handleStartInterview} disabled={isStarting} className="min-w-40">
+                {isStarting ? 'Starting...' : 'Start Interview'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </Layout>
+    );
+  }
+  if (session && session.status !== 'in-progress') {
+    const endedMessages: Partial<Record<InterviewSession['status'], string>> = {
+      completed: 'You have completed this interview. Thank you!',
+      expired: "The interview's time ran out. The answers you saved have been kept.",
+      abandoned: 'You left this interview before finishing it.'
+    };
+    return (
+      <Layout>
+        <div className="text-center">
+          <h1 className="text-2xl font-bold">Interview Not Available</h1>
+          <p className="mt-2">{endedMessages[session.status] || `This interview is ${session.status}.`}</p>
+          <Button className="mt-4" asChild>
+            <a href="/">Go Home</a>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+  if ((!questions || questions.length === 0) && isAdaptive && (isLoadingNextQuestion || !firstQuestionRequestedRef.current)) {
+    return (
+      <Layout>
+        <div className="text-center">
+          <h1 className="text-2xl font-bold">Preparing Your Interview</h1>
+          <p className="mt-2">Loading the first question...</p>
+        </div>
+      </Layout>
+    );
+  }
   if (!questions || questions.length === 0) {
     return (
       <Layout>
@@ -224,159 +599,111 @@ const Interview: React.FC = () => {
     );
   }
 
-  // Function to save both code and audio response with a single button
-  const handleSaveResponse = async () => {
+  // Ask whether the answer just saved warrants a follow-up question. Only
+  // original questions get one, and at most one each. The answer is
+  // evaluated in the background, so this asks again until its score is in.
+  // A follow-up question is only asked while the candidate is still on the
+  // question; once they have moved on it would come out of order.
+  const requestFollowUp = async (question: FlowQuestion, answer: Answer) => {
+    if (question.followUp || question.type === 'multiple-choice' || followUps[question.id]) return;
+    
+    try {
+      for (let poll = 0; poll < FOLLOW_UP_MAX_POLLS; poll++) {
+        if (currentQuestionIdRef.current !== question.id) return;
+        if (poll > 0) {
+          await new Promise(resolve => setTimeout(resolve, FOLLOW_UP_POLL_MS));
+        }
+
+        const response = await aiAPI.followUp(answer.id);
+        const { followUpQuestion, pending } = response.data.data || {};
+        if (pending) continue;
+
+        if (followUpQuestion && currentQuestionIdRef.current === question.id) {
+          setFollowUps(prev => ({ ...prev, [question.id]: { parentAnswerId: answer.id, question: followUpQuestion } }));
+          toast.info('The interviewer has a follow-up question. It will be asked next.');
+        }
+        return;
+      }
+    } catch (error) {
+      // The interview goes on without a follow-up question
+      console.error('Error requesting follow-up question:', error);
+    }
+  };
+  
+  // Save a queued answer once it can reach the server
+  saveQueuedAnswerRef.current = async (answer: QueuedAnswer) => {
+    const savedAnswer = await saveAnswer(
+      answer.interviewId,
+      answer.questionId,
+      answer.audioBlob || new Blob([], { type: 'audio/webm' }),
+      answer.transcript,
+      answer.code,
+      answer.codeLanguage,
+      answer.response,
+      answer.followUp
+    );
+    // The queue goes on with the next answer while the evaluation runs
+    if (currentQuestion?.id === answer.flowQuestionId) {
+      void requestFollowUp(currentQuestion, savedAnswer);
+    }
+    return savedAnswer.id;
+  };
+  
+  // The server keeps no answers to questions whose time ran out before the
+  // answer reached it, e.g. while the candidate was offline. The answer is
+  // kept on this device and can be sent again from the upload status.
+  answerRejectedRef.current = (answer, message) => {
+    if (answer.answerId) {
+      toast.error(`Your answer was saved, but its recording could not be uploaded: ${message}`);
+      return;
+    }
+    toast.error(`Your answer was not accepted: ${message}`);
+    setAnsweredQuestions(prev => {
+      const next = new Set(prev);
+      next.delete(answer.flowQuestionId);
+      return next;
+    });
+  };
+
+  // Save a multiple-choice, free-text or system design answer. There is no
+  // recording; multiple-choice answers are graded by the server.
+  const handleSaveWrittenResponse = async () => {
     if (!currentInterview || !currentQuestion) return;
     
+    const response = questionType === 'multiple-choice' ? { selectedOptions } : { textAnswer };
+    if (questionType === 'multiple-choice' ? selectedOptions.length === 0 : !textAnswer.trim()) {
+      toast.error(questionType === 'multiple-choice' ? 'Select an option first' : 'Write your answer first');
+      return;
+    }
+    
     setIsSubmitting(true);
-    toast.info('Saving your response...');
     
     try {
-      // Get the latest code from the state
-      const codeToSave = code;
-      
-      // Find the existing audio recording for this question (if any)
-      const existingAnswer = localAnswers.find(a => a.questionId === currentQuestion.id);
-      const audioBlob = existingAnswer?.audioBlob;
-      const transcript = existingAnswer?.transcript || '';
-      
-      // Create a local answer object to display immediately (do this early to improve perceived performance)
-      const localAnswer = {
-        id: Date.now().toString(),
-        questionId: currentQuestion.id,
-        questionText: currentQuestion.text,
-        audioBlob: audioBlob,
-        audioUrl: audioBlob ? URL.createObjectURL(audioBlob) : '',
-        transcript: transcript,
-        code: showCodeEditor ? codeToSave : '',
-        score: null, // Will be updated later
-        feedback: null, // Will be updated later
-        criteria: null // Will be updated later
-      };
-      
-      // Add to local answers array immediately
-      setLocalAnswers(prev => {
-        // Replace if already exists for this question
-        const filtered = prev.filter(a => a.questionId !== currentQuestion.id);
-        return [...filtered, localAnswer];
+      await answerQueue.enqueue({
+        flowQuestionId: currentQuestion.id,
+        questionId: answerQuestionId,
+        followUp: currentQuestion.followUp,
+        transcript: '',
+        code: '',
+        response
       });
       
-      // Mark this question as answered immediately
-      setAnsweredQuestions(prev => new Set(prev).add(currentQuestion.id));
-      
-      // Save progress to sessionStorage immediately
-      const progress = {
-        questionIndex: currentQuestionIndex,
-        answeredQuestions: Array.from(answeredQuestions).concat(currentQuestion.id)
-      };
-      sessionStorage.setItem(`interview-progress-${interviewId}`, JSON.stringify(progress));
-      localStorage.setItem(`interview-progress-${interviewId}`, JSON.stringify(progress));
-      
-      // Upload the audio file if available - do this in parallel
-      let audioUploadPromise = Promise.resolve('');
-      let audioUrl = existingAnswer?.audioUrl || '';
-      if (audioBlob) {
-        audioUploadPromise = uploadAPI.uploadAudio(audioBlob)
-          .then(response => {
-            audioUrl = response.data.data.fileUrl;
-            console.log('Audio uploaded successfully:', audioUrl);
-            return audioUrl;
-          })
-          .catch(uploadError => {
-            console.error('Error uploading audio:', uploadError);
-            toast.error('Failed to upload audio');
-            return '';
-          });
-      }
-      
-      // AI evaluation - do this in parallel
-      let aiEvaluationPromise = Promise.resolve(null);
-      if (transcript || (showCodeEditor && codeToSave)) {
-        // Get the tech stack name
-        const techStackName = availableTechStacks.find(s => s.id === currentInterview.stackId)?.name || 'Unknown';
-        
-        console.log('Sending to AI for evaluation:', {
-          question: currentQuestion.text,
-          transcript: transcript || 'No verbal response provided.',
-          techStack: techStackName,
-          code: showCodeEditor ? codeToSave : undefined
-        });
-        
-        // Make sure we're sending non-empty values
-        aiEvaluationPromise = aiAPI.evaluate({
-          question: currentQuestion.text,
-          transcript: transcript || 'No verbal response provided.',
-          techStack: techStackName,
-          code: showCodeEditor && codeToSave ? codeToSave : undefined
-        })
-        .then(evaluationResponse => {
-          if (evaluationResponse.data && evaluationResponse.data.data) {
-            console.log('AI evaluation received:', evaluationResponse.data.data);
-            return evaluationResponse.data.data;
-          } else {
-            console.error('AI evaluation response missing data:', evaluationResponse);
-            toast.error('Invalid AI evaluation response format');
-            return null;
-          }
-        })
-        .catch(aiError => {
-          console.error('Error getting AI evaluation:', aiError);
-          toast.error('Failed to get AI evaluation');
-          return null;
-        });
-      }
-      
-      // Wait for both promises to complete
-      const [audioUrlResult, aiEvaluation] = await Promise.all([
-        audioUploadPromise,
-        aiEvaluationPromise
-      ]);
-      
-      // Update local answer with AI evaluation results
-      if (aiEvaluation) {
-        setLocalAnswers(prev => {
-          return prev.map(a => {
-            if (a.questionId === currentQuestion.id) {
-              return {
-                ...a,
-                score: aiEvaluation.score || null,
-                feedback: aiEvaluation.feedback || null,
-                criteria: aiEvaluation.criteria || null
-              };
-            }
-            return a;
-          });
-        });
-      }
-      
-      // Save the answer to the database
-      try {
-        // Create a blob from the audio URL if we have one
-        let audioBlobToSave: Blob | null = null;
-        if (audioBlob) {
-          audioBlobToSave = audioBlob;
-        } else {
-          // Create an empty blob with the code as text content
-          const codeText = showCodeEditor ? codeToSave : '';
-          audioBlobToSave = new Blob([codeText], { type: 'audio/webm' });
+      setLocalAnswers(prev => [
+        ...prev.filter(a => a.questionId !== currentQuestion.id),
+        {
+          id: Date.now().toString(),
+          questionId: currentQuestion.id,
+          questionText: currentQuestion.text,
+          transcript: '',
+          ...response,
+          score: null,
+          feedback: null,
+          criteria: null
         }
-        
-        // Call saveAnswer with the correct parameters according to the interface
-        await saveAnswer(
-          currentInterview.id,
-          currentQuestion.id,
-          audioBlobToSave,
-          transcript, // Pass transcript as the 4th parameter
-          showCodeEditor ? codeToSave : '' // Pass code as the 5th parameter
-        );
-        console.log('Answer saved to database');
-      } catch (saveError) {
-        console.error('Error saving answer to database:', saveError);
-      }
+      ]);
+      setAnsweredQuestions(prev => new Set(prev).add(currentQuestion.id));
       
       toast.success('Response saved successfully! Click "Next Question" when you are ready to continue.');
-      // Do NOT automatically navigate to the next question - let the user decide when to move on
-      // This fixes the issue where the UI would be confusing after saving a response
     } catch (error) {
       console.error('Error saving response:', error);
       toast.error('Failed to save response');
@@ -385,322 +712,107 @@ const Interview: React.FC = () => {
     }
   };
   
-  const handleRecordingComplete = async (audioBlob: Blob, transcript?: string) => {
+  // Function to save both code and audio response with a single button
+  const handleSaveResponse = async () => {
     if (!currentInterview || !currentQuestion) return;
     
+    if (isWrittenQuestion) {
+      await handleSaveWrittenResponse();
+      return;
+    }
+    
     setIsSubmitting(true);
     
     try {
-      console.log('Recording complete with transcript:', transcript);
-      
-      // Check if transcript is empty or contains the placeholder text
-      const actualTranscript = transcript && !transcript.includes('[TRANSCRIPT FROM WEB SPEECH API NOT AVAILABLE]') 
-        ? transcript 
-        : '';
-        
-      console.log('Using transcript:', actualTranscript);
-      
-      // Upload the audio file to get a URL
-      let audioUrl = '';
-      try {
-        const uploadResponse = await uploadAPI.uploadAudio(audioBlob);
-        audioUrl = uploadResponse.data.data.fileUrl;
-        console.log('Audio uploaded successfully:', audioUrl);
-      } catch (uploadError) {
-        console.error('Error uploading audio:', uploadError);
-        toast.error('Failed to upload audio');
-      }
-      
-      // If we have a transcript and code, send to AI for evaluation
-      let aiEvaluation = null;
-      if (actualTranscript || (showCodeEditor && code)) {
-        try {
-          console.log('Sending to AI for evaluation:', {
-            question: currentQuestion.text,
-            transcript: actualTranscript,
-            techStack: currentInterview.stackName,
-            code: showCodeEditor ? code : undefined
-          });
-          
-          const evaluationResponse = await aiAPI.evaluate({
-            question: currentQuestion.text,
-            transcript: actualTranscript || 'No verbal response provided.',
-            techStack: currentInterview.stackName,
-            code: showCodeEditor ? code : undefined
-          });
-          
-          aiEvaluation = evaluationResponse.data.data;
-          console.log('AI evaluation received:', aiEvaluation);
-        } catch (aiError) {
-          console.error('Error getting AI evaluation:', aiError);
-          toast.error('Failed to get AI evaluation');
-        }
-      }
+      const codeToSave = showCodeEditor ? submittedCode : '';
       
-      // Save the answer to the database
-      try {
-        // Create a blob from the audio URL
-        let audioBlobToSave: Blob;
-        try {
-          // Convert the audio URL back to a blob
-          const response = await fetch(audioUrl);
-          audioBlobToSave = await response.blob();
-        } catch (error) {
-          console.error('Error converting audio URL to blob:', error);
-          // Create an empty blob as fallback
-          audioBlobToSave = new Blob([], { type: 'audio/webm' });
-        }
-        
-        // Call saveAnswer with individual parameters
-        await saveAnswer(
-          currentInterview.id,
-          currentQuestion.id,
-          audioBlobToSave,
-          actualTranscript,
-          showCodeEditor ? code : ''
-        );
-        console.log('Answer saved to database');
-      } catch (saveError) {
-        console.error('Error saving answer to database:', saveError);
-      }
-      
-      // Create a local answer object to display immediately
-      const localAnswer = {
-        id: Date.now().toString(),
-        questionId: currentQuestion.id,
-        questionText: currentQuestion.text,
-        audioBlob,
-        audioUrl: URL.createObjectURL(audioBlob),
-        transcript: actualTranscript,
-        code: showCodeEditor ? code : '',
-        score: aiEvaluation?.score || null,
-        feedback: aiEvaluation?.feedback || null,
-        criteria: aiEvaluation?.criteria || null
-      };
+      // Find the existing audio recording for this question (if any)
+      const existingAnswer = localAnswers.find(a => a.questionId === currentQuestion.id);
+      const audioBlob: Blob | undefined = existingAnswer?.audioBlob;
+      const transcript = existingAnswer?.transcript || '';
       
-      // Add to local answers array
-      setLocalAnswers(prev => {
-        // Replace if already exists for this question
-        const filtered = prev.filter(a => a.questionId !== currentQuestion.id);
-        return [...filtered, localAnswer];
+      // The answer is kept in the browser until the server has it, so the
+      // candidate can go on while it is saved and its recording uploaded
+      await answerQueue.enqueue({
+        flowQuestionId: currentQuestion.id,
+        questionId: answerQuestionId,
+        followUp: currentQuestion.followUp,
+        transcript,
+        code: codeToSave,
+        codeLanguage,
+        audioBlob
       });
       
-      // Mark this question as answered
+      setLocalAnswers(prev => [
+        ...prev.filter(a => a.questionId !== currentQuestion.id),
+        {
+          id: Date.now().toString(),
+          questionId: currentQuestion.id,
+          questionText: currentQuestion.text,
+          audioBlob,
+          audioUrl: audioBlob ? URL.createObjectURL(audioBlob) : '',
+          transcript,
+          code: codeToSave,
+          codeLanguage,
+          score: null,
+          feedback: null,
+          criteria: null
+        }
+      ]);
       setAnsweredQuestions(prev => new Set(prev).add(currentQuestion.id));
       
-      // Save progress to sessionStorage
-      const progress = {
-        questionIndex: currentQuestionIndex,
-        answeredQuestions: Array.from(answeredQuestions).concat(currentQuestion.id)
-      };
-      sessionStorage.setItem(`interview-progress-${interviewId}`, JSON.stringify(progress));
-      localStorage.setItem(`interview-progress-${interviewId}`, JSON.stringify(progress));
-      
-      toast.success('Answer recorded and evaluated! You can continue editing your code or move to the next question when ready.');
+      toast.success('Response saved successfully! Click "Next Question" when you are ready to continue.');
     } catch (error) {
-      console.error('Error saving answer:', error);
-      toast.error('Failed to save answer');
+      console.error('Error saving response:', error);
+      toast.error('Failed to save response');
     } finally {
       setIsSubmitting(false);
-      // Don't automatically end answering or clear the code editor
-      // setIsAnswering(false);
-      // setShowCodeEditor(false);
-      // setCode('');
     }
   };
-
-  const handleStartAnswering = () => {
-    // Ensure time is reset when starting to answer
-    setTimeRemaining(MAX_QUESTION_TIME);
-    
-    setIsAnswering(true);
-    setHasTimerStarted(true);
-    
-    const handleTimeUp = () => {
-      // When time is up, show a message and don't auto-submit
-      toast.warning("Time's up! Your answer was not recorded. You can try again or navigate to another question.");
-      setIsAnswering(false);
-      setHasTimerStarted(false);
-    };
+  
+  // Open the question on the server, which starts its clock. A question
+  // opened before a reload keeps the time it had left.
+  const handleStartAnswering = async () => {
+    if (!currentInterview || !currentQuestion) return;
     
-    // Start the timer
-    timerRef.current = window.setInterval(() => {
-      setTimeRemaining(prevTime => {
-        const newTime = prevTime - 1;
-        
-        // Show warning when 30 seconds left
-        if (newTime === 30) {
-          setTimerWarning(true);
-          toast.warning('30 seconds remaining for this question!');
-        }
-        
-        // When time runs out, start auto-submit countdown
-        if (newTime <= 0) {
-          if (timerRef.current) {
-            window.clearInterval(timerRef.current);
-            timerRef.current = null;
-          }
-          
-          // Start auto-submit countdown (5 seconds)
-          setAutoSubmitCountdown(5);
-          autoSubmitRef.current = window.setInterval(() => {
-            setAutoSubmitCountdown(prev => {
-              const newCount = prev - 1;
-              if (newCount <= 0) {
-                // Time's up - call our new handler instead of auto-skip
-                if (autoSubmitRef.current) {
-                  window.clearInterval(autoSubmitRef.current);
-                  autoSubmitRef.current = null;
-                }
-                handleTimeUp();
-                return 0;
-              }
-              return newCount;
-            });
-          }, 1000);
-        }
-        
-        return Math.max(0, newTime);
-      });
-    }, 1000);
+    const followUp = !!currentQuestion.followUp;
+    try {
+      const response = await interviewAPI.startQuestion(currentInterview.id, answerQuestionId, followUp);
+      const data: InterviewSession = response.data.data;
+      applySession(data);
+      const entry = data.progress.find(item => item.question === answerQuestionId && item.followUp === followUp);
+      startQuestionTimer(entry ? entry.remainingSeconds : data.questionTimeLimit);
+    } catch (error) {
+      console.error('Error starting question:', error);
+      toast.error(error?.response?.data?.error || 'Failed to open the question');
+    }
   };
 
   const handleFinishInterview = async () => {
     if (!currentInterview) return;
     setIsSubmitting(true);
     try {
-      // Prepare answers for batch submission
-      const batchAnswers = [];
-      
-      // Process each local answer
-      for (const local of localAnswers) {
-        // 1. Upload audio
-        let audioUrl = undefined;
-        if (local.audioBlob) {
-          try {
-            console.log('[DEBUG] Uploading audio blob:', local.audioBlob);
-            const uploadRes = await uploadAPI.uploadAudio(local.audioBlob);
-            console.log('[DEBUG] Upload response data:', uploadRes.data);
-            
-            // Extract the URL from the normalized response
-            audioUrl = uploadRes.data?.url;
-            
-            // If that's not available, try other possible locations
-            if (!audioUrl) {
-              audioUrl = uploadRes.data?.data?.fileUrl || uploadRes.data?.fileUrl || uploadRes.data?.audioUrl;
-              console.log('[DEBUG] Using fallback URL location:', audioUrl);
-            }
-            
-            console.log('[DEBUG] Final extracted audioUrl:', audioUrl);
-          } catch (err) {
-            console.error('Audio upload failed:', err);
-            toast.error('Audio upload failed for one of your answers.');
-          }
-        }
-        
-        // 2. Use transcript from AudioRecorder component
-        let transcript = local.transcript;
-        if (!transcript && local.audioBlob) {
-          // If transcript is missing but we have audio, use a placeholder
-          transcript = '[TRANSCRIPT FROM WEB SPEECH API NOT AVAILABLE]';
-          console.log('[DEBUG] Using placeholder for missing transcript');
-        }
-        
-        // Log the transcript for debugging
-        if (transcript) {
-          console.log('[DEBUG] Using transcript:', transcript.substring(0, 100) + (transcript.length > 100 ? '...' : ''));
-        }
-        
-        // 3. Evaluate using Cohere AI
-        let score = 0, feedback = '';
-        let criteria: { technicalAccuracy: number; completeness: number; clarity: number; examples: number } = {
-          technicalAccuracy: 0,
-          completeness: 0,
-          clarity: 0,
-          examples: 0
-        };
-        if (transcript && local.questionText) {
-          try {
-            console.log('[DEBUG] Using Cohere AI for evaluation');
-            const techStackName = availableTechStacks.find(s => s.id === currentInterview.stackId)?.name || '';
-            
-            // Use the AI API for evaluation
-            const evaluationResponse = await aiAPI.evaluate({
-              question: local.questionText,
-              transcript: transcript,
-              techStack: techStackName,
-              code: local.code || '',
-              codeLanguage: local.codeLanguage || 'javascript'
-            });
-            
-            if (evaluationResponse.data && evaluationResponse.data.data) {
-              const evaluation = evaluationResponse.data.data;
-              score = evaluation.score;
-              feedback = evaluation.feedback;
-              criteria = evaluation.criteria;
-              
-              console.log('[DEBUG] Cohere AI evaluation successful:', { 
-                score, 
-                criteriaKeys: Object.keys(criteria),
-                technicalAccuracy: criteria.technicalAccuracy,
-                completeness: criteria.completeness,
-                clarity: criteria.clarity,
-                examples: criteria.examples
-              });
-            }
-          } catch (err) {
-            console.error('Local evaluation failed:', err);
-            // Create a basic evaluation if the service fails
-            score = 5; // Default middle score
-            feedback = 'Your answer has been recorded, but automatic evaluation failed. An admin will review your response.';
-            criteria = {
-              technicalAccuracy: 5,
-              completeness: 5,
-              clarity: 5,
-              examples: 5
-            };
-          }
-        }
-        
-        // 4. Create the answer object to be sent to the server
-        console.log('[DEBUG] Creating answer object with audioUrl:', audioUrl);
-        batchAnswers.push({
-          interview: currentInterview.id,
-          question: local.questionId,
-          audioUrl,
-          transcript,
+      // Recordings never saved are queued now, and the server keeps those
+      // whose time has not run out. Everything queued has to arrive before
+      // the interview is completed.
+      const queued = new Set(answerQueue.entries.map(entry => entry.flowQuestionId));
+      for (const local of localAnswers.filter(answer => !answeredQuestions.has(answer.questionId) && !queued.has(answer.questionId))) {
+        // Local answers are kept per question shown, follow-ups included
+        const followUp = questionFlow.find(question => question.id === local.questionId)?.followUp;
+        await answerQueue.enqueue({
+          flowQuestionId: local.questionId,
+          questionId: followUp?.questionId || local.questionId,
+          followUp,
+          transcript: local.transcript || '',
           code: local.code || '',
-          codeLanguage: local.codeLanguage || 'javascript',
-          score,
-          feedback,
-          criteria
-        });
-        
-        console.log('[DEBUG] Answer object pushed to batch:', {
-          questionId: local.questionId,
-          audioUrl,
-          transcript: transcript ? transcript.substring(0, 30) + '...' : 'undefined',
-          score
+          codeLanguage: local.codeLanguage,
+          audioBlob: local.audioBlob
         });
       }
-      if (batchAnswers.length > 0) {
-        try {
-          await answerAPI.batch(batchAnswers);
-          console.log('Batch answers submitted successfully:', batchAnswers.length);
-        } catch (batchError) {
-          console.error('Failed to submit batch answers:', batchError);
-          toast.error('Some answers may not have been saved properly. Please contact support.');
-          
-          // Try to submit answers one by one as fallback
-          for (const answer of batchAnswers) {
-            try {
-              await answerAPI.create(answer);
-              console.log('Individual answer submitted successfully:', answer.question);
-            } catch (singleError) {
-              console.error('Failed to submit individual answer:', singleError);
-            }
-          }
-        }
+      
+      if (!(await answerQueue.flush())) {
+        toast.error('Some answers have not reached the server yet. Keep this page open and submit again once your connection is back.');
+        return;
       }
       
       try {
@@ -713,7 +825,7 @@ const Interview: React.FC = () => {
         }
       } catch (endError) {
         console.error('Failed to end interview:', endError);
-        toast.error('Failed to mark interview as completed, but your answers were saved.');
+        toast.error(endError?.response?.data?.error || 'Failed to mark interview as completed, but your answers were saved.');
         navigate('/');
       }
     } catch (error) {
@@ -724,28 +836,59 @@ const Interview: React.FC = () => {
     }
   };
 
-  const handleSkipQuestion = () => {
-    // Clear any existing timers
-    if (timerRef.current) {
-      window.clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    if (autoSubmitRef.current) {
-      window.clearInterval(autoSubmitRef.current);
-      autoSubmitRef.current = null;
-    }
-    
-    // Reset states
+  // Adaptive interviews ask the server for another question after the last
+  // one served; an unanswered question counts as skipped. The answer has to
+  // reach the server first: opening the next question closes this one.
+  const goToNextQuestion = async () => {
+    if (!(await answerQueue.flushSaves())) {
+      toast.error('Your answer has not reached the server yet. You can go on once your connection is back.');
+      return;
+    }
+    
+    if (currentQuestion && !answeredQuestions.has(currentQuestion.id)) {
+      try {
+        const response = await interviewAPI.skipQuestion(currentInterview.id, answerQuestionId, !!currentQuestion.followUp);
+        applySession(response.data.data);
+      } catch (error) {
+        console.error('Error skipping question:', error);
+      }
+    }
+    
+    if (currentQuestionIndex < questionFlow.length - 1) {
+      setCurrentQuestionIndex(prev => prev + 1);
+    } else if (isAdaptive) {
+      // Only a question actually appended is moved on to
+      const result = await fetchNextAdaptiveQuestion(!answeredQuestions.has(currentQuestion.id));
+      if (result === 'added') {
+        setCurrentQuestionIndex(prev => prev + 1);
+      } else if (result === 'done') {
+        setShowComplete(true);
+      }
+    } else {
+      setShowComplete(true);
+    }
+  };
+
+  // The question's time ran out: it can no longer be answered
+  timeUpRef.current = () => {
+    toast.warning("Time's up! This question can no longer be answered.");
     setIsAnswering(false);
     setHasTimerStarted(false);
     setAutoSubmitCountdown(0);
+    goToNextQuestion();
+  };
+  
+  // Leave without finishing; the answers saved so far are kept
+  const handleLeaveInterview = async () => {
+    if (!confirm('Leave the interview? You will not be able to come back to it.')) return;
     
-    // Move to next question
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(prev => prev + 1);
-    } else {
-      setShowComplete(true);
-    }
+    try {
+      await interviewAPI.abandon(currentInterview.id);
+      navigate('/');
+    } catch (error) {
+      console.error('Error leaving interview:', error);
+      toast.error(error?.response?.data?.error || 'Failed to leave the interview');
+    }
   };
   
   // Add a new function to move to next question (separate from skip)
@@ -766,22 +909,24 @@ const Interview: React.FC = () => {
     setAutoSubmitCountdown(0);
     
     // Move to next question
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(prev => prev + 1);
-    } else {
-      setShowComplete(true);
-    }
-  };
-
-  // Format time as MM:SS
-  const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    goToNextQuestion();
   };
 
   // Calculate progress percentage
-  const progressPercentage = (answeredQuestions.size / questions.length) * 100;
+  const progressPercentage = (answeredQuestions.size / totalQuestions) * 100;
+  
+  const uploadStatus = (
+    <AnswerUploadStatus
+      entries={answerQueue.entries}
+      isOnline={answerQueue.isOnline}
+      labelFor={entry => {
+        const index = questionFlow.findIndex(question => question.id === entry.flowQuestionId);
+        return index === -1 ? 'Answer' : `Question ${index + 1}`;
+      }}
+      onRetry={answerQueue.retry}
+      onDiscard={answerQueue.discard}
+    />
+  );
 
   return (
     <Layout>
@@ -792,9 +937,10 @@ const Interview: React.FC = () => {
               <CheckCircle className="w-16 h-16 text-interview-success mx-auto mb-4" />
               <h2 className="text-2xl font-bold mb-2">Interview Complete!</h2>
               <p className="text-gray-600 mb-6">
-                You've answered {answeredQuestions.size} out of {questions.length} questions. 
+                You've answered {answeredQuestions.size} out of {questionFlow.length} questions. 
                 Your responses will be evaluated by our AI system.
               </p>
+              <div className="text-left">{uploadStatus}</div>
               <Button onClick={handleFinishInterview} disabled={isSubmitting} className="min-w-40">
                 {isSubmitting ? 'Submitting...' : 'Submit Interview'}
               </Button>
@@ -812,9 +958,14 @@ const Interview: React.FC = () => {
                 <div><span className="font-semibold">Scheduled Date:</span> {formattedDate || 'Not specified'}</div>
                 <div><span className="font-semibold">Scheduled Time:</span> {formattedTime || 'Not specified'}</div>
                 <div><span className="font-semibold">Duration:</span> {currentInterview.duration} min</div>
+                {interviewTimeLeft !== null && (
+                  <div className={interviewTimeLeft <= 60 ? 'text-red-600' : ''}>
+                    <span className="font-semibold">Time Left:</span> {formatTime(interviewTimeLeft)}
+                  </div>
+                )}
               </div>
               <div className="flex justify-between items-center mb-2">
-                <h2 className="text-lg font-medium">Question {currentQuestionIndex + 1} of {questions.length}</h2>
+                <h2 className="text-lg font-medium">Question {currentQuestionIndex + 1} of {totalQuestions}</h2>
                 <span className="text-sm text-gray-500">
                   {answeredQuestions.size} answered
                 </span>
@@ -826,6 +977,8 @@ const Interview: React.FC = () => {
                 ></div>
               </div>
             </div>
+            
+            {uploadStatus}
             
             <Card className="shadow-md">
               <CardContent className="p-6">
@@ -863,60 +1016,113 @@ const Interview: React.FC = () => {
                 
                 {isAnswering ? (
                   <div className="mt-6">
-                    <AudioRecorder 
-                      onRecordingComplete={(audioBlob, transcript) => {
-                        // Store the recording in local state without saving to database yet
-                        if (!currentQuestion) return;
+                    {questionType === 'multiple-choice' && (
+                      <MultipleChoiceOptions
+                        options={currentQuestion?.options || []}
+                        multipleAnswers={currentQuestion?.multipleAnswers}
+                        selected={selectedOptions}
+                        onChange={setSelectedOptions}
+                        disabled={isSubmitting}
+                      />
+                    )}
+                    
+                    {(questionType === 'free-text' || questionType === 'system-design') && (
+                      <Textarea
+                        value={textAnswer}
+                        onChange={(e) => setTextAnswer(e.target.value)}
+                        disabled={isSubmitting}
+                        rows={questionType === 'system-design' ? 16 : 8}
+                        placeholder={questionType === 'system-design'
+                          ? 'Describe the components, how data flows between them, and the trade-offs you made'
+                          : 'Write your answer here'}
+                      />
+                    )}
+                    
+                    {!isWrittenQuestion && (
+                      <AudioRecorder 
+                        onRecordingComplete={(audioBlob, transcript) => {
+                          // Store the recording in local state without saving to database yet
+                          if (!currentQuestion) return;
                         
-                        // Create a local answer object to display immediately
-                        const localAnswer = {
-                          id: Date.now().toString(),
-                          questionId: currentQuestion.id,
-                          questionText: currentQuestion.text,
-                          audioBlob,
-                          audioUrl: URL.createObjectURL(audioBlob),
-                          transcript: transcript || '',
-                          code: showCodeEditor ? code : '',
-                          score: null,
-                          feedback: null,
-                          criteria: null
-                        };
+                          // Create a local answer object to display immediately
+                          const localAnswer = {
+                            id: Date.now().toString(),
+                            questionId: currentQuestion.id,
+                            questionText: currentQuestion.text,
+                            audioBlob,
+                            audioUrl: URL.createObjectURL(audioBlob),
+                            transcript: transcript || '',
+                            code: showCodeEditor ? submittedCode : '',
+                            codeLanguage,
+                            score: null,
+                            feedback: null,
+                            criteria: null
+                          };
                         
-                        // Add to local answers array
-                        setLocalAnswers(prev => {
-                          // Replace if already exists for this question
-                          const filtered = prev.filter(a => a.questionId !== currentQuestion.id);
-                          return [...filtered, localAnswer];
-                        });
+                          // Add to local answers array
+                          setLocalAnswers(prev => {
+                            // Replace if already exists for this question
+                            const filtered = prev.filter(a => a.questionId !== currentQuestion.id);
+                            return [...filtered, localAnswer];
+                          });
                         
-                        toast.success('Recording completed! Click "Save Response" when you are ready to submit.');
-                      }} 
-                      isDisabled={isSubmitting}
-                      useSpeechRecognition={useFreeMode}
-                    />
+                          toast.success('Recording completed! Click "Save Response" when you are ready to submit.');
+                        }} 
+                        isDisabled={isSubmitting}
+                        useSpeechRecognition={useFreeMode}
+                      />
+                    )}
                     
-                    <div className="mt-4 flex items-center justify-between">
-                      <Button 
-                        variant="outline" 
-                        onClick={() => setShowCodeEditor(!showCodeEditor)}
-                        disabled={isSubmitting}
-                        className="flex items-center gap-2"
-                      >
-                        <Code size={16} />
-                        {showCodeEditor ? 'Hide Code Editor' : 'Show Code Editor'}
-                      </Button>
-                    </div>
+                    {/* Coding questions always show the editor; verbal answers can add code */}
+                    {questionType === 'verbal' && (
+                      <div className="mt-4 flex items-center justify-between">
+                        <Button 
+                          variant="outline" 
+                          onClick={() => setShowCodeEditor(!showCodeEditor)}
+                          disabled={isSubmitting}
+                          className="flex items-center gap-2"
+                        >
+                          <Code size={16} />
+                          {showCodeEditor ? 'Hide Code Editor' : 'Show Code Editor'}
+                        </Button>
+                      </div>
+                    )}
                     
                     {showCodeEditor && (
                       <div className="mt-4">
                         <CodeEditor
                           initialValue={code}
+                          language={codeLanguage}
+                          languages={codeLanguageOptions}
+                          onLanguageChange={handleCodeLanguageChange}
                           onChange={setCode}
                           onSave={(value) => {
                             setCode(value);
                             toast.success('Code saved!');
                           }}
                         />
+                        
+                        {currentQuestion?.testCases && currentQuestion.testCases.length > 0 && getCodeLanguage(codeLanguage).runnable && (
+                          <div className="mt-4 space-y-3">
+                            <div className="flex items-center justify-between">
+                              <p className="text-sm text-muted-foreground">
+                                {currentQuestion.testCases.length} example test{currentQuestion.testCases.length === 1 ? '' : 's'}
+                                {currentQuestion.hiddenTestCaseCount ? `, plus ${currentQuestion.hiddenTestCaseCount} hidden test${currentQuestion.hiddenTestCaseCount === 1 ? '' : 's'} run when you save your response` : ''}
+                              </p>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleRunTests}
+                                disabled={isRunningTests || isSubmitting}
+                                className="flex items-center gap-2"
+                              >
+                                <Play size={14} />
+                                {isRunningTests ? 'Running...' : 'Run Tests'}
+                              </Button>
+                            </div>
+                            {runResults && <TestResultsPanel testResults={runResults} />}
+                          </div>
+                        )}
                       </div>
                     )}
                     
@@ -932,10 +1138,10 @@ const Interview: React.FC = () => {
                       <Button 
                         variant="outline" 
                         onClick={handleNextQuestion}
-                        disabled={isSubmitting}
+                        disabled={isSubmitting || isLoadingNextQuestion}
                         className="flex-1 max-w-xs"
                       >
-                        {currentQuestionIndex === questions.length - 1 ? 'Finish Interview' : 'Next Question'}
+                        {currentQuestionIndex === totalQuestions - 1 ? 'Finish Interview' : 'Next Question'}
                       </Button>
                     </div>
                   </div>
@@ -949,8 +1155,12 @@ const Interview: React.FC = () => {
               </CardContent>
             </Card>
             
-            <div className="mt-6 flex justify-end">
-              {currentQuestionIndex === questions.length - 1 ? (
+            <div className="mt-6 flex justify-between">
+              <Button variant="ghost" onClick={handleLeaveInterview} disabled={isSubmitting}>
+                <LogOut size={16} className="mr-2" />
+                Leave Interview
+              </Button>
+              {currentQuestionIndex === totalQuestions - 1 ? (
                 <Button 
                   variant="outline" 
                   onClick={handleFinishInterview}
@@ -962,8 +1172,8 @@ const Interview: React.FC = () => {
               ) : (
                 <Button 
                   variant="outline" 
-                  onClick={() => setCurrentQuestionIndex(prev => Math.min(questions.length - 1, prev + 1))}
-                  disabled={isAnswering}
+                  onClick={handleNextQuestion}
+                  disabled={isAnswering || isLoadingNextQuestion}
                 >
                   Next Question
                   <ArrowRight size={16} className="ml-2" />
@@ -975,6 +1185,13 @@ const Interview: React.FC = () => {
       </div>
     </Layout>
   );
+};
+
+// Format time as MM:SS
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
 // Helper function to get color for difficulty badges
@@ -2,14 +2,25 @@ import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import { useInterview } from '@/context/InterviewContext';
-import { interviewAPI } from '@/api/index';
+import { interviewAPI, emailAPI, schedulingAPI } from '@/api/index';
 import Layout from '@/components/Layout';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Calendar, Clock, User, Building, Code } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Calendar, Clock, User, Building, Code, Mail, CalendarClock } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import SendInvitationButton from '@/components/SendInvitationButton';
+import AddToCalendarButton from '@/components/AddToCalendarButton';
+import {
+  DEFAULT_JOIN_WINDOW,
+  formatInTimeZone,
+  getBrowserTimeZone,
+  JoinWindow,
+  utcToZonedTime,
+  zonedTimeToUtc
+} from '@/lib/timezones';
 
 interface Candidate {
   _id: string;
@@ -31,9 +42,14 @@ interface TechStack {
 
 interface DetailedInterview {
   _id: string;
-  candidate: Candidate;
+  // Candidate in the hiring pipeline
+  candidate: Candidate & { stage?: string };
   role?: Role;
   techStack: TechStack;
+  startsAt?: string;
+  candidateTimezone?: string;
+  interviewerTimezone?: string;
+  joinWindow?: JoinWindow;
   scheduledDate: string;
   scheduledTime: string;
   duration: number;
@@ -43,6 +59,27 @@ interface DetailedInterview {
   updatedAt: string;
 }
 
+// Invitation link as returned by the server; the token itself is never sent back
+interface Invitation {
+  _id: string;
+  email: string;
+  status: 'active' | 'used' | 'revoked' | 'expired';
+  expiresAt: string;
+  usedAt?: string | null;
+  revokedAt?: string | null;
+  createdAt: string;
+}
+
+// Suggest the same clock time on the next day that is still ahead
+const suggestNewStart = (startsAt: string | undefined, timeZone: string) => {
+  const day = 24 * 60 * 60 * 1000;
+  let next = new Date((startsAt ? new Date(startsAt).getTime() : Date.now()) + day);
+  while (next.getTime() <= Date.now()) {
+    next = new Date(next.getTime() + day);
+  }
+  return utcToZonedTime(next, timeZone);
+};
+
 const InterviewDetails = () => {
   const { interviewId } = useParams<{ interviewId: string }>();
   const navigate = useNavigate();
@@ -51,6 +88,12 @@ const InterviewDetails = () => {
   
   const [interview, setInterview] = useState<DetailedInterview | null>(null);
   const [loading, setLoading] = useState(true);
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [reschedule, setReschedule] = useState<{ date: string; time: string } | null>(null);
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const [isSendingSchedulingLink, setIsSendingSchedulingLink] = useState(false);
+  const isAdmin = user?.role === 'admin';
 
   useEffect(() => {
     const fetchInterviewDetails = async () => {
@@ -76,35 +119,97 @@ const InterviewDetails = () => {
     fetchInterviewDetails();
   }, [interviewId]);
 
-  const handleBack = () => {
-    navigate('/dashboard');
+  const fetchInvitation = async () => {
+    if (!interviewId) return;
+    
+    try {
+      const response = await emailAPI.getInvitation(interviewId);
+      setInvitation(response.data?.data || null);
+    } catch (error) {
+      console.error('Error fetching invitation:', error);
+    }
   };
 
-  const formatDateTime = (date: string, time: string) => {
+  useEffect(() => {
+    if (isAdmin) {
+      fetchInvitation();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [interviewId, isAdmin]);
+
+  const handleRevokeInvitation = async () => {
+    if (!interviewId || !confirm('Revoke the invitation link? The candidate will not be able to join with it.')) return;
+    
+    setIsRevoking(true);
     try {
-      // Format: YYYY-MM-DD
-      const dateParts = date.split('-').map(part => parseInt(part, 10));
-      
-      // Format: HH:MM (24-hour)
-      const timeParts = time.split(':').map(part => parseInt(part, 10));
-      
-      const dateObj = new Date(
-        dateParts[0], // year
-        dateParts[1] - 1, // month (0-indexed)
-        dateParts[2], // day
-        timeParts[0], // hour
-        timeParts[1] // minute
-      );
-      
-      return format(dateObj, 'PPP p'); // e.g., "April 29, 2023 at 2:30 PM"
+      await emailAPI.revokeInvitation(interviewId);
+      toast.success('Invitation link revoked');
+      fetchInvitation();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast.error('Failed to revoke invitation link');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const interviewerTimezone = interview?.interviewerTimezone || getBrowserTimeZone();
+
+  const handleReschedule = async () => {
+    if (!interview || !reschedule) return;
+
+    const startsAt = zonedTimeToUtc(reschedule.date, reschedule.time, interviewerTimezone);
+    if (Number.isNaN(startsAt.getTime()) || startsAt.getTime() <= Date.now()) {
+      toast.error('Please pick a start time in the future');
+      return;
+    }
+
+    setIsRescheduling(true);
+    try {
+      const response = await interviewAPI.reschedule(interview._id, startsAt.toISOString());
+      setInterview(prev => prev && { ...prev, ...response.data.data, candidate: prev.candidate, role: prev.role, techStack: prev.techStack });
+      setReschedule(null);
+      if (response.data.invitation) {
+        toast.success('Interview rescheduled and a new invitation sent');
+      } else {
+        toast.warning('Interview rescheduled, but the invitation could not be sent');
+      }
+      fetchInvitation();
+      refreshInterview(interview._id);
+    } catch (error) {
+      console.error('Error rescheduling interview:', error);
+      toast.error('Failed to reschedule interview');
+    } finally {
+      setIsRescheduling(false);
+    }
+  };
+
+  const handleSendSchedulingLink = async () => {
+    if (!interview) return;
+
+    setIsSendingSchedulingLink(true);
+    try {
+      await schedulingAPI.sendLink(interview._id);
+      toast.success('Scheduling link sent. Links sent earlier no longer work.');
     } catch (error) {
-      console.error('Error formatting date/time:', error);
-      return `${date} at ${time}`;
+      console.error('Error sending scheduling link:', error);
+      toast.error('Failed to send scheduling link');
+    } finally {
+      setIsSendingSchedulingLink(false);
     }
   };
 
+  const handleBack = () => {
+    navigate('/dashboard');
+  };
+
+  // The start instant in the given zone, e.g. "Saturday, April 29, 2023 at 2:30 PM CEST"
+  const formatStart = (item: DetailedInterview, timeZone: string) =>
+    formatInTimeZone(item.startsAt || item.scheduledDate, timeZone, { dateStyle: 'full', timeStyle: 'short' });
+
   const handleInvitationSuccess = () => {
     toast.success('Interview invitation sent successfully!');
+    fetchInvitation();
   };
 
   return (
@@ -143,6 +248,9 @@ const InterviewDetails = () => {
                       <p className="font-medium">Candidate</p>
                       <p>{interview.candidate.name}</p>
                       <p className="text-sm text-gray-500">{interview.candidate.email}</p>
+                      {interview.candidate.stage && (
+                        <p className="text-sm text-gray-500 capitalize">Stage: {interview.candidate.stage}</p>
+                      )}
                     </div>
                   </div>
 
@@ -170,7 +278,26 @@ const InterviewDetails = () => {
                     <Calendar className="mr-2 h-5 w-5 text-gray-500" />
                     <div>
                       <p className="font-medium">Scheduled Date & Time</p>
-                      <p>{formatDateTime(interview.scheduledDate, interview.scheduledTime)}</p>
+                      {interview.startsAt || interview.scheduledDate ? (
+                        <>
+                          <p>{formatStart(interview, getBrowserTimeZone())}</p>
+                          {interview.candidateTimezone && (
+                            <p className="text-sm text-gray-500">
+                              Candidate ({interview.candidateTimezone}): {formatStart(interview, interview.candidateTimezone)}
+                            </p>
+                          )}
+                          {interview.interviewerTimezone && (
+                            <p className="text-sm text-gray-500">
+                              Interviewer ({interview.interviewerTimezone}): {formatStart(interview, interview.interviewerTimezone)}
+                            </p>
+                          )}
+                          <p className="text-sm text-gray-500">
+                            Candidates can join {interview.joinWindow?.earlyMinutes ?? DEFAULT_JOIN_WINDOW.earlyMinutes} minutes before until {interview.joinWindow?.lateMinutes ?? DEFAULT_JOIN_WINDOW.lateMinutes} minutes after the start
+                          </p>
+                        </>
+                      ) : (
+                        <p className="text-gray-500">Not picked yet</p>
+                      )}
                     </div>
                   </div>
 
@@ -189,22 +316,148 @@ const InterviewDetails = () => {
                         ? 'bg-green-100 text-green-800' 
                         : interview.status === 'scheduled' 
                           ? 'bg-blue-100 text-blue-800' 
-                          : 'bg-gray-100 text-gray-800'
+                          : ['no-show', 'abandoned', 'expired'].includes(interview.status)
+                            ? 'bg-red-100 text-red-800'
+                            : interview.status === 'awaiting-slot'
+                              ? 'bg-amber-100 text-amber-800'
+                              : 'bg-gray-100 text-gray-800'
                     }`}>
                       {interview.status.charAt(0).toUpperCase() + interview.status.slice(1)}
                     </div>
                   </div>
+
+                  {isAdmin && interview.status === 'awaiting-slot' && (
+                    <div className="rounded-md border border-amber-200 bg-amber-50 p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex items-start">
+                          <CalendarClock className="mr-2 h-5 w-5 text-amber-600" />
+                          <div>
+                            <p className="font-medium">Waiting for the candidate to pick a slot</p>
+                            <p className="text-sm text-gray-600">
+                              Once they pick one of your free slots, they are sent the invitation with their join link.
+                            </p>
+                          </div>
+                        </div>
+                        <Button
+                          size="sm"
+                          onClick={handleSendSchedulingLink}
+                          disabled={isSendingSchedulingLink}
+                        >
+                          {isSendingSchedulingLink ? 'Sending...' : 'Re-send Scheduling Link'}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {isAdmin && (interview.status === 'no-show' || interview.status === 'cancelled') && (
+                    <div className="rounded-md border border-amber-200 bg-amber-50 p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex items-start">
+                          <CalendarClock className="mr-2 h-5 w-5 text-amber-600" />
+                          <div>
+                            <p className="font-medium">
+                              {interview.status === 'no-show' ? 'The candidate did not join' : 'This interview was cancelled'}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              Rescheduling emails the candidate a new invitation link.
+                            </p>
+                          </div>
+                        </div>
+                        {!reschedule && (
+                          <Button
+                            size="sm"
+                            onClick={() => setReschedule(suggestNewStart(interview.startsAt, interviewerTimezone))}
+                          >
+                            Reschedule
+                          </Button>
+                        )}
+                      </div>
+                      {reschedule && (
+                        <div className="mt-4 flex flex-wrap items-end gap-3">
+                          <div className="space-y-1">
+                            <Label htmlFor="reschedule-date">Date</Label>
+                            <Input
+                              id="reschedule-date"
+                              type="date"
+                              value={reschedule.date}
+                              onChange={(e) => setReschedule({ ...reschedule, date: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="reschedule-time">Time ({interviewerTimezone})</Label>
+                            <Input
+                              id="reschedule-time"
+                              type="time"
+                              value={reschedule.time}
+                              onChange={(e) => setReschedule({ ...reschedule, time: e.target.value })}
+                            />
+                          </div>
+                          <Button onClick={handleReschedule} disabled={isRescheduling}>
+                            {isRescheduling ? 'Rescheduling...' : 'Reschedule and Send Invitation'}
+                          </Button>
+                          <Button variant="outline" onClick={() => setReschedule(null)} disabled={isRescheduling}>
+                            Cancel
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {isAdmin && (
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start">
+                        <Mail className="mr-2 h-5 w-5 text-gray-500" />
+                        <div>
+                          <p className="font-medium">Invitation Link</p>
+                          {invitation ? (
+                            <>
+                              <p className="capitalize">{invitation.status}</p>
+                              <p className="text-sm text-gray-500">
+                                Sent to {invitation.email} on {format(new Date(invitation.createdAt), 'PPP p')}
+                              </p>
+                              <p className="text-sm text-gray-500">
+                                {invitation.status === 'used' && invitation.usedAt
+                                  ? `Used on ${format(new Date(invitation.usedAt), 'PPP p')}`
+                                  : invitation.status === 'revoked' && invitation.revokedAt
+                                    ? `Revoked on ${format(new Date(invitation.revokedAt), 'PPP p')}`
+                                    : `${invitation.status === 'expired' ? 'Expired' : 'Expires'} on ${format(new Date(invitation.expiresAt), 'PPP p')}`}
+                              </p>
+                            </>
+                          ) : (
+                            <p className="text-sm text-gray-500">No invitation sent yet</p>
+                          )}
+                        </div>
+                      </div>
+                      {invitation?.status === 'active' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleRevokeInvitation}
+                          disabled={isRevoking}
+                        >
+                          {isRevoking ? 'Revoking...' : 'Revoke Link'}
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </CardContent>
               <CardFooter className="flex justify-between">
                 <div className="flex gap-2">
-                  <SendInvitationButton 
-                    interviewId={interview._id} 
-                    onSuccess={handleInvitationSuccess}
-                    disabled={interview.status !== 'scheduled'}
-                  />
+                  {isAdmin && (
+                    <SendInvitationButton 
+                      interviewId={interview._id} 
+                      onSuccess={handleInvitationSuccess}
+                      disabled={interview.status !== 'scheduled'}
+                      label={invitation ? 'Re-send Invitation' : undefined}
+                    />
+                  )}
+                  
+                  {interview.status === 'scheduled' && (
+                    <AddToCalendarButton interviewId={interview._id} />
+                  )}
                   
-                  {interview.status === 'completed' && (
+                  {['completed', 'abandoned', 'expired'].includes(interview.status) && (
                     <Button 
                       variant="outline" 
                       onClick={() => navigate(`/interview-report/${interview._id}`)}
@@ -1,26 +1,36 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
-import { useInterview, Question as BaseQuestion, Interview as InterviewType } from '@/context/InterviewContext';
-import { answerAPI } from '@/api';
+import { useInterview, Question as BaseQuestion, Interview as InterviewType, Rubric, TestResults, AskedQuestion, EvaluationStatus, TranscriptWord } from '@/context/InterviewContext';
+import { answerAPI, emailAPI, questionAPI, AnswerEvaluationStatus, AnswerComment } from '@/api';
 import Layout from '@/components/Layout';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Calendar, ChevronLeft, Clock, User, CheckCircle, XCircle, AlertCircle, Info, Code, MessageSquare, BarChart, Download, RefreshCw } from 'lucide-react';
-import AudioPlayer from '@/components/AudioPlayer';
-import TranscriptViewer from '@/components/TranscriptViewer';
+import { ArrowLeft, Calendar, ChevronLeft, Clock, User, CheckCircle, XCircle, AlertCircle, Info, MessageSquare, BarChart, Download, RefreshCw, Mail } from 'lucide-react';
+import AnswerPlayback from '@/components/AnswerPlayback';
 import RadarChartDisplay from '@/components/RadarChartDisplay';
+import TestResultsPanel from '@/components/TestResultsPanel';
+import CodeEditor from '@/components/CodeEditor';
+import MultipleChoiceOptions from '@/components/MultipleChoiceOptions';
+import EvaluationStatusNote from '@/components/EvaluationStatusNote';
+import { isEvaluationUnderWay } from '@/lib/evaluationStatus';
 import {
   Radar,
   RadarChart,
   PolarGrid,
   PolarAngleAxis,
   PolarRadiusAxis,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
   ResponsiveContainer,
   Tooltip,
   Legend as RechartsLegend
 } from 'recharts';
 import { toast } from 'sonner';
+import { formatInTimeZone, getBrowserTimeZone } from '@/lib/timezones';
 
 // Define QuestionObject interface for embedded question data
 interface QuestionObject {
@@ -37,32 +47,38 @@ interface ApiAnswer {
   audioUrl?: string;
   transcript?: string;
   code?: string;
+  codeLanguage?: string;
+  textAnswer?: string;
+  selectedOptions?: string[];
   score?: number;
   feedback?: string;
-  criteria?: {
-    technicalAccuracy: number;
-    completeness: number;
-    clarity: number;
-    examples: number;
-  };
+  criteria?: Record<string, number>;
+  rubric?: Rubric;
+  testResults?: TestResults;
 }
 
 // Extended Answer interface to handle questionId either as string or object
 interface Answer {
   id: string;
   questionId: string | QuestionObject;
+  questionVersion?: AskedQuestion;
   audioUrl?: string;
   transcript?: string;
+  transcriptWords?: TranscriptWord[];
   code?: string;
+  codeLanguage?: string;
   codeEvaluation?: string;
+  textAnswer?: string;
+  selectedOptions?: string[];
   score?: number;
   feedback?: string;
-  criteria?: {
-    technicalAccuracy: number;
-    completeness: number;
-    clarity: number;
-    examples: number;
-  };
+  criteria?: Record<string, number>;
+  rubric?: Rubric;
+  testResults?: TestResults;
+  evaluationStatus?: EvaluationStatus;
+  evaluationError?: string;
+  followUpQuestion?: string;
+  parentAnswerId?: string;
 }
 
 // Extend the Question interface to include tech stack information
@@ -70,9 +86,24 @@ interface Question extends BaseQuestion {
   techStack?: string;
 }
 
+// Question as returned by the API with its tech stack populated
+interface ApiQuestion {
+  _id: string;
+  techStack: { _id: string; name: string };
+  text: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  type?: BaseQuestion['type'];
+  keyPoints?: string[];
+}
+
 type QuestionWithAnswer = {
   question: Question;
   answer: Answer | undefined;
+  // Follow-up question asked after the answer, and the candidate's reply
+  followUp?: {
+    question: string;
+    answer?: Answer;
+  };
 };
 
 // Add this interface for radar chart data
@@ -82,6 +113,28 @@ interface RadarChartData {
   fullMark: number;
 }
 
+// Show a question as it was asked, not as it reads after later edits
+const asAsked = (question: Question, answer?: Answer): Question => answer?.questionVersion
+  ? {
+    ...question,
+    text: answer.questionVersion.text,
+    difficulty: answer.questionVersion.difficulty,
+    type: answer.questionVersion.type
+  }
+  : question;
+
+const DIFFICULTY_LEVELS: Record<string, number> = { easy: 1, medium: 2, hard: 3 };
+const DIFFICULTY_LABELS = ['', 'Easy', 'Medium', 'Hard'];
+
+// How often to check on answers still being evaluated
+const EVALUATION_POLL_MS = 5000;
+
+// Label for a criterion key, taken from the rubric the answer was graded
+// with; answers stored before rubrics existed fall back to the key itself
+const getCriterionLabel = (key: string, rubric?: Rubric): string =>
+  rubric?.criteria.find(criterion => criterion.key === key)?.label ||
+  key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+
 // Add a function to properly format audio URLs
 const getFullAudioUrl = (relativeUrl?: string): string | undefined => {
   if (!relativeUrl) return undefined;
@@ -128,6 +181,12 @@ const InterviewReport = () => {
   const [criteriaAverages, setCriteriaAverages] = useState<RadarChartData[] | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [isSendingResults, setIsSendingResults] = useState(false);
+  // Progress of background evaluations by answer id, while any are under way
+  const [evaluationProgress, setEvaluationProgress] = useState<Record<string, AnswerEvaluationStatus>>({});
+  const [reEvaluating, setReEvaluating] = useState<string | null>(null);
+  // Reviewer comments on the recordings, by answer id (admins only)
+  const [commentsByAnswer, setCommentsByAnswer] = useState<Record<string, AnswerComment[]>>({});
 
   // Function to handle going back to the dashboard
   const handleBack = () => {
@@ -136,6 +195,28 @@ const InterviewReport = () => {
     navigate('/admin/dashboard');
   };
 
+  // Email the candidate their score, with an optional note from the hiring team
+  const handleSendResults = async () => {
+    if (!interview) return;
+    const message = prompt('Add a note for the candidate (optional):');
+    if (message === null) return;
+
+    setIsSendingResults(true);
+    try {
+      const response = await emailAPI.sendResults(interview.id, message.trim() || undefined);
+      if (response.data?.data?.status === 'failed') {
+        toast.error('Failed to send results');
+      } else {
+        toast.success('Results sent to the candidate');
+      }
+    } catch (error) {
+      console.error('Error sending results:', error);
+      toast.error('Failed to send results');
+    } finally {
+      setIsSendingResults(false);
+    }
+  };
+
   // Function to check if a question and answer match
   const isMatchingQuestionAndAnswer = (question: Question, answer: Answer): boolean => {
     // If the answer has a questionId that's an object with an _id property
@@ -212,7 +293,7 @@ const InterviewReport = () => {
       
       // Calculate average score
       const scores = extendedInterview?.answers
-        .filter(a => typeof a.score === 'number')
+        .filter(a => a.evaluationStatus !== 'failed' && typeof a.score === 'number')
         .map(a => a.score as number);
       
       if (scores && scores.length > 0) {
@@ -222,48 +303,32 @@ const InterviewReport = () => {
       
       // Calculate criteria averages
       if (extendedInterview?.answers && extendedInterview.answers.length > 0) {
-        const criteriaSum = {
-          technicalAccuracy: 0,
-          completeness: 0,
-          clarity: 0,
-          examples: 0,
-          count: 0
-        };
+        // Answers can be graded with different rubrics (e.g. one per tech
+        // stack), so average each criterion over the answers that have it
+        const criteriaSum: Record<string, { label: string; total: number; count: number }> = {};
         
         foundInterview.answers.forEach(answer => {
-          if (answer.criteria) {
-            criteriaSum.technicalAccuracy += answer.criteria.technicalAccuracy || 0;
-            criteriaSum.completeness += answer.criteria.completeness || 0;
-            criteriaSum.clarity += answer.criteria.clarity || 0;
-            criteriaSum.examples += answer.criteria.examples || 0;
-            criteriaSum.count++;
+          // Failed evaluations have no real criteria scores
+          if (answer.criteria && answer.evaluationStatus !== 'failed') {
+            Object.entries(answer.criteria).forEach(([key, value]) => {
+              if (typeof value !== 'number') return;
+              
+              if (!criteriaSum[key]) {
+                criteriaSum[key] = { label: getCriterionLabel(key, answer.rubric), total: 0, count: 0 };
+              }
+              criteriaSum[key].total += value;
+              criteriaSum[key].count++;
+            });
           }
         });
         
-        if (criteriaSum.count > 0) {
-          const criteriaAveragesData = [
-            {
-              subject: 'Technical Accuracy',
-              score: criteriaSum.technicalAccuracy / criteriaSum.count,
-              fullMark: 10
-            },
-            {
-              subject: 'Completeness',
-              score: criteriaSum.completeness / criteriaSum.count,
-              fullMark: 10
-            },
-            {
-              subject: 'Clarity',
-              score: criteriaSum.clarity / criteriaSum.count,
-              fullMark: 10
-            },
-            {
-              subject: 'Examples',
-              score: criteriaSum.examples / criteriaSum.count,
-              fullMark: 10
-            }
-          ];
-          
+        const criteriaAveragesData = Object.values(criteriaSum).map(({ label, total, count }) => ({
+          subject: label,
+          score: total / count,
+          fullMark: 10
+        }));
+        
+        if (criteriaAveragesData.length > 0) {
           setCriteriaAverages(criteriaAveragesData);
         }
       }
@@ -304,17 +369,59 @@ const InterviewReport = () => {
         }
       }
       
+      // Interviews created from a template only asked their fixed question
+      // set, adaptive interviews the questions they were served
+      if (extendedInterview?.mode === 'adaptive' || (extendedInterview?.questionIds && extendedInterview.questionIds.length > 0)) {
+        // Questions generated from the candidate's resume are not in the
+        // tech stacks' question lists, so they are fetched one by one
+        const stackQuestions = allQuestions;
+        const missingIds = (extendedInterview.questionIds || [])
+          .filter(id => !stackQuestions.some(question => question.id === id));
+        const resumeQuestions = await Promise.all(missingIds.map(async (id): Promise<Question | null> => {
+          try {
+            const response = await questionAPI.getById(id);
+            const question: ApiQuestion = response.data.data;
+            return {
+              id: question._id,
+              stackId: question.techStack._id,
+              techStack: question.techStack.name,
+              text: question.text,
+              difficulty: question.difficulty,
+              type: question.type || 'verbal',
+              keyPoints: question.keyPoints || []
+            };
+          } catch (questionError) {
+            console.error(`Error fetching question ${id}:`, questionError);
+            return null;
+          }
+        }));
+        allQuestions = (extendedInterview.questionIds || [])
+          .map(id => [...stackQuestions, ...resumeQuestions].find(question => question?.id === id))
+          .filter((question): question is Question => !!question);
+      }
+      
       let qaMap: QuestionWithAnswer[] = [];
       
       if (allQuestions && allQuestions.length > 0) {
         console.log(`Found ${allQuestions.length} total questions across all tech stacks`);
         console.log(`Found ${extendedInterview.answers.length} answers for interview ${extendedInterview.id}`);
       
+        // Answers to follow-up questions share the question of the answer
+        // they follow up on, so they are attached to that answer instead
+        const mainAnswers = extendedInterview.answers.filter(answer => !answer.parentAnswerId);
+        const followUpFor = (answer: Answer | undefined): QuestionWithAnswer['followUp'] => {
+          if (!answer?.followUpQuestion) return undefined;
+          return {
+            question: answer.followUpQuestion,
+            answer: extendedInterview.answers.find(followUpAnswer => followUpAnswer.parentAnswerId === answer.id)
+          };
+        };
+        
         // First, create a map of question IDs to their corresponding answers
         const questionIdToAnswerMap = new Map();
         
         // Process embedded question objects in answers first
-        foundInterview.answers.forEach(answer => {
+        mainAnswers.forEach(answer => {
           if (typeof answer.questionId === 'object' && answer.questionId) {
             const questionObj = answer.questionId as QuestionObject;
             questionIdToAnswerMap.set(questionObj._id, answer);
@@ -333,13 +440,14 @@ const InterviewReport = () => {
             const answer = questionIdToAnswerMap.get(question.id);
             console.log(`Question ${question.id} (${question.text.substring(0, 30)}...) -> Answer MAPPED DIRECTLY`);
             return {
-              question,
-              answer
+              question: asAsked(question, answer),
+              answer,
+              followUp: followUpFor(answer)
             };
           }
           
           // Otherwise, try to find a matching answer
-          const matchingAnswer = extendedInterview.answers.find(answer => 
+          const matchingAnswer = mainAnswers.find(answer => 
             isMatchingQuestionAndAnswer(question, answer)
           );
           
@@ -347,10 +455,30 @@ const InterviewReport = () => {
             matchingAnswer ? `FOUND (id: ${matchingAnswer.id}, hasAudio: ${!!matchingAnswer.audioUrl}, hasTranscript: ${!!matchingAnswer.transcript}, hasCode: ${!!matchingAnswer.code})` : 'NOT FOUND'}`);
           
           return {
-            question,
-            answer: matchingAnswer
+            question: asAsked(question, matchingAnswer),
+            answer: matchingAnswer,
+            followUp: followUpFor(matchingAnswer)
           };
         });
+
+        // Questions deleted since the interview are no longer in the tech
+        // stacks' question lists; their answers still show what was asked
+        const deletedQuestionAnswers = mainAnswers
+          .filter(answer => answer.questionVersion && !qaMap.some(item => item.answer === answer));
+        qaMap = [
+          ...qaMap,
+          ...deletedQuestionAnswers.map(answer => ({
+            question: asAsked({
+              id: typeof answer.questionId === 'object' ? (answer.questionId as QuestionObject)._id : answer.questionId,
+              stackId: '',
+              text: '',
+              difficulty: 'medium' as const,
+              type: 'verbal' as const
+            }, answer),
+            answer,
+            followUp: followUpFor(answer)
+          }))
+        ];
         
         console.log(`Final QA map has ${qaMap.length} items`);
         setQuestionsWithAnswers(qaMap);
@@ -378,6 +506,100 @@ const InterviewReport = () => {
     loadData();
   }, [reportId, fetchInterviewData]);
 
+  // Answers are evaluated in the background. While any is still queued or
+  // running, ask the server how far they have got and reload the report
+  // once one of them is done.
+  const isEvaluating = !!interview?.answers.some(answer => isEvaluationUnderWay(answer.evaluationStatus));
+  useEffect(() => {
+    if (!reportId || !interview || !isEvaluating) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const response = await answerAPI.getEvaluationStatus(reportId);
+        if (cancelled) return;
+
+        const statuses = response.data.data;
+        setEvaluationProgress(Object.fromEntries(statuses.map(status => [status.answer, status])));
+        const isDone = statuses.some(status => !isEvaluationUnderWay(status.status)
+          && interview.answers.some(answer => answer.id === status.answer && isEvaluationUnderWay(answer.evaluationStatus)));
+        if (isDone) {
+          await refreshInterview(reportId);
+        }
+      } catch (error) {
+        console.error('Error checking evaluation status:', error);
+      }
+    };
+
+    poll();
+    const timer = window.setInterval(poll, EVALUATION_POLL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [reportId, interview, isEvaluating, refreshInterview]);
+
+  // Have an answer evaluated again, e.g. after its evaluation failed or the
+  // rubric changed (admins only)
+  const handleReEvaluate = async (answerId: string) => {
+    setReEvaluating(answerId);
+    try {
+      const response = await answerAPI.reEvaluate(answerId);
+      setEvaluationProgress(prev => ({ ...prev, [answerId]: response.data.data }));
+      // Marking the answer queued starts the polling above
+      setInterview(prev => prev && {
+        ...prev,
+        answers: prev.answers.map(answer => (answer.id === answerId ? { ...answer, evaluationStatus: 'queued' } : answer))
+      });
+      toast.success('The answer will be evaluated again');
+    } catch (error) {
+      console.error('Error requesting re-evaluation:', error);
+      toast.error(error?.response?.data?.error || 'Failed to request re-evaluation');
+    } finally {
+      setReEvaluating(null);
+    }
+  };
+
+  useEffect(() => {
+    if (!reportId || user?.role !== 'admin') return;
+
+    const loadComments = async () => {
+      try {
+        const response = await answerAPI.getComments(reportId);
+        const grouped: Record<string, AnswerComment[]> = {};
+        response.data.data.forEach(comment => {
+          (grouped[comment.answer] ||= []).push(comment);
+        });
+        setCommentsByAnswer(grouped);
+      } catch (error) {
+        console.error('Error loading reviewer comments:', error);
+      }
+    };
+
+    loadComments();
+  }, [reportId, user?.role]);
+
+  const handleAddComment = async (answerId: string, comment: { start: number; end: number; text: string }) => {
+    const response = await answerAPI.addComment(answerId, comment);
+    const added = response.data.data;
+    setCommentsByAnswer(prev => ({
+      ...prev,
+      [answerId]: [...(prev[answerId] || []), added].sort((a, b) => a.start - b.start)
+    }));
+  };
+
+  const handleDeleteComment = async (answerId: string, commentId: string) => {
+    await answerAPI.deleteComment(answerId, commentId);
+    setCommentsByAnswer(prev => ({
+      ...prev,
+      [answerId]: (prev[answerId] || []).filter(comment => comment._id !== commentId)
+    }));
+  };
+
+  // Status of an answer's evaluation, going by the latest progress
+  const evaluationStatusOf = (answer: Answer): EvaluationStatus | undefined =>
+    evaluationProgress[answer.id]?.status || answer.evaluationStatus;
+
   // Function to fetch audio URL directly from the database
   const fetchAnswerAudio = async (answerId: string) => {
     try {
@@ -406,6 +628,7 @@ const InterviewReport = () => {
                         ...qa.answer, 
                         audioUrl: apiAnswer.audioUrl,
                         code: apiAnswer.code,
+                        codeLanguage: apiAnswer.codeLanguage,
                         codeEvaluation: apiAnswer.codeEvaluation
                       } 
                     } 
@@ -467,17 +690,18 @@ const InterviewReport = () => {
                   answer: { 
                     ...qa.answer, 
                     transcript: apiAnswer.transcript || '',
+                    transcriptWords: apiAnswer.transcriptWords,
                     audioUrl: apiAnswer.audioUrl || '',
                     code: apiAnswer.code || '',
+                    codeLanguage: apiAnswer.codeLanguage,
                     codeEvaluation: apiAnswer.codeEvaluation || '',
                     score: apiAnswer.score,
                     feedback: apiAnswer.feedback || '',
-                    criteria: apiAnswer.criteria || {
-                      technicalAccuracy: 0,
-                      completeness: 0,
-                      clarity: 0,
-                      examples: 0
-                    }
+                    criteria: apiAnswer.criteria,
+                    rubric: apiAnswer.rubric,
+                    testResults: apiAnswer.testResults,
+                    evaluationStatus: apiAnswer.evaluationStatus,
+                    evaluationError: apiAnswer.evaluationError
                   } 
                 } 
               : qa
@@ -548,7 +772,9 @@ const InterviewReport = () => {
                     ...qa, 
                     answer: { 
                       ...qa.answer, 
-                      transcript: manualTranscript
+                      transcript: manualTranscript,
+                      // The server drops word timings that no longer match
+                      transcriptWords: []
                     } 
                   } 
                 : qa
@@ -569,6 +795,15 @@ const InterviewReport = () => {
     }
   };
 
+  // Difficulty and score of each question of an adaptive interview, in the order asked
+  const difficultyTrajectory = interview?.mode === 'adaptive'
+    ? qaMap.map((qa, index) => ({
+        question: `Q${index + 1}`,
+        difficulty: DIFFICULTY_LEVELS[qa.question.difficulty],
+        score: qa.answer?.evaluationStatus === 'failed' ? null : qa.answer?.score ?? null
+      }))
+    : [];
+
   return (
     <Layout>
       <div className="container mx-auto py-8 px-4">
@@ -593,7 +828,20 @@ const InterviewReport = () => {
         ) : interview ? (
           <>
             <div className="mb-8">
-              <h1 className="text-3xl font-bold mb-4">Interview Report</h1>
+              <div className="flex items-center justify-between mb-4">
+                <h1 className="text-3xl font-bold">Interview Report</h1>
+                {user?.role === 'admin' && ['completed', 'expired'].includes(interview.status) && (
+                  <Button
+                    variant="outline"
+                    onClick={handleSendResults}
+                    disabled={isSendingResults}
+                    className="flex items-center gap-2"
+                  >
+                    <Mail className="h-4 w-4" />
+                    {isSendingResults ? 'Sending...' : 'Email Results'}
+                  </Button>
+                )}
+              </div>
               
               <Card className="mb-6">
                 <CardContent className="pt-6">
@@ -610,7 +858,7 @@ const InterviewReport = () => {
                       <Calendar className="h-5 w-5 text-gray-500 mr-2" />
                       <div>
                         <p className="text-sm text-gray-500">Date</p>
-                        <p className="font-medium">{interview.scheduledDate || 'Not scheduled'}</p>
+                        <p className="font-medium">{interview.startsAt ? formatInTimeZone(interview.startsAt, getBrowserTimeZone(), { dateStyle: 'medium' }) : 'Not scheduled'}</p>
                       </div>
                     </div>
                     
@@ -618,7 +866,7 @@ const InterviewReport = () => {
                       <Clock className="h-5 w-5 text-gray-500 mr-2" />
                       <div>
                         <p className="text-sm text-gray-500">Time</p>
-                        <p className="font-medium">{interview.scheduledTime || 'Not scheduled'}</p>
+                        <p className="font-medium">{interview.startsAt ? formatInTimeZone(interview.startsAt, getBrowserTimeZone(), { timeStyle: 'short' }) : 'Not scheduled'}</p>
                       </div>
                     </div>
                     
@@ -697,6 +945,55 @@ const InterviewReport = () => {
                   </CardContent>
                 </Card>
               )}
+              
+              {difficultyTrajectory.length > 0 && (
+                <Card className="mb-6">
+                  <CardHeader>
+                    <CardTitle>Difficulty Trajectory</CardTitle>
+                    <CardDescription>
+                      Adaptive interview: each question's difficulty followed the scores of the answers before it
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-[300px] w-full">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={difficultyTrajectory}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="question" />
+                          <YAxis
+                            yAxisId="difficulty"
+                            domain={[1, 3]}
+                            ticks={[1, 2, 3]}
+                            tickFormatter={(level: number) => DIFFICULTY_LABELS[level]}
+                          />
+                          <YAxis yAxisId="score" orientation="right" domain={[0, 10]} />
+                          <Tooltip
+                            formatter={(value: number, name: string) =>
+                              name === 'Difficulty' ? DIFFICULTY_LABELS[value] : value}
+                          />
+                          <Line
+                            yAxisId="difficulty"
+                            type="stepAfter"
+                            dataKey="difficulty"
+                            name="Difficulty"
+                            stroke="#8884d8"
+                            strokeWidth={2}
+                          />
+                          <Line
+                            yAxisId="score"
+                            type="monotone"
+                            dataKey="score"
+                            name="Score"
+                            stroke="#82ca9d"
+                            connectNulls
+                          />
+                          <RechartsLegend />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </div>
             
             <h2 className="text-2xl font-bold mb-4">Questions & Answers</h2>
@@ -781,7 +1078,11 @@ const InterviewReport = () => {
                               {qa.answer.score && qa.answer.score >= 7 ? <CheckCircle /> : <XCircle />}
                             </div>
                             <span className="font-medium">
-                              Score: {qa.answer.score !== undefined ? `${qa.answer.score} / 10` : 'Not evaluated'}
+                              Score: {evaluationStatusOf(qa.answer) === 'failed'
+                                ? 'Evaluation failed'
+                                : isEvaluationUnderWay(evaluationStatusOf(qa.answer))
+                                  ? 'Being evaluated'
+                                  : qa.answer.score !== undefined && qa.answer.score !== null ? `${qa.answer.score} / 10` : 'Not evaluated'}
                             </span>
                             <button 
                               onClick={() => {
@@ -792,35 +1093,57 @@ const InterviewReport = () => {
                               Log Details
                             </button>
                           </div>
-                          <AudioPlayer 
-                            audioUrl={qa.answer.audioUrl ? getFullAudioUrl(qa.answer.audioUrl) : undefined}
-                            answerId={qa.answer.id}
-                            onReload={() => qa.answer?.id && fetchAnswerAudio(qa.answer.id)}
-                          />
-                        </div>
-                        
-                        <div>
-                          <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
-                            <Info size={16} className="mr-1" /> Transcript
-                          </h4>
-                          <TranscriptViewer 
-                            transcript={qa.answer.transcript}
-                            answerId={qa.answer.id}
-                            onReload={() => qa.answer?.id && handleTranscriptReload(qa.answer.id)}
-                            onManualEntry={(answerId) => handleManualTranscript(answerId, qa.answer?.audioUrl)}
-                          />
                         </div>
                         
-                        {qa.answer.code && qa.answer.code.trim() !== '' && (
-                          <div className="mt-4">
+                        {qa.question.type === 'multiple-choice' ? (
+                          <div>
                             <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
-                              <Code size={16} className="mr-1" /> Code Submission
+                              <Info size={16} className="mr-1" /> Selected Options
                             </h4>
-                            <div className="p-4 bg-gray-900 text-gray-100 rounded-lg overflow-x-auto">
-                              <pre className="whitespace-pre-wrap break-words">
-                                <code>{qa.answer.code}</code>
-                              </pre>
+                            <MultipleChoiceOptions
+                              options={qa.question.options || []}
+                              multipleAnswers={(qa.question.options || []).filter(option => option.correct).length > 1}
+                              selected={qa.answer.selectedOptions || []}
+                            />
+                          </div>
+                        ) : qa.question.type === 'free-text' || qa.question.type === 'system-design' ? (
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                              <Info size={16} className="mr-1" /> Written Answer
+                            </h4>
+                            <div className="p-3 bg-gray-50 rounded-lg text-sm whitespace-pre-wrap">
+                              {qa.answer.textAnswer || 'No answer written.'}
                             </div>
+                          </div>
+                        ) : (
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                              <Info size={16} className="mr-1" /> Transcript
+                            </h4>
+                            <AnswerPlayback
+                              answerId={qa.answer.id}
+                              audioUrl={getFullAudioUrl(qa.answer.audioUrl)}
+                              transcript={qa.answer.transcript}
+                              transcriptWords={qa.answer.transcriptWords}
+                              onReloadAudio={fetchAnswerAudio}
+                              onReloadTranscript={handleTranscriptReload}
+                              onManualEntry={(answerId) => handleManualTranscript(answerId, qa.answer?.audioUrl)}
+                              comments={user?.role === 'admin' ? commentsByAnswer[qa.answer.id] || [] : undefined}
+                              onAddComment={handleAddComment}
+                              onDeleteComment={handleDeleteComment}
+                            />
+                          </div>
+                        )}
+                        
+                        {qa.answer.code && qa.answer.code.trim() !== '' && (
+                          <div className="mt-4">
+                            <CodeEditor
+                              initialValue={qa.answer.code}
+                              language={qa.answer.codeLanguage || undefined}
+                              title="Code Submission"
+                              height="240px"
+                              readOnly
+                            />
                             
                             {/* Code evaluation section */}
                             {qa.answer.codeEvaluation && (
@@ -829,6 +1152,13 @@ const InterviewReport = () => {
                                 <div className="text-sm whitespace-pre-line">{qa.answer.codeEvaluation}</div>
                               </div>
                             )}
+                            
+                            {/* Sandbox test results */}
+                            {qa.answer.testResults && qa.answer.testResults.total > 0 && (
+                              <div className="mt-2">
+                                <TestResultsPanel testResults={qa.answer.testResults} />
+                              </div>
+                            )}
                           </div>
                         )}
                         
@@ -843,7 +1173,15 @@ const InterviewReport = () => {
                           </div>
                         )}
                         
-                        {qa.answer.criteria && (
+                        <EvaluationStatusNote
+                          status={qa.answer.evaluationStatus}
+                          error={qa.answer.evaluationError}
+                          progress={evaluationProgress[qa.answer.id]}
+                          onReEvaluate={user?.role === 'admin' ? () => qa.answer && handleReEvaluate(qa.answer.id) : undefined}
+                          isRequesting={reEvaluating === qa.answer.id}
+                        />
+                        
+                        {qa.answer.criteria && qa.answer.evaluationStatus !== 'failed' && (
                           <div>
                             <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
                               <Info size={16} className="mr-1" /> Criteria Breakdown
@@ -856,7 +1194,7 @@ const InterviewReport = () => {
                                 return (
                                   <div key={key} className="p-3 bg-gray-50 rounded-lg">
                                     <div className="text-xs text-gray-500 mb-1">
-                                      {key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
+                                      {getCriterionLabel(key, qa.answer.rubric)}
                                     </div>
                                     <div className="text-lg font-medium">{value} <span className="text-xs">/ 10</span></div>
                                   </div>
@@ -865,6 +1203,69 @@ const InterviewReport = () => {
                             </div>
                           </div>
                         )}
+                        
+                        {qa.followUp && (
+                          <div className="border-l-4 border-blue-200 pl-4 space-y-3">
+                            <h4 className="text-sm font-medium text-gray-700 flex items-center">
+                              <Info size={16} className="mr-1" /> Follow-up Question
+                            </h4>
+                            <p className="font-medium">{qa.followUp.question}</p>
+                            {qa.followUp.answer ? (
+                              <>
+                                <div>
+                                  <span className="text-sm font-medium">
+                                    Score: {evaluationStatusOf(qa.followUp.answer) === 'failed'
+                                      ? 'Evaluation failed'
+                                      : isEvaluationUnderWay(evaluationStatusOf(qa.followUp.answer))
+                                        ? 'Being evaluated'
+                                        : qa.followUp.answer.score !== undefined && qa.followUp.answer.score !== null ? `${qa.followUp.answer.score} / 10` : 'Not evaluated'}
+                                  </span>
+                                </div>
+                                {qa.followUp.answer.textAnswer ? (
+                                  <div className="p-3 bg-gray-50 rounded-lg text-sm whitespace-pre-wrap">
+                                    {qa.followUp.answer.textAnswer}
+                                  </div>
+                                ) : (
+                                  <AnswerPlayback
+                                    answerId={qa.followUp.answer.id}
+                                    audioUrl={getFullAudioUrl(qa.followUp.answer.audioUrl)}
+                                    transcript={qa.followUp.answer.transcript}
+                                    transcriptWords={qa.followUp.answer.transcriptWords}
+                                    onReloadAudio={fetchAnswerAudio}
+                                    onReloadTranscript={handleTranscriptReload}
+                                    onManualEntry={(answerId) => handleManualTranscript(answerId, qa.followUp?.answer?.audioUrl)}
+                                    comments={user?.role === 'admin' ? commentsByAnswer[qa.followUp.answer.id] || [] : undefined}
+                                    onAddComment={handleAddComment}
+                                    onDeleteComment={handleDeleteComment}
+                                  />
+                                )}
+                                {qa.followUp.answer.code && qa.followUp.answer.code.trim() !== '' && (
+                                  <CodeEditor
+                                    initialValue={qa.followUp.answer.code}
+                                    language={qa.followUp.answer.codeLanguage || undefined}
+                                    title="Code Submission"
+                                    height="200px"
+                                    readOnly
+                                  />
+                                )}
+                                {qa.followUp.answer.feedback && (
+                                  <div className="p-4 bg-blue-50 rounded-lg text-sm whitespace-pre-line">
+                                    {qa.followUp.answer.feedback}
+                                  </div>
+                                )}
+                                <EvaluationStatusNote
+                                  status={qa.followUp.answer.evaluationStatus}
+                                  error={qa.followUp.answer.evaluationError}
+                                  progress={evaluationProgress[qa.followUp.answer.id]}
+                                  onReEvaluate={user?.role === 'admin' ? () => qa.followUp?.answer && handleReEvaluate(qa.followUp.answer.id) : undefined}
+                                  isRequesting={reEvaluating === qa.followUp.answer.id}
+                                />
+                              </>
+                            ) : (
+                              <p className="text-sm text-gray-500">The follow-up question was not answered</p>
+                            )}
+                          </div>
+                        )}
                       </div>
                     ) : (
                       <div className="text-center py-6 text-gray-500">
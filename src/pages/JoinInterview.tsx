@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { Button } from '@/components/ui/button';
+import Layout from '@/components/Layout';
+import { useAuth } from '@/context/AuthContext';
+import { emailAPI } from '@/api';
+
+// Landing page of the link in the invitation email. The single-use token in
+// the link is exchanged for a session, then the candidate goes straight to
+// the interview without logging in.
+const JoinInterview: React.FC = () => {
+  const { interviewId } = useParams<{ interviewId: string }>();
+  const [searchParams] = useSearchParams();
+  const { loginWithToken } = useAuth();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  // The token only works once, so it must not be sent twice
+  const requestedRef = useRef(false);
+
+  useEffect(() => {
+    const token = searchParams.get('token');
+    if (!interviewId || !token) {
+      setError('This interview link is incomplete. Please use the link from your invitation email.');
+      return;
+    }
+    if (requestedRef.current) return;
+    requestedRef.current = true;
+
+    const join = async () => {
+      try {
+        const response = await emailAPI.verifyToken(interviewId, token);
+        await loginWithToken(response.data.token);
+        navigate(`/interview/${interviewId}`, { replace: true });
+      } catch (err) {
+        console.error('Error joining interview:', err);
+        setError(axios.isAxiosError(err) && err.response?.data?.message
+          ? err.response.data.message
+          : 'Could not open the interview. Please try the link again later.');
+      }
+    };
+
+    join();
+  }, [interviewId, searchParams, loginWithToken, navigate]);
+
+  return (
+    <Layout>
+      <div className="max-w-md mx-auto text-center py-10">
+        {error ? (
+          <>
+            <h1 className="text-3xl font-bold mb-4">Unable to Join</h1>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <div className="flex justify-center space-x-4">
+              <Button variant="outline" asChild>
+                <Link to="/">Go Home</Link>
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold mb-4">Joining Interview</h1>
+            <p className="text-gray-600">Checking your invitation...</p>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default JoinInterview;
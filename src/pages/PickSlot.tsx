@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import Layout from '@/components/Layout';
+import { schedulingAPI } from '@/api';
+import { formatInTimeZone, getBrowserTimeZone } from '@/lib/timezones';
+
+type Slot = {
+  startsAt: string;
+  endsAt: string;
+};
+
+type SchedulingDetails = {
+  interview: {
+    id: string;
+    role?: string;
+    duration: number;
+  };
+  slots: Slot[];
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) && err.response?.data?.message ? err.response.data.message : fallback;
+
+// Landing page of the link in the "pick your slot" email. The candidate picks
+// one of the interviewer's free slots without logging in; the token in the
+// link authorizes it and works for one booking.
+const PickSlot: React.FC = () => {
+  const { interviewId } = useParams<{ interviewId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const timeZone = getBrowserTimeZone();
+
+  const [details, setDetails] = useState<SchedulingDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Slot | null>(null);
+  const [isBooking, setIsBooking] = useState(false);
+  const [booked, setBooked] = useState<{ startsAt: string; invitationSent: boolean } | null>(null);
+
+  const fetchSlots = async () => {
+    if (!interviewId || !token) {
+      setError('This scheduling link is incomplete. Please use the link from your email.');
+      return;
+    }
+    try {
+      const response = await schedulingAPI.getSlots(interviewId, token);
+      setDetails(response.data.data);
+    } catch (err) {
+      console.error('Error fetching slots:', err);
+      setError(errorMessage(err, 'Could not load the available times. Please try the link again later.'));
+    }
+  };
+
+  useEffect(() => {
+    fetchSlots();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [interviewId, token]);
+
+  // Slots grouped by the day they fall on for the candidate
+  const slotsByDay = useMemo(() => {
+    const days = new Map<string, Slot[]>();
+    (details?.slots || []).forEach(slot => {
+      const day = formatInTimeZone(slot.startsAt, timeZone, { dateStyle: 'full' });
+      days.set(day, [...(days.get(day) || []), slot]);
+    });
+    return Array.from(days.entries());
+  }, [details, timeZone]);
+
+  const handleBook = async () => {
+    if (!interviewId || !token || !selected) return;
+
+    setIsBooking(true);
+    try {
+      const response = await schedulingAPI.bookSlot(interviewId, {
+        token,
+        startsAt: selected.startsAt,
+        candidateTimezone: timeZone
+      });
+      setBooked(response.data.data);
+    } catch (err) {
+      console.error('Error booking slot:', err);
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status === 409) {
+        // Someone else took the slot; show what is still free
+        toast.error(errorMessage(err, 'This slot is no longer available. Please pick another one.'));
+        setSelected(null);
+        await fetchSlots();
+      } else {
+        setError(errorMessage(err, 'Could not book the slot. Please try again later.'));
+      }
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="max-w-md mx-auto text-center py-10">
+          <h1 className="text-3xl font-bold mb-4">Unable to Schedule</h1>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <Button variant="outline" asChild>
+            <Link to="/">Go Home</Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (booked) {
+    return (
+      <Layout>
+        <div className="max-w-md mx-auto text-center py-10">
+          <h1 className="text-3xl font-bold mb-4">You're Booked</h1>
+          <p className="text-gray-600 mb-2">
+            Your interview starts {formatInTimeZone(booked.startsAt, timeZone, { dateStyle: 'full', timeStyle: 'short' })}.
+          </p>
+          <p className="text-gray-600">
+            {booked.invitationSent
+              ? 'We have emailed you the invitation with your interview link.'
+              : 'You will receive the invitation with your interview link by email shortly.'}
+          </p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto py-10">
+        {!details ? (
+          <p className="text-center text-gray-600">Loading available times...</p>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Pick Your Interview Time</CardTitle>
+              <CardDescription>
+                {details.interview.role ? `${details.interview.role} interview, ` : ''}
+                {details.interview.duration} minutes. Times are shown in {timeZone}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {slotsByDay.length === 0 ? (
+                <p className="text-gray-600">
+                  There are no free times right now. Please contact the recruiter.
+                </p>
+              ) : (
+                slotsByDay.map(([day, slots]) => (
+                  <div key={day}>
+                    <p className="font-medium mb-2">{day}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {slots.map(slot => (
+                        <Button
+                          key={slot.startsAt}
+                          variant={selected?.startsAt === slot.startsAt ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setSelected(slot)}
+                        >
+                          {formatInTimeZone(slot.startsAt, timeZone, { timeStyle: 'short' })}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+
+              {selected && (
+                <div className="flex items-center justify-between border-t pt-4">
+                  <p className="text-sm">
+                    {formatInTimeZone(selected.startsAt, timeZone, { dateStyle: 'medium', timeStyle: 'short' })}
+                  </p>
+                  <Button onClick={handleBook} disabled={isBooking}>
+                    {isBooking ? 'Booking...' : 'Confirm Time'}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default PickSlot;
@@ -1,6 +1,8 @@
 import React from 'react';
 import { useAuth } from '@/context/AuthContext';
 import RoleManager from '@/components/RoleManager';
+import RubricManager from '@/components/RubricManager';
+import InterviewTemplateManager from '@/components/InterviewTemplateManager';
 import Layout from '@/components/Layout';
 
 const RoleManagement = () => {
@@ -29,6 +31,20 @@ const RoleManagement = () => {
           When scheduling an interview, candidates will be assigned a role and will receive questions based on the tech stacks associated with that role.
         </p>
         <RoleManager />
+        
+        <h2 className="text-2xl font-bold mt-12 mb-4">Scoring Rubrics</h2>
+        <p className="text-muted-foreground mb-8">
+          Rubrics define the criteria answers are scored on and their weights. Answers use their tech stack's rubric,
+          then their role's rubric, and otherwise the default rubric (technical accuracy, completeness, clarity and examples).
+        </p>
+        <RubricManager />
+
+        <h2 className="text-2xl font-bold mt-12 mb-4">Interview Templates</h2>
+        <p className="text-muted-foreground mb-8">
+          Templates fix the question set for a role: how many questions come from each tech stack, the difficulty mix,
+          which questions are always asked and in what order. Every candidate scheduled with a template gets a comparable interview.
+        </p>
+        <InterviewTemplateManager />
       </div>
     </Layout>
   );